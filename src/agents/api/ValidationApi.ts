@@ -0,0 +1,295 @@
+/**
+ * Validation API - Serve the Supervisor over HTTP
+ *
+ * createValidationHandler() turns a Supervisor factory into a fetch-style
+ * request handler (Request in, Response out) that runs the same in a Supabase
+ * edge function, Deno.serve or any server with web-standard requests, so
+ * provider keys stay on the server.
+ *
+ *   POST { phoneNumber, country?, ... }             → ValidationResult JSON
+ *   POST same, Accept: text/event-stream            → agent events, then the result
+ *   POST { requests: [...], concurrency? }          → batch progress, items, summary
+ *
+ * Streams are server-sent events; ValidationApiClient reads them back.
+ */
+
+import { MAX_BATCH_CONCURRENCY, type BatchOptions, type Supervisor, type ValidationRequest } from '../supervisor/Supervisor';
+import type { AgentEvent, BatchItemResult, BatchSummary, ValidationResult } from '../types';
+
+export interface BatchApiRequest {
+  requests: ValidationRequest[];
+  concurrency?: number; // Clamped to MAX_BATCH_CONCURRENCY and the batch size
+}
+
+/**
+ * Server-sent events the API streams, by event name
+ */
+export interface ValidationApiEvents {
+  agent: AgentEvent;
+  done: ValidationResult;
+  progress: { index: number; phase: string };
+  item: BatchItemResult;
+  summary: BatchSummary;
+  failed: { error: string };
+}
+
+export type ValidationApiEvent = {
+  [K in keyof ValidationApiEvents]: { event: K; data: ValidationApiEvents[K] };
+}[keyof ValidationApiEvents];
+
+export interface ValidationHandlerOptions {
+  /**
+   * Supervisor for one HTTP request; a new one per request, since a
+   * Supervisor runs one validation at a time
+   */
+  createSupervisor: (req: Request) => Supervisor | Promise<Supervisor>;
+  headers?: Record<string, string>; // Added to every response, e.g. CORS
+  maxBatchSize?: number;
+}
+
+export const DEFAULT_MAX_BATCH_SIZE = 500;
+
+const EVENT_STREAM = 'text/event-stream';
+
+export class RequestValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RequestValidationError';
+  }
+}
+
+/**
+ * Request body → validation request(s), rejecting anything malformed
+ */
+export function parseApiRequest(
+  body: unknown,
+  maxBatchSize = DEFAULT_MAX_BATCH_SIZE
+): ValidationRequest | BatchApiRequest {
+  if (!isObject(body)) {
+    throw new RequestValidationError('Request body must be a JSON object');
+  }
+
+  if (!('requests' in body)) {
+    return parseValidationRequest(body);
+  }
+
+  const { requests, concurrency } = body;
+  if (!Array.isArray(requests) || requests.length === 0) {
+    throw new RequestValidationError('requests must be a non-empty array');
+  }
+  if (requests.length > maxBatchSize) {
+    throw new RequestValidationError(`A batch holds at most ${maxBatchSize} requests`);
+  }
+  if (concurrency !== undefined && (typeof concurrency !== 'number' || concurrency < 1)) {
+    throw new RequestValidationError('concurrency must be a positive number');
+  }
+
+  return {
+    requests: requests.map((request, index) => {
+      try {
+        return parseValidationRequest(request);
+      } catch (error) {
+        throw new RequestValidationError(`requests[${index}]: ${(error as Error).message}`);
+      }
+    }),
+    concurrency: concurrency === undefined
+      ? undefined
+      : Math.min(Math.floor(concurrency as number), MAX_BATCH_CONCURRENCY, requests.length)
+  };
+}
+
+function parseValidationRequest(value: unknown): ValidationRequest {
+  if (!isObject(value)) {
+    throw new RequestValidationError('Each request must be a JSON object');
+  }
+
+  const { phoneNumber, country, forceRefresh, userPreferences } = value;
+  if (typeof phoneNumber !== 'string' || phoneNumber.trim() === '') {
+    throw new RequestValidationError('phoneNumber is required');
+  }
+  if (country !== undefined && typeof country !== 'string') {
+    throw new RequestValidationError('country must be a string');
+  }
+  if (forceRefresh !== undefined && typeof forceRefresh !== 'boolean') {
+    throw new RequestValidationError('forceRefresh must be a boolean');
+  }
+  if (userPreferences !== undefined && !isObject(userPreferences)) {
+    throw new RequestValidationError('userPreferences must be an object');
+  }
+
+  // Copy only known fields so nothing else reaches the Supervisor
+  const request: ValidationRequest = { phoneNumber };
+  if (typeof country === 'string') request.country = country;
+  if (typeof forceRefresh === 'boolean') request.forceRefresh = forceRefresh;
+  if (isObject(userPreferences)) {
+    const { maxCost, prioritizeSpeed } = userPreferences;
+    request.userPreferences = {
+      maxCost: typeof maxCost === 'number' ? maxCost : undefined,
+      prioritizeSpeed: typeof prioritizeSpeed === 'boolean' ? prioritizeSpeed : undefined
+    };
+  }
+  return request;
+}
+
+export function createValidationHandler(options: ValidationHandlerOptions): (req: Request) => Promise<Response> {
+  const headers = options.headers ?? {};
+
+  const json = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), {
+      status,
+      headers: { ...headers, 'Content-Type': 'application/json' }
+    });
+
+  return async req => {
+    if (req.method === 'OPTIONS') {
+      return new Response('ok', { headers });
+    }
+    if (req.method !== 'POST') {
+      return json({ error: 'Method not allowed' }, 405);
+    }
+
+    let parsed: ValidationRequest | BatchApiRequest;
+    try {
+      parsed = parseApiRequest(await req.json(), options.maxBatchSize);
+    } catch (error) {
+      const message = error instanceof RequestValidationError ? error.message : 'Request body must be valid JSON';
+      return json({ error: message }, 400);
+    }
+
+    let supervisor: Supervisor;
+    try {
+      supervisor = await options.createSupervisor(req);
+    } catch (error) {
+      return json({ error: errorMessage(error) }, 500);
+    }
+
+    if ('requests' in parsed) {
+      return eventStream(headers, send => streamBatch(supervisor, parsed as BatchApiRequest, send));
+    }
+    if (req.headers.get('Accept')?.includes(EVENT_STREAM)) {
+      return eventStream(headers, send => streamValidation(supervisor, parsed as ValidationRequest, send));
+    }
+
+    try {
+      return json(await supervisor.validate(parsed));
+    } catch (error) {
+      return json({ error: errorMessage(error) }, 500);
+    }
+  };
+}
+
+type Send = (event: ValidationApiEvent) => void;
+
+async function streamValidation(supervisor: Supervisor, request: ValidationRequest, send: Send): Promise<void> {
+  const events = supervisor.stream(request);
+  let next = await events.next();
+  while (!next.done) {
+    send({ event: 'agent', data: next.value as AgentEvent });
+    next = await events.next();
+  }
+  send({ event: 'done', data: next.value as ValidationResult });
+}
+
+async function streamBatch(supervisor: Supervisor, batch: BatchApiRequest, send: Send): Promise<void> {
+  const options: BatchOptions = {
+    concurrency: batch.concurrency,
+    onProgress: (index, phase) => send({ event: 'progress', data: { index, phase } })
+  };
+
+  const items = supervisor.validateBatch(batch.requests, options);
+  let next = await items.next();
+  while (!next.done) {
+    send({ event: 'item', data: next.value as BatchItemResult });
+    next = await items.next();
+  }
+  send({ event: 'summary', data: next.value as BatchSummary });
+}
+
+/**
+ * Response streaming whatever the task sends; a failing task ends the
+ * stream with a `failed` event, since the status line has already gone out
+ */
+function eventStream(headers: Record<string, string>, task: (send: Send) => Promise<void>): Response {
+  const encoder = new TextEncoder();
+  let closed = false;
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send: Send = event => {
+        if (!closed) controller.enqueue(encoder.encode(encodeServerEvent(event)));
+      };
+
+      try {
+        await task(send);
+      } catch (error) {
+        send({ event: 'failed', data: { error: errorMessage(error) } });
+      }
+      closed = true;
+      controller.close();
+    },
+    cancel() {
+      closed = true; // Client went away; the validation still finishes and is audited
+    }
+  });
+
+  return new Response(body, {
+    headers: { ...headers, 'Content-Type': EVENT_STREAM, 'Cache-Control': 'no-cache' }
+  });
+}
+
+export function encodeServerEvent({ event, data }: ValidationApiEvent): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * Parse a server-sent event stream into the API's events
+ */
+export async function* readServerEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<ValidationApiEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let finished = false;
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      finished = done;
+      buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+      let boundary = buffer.indexOf('\n\n');
+      while (boundary !== -1) {
+        const event = parseServerEvent(buffer.slice(0, boundary));
+        buffer = buffer.slice(boundary + 2);
+        if (event) yield event;
+        boundary = buffer.indexOf('\n\n');
+      }
+
+      if (done) return;
+    }
+  } finally {
+    // Stopped early (e.g. a cancelled batch): close the connection
+    if (!finished) await reader.cancel().catch(() => {});
+    reader.releaseLock();
+  }
+}
+
+function parseServerEvent(block: string): ValidationApiEvent | null {
+  let event = 'message';
+  const data: string[] = [];
+
+  block.split('\n').forEach(line => {
+    if (line.startsWith('event:')) event = line.slice(6).trim();
+    else if (line.startsWith('data:')) data.push(line.slice(5).trimStart());
+  });
+
+  if (data.length === 0) return null;
+  return { event, data: JSON.parse(data.join('\n')) } as ValidationApiEvent;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : 'Unknown error';
+}
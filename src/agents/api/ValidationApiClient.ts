@@ -0,0 +1,156 @@
+/**
+ * Validation API Client - Call a Supervisor served by createValidationHandler
+ *
+ * Mirrors the Supervisor's entry points (validate, stream, validateBatch) so
+ * browser code can switch from a local Supervisor to the server without
+ * changing how it consumes results and agent events.
+ */
+
+import { fetchTransport, type HttpTransport } from '../core/Dependencies';
+import type { BatchOptions, ValidationRequest } from '../supervisor/Supervisor';
+import type { AgentEvent, BatchItemResult, BatchSummary, ValidationResult } from '../types';
+import {
+  DEFAULT_MAX_BATCH_SIZE,
+  readServerEvents,
+  type BatchApiRequest,
+  type ValidationApiEvent
+} from './ValidationApi';
+
+export interface ValidationApiClientConfig {
+  url: string; // Endpoint, e.g. https://<project>.supabase.co/functions/v1/validate-number
+  headers?: () => Record<string, string> | Promise<Record<string, string>>; // Per call, e.g. a fresh access token
+  http?: HttpTransport;
+  maxBatchSize?: number; // Requests per batch call; must not exceed the server's (default DEFAULT_MAX_BATCH_SIZE)
+}
+
+export class ValidationApiError extends Error {
+  constructor(message: string, readonly status?: number) {
+    super(message);
+    this.name = 'ValidationApiError';
+  }
+}
+
+export class ValidationApiClient {
+  private http: HttpTransport;
+
+  constructor(private config: ValidationApiClientConfig) {
+    this.http = config.http ?? fetchTransport;
+  }
+
+  async validate(request: ValidationRequest): Promise<ValidationResult> {
+    const response = await this.post(request, 'application/json');
+    return response.json();
+  }
+
+  /**
+   * Validate one number, yielding agent events as the server emits them.
+   * The generator returns the ValidationResult.
+   */
+  async *stream(request: ValidationRequest): AsyncGenerator<AgentEvent, ValidationResult, undefined> {
+    for await (const event of this.events(request)) {
+      switch (event.event) {
+        case 'agent':
+          yield event.data;
+          break;
+        case 'done':
+          return event.data;
+        case 'failed':
+          throw new ValidationApiError(event.data.error);
+      }
+    }
+    throw new ValidationApiError('Validation stream ended without a result');
+  }
+
+  /**
+   * Validate many numbers on the server; items arrive in completion order and
+   * the generator returns the batch summary, like Supervisor.validateBatch.
+   * Batches larger than maxBatchSize go to the server one chunk after another,
+   * with indexes and the summary covering the whole batch.
+   */
+  async *validateBatch(
+    requests: ValidationRequest[],
+    options: BatchOptions = {}
+  ): AsyncGenerator<BatchItemResult, BatchSummary, undefined> {
+    const chunkSize = Math.max(1, this.config.maxBatchSize ?? DEFAULT_MAX_BATCH_SIZE);
+    let summary: BatchSummary | undefined;
+
+    for (let offset = 0; offset < requests.length; offset += chunkSize) {
+      const chunk = requests.slice(offset, offset + chunkSize);
+      const chunkSummary = yield* this.validateChunk(chunk, offset, options);
+      summary = summary ? addSummaries(summary, chunkSummary) : chunkSummary;
+    }
+
+    if (!summary) {
+      throw new ValidationApiError('A batch needs at least one request');
+    }
+    return summary;
+  }
+
+  private async *validateChunk(
+    requests: ValidationRequest[],
+    offset: number,
+    options: BatchOptions
+  ): AsyncGenerator<BatchItemResult, BatchSummary, undefined> {
+    const batch: BatchApiRequest = { requests, concurrency: options.concurrency };
+
+    for await (const event of this.events(batch)) {
+      switch (event.event) {
+        case 'progress':
+          options.onProgress?.(offset + event.data.index, event.data.phase);
+          break;
+        case 'item':
+          yield { ...event.data, index: offset + event.data.index };
+          break;
+        case 'summary':
+          return event.data;
+        case 'failed':
+          throw new ValidationApiError(event.data.error);
+      }
+    }
+    throw new ValidationApiError('Batch stream ended without a summary');
+  }
+
+  private async *events(body: ValidationRequest | BatchApiRequest): AsyncGenerator<ValidationApiEvent> {
+    const response = await this.post(body, 'text/event-stream');
+    if (!response.body) {
+      throw new ValidationApiError('Validation API returned an empty stream', response.status);
+    }
+    yield* readServerEvents(response.body);
+  }
+
+  private async post(body: ValidationRequest | BatchApiRequest, accept: string): Promise<Response> {
+    const headers = {
+      ...(await this.config.headers?.()),
+      'Content-Type': 'application/json',
+      Accept: accept
+    };
+    const response = await this.http(this.config.url, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(body)
+    });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => null);
+      throw new ValidationApiError(
+        error?.error ?? `Validation API error: ${response.status} ${response.statusText}`,
+        response.status
+      );
+    }
+    return response;
+  }
+}
+
+function addSummaries(a: BatchSummary, b: BatchSummary): BatchSummary {
+  return {
+    total: a.total + b.total,
+    succeeded: a.succeeded + b.succeeded,
+    failed: a.failed + b.failed,
+    valid: a.valid + b.valid,
+    invalid: a.invalid + b.invalid,
+    whatsapp: a.whatsapp + b.whatsapp,
+    inactive: a.inactive + b.inactive,
+    totalCost: a.totalCost + b.totalCost,
+    totalExecutionTime: a.totalExecutionTime + b.totalExecutionTime // Chunks run one after another
+  };
+}
@@ -0,0 +1,105 @@
+/**
+ * Validation Summary - The flat result and log lines the UI and the
+ * validate-phone edge function show
+ *
+ * Both entry points derive them from the Supervisor's ValidationResult and
+ * AgentEvents with these functions, so the same number gets the same answer
+ * whichever one validated it.
+ */
+
+import type { AgentEvent, AgentRole, ValidationResult } from '../types';
+
+export type WhatsAppStatus = 'verified' | 'not_found' | 'unchecked' | 'checking';
+
+export interface ValidationSummary {
+  phoneNumber: string;
+  countryCode: string;
+  countryName: string;
+  carrier: string;
+  lineType: ValidationResult['validation']['lineType'];
+  isValid: boolean;
+  whatsappStatus: WhatsAppStatus;
+  confidenceScore: number;
+  costSaved: number; // USD the plan estimated but did not spend
+  validationTime: number; // ms
+  retryCount: number;
+}
+
+export type AgentLogStatus = 'info' | 'success' | 'warning' | 'error' | 'thinking';
+
+/**
+ * One terminal line for an agent event
+ */
+export interface AgentLogLine {
+  agent: AgentRole | 'orchestrator';
+  message: string;
+  status: AgentLogStatus;
+}
+
+/**
+ * WhatsApp status from a result: checked, deliberately skipped, or not found
+ */
+export function getWhatsAppStatus(result: ValidationResult): WhatsAppStatus {
+  if (result.whatsapp) {
+    return result.whatsapp.exists ? 'verified' : 'not_found';
+  }
+
+  if (result.executionPlan.skipWhatsApp || result.validation.lineType !== 'mobile') {
+    return 'unchecked';
+  }
+
+  return 'not_found';
+}
+
+export function summarizeValidation(result: ValidationResult): ValidationSummary {
+  const estimated = result.cost?.estimated ?? result.executionPlan.estimatedCost;
+  const actual = result.cost?.actual ?? estimated;
+
+  return {
+    phoneNumber: result.validation.phoneNumber,
+    countryCode: result.validation.countryCode,
+    countryName: result.validation.countryName,
+    carrier: result.validation.carrier || 'Unknown',
+    lineType: result.validation.lineType,
+    isValid: result.validation.valid,
+    whatsappStatus: getWhatsAppStatus(result),
+    confidenceScore: result.confidence.score,
+    costSaved: Math.max(0, estimated - actual),
+    validationTime: result.totalExecutionTime,
+    retryCount: result.chainOfExecution.filter(entry => entry.includes('Retry')).length
+  };
+}
+
+/**
+ * Log line for an event; status changes and plan steps that ran have none
+ */
+export function toAgentLogLine(event: AgentEvent): AgentLogLine | null {
+  switch (event.type) {
+    case 'thought':
+      return { agent: event.agent, message: event.message, status: 'thinking' };
+    case 'action':
+      return { agent: event.agent, message: event.message, status: 'info' };
+    case 'tool_call':
+      return {
+        agent: event.agent,
+        message: `Calling ${event.tool}${event.attempt === 'retry' ? ' (retry)' : ''}...`,
+        status: 'info'
+      };
+    case 'tool_result':
+      return {
+        agent: event.agent,
+        message: event.success
+          ? `${event.tool} responded in ${event.durationMs}ms`
+          : `${event.tool} failed after ${event.durationMs}ms: ${event.error ?? 'Unknown error'}`,
+        status: event.success ? 'success' : 'error'
+      };
+    case 'phase':
+      return { agent: 'orchestrator', message: event.phase, status: 'info' };
+    case 'step':
+      return event.step.status === 'skipped'
+        ? { agent: event.step.agent, message: `Skipped ${event.step.action}: ${event.step.reason}`, status: 'warning' }
+        : null;
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,142 @@
+/**
+ * Supabase Validation Audit Log - validation_sessions table backend
+ *
+ * See supabase/migrations/20261020_create_validation_sessions.sql for the
+ * schema. Only the service role writes rows, so the edge functions pass the
+ * verified caller as userId; RLS then only returns each user's own
+ * validations to them. Stats come from the validation_session_stats view,
+ * which runs with the caller's permissions.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  DEFAULT_AUDIT_LIMIT,
+  type AuditFilter,
+  type AuditStats,
+  type ValidationAuditEntry,
+  type ValidationAuditLog
+} from './ValidationAuditLog';
+
+const TABLE = 'validation_sessions';
+const STATS_VIEW = 'validation_session_stats';
+
+export interface SupabaseAuditLogOptions {
+  /**
+   * Owner written to user_id; null for anonymous callers. Leave undefined
+   * when only reading.
+   */
+  userId?: string | null;
+}
+
+interface AuditRow {
+  id?: string;
+  session_id: string;
+  user_id?: string | null;
+  phone_number: string;
+  request: ValidationAuditEntry['request'];
+  status: ValidationAuditEntry['status'];
+  error_message: string | null;
+  valid: boolean | null;
+  country_code: string | null;
+  line_type: string | null;
+  whatsapp_exists: boolean | null;
+  confidence_score: number | null;
+  model_version: string | null;
+  execution_plan: ValidationAuditEntry['plan'] | null;
+  agent_runs: ValidationAuditEntry['agentRuns'];
+  result: ValidationAuditEntry['result'] | null;
+  total_cost: number;
+  execution_time_ms: number;
+  created_at: string;
+}
+
+export class SupabaseValidationAuditLog implements ValidationAuditLog {
+  constructor(private client: SupabaseClient, private options: SupabaseAuditLogOptions = {}) {}
+
+  async record(entry: ValidationAuditEntry): Promise<void> {
+    const { error } = await this.client.from(TABLE).insert(this.toRow(entry));
+    if (error) throw new Error(`Audit write failed: ${error.message}`);
+  }
+
+  async list(filter: AuditFilter = {}): Promise<ValidationAuditEntry[]> {
+    let query = this.client
+      .from(TABLE)
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(filter.limit ?? DEFAULT_AUDIT_LIMIT);
+
+    if (filter.phoneNumber) {
+      query = query.ilike('phone_number', `%${filter.phoneNumber.replace(/[^\d+]/g, '')}%`);
+    }
+    if (filter.outcome === 'failed') {
+      query = query.eq('status', 'failed');
+    } else if (filter.outcome) {
+      query = query.eq('status', 'complete').eq('valid', filter.outcome === 'valid');
+    }
+    if (filter.countryCode) query = query.eq('country_code', filter.countryCode.toUpperCase());
+    if (filter.lineType) query = query.eq('line_type', filter.lineType);
+    if (filter.whatsapp !== undefined) query = query.eq('whatsapp_exists', filter.whatsapp);
+    if (filter.minConfidence !== undefined) query = query.gte('confidence_score', filter.minConfidence);
+    if (filter.maxConfidence !== undefined) query = query.lte('confidence_score', filter.maxConfidence);
+    if (filter.since !== undefined) query = query.gte('created_at', new Date(filter.since).toISOString());
+    if (filter.until !== undefined) query = query.lte('created_at', new Date(filter.until).toISOString());
+
+    const { data, error } = await query;
+    if (error) throw new Error(`Audit read failed: ${error.message}`);
+    return (data as AuditRow[]).map(row => this.fromRow(row));
+  }
+
+  async stats(): Promise<AuditStats> {
+    const { data, error } = await this.client.from(STATS_VIEW).select('*').maybeSingle();
+    if (error) throw new Error(`Audit stats failed: ${error.message}`);
+
+    const total = Number(data?.total_validations ?? 0);
+    return {
+      totalValidations: total,
+      successRate: total > 0 ? (Number(data.completed_validations) / total) * 100 : 0,
+      avgResponseTime: Number(data?.avg_response_time_ms ?? 0),
+      totalSaved: Number(data?.total_saved ?? 0)
+    };
+  }
+
+  private fromRow(row: AuditRow): ValidationAuditEntry {
+    return {
+      id: row.id,
+      sessionId: row.session_id,
+      createdAt: Date.parse(row.created_at),
+      request: row.request,
+      phoneNumber: row.phone_number,
+      status: row.status,
+      error: row.error_message ?? undefined,
+      plan: row.execution_plan ?? undefined,
+      agentRuns: row.agent_runs ?? [],
+      result: row.result ?? undefined,
+      totalCost: Number(row.total_cost),
+      executionTimeMs: row.execution_time_ms
+    };
+  }
+
+  private toRow(entry: ValidationAuditEntry): AuditRow {
+    const { result } = entry;
+    return {
+      session_id: entry.sessionId,
+      ...(this.options.userId !== undefined && { user_id: this.options.userId }),
+      phone_number: entry.phoneNumber,
+      request: entry.request,
+      status: entry.status,
+      error_message: entry.error ?? null,
+      valid: result?.validation.valid ?? null,
+      country_code: result?.validation.countryCode ?? null,
+      line_type: result?.validation.lineType ?? null,
+      whatsapp_exists: result?.whatsapp?.exists ?? null,
+      confidence_score: result ? Math.round(result.confidence.score) : null,
+      model_version: result?.confidence.modelVersion ?? null,
+      execution_plan: entry.plan ?? null,
+      agent_runs: entry.agentRuns,
+      result: result ?? null,
+      total_cost: entry.totalCost,
+      execution_time_ms: Math.round(entry.executionTimeMs),
+      created_at: new Date(entry.createdAt).toISOString()
+    };
+  }
+}
@@ -0,0 +1,136 @@
+/**
+ * Validation Audit Log - Durable record of every validation a Supervisor runs
+ *
+ * One entry per validate() call, successful or not: the request, the
+ * execution plan, each agent call's AgentResponse metadata, the final result
+ * (with its confidence breakdown, cost and step timings) or the error.
+ * Production writes to the validation_sessions table (see
+ * SupabaseValidationAuditLog); the in-memory log backs tests and demos.
+ */
+
+import type { ValidationRequest } from '../supervisor/Supervisor';
+import type { AgentRun, ExecutionPlan, ValidationData, ValidationResult } from '../types';
+
+export type AuditStatus = 'complete' | 'failed';
+
+export interface ValidationAuditEntry {
+  id?: string; // Assigned by the log
+  sessionId: string;
+  createdAt: number;
+  request: ValidationRequest;
+  phoneNumber: string; // E.164 when the number could be parsed
+  status: AuditStatus;
+  error?: string;
+  plan?: ExecutionPlan;
+  agentRuns: AgentRun[];
+  result?: ValidationResult;
+  totalCost: number;
+  executionTimeMs: number;
+}
+
+export type AuditOutcome = 'valid' | 'invalid' | 'failed';
+
+export interface AuditFilter {
+  phoneNumber?: string; // Substring of the E.164 number
+  outcome?: AuditOutcome;
+  // Filters on the result; failed validations never match them
+  countryCode?: string; // ISO 3166-1 alpha-2, e.g. 'US'
+  lineType?: ValidationData['lineType'];
+  whatsapp?: boolean; // Found on WhatsApp or not
+  minConfidence?: number;
+  maxConfidence?: number;
+  since?: number; // Epoch ms, inclusive
+  until?: number; // Epoch ms, inclusive
+  limit?: number; // Most recent first (default 100)
+}
+
+/**
+ * Aggregates over every logged validation
+ */
+export interface AuditStats {
+  totalValidations: number;
+  successRate: number; // Percentage of validations that completed
+  avgResponseTime: number; // ms
+  totalSaved: number; // USD the plans' estimates exceeded actual spend by (cache hits, skipped steps)
+}
+
+export interface ValidationAuditLog {
+  record(entry: ValidationAuditEntry): Promise<void>;
+  /**
+   * Entries matching the filter, most recent first
+   */
+  list(filter?: AuditFilter): Promise<ValidationAuditEntry[]>;
+  stats(): Promise<AuditStats>;
+}
+
+export const DEFAULT_AUDIT_LIMIT = 100;
+
+/**
+ * Outcome of an entry: failed runs, then the validation's verdict
+ */
+export function auditOutcome(entry: ValidationAuditEntry): AuditOutcome {
+  if (entry.status === 'failed' || !entry.result) return 'failed';
+  return entry.result.validation.valid ? 'valid' : 'invalid';
+}
+
+export function matchesAuditFilter(entry: ValidationAuditEntry, filter: AuditFilter): boolean {
+  if (filter.phoneNumber && !entry.phoneNumber.includes(filter.phoneNumber.replace(/[^\d+]/g, ''))) {
+    return false;
+  }
+  if (filter.outcome && auditOutcome(entry) !== filter.outcome) return false;
+  if (filter.since !== undefined && entry.createdAt < filter.since) return false;
+  if (filter.until !== undefined && entry.createdAt > filter.until) return false;
+
+  const { countryCode, lineType, whatsapp, minConfidence, maxConfidence } = filter;
+  const filtersResult = [countryCode, lineType, whatsapp, minConfidence, maxConfidence].some(value => value !== undefined);
+  if (!filtersResult) return true;
+
+  const { result } = entry;
+  if (!result) return false;
+  if (countryCode && result.validation.countryCode.toUpperCase() !== countryCode.toUpperCase()) return false;
+  if (lineType && result.validation.lineType !== lineType) return false;
+  if (whatsapp !== undefined && (result.whatsapp?.exists ?? false) !== whatsapp) return false;
+  if (minConfidence !== undefined && result.confidence.score < minConfidence) return false;
+  return maxConfidence === undefined || result.confidence.score <= maxConfidence;
+}
+
+export function summarizeAudit(entries: ValidationAuditEntry[]): AuditStats {
+  if (entries.length === 0) {
+    return { totalValidations: 0, successRate: 0, avgResponseTime: 0, totalSaved: 0 };
+  }
+
+  const completed = entries.filter(entry => entry.status === 'complete');
+  const totalTime = entries.reduce((sum, entry) => sum + entry.executionTimeMs, 0);
+  const totalSaved = completed.reduce(
+    (sum, entry) => sum + Math.max(0, (entry.result?.cost?.estimated ?? 0) - entry.totalCost),
+    0
+  );
+
+  return {
+    totalValidations: entries.length,
+    successRate: (completed.length / entries.length) * 100,
+    avgResponseTime: Math.round(totalTime / entries.length),
+    totalSaved
+  };
+}
+
+export class InMemoryValidationAuditLog implements ValidationAuditLog {
+  private entries: ValidationAuditEntry[] = [];
+  private nextId = 1;
+
+  async record(entry: ValidationAuditEntry): Promise<void> {
+    this.entries.push({ ...entry, id: entry.id ?? String(this.nextId++) });
+  }
+
+  async list(filter: AuditFilter = {}): Promise<ValidationAuditEntry[]> {
+    return [...this.entries]
+      .reverse() // Newest first among entries recorded at the same time
+      .filter(entry => matchesAuditFilter(entry, filter))
+      .sort((a, b) => b.createdAt - a.createdAt)
+      .slice(0, filter.limit ?? DEFAULT_AUDIT_LIMIT);
+  }
+
+  async stats(): Promise<AuditStats> {
+    return summarizeAudit(this.entries);
+  }
+}
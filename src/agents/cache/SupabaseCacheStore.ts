@@ -0,0 +1,82 @@
+/**
+ * Supabase Cache Store - validation_cache table backend for ValidationCache
+ *
+ * See supabase/migrations/20260212_create_validation_cache.sql for the schema.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { CacheEntry, CacheStore } from './ValidationCache';
+
+const TABLE = 'validation_cache';
+
+interface CacheRow {
+  phone_e164: string;
+  validation: CacheEntry['validation'] | null;
+  validation_cached_at: string | null;
+  whatsapp: CacheEntry['whatsapp'] | null;
+  inactivity: CacheEntry['inactivity'] | null;
+  presence_cached_at: string | null;
+}
+
+export class SupabaseCacheStore implements CacheStore {
+  constructor(private client: SupabaseClient) {}
+
+  async get(phoneNumber: string): Promise<CacheEntry | undefined> {
+    const { data, error } = await this.client
+      .from(TABLE)
+      .select('*')
+      .eq('phone_e164', phoneNumber)
+      .maybeSingle();
+
+    if (error) throw new Error(`Cache read failed: ${error.message}`);
+    return data ? this.fromRow(data as CacheRow) : undefined;
+  }
+
+  async set(entry: CacheEntry): Promise<void> {
+    const { error } = await this.client
+      .from(TABLE)
+      .upsert(this.toRow(entry), { onConflict: 'phone_e164' });
+
+    if (error) throw new Error(`Cache write failed: ${error.message}`);
+  }
+
+  async delete(phoneNumber: string): Promise<void> {
+    const { error } = await this.client
+      .from(TABLE)
+      .delete()
+      .eq('phone_e164', phoneNumber);
+
+    if (error) throw new Error(`Cache delete failed: ${error.message}`);
+  }
+
+  async clear(): Promise<void> {
+    const { error } = await this.client
+      .from(TABLE)
+      .delete()
+      .neq('phone_e164', '');
+
+    if (error) throw new Error(`Cache clear failed: ${error.message}`);
+  }
+
+  private fromRow(row: CacheRow): CacheEntry {
+    return {
+      phoneNumber: row.phone_e164,
+      validation: row.validation ?? undefined,
+      validationCachedAt: row.validation_cached_at ? Date.parse(row.validation_cached_at) : undefined,
+      whatsapp: row.whatsapp ?? undefined,
+      inactivity: row.inactivity ?? undefined,
+      presenceCachedAt: row.presence_cached_at ? Date.parse(row.presence_cached_at) : undefined
+    };
+  }
+
+  private toRow(entry: CacheEntry): CacheRow {
+    return {
+      phone_e164: entry.phoneNumber,
+      validation: entry.validation ?? null,
+      validation_cached_at: entry.validationCachedAt ? new Date(entry.validationCachedAt).toISOString() : null,
+      whatsapp: entry.whatsapp ?? null,
+      inactivity: entry.inactivity ?? null,
+      presence_cached_at: entry.presenceCachedAt ? new Date(entry.presenceCachedAt).toISOString() : null
+    };
+  }
+}
@@ -0,0 +1,175 @@
+/**
+ * Validation Cache - Reuse recent lookups instead of re-billing providers
+ *
+ * Entries are keyed by E.164 number and hold two independently expiring parts:
+ * - line data (validity, carrier, line type) changes rarely (porting)
+ * - presence data (WhatsApp, inactivity) goes stale within a day
+ *
+ * Storage is pluggable: an in-memory LRU by default, or a Supabase table
+ * (see SupabaseCacheStore) to share the cache across sessions.
+ */
+
+import { systemClock, type Clock } from '../core/Dependencies';
+import type { ValidationData, WhatsAppData, InactivityStatus } from '../types';
+
+export interface CacheEntry {
+  phoneNumber: string; // E.164
+  validation?: ValidationData;
+  validationCachedAt?: number;
+  whatsapp?: WhatsAppData;
+  inactivity?: InactivityStatus;
+  presenceCachedAt?: number;
+}
+
+export interface CacheStore {
+  get(phoneNumber: string): Promise<CacheEntry | undefined>;
+  set(entry: CacheEntry): Promise<void>;
+  delete(phoneNumber: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+export interface CacheLookup {
+  validation?: ValidationData;
+  validationAge?: number; // ms
+  whatsapp?: WhatsAppData;
+  inactivity?: InactivityStatus;
+  presenceAge?: number; // ms
+}
+
+export interface ValidationCacheConfig {
+  store?: CacheStore;
+  validationTtlMs?: number; // Carrier / line type data (default 30 days)
+  presenceTtlMs?: number; // WhatsApp / inactivity data (default 24 hours)
+  clock?: Clock; // Stamps entries and ages them against the TTLs
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_MAX_ENTRIES = 1000;
+
+/**
+ * In-memory LRU store (Map keeps insertion order; reads move entries to the end)
+ */
+export class MemoryCacheStore implements CacheStore {
+  private entries = new Map<string, CacheEntry>();
+
+  constructor(private maxEntries: number = DEFAULT_MAX_ENTRIES) {}
+
+  async get(phoneNumber: string): Promise<CacheEntry | undefined> {
+    const entry = this.entries.get(phoneNumber);
+    if (entry) {
+      this.entries.delete(phoneNumber);
+      this.entries.set(phoneNumber, entry);
+    }
+    return entry;
+  }
+
+  async set(entry: CacheEntry): Promise<void> {
+    this.entries.delete(entry.phoneNumber);
+    this.entries.set(entry.phoneNumber, entry);
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  async delete(phoneNumber: string): Promise<void> {
+    this.entries.delete(phoneNumber);
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+}
+
+export class ValidationCache {
+  private store: CacheStore;
+  private validationTtlMs: number;
+  private presenceTtlMs: number;
+  private clock: Clock;
+
+  constructor(config: ValidationCacheConfig = {}) {
+    this.store = config.store ?? new MemoryCacheStore();
+    this.validationTtlMs = config.validationTtlMs ?? 30 * DAY_MS;
+    this.presenceTtlMs = config.presenceTtlMs ?? DAY_MS;
+    this.clock = config.clock ?? systemClock;
+  }
+
+  /**
+   * Fresh cached parts for a number; expired parts are left out
+   */
+  async lookup(phoneNumber: string): Promise<CacheLookup> {
+    const entry = await this.store.get(phoneNumber);
+    if (!entry) return {};
+
+    const now = this.clock.now();
+    const lookup: CacheLookup = {};
+
+    if (entry.validation && entry.validationCachedAt !== undefined) {
+      const age = now - entry.validationCachedAt;
+      if (age < this.validationTtlMs) {
+        lookup.validation = entry.validation;
+        lookup.validationAge = age;
+      }
+    }
+
+    if (entry.whatsapp && entry.presenceCachedAt !== undefined) {
+      const age = now - entry.presenceCachedAt;
+      if (age < this.presenceTtlMs) {
+        lookup.whatsapp = entry.whatsapp;
+        lookup.inactivity = entry.inactivity;
+        lookup.presenceAge = age;
+      }
+    }
+
+    return lookup;
+  }
+
+  async storeValidation(phoneNumber: string, validation: ValidationData): Promise<void> {
+    const entry = await this.store.get(phoneNumber);
+    await this.store.set({
+      ...entry,
+      phoneNumber,
+      validation,
+      validationCachedAt: this.clock.now()
+    });
+  }
+
+  async storePresence(
+    phoneNumber: string,
+    whatsapp: WhatsAppData,
+    inactivity?: InactivityStatus
+  ): Promise<void> {
+    const entry = await this.store.get(phoneNumber);
+    await this.store.set({
+      ...entry,
+      phoneNumber,
+      whatsapp,
+      inactivity,
+      presenceCachedAt: this.clock.now()
+    });
+  }
+
+  async invalidate(phoneNumber: string): Promise<void> {
+    await this.store.delete(phoneNumber);
+  }
+
+  async clear(): Promise<void> {
+    await this.store.clear();
+  }
+}
+
+/**
+ * Human-readable cache age for the execution chain ("4m", "3h", "2d")
+ */
+export function formatCacheAge(ms: number): string {
+  const minutes = Math.floor(ms / 60000);
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h`;
+  return `${Math.floor(hours / 24)}d`;
+}
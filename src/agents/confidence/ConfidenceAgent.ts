@@ -2,16 +2,14 @@
  * Confidence Scoring Agent - Quality Controller (Aggregator/Evaluator Pattern)
  * 
  * System Prompt:
- * "You are a forensic data analyst. Compare the JSON outputs from the Validation and 
- * WhatsApp agents.
+ * "You are a forensic data analyst. Compare the JSON outputs from the Validation,
+ * WhatsApp and Inactive agents.
  * 
- * Scoring Logic:
- * - Start at 100
- * - Subtract 20 if carrier data conflicts
- * - Subtract 10 for every retry performed
- * - Add 5 if WhatsApp verified
- * - Subtract 15 if validation failed
- * - Subtract 5 if WhatsApp check was skipped
+ * Scoring Logic: apply the versioned scoring model (see ScoringModel.ts). The
+ * default model starts at 100, subtracts 15 if validation failed, 20 if carrier
+ * data conflicts, 10 for every retry performed, 5 if the WhatsApp check was
+ * skipped and half the delivery-probability shortfall of inactive numbers, and
+ * adds 5 if WhatsApp is verified.
  * 
  * Final Decision: Provide a score (0-100) and a single-sentence 'Reasoning Trace' 
  * explaining the score's basis (e.g., 'Score reduced due to API timeout and mismatched 
@@ -19,191 +17,116 @@
  */
 
 import { BaseAgent } from '../core/BaseAgent';
+import {
+  ConfidenceInputSchema,
+  ConfidenceScoreSchema,
+  type ConfidenceInput
+} from '../schemas/AgentSchemas';
+import type { PlanContext } from '../core/PlanExecutor';
+import {
+  DEFAULT_SCORING_MODEL,
+  applyScoringModel,
+  validateScoringModel,
+  type ScoringModel
+} from './ScoringModel';
 import type {
   AgentResponse,
   ConfidenceScore,
+  InactivityStatus,
+  ProviderResult,
   ValidationData,
   WhatsAppData,
   RetryContext
 } from '../types';
 
-interface ConfidenceInput {
-  validation: ValidationData;
-  whatsapp?: WhatsAppData;
-  retryContext?: RetryContext;
-  executionPlan: {
-    skipWhatsApp: boolean;
-    riskLevel: 'low' | 'medium' | 'high';
-  };
-}
 
-export class ConfidenceAgent extends BaseAgent {
-  constructor() {
+export class ConfidenceAgent extends BaseAgent<ConfidenceInput, ConfidenceScore> {
+  private model: ScoringModel;
+
+  constructor(model: ScoringModel = DEFAULT_SCORING_MODEL) {
     super({
       role: 'confidence',
-      systemPrompt: `You are a forensic data analyst. Compare the JSON outputs from the Validation and WhatsApp agents.
+      systemPrompt: `You are a forensic data analyst. Compare the JSON outputs from the Validation, WhatsApp and Inactive agents.
 
-Scoring Logic:
-- Start at 100
-- Subtract 20 if carrier data conflicts
-- Subtract 10 for every retry performed
-- Add 5 if WhatsApp verified
-- Subtract 15 if validation failed
-- Subtract 5 if WhatsApp check was skipped
+Scoring Logic: apply scoring model ${model.version}
+${model.rules.map(rule => `- ${rule.points >= 0 ? '+' : ''}${rule.points}${rule.per ? ` per ${rule.per}` : ''}: ${rule.description}`).join('\n')}
 
-Final Decision: Provide a score (0-100) and a single-sentence 'Reasoning Trace' explaining the score's basis.`,
+Final Decision: Provide a score (${model.minScore}-${model.maxScore}) and a single-sentence 'Reasoning Trace' explaining the score's basis.`,
       constraints: [
-        'Score range: 0-100',
+        `Score range: ${model.minScore}-${model.maxScore}`,
         'Cross-check all data sources',
         'Identify and flag discrepancies',
         'Provide clear reasoning for score'
       ],
       tools: ['none'],
       outputFormat: 'structured'
-    });
+    }, { input: ConfidenceInputSchema, output: ConfidenceScoreSchema });
+
+    validateScoringModel(model);
+    this.model = model;
   }
 
-  async execute(input: ConfidenceInput): Promise<AgentResponse<ConfidenceScore>> {
-    this.startTime = Date.now();
+  get modelVersion(): string {
+    return this.model.version;
+  }
+
+  protected async run(input: ConfidenceInput): Promise<AgentResponse<ConfidenceScore>> {
+    this.startTime = this.deps.clock.now();
     this.setStatus('thinking');
 
     try {
-      this.think('Starting confidence analysis...');
+      this.think(`Starting confidence analysis with scoring model ${this.model.version}...`);
       this.think(`Validation source: ${input.validation.source}`);
       this.think(`WhatsApp data available: ${!!input.whatsapp}`);
       
       this.setStatus('acting');
-      
-      // Initialize scoring breakdown
-      let baseScore = 100;
-      let carrierDeduction = 0;
-      let retryDeduction = 0;
-      let whatsappBonus = 0;
-      
-      const discrepancies: string[] = [];
-      const recommendations: string[] = [];
-
-      // === ANALYSIS 1: Validation Quality ===
-      this.act('Analyzing validation data quality...');
-      
-      if (!input.validation.valid) {
-        baseScore -= 15;
-        discrepancies.push('Phone number failed validation');
-        this.think('Deducted 15 points: validation failed');
-      }
 
-      if (input.validation.lineType === 'unknown') {
-        baseScore -= 5;
-        discrepancies.push('Line type could not be determined');
-        this.think('Deducted 5 points: unknown line type');
-      }
-
-      // === ANALYSIS 2: Carrier Data Conflicts ===
+      // === ANALYSIS: Carrier Data Conflicts ===
       this.act('Checking for carrier data conflicts...');
       
+      let conflicts: string[] = [];
       if (input.validation.source === 'both') {
         // When we have data from both APIs, check for conflicts
-        const rawData = input.validation.rawData as any[];
+        const rawData = await this.providerData(input.validation);
         
-        if (rawData && rawData.length === 2) {
-          const conflicts = this.detectCarrierConflicts(rawData);
-          
-          if (conflicts.length > 0) {
-            carrierDeduction = 20;
-            discrepancies.push(...conflicts);
-            this.think('Deducted 20 points: carrier data conflicts detected');
-          } else {
-            this.think('No conflicts detected - data sources agree');
-            recommendations.push('Data validated across multiple sources');
-          }
+        if (rawData && rawData.length >= 2) {
+          conflicts = this.detectCarrierConflicts(rawData);
+          this.think(conflicts.length > 0
+            ? `${conflicts.length} carrier data conflict(s) detected`
+            : 'No conflicts detected - data sources agree');
         }
       }
 
-      // === ANALYSIS 3: Retry Analysis ===
-      this.act('Analyzing retry attempts...');
-      
-      if (input.retryContext && input.retryContext.attempts > 0) {
-        retryDeduction = input.retryContext.attempts * 10;
-        discrepancies.push(
-          `${input.retryContext.attempts} retry attempts required`
-        );
-        this.think(`Deducted ${retryDeduction} points: ${input.retryContext.attempts} retries`);
-      }
+      // === SCORING: Apply every rule of the model ===
+      this.act('Applying scoring rules...');
 
-      // === ANALYSIS 4: WhatsApp Cross-Validation ===
-      this.act('Cross-validating with WhatsApp data...');
-      
-      if (input.whatsapp) {
-        if (input.whatsapp.exists && input.whatsapp.verified) {
-          whatsappBonus = 5;
-          recommendations.push('WhatsApp account verified - increases confidence');
-          this.think('Added 5 points: WhatsApp verified');
-        }
-        
-        if (input.whatsapp.businessAccount) {
-          whatsappBonus += 3;
-          recommendations.push('Business account detected - professional use');
-          this.think('Added 3 points: business account');
-        }
-        
-        // Check for logical inconsistencies
-        if (input.validation.lineType === 'landline' && input.whatsapp.exists) {
-          discrepancies.push('Conflict: Landline with WhatsApp presence (possible VoIP)');
-          baseScore -= 10;
-          this.think('Deducted 10 points: landline/WhatsApp conflict');
-        }
-      } else if (input.executionPlan.skipWhatsApp) {
-        baseScore -= 5;
-        discrepancies.push('WhatsApp check was skipped');
-        this.think('Deducted 5 points: WhatsApp check skipped');
-        recommendations.push('Consider running WhatsApp check for mobile numbers');
-      }
-
-      // === ANALYSIS 5: Risk Level Assessment ===
-      this.act('Assessing risk level...');
-      
-      if (input.executionPlan.riskLevel === 'high') {
-        if (input.validation.source !== 'both') {
-          discrepancies.push('High-risk country but only single-source validation');
-          recommendations.push('Recommend dual-source validation for high-risk regions');
-          baseScore -= 10;
-          this.think('Deducted 10 points: insufficient validation for high-risk');
-        } else {
-          recommendations.push('Appropriate dual-validation used for high-risk region');
-        }
-      }
-
-      // === FINAL SCORE CALCULATION ===
-      const finalScore = Math.min(
-        100,
-        Math.max(
-          0,
-          baseScore - carrierDeduction - retryDeduction + whatsappBonus
-        )
-      );
+      const facts = this.collectFacts(input, conflicts.length);
+      const outcome = applyScoringModel(this.model, facts);
+      outcome.contributions.forEach(({ description, points }) => {
+        this.think(points === 0
+          ? `Rule fired: ${description}`
+          : `${points > 0 ? 'Added' : 'Deducted'} ${Math.abs(points)} points: ${description}`);
+      });
 
+      const finalScore = outcome.score;
       this.think(`Final score calculated: ${finalScore}/100`);
+
+      const discrepancies = [...conflicts, ...outcome.discrepancies];
       
       // Generate reasoning trace
-      const reasoning = this.generateReasoningTrace(
-        finalScore,
-        baseScore,
-        carrierDeduction,
-        retryDeduction,
-        whatsappBonus,
-        discrepancies
-      );
+      const reasoning = this.generateReasoningTrace(finalScore, outcome.traces, discrepancies);
+      const explanation = await this.explainDiscrepancies(input, discrepancies);
 
       const confidenceScore: ConfidenceScore = {
         score: finalScore,
         reasoning,
         discrepancies,
-        recommendations,
+        explanation,
+        recommendations: outcome.recommendations,
+        modelVersion: this.model.version,
         breakdown: {
-          baseScore,
-          carrierDeduction,
-          retryDeduction,
-          whatsappBonus
+          baseScore: this.model.baseScore,
+          rules: outcome.contributions
         }
       };
 
@@ -220,34 +143,78 @@ Final Decision: Provide a score (0-100) and a single-sentence 'Reasoning Trace'
     }
   }
 
+  /**
+   * Facts the scoring rules' conditions are evaluated against
+   */
+  private collectFacts(input: ConfidenceInput, carrierConflicts: number): PlanContext {
+    const { validation, whatsapp, inactivity, retryContext, executionPlan } = input;
+
+    return {
+      valid: validation.valid,
+      line_type: validation.lineType,
+      source: validation.source,
+      carrier_conflicts: carrierConflicts,
+      schema_violations: validation.schemaViolations?.length ?? 0,
+      retries: retryContext?.attempts ?? 0,
+      whatsapp_checked: !!whatsapp,
+      whatsapp_exists: whatsapp?.exists ?? false,
+      whatsapp_verified: whatsapp?.verified ?? false,
+      whatsapp_business: whatsapp?.businessAccount ?? false,
+      whatsapp_skipped: !whatsapp && executionPlan.skipWhatsApp,
+      risk_level: executionPlan.riskLevel,
+      inactive: inactivity?.isInactive ?? false,
+      delivery_probability: inactivity?.deliveryProbability ?? 100,
+      delivery_shortfall: 100 - (inactivity?.deliveryProbability ?? 100)
+    };
+  }
+
+  /**
+   * Every provider answer behind the validation. The Validation Agent holds
+   * this session's lookups; a validation it didn't make (e.g. from the cache)
+   * keeps the copy in the input.
+   */
+  private async providerData(validation: ConfidenceInput['validation']): Promise<ProviderResult[]> {
+    const answers = await this.ask<ProviderResult[]>('validation', {
+      topic: 'provider_data',
+      phoneNumber: validation.phoneNumber
+    });
+    if (answers && answers.length > 0) {
+      this.think(`Validation Agent supplied ${answers.length} provider answer(s)`);
+      return answers;
+    }
+    return validation.rawData as ProviderResult[];
+  }
+
   /**
    * Detect conflicts between different data sources
    */
-  private detectCarrierConflicts(rawData: any[]): string[] {
+  private detectCarrierConflicts(rawData: ProviderResult[]): string[] {
     const conflicts: string[] = [];
 
     try {
-      const source1 = rawData.find(r => r.source === 'numverify')?.data;
-      const source2 = rawData.find(r => r.source === 'abstract')?.data;
+      // rawData holds each provider's normalized lookup (see ValidationAgent)
+      const [first, second] = rawData;
+      const source1 = first?.data;
+      const source2 = second?.data;
 
       if (source1 && source2) {
         // Check carrier name conflicts
         if (source1.carrier && source2.carrier) {
           if (source1.carrier !== source2.carrier) {
             conflicts.push(
-              `Carrier mismatch: NumVerify="${source1.carrier}" vs Abstract="${source2.carrier}"`
+              `Carrier mismatch: ${first.provider}="${source1.carrier}" vs ${second.provider}="${source2.carrier}"`
             );
           }
         }
 
         // Check line type conflicts
-        const type1 = source1.line_type?.toLowerCase();
-        const type2 = source2.type?.toLowerCase();
+        const type1 = source1.lineType;
+        const type2 = source2.lineType;
         
-        if (type1 && type2) {
-          if (type1 !== type2 && !(type1 === 'fixed_line' && type2 === 'landline')) {
+        if (type1 && type2 && type1 !== 'unknown' && type2 !== 'unknown') {
+          if (type1 !== type2) {
             conflicts.push(
-              `Line type mismatch: NumVerify="${type1}" vs Abstract="${type2}"`
+              `Line type mismatch: ${first.provider}="${type1}" vs ${second.provider}="${type2}"`
             );
           }
         }
@@ -266,15 +233,36 @@ Final Decision: Provide a score (0-100) and a single-sentence 'Reasoning Trace'
     return conflicts;
   }
 
+  /**
+   * Ask the model what most likely explains the discrepancies. The score
+   * stays the scoring model's; the explanation is for the person reading it.
+   */
+  private async explainDiscrepancies(input: ConfidenceInput, discrepancies: string[]): Promise<string | undefined> {
+    if (discrepancies.length === 0) return undefined;
+
+    const answer = await this.reason<{ explanation: string }>(
+      'Explain in one sentence what most likely causes these discrepancies between the data sources.',
+      {
+        discrepancies,
+        providers: input.validation.rawData.map(({ provider, data }) => ({ provider, ...data, raw: undefined })),
+        whatsapp: input.whatsapp && { exists: input.whatsapp.exists, businessAccount: input.whatsapp.businessAccount },
+        inactive: input.inactivity?.isInactive
+      },
+      {
+        type: 'object',
+        properties: { explanation: { type: 'string', minLength: 1, maxLength: 500 } },
+        required: ['explanation']
+      }
+    );
+    return answer?.explanation;
+  }
+
   /**
    * Generate human-readable reasoning trace
    */
   private generateReasoningTrace(
     finalScore: number,
-    baseScore: number,
-    carrierDeduction: number,
-    retryDeduction: number,
-    whatsappBonus: number,
+    traces: string[],
     discrepancies: string[]
   ): string {
     const parts: string[] = [];
@@ -289,17 +277,7 @@ Final Decision: Provide a score (0-100) and a single-sentence 'Reasoning Trace'
       parts.push('Very low confidence validation');
     }
 
-    if (carrierDeduction > 0) {
-      parts.push('carrier data conflicts detected');
-    }
-
-    if (retryDeduction > 0) {
-      parts.push(`${retryDeduction / 10} API retries required`);
-    }
-
-    if (whatsappBonus > 0) {
-      parts.push('WhatsApp verification adds confidence');
-    }
+    parts.push(...traces);
 
     if (discrepancies.length > 0) {
       parts.push(`${discrepancies.length} discrepancies found`);
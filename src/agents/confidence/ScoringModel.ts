@@ -0,0 +1,213 @@
+/**
+ * Scoring Model - Declarative confidence rules, weights and caps
+ *
+ * A model is plain data: a base score, bounds and an ordered list of rules.
+ * Each rule has a plan-style condition over scoring facts (see
+ * evaluateCondition), a point adjustment (optionally multiplied by a numeric
+ * fact and capped) and the discrepancy, recommendation and reasoning text it
+ * contributes when it fires. Models are versioned; every ConfidenceScore
+ * records the version that produced it.
+ */
+
+import { evaluateCondition, type PlanContext } from '../core/PlanExecutor';
+import type { ScoreContribution } from '../types';
+
+export interface ScoringRule {
+  id: string;
+  description: string;
+  when: string; // e.g. 'IF line_type == "landline" AND whatsapp_exists == true'
+  points: number; // Negative deducts; per unit of `per` when set
+  per?: string; // Numeric fact the points are multiplied by, e.g. 'retries'
+  cap?: number; // Largest adjustment this rule may make, in points
+  discrepancy?: string; // Text may reference facts as {fact}
+  recommendation?: string;
+  trace?: string; // Phrase for the single-sentence reasoning trace
+}
+
+export interface ScoringModel {
+  version: string;
+  baseScore: number;
+  minScore: number;
+  maxScore: number;
+  rules: ScoringRule[];
+}
+
+export interface ScoringOutcome {
+  score: number;
+  contributions: ScoreContribution[];
+  discrepancies: string[];
+  recommendations: string[];
+  traces: string[];
+}
+
+export const DEFAULT_SCORING_MODEL: ScoringModel = {
+  version: '1.1.0',
+  baseScore: 100,
+  minScore: 0,
+  maxScore: 100,
+  rules: [
+    {
+      id: 'validation_failed',
+      description: 'Phone number failed validation',
+      when: 'IF valid == false',
+      points: -15,
+      discrepancy: 'Phone number failed validation'
+    },
+    {
+      id: 'unknown_line_type',
+      description: 'Line type could not be determined',
+      when: 'IF line_type == "unknown"',
+      points: -5,
+      discrepancy: 'Line type could not be determined'
+    },
+    {
+      id: 'carrier_conflict',
+      description: 'Validation providers disagree',
+      when: 'IF carrier_conflicts > 0',
+      points: -20,
+      trace: 'carrier data conflicts detected'
+    },
+    {
+      id: 'sources_agree',
+      description: 'Validation providers agree',
+      when: 'IF source == "both" AND carrier_conflicts == 0',
+      points: 0,
+      recommendation: 'Data validated across multiple sources'
+    },
+    {
+      id: 'retries',
+      description: 'API retries required',
+      when: 'IF retries > 0',
+      points: -10,
+      per: 'retries',
+      cap: 30,
+      discrepancy: '{retries} retry attempts required',
+      trace: '{retries} API retries required'
+    },
+    {
+      id: 'schema_violation',
+      description: 'Provider returned malformed data',
+      when: 'IF schema_violations > 0',
+      points: -10,
+      per: 'schema_violations',
+      cap: 20,
+      discrepancy: '{schema_violations} schema violation(s) in provider responses',
+      recommendation: 'Check whether the provider changed its response format',
+      trace: 'malformed provider data'
+    },
+    {
+      id: 'whatsapp_verified',
+      description: 'WhatsApp account verified',
+      when: 'IF whatsapp_exists == true AND whatsapp_verified == true',
+      points: 5,
+      recommendation: 'WhatsApp account verified - increases confidence',
+      trace: 'WhatsApp verification adds confidence'
+    },
+    {
+      id: 'business_account',
+      description: 'WhatsApp business account',
+      when: 'IF whatsapp_business == true',
+      points: 3,
+      recommendation: 'Business account detected - professional use'
+    },
+    {
+      id: 'landline_on_whatsapp',
+      description: 'Landline with WhatsApp presence',
+      when: 'IF line_type == "landline" AND whatsapp_exists == true',
+      points: -10,
+      discrepancy: 'Conflict: Landline with WhatsApp presence (possible VoIP)'
+    },
+    {
+      id: 'whatsapp_skipped',
+      description: 'WhatsApp check skipped',
+      when: 'IF whatsapp_skipped == true',
+      points: -5,
+      discrepancy: 'WhatsApp check was skipped',
+      recommendation: 'Consider running WhatsApp check for mobile numbers'
+    },
+    {
+      id: 'high_risk_single_source',
+      description: 'High-risk country validated by a single source',
+      when: 'IF risk_level == "high" AND source != "both"',
+      points: -10,
+      discrepancy: 'High-risk country but only single-source validation',
+      recommendation: 'Recommend dual-source validation for high-risk regions'
+    },
+    {
+      id: 'high_risk_dual_source',
+      description: 'High-risk country validated by two sources',
+      when: 'IF risk_level == "high" AND source == "both"',
+      points: 0,
+      recommendation: 'Appropriate dual-validation used for high-risk region'
+    },
+    {
+      id: 'inactivity',
+      description: 'Number looks inactive',
+      when: 'IF inactive == true',
+      points: -0.5, // Half of the shortfall in delivery probability
+      per: 'delivery_shortfall',
+      cap: 50,
+      discrepancy: 'Inactive number: {delivery_probability}% delivery probability',
+      trace: 'inactivity lowers delivery odds'
+    }
+  ]
+};
+
+/**
+ * Check that every rule's condition parses and rule ids are unique
+ */
+export function validateScoringModel(model: ScoringModel): void {
+  const ids = new Set<string>();
+  for (const rule of model.rules) {
+    if (ids.has(rule.id)) {
+      throw new Error(`Invalid scoring model ${model.version}: duplicate rule ${rule.id}`);
+    }
+    ids.add(rule.id);
+
+    try {
+      evaluateCondition(rule.when, {});
+    } catch {
+      throw new Error(`Invalid scoring model ${model.version}: cannot parse condition of rule ${rule.id}`);
+    }
+  }
+
+  if (model.minScore > model.maxScore) {
+    throw new Error(`Invalid scoring model ${model.version}: minScore is above maxScore`);
+  }
+}
+
+/**
+ * Run every rule against the facts; the score is clamped to the model's bounds
+ */
+export function applyScoringModel(model: ScoringModel, facts: PlanContext): ScoringOutcome {
+  const outcome: ScoringOutcome = {
+    score: model.baseScore,
+    contributions: [],
+    discrepancies: [],
+    recommendations: [],
+    traces: []
+  };
+
+  for (const rule of model.rules) {
+    if (!evaluateCondition(rule.when, facts)) continue;
+
+    const units = rule.per === undefined ? 1 : Number(facts[rule.per] ?? 0);
+    let points = rule.points * units;
+    if (rule.cap !== undefined && Math.abs(points) > rule.cap) {
+      points = Math.sign(points) * rule.cap;
+    }
+
+    outcome.score += points;
+    outcome.contributions.push({ rule: rule.id, description: rule.description, points });
+    if (rule.discrepancy) outcome.discrepancies.push(interpolate(rule.discrepancy, facts));
+    if (rule.recommendation) outcome.recommendations.push(interpolate(rule.recommendation, facts));
+    if (rule.trace) outcome.traces.push(interpolate(rule.trace, facts));
+  }
+
+  outcome.score = Math.round(Math.min(model.maxScore, Math.max(model.minScore, outcome.score)));
+  return outcome;
+}
+
+function interpolate(text: string, facts: PlanContext): string {
+  return text.replace(/\{(\w+)\}/g, (match, fact: string) => (fact in facts ? String(facts[fact]) : match));
+}
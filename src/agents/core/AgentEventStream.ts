@@ -0,0 +1,88 @@
+/**
+ * Agent Event Stream - Live feed of what the agents are doing
+ *
+ * Agents publish status changes, thoughts and actions as they happen and
+ * the Supervisor adds phases, tool calls, plan steps and the final result.
+ * Consumers either subscribe with a callback or iterate a single run:
+ *
+ *   for await (const event of supervisor.stream(request)) { ... }
+ */
+
+import { systemClock, type Clock } from './Dependencies';
+import type { AgentEvent } from '../types';
+
+type Untimed<E> = E extends unknown ? Omit<E, 'timestamp'> : never;
+
+export type AgentEventInput = Untimed<AgentEvent>;
+export type AgentEventListener = (event: AgentEvent) => void;
+
+export class AgentEventStream {
+  private listeners = new Set<AgentEventListener>();
+
+  constructor(private clock: Clock = systemClock) {}
+
+  /**
+   * Listen to every event; returns the unsubscribe function
+   */
+  subscribe(listener: AgentEventListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  emit(event: AgentEventInput): void {
+    const stamped = { ...event, timestamp: this.clock.now() } as AgentEvent;
+
+    this.listeners.forEach(listener => {
+      try {
+        listener(stamped);
+      } catch (error) {
+        // A broken UI handler must never fail a validation
+        console.error('Agent event listener failed:', error);
+      }
+    });
+  }
+
+  /**
+   * Run a task and yield the events it emits as they happen.
+   * The generator returns the task's result, or throws its error once
+   * every event emitted before the failure has been yielded.
+   */
+  async *capture<T>(task: () => Promise<T>): AsyncGenerator<AgentEvent, T, undefined> {
+    const buffer: AgentEvent[] = [];
+    let wake: (() => void) | null = null;
+    let settled = false;
+
+    const notify = () => {
+      const resolve = wake;
+      wake = null;
+      resolve?.();
+    };
+
+    const unsubscribe = this.subscribe(event => {
+      buffer.push(event);
+      notify();
+    });
+
+    const running = task();
+    running.then(
+      () => { settled = true; notify(); },
+      () => { settled = true; notify(); }
+    );
+
+    try {
+      while (!settled || buffer.length > 0) {
+        if (buffer.length === 0) {
+          await new Promise<void>(resolve => (wake = resolve));
+          continue;
+        }
+        yield buffer.shift()!;
+      }
+    } finally {
+      unsubscribe();
+    }
+
+    return await running;
+  }
+}
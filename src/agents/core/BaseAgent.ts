@@ -6,45 +6,101 @@
 import type {
   AgentRole,
   AgentStatus,
-  AgentMessage,
+  AgentQuery,
   AgentResponse,
+  AgentError,
   AgentState,
   AgentConfig,
   ToolName
 } from '../types';
+import type { AgentEventStream } from './AgentEventStream';
+import type { MessageBus } from './MessageBus';
+import { DEFAULT_DEPENDENCIES, type AgentDependencies } from './Dependencies';
+import { completeJson, type LLMClient } from '../llm/LLMClient';
+import type { JsonSchema } from '../llm/JsonSchema';
+import { SCHEMA_VIOLATION, SchemaViolationError, assertSchema } from '../schemas/SchemaViolation';
+import type { ZodType } from 'zod';
 
-export abstract class BaseAgent {
+/**
+ * Schemas an agent's input and successful output are checked against
+ */
+export interface AgentSchemas {
+  input: ZodType<unknown>;
+  output: ZodType<unknown>;
+}
+
+export abstract class BaseAgent<TInput = unknown, TOutput = unknown> {
   protected role: AgentRole;
   protected status: AgentStatus = 'idle';
   protected thoughtProcess: string[] = [];
   protected actionsPerformed: string[] = [];
   protected startTime?: number;
   protected config: AgentConfig;
+  protected deps: AgentDependencies = DEFAULT_DEPENDENCIES;
+  protected llm?: LLMClient;
+  private events?: AgentEventStream;
+  private bus?: MessageBus;
+  private schemas: AgentSchemas;
 
-  constructor(config: AgentConfig) {
+  constructor(config: AgentConfig, schemas: AgentSchemas) {
     this.role = config.role;
     this.config = config;
+    this.schemas = schemas;
+  }
+
+  /**
+   * Main execution method. Input that breaks the agent's schema is rejected
+   * before run() (invalid_input, never retried); output that breaks it is
+   * replaced by a SCHEMA_VIOLATION error the Retry Agent treats like a
+   * provider bug.
+   */
+  async execute(input: TInput): Promise<AgentResponse<TOutput>> {
+    try {
+      assertSchema(this.schemas.input, input, `${this.role} input`);
+    } catch (error) {
+      this.startTime = this.deps.clock.now();
+      return this.schemaViolationResponse(error as SchemaViolationError, 'invalid_input');
+    }
+
+    let response: AgentResponse<TOutput>;
+    try {
+      response = await this.run(input);
+    } catch (error) {
+      if (error instanceof SchemaViolationError) return this.schemaViolationResponse(error);
+      throw error;
+    }
+
+    if (response.success) {
+      try {
+        assertSchema(this.schemas.output, response.data, `${this.role} output`);
+      } catch (error) {
+        return this.schemaViolationResponse(error as SchemaViolationError);
+      }
+    }
+    return response;
   }
 
   /**
-   * Main execution method - must be implemented by each agent
+   * The agent's work on input that matched its schema
    */
-  abstract execute(input: any, context?: any): Promise<AgentResponse>;
+  protected abstract run(input: TInput): Promise<AgentResponse<TOutput>>;
 
   /**
    * Record a thought in the Chain of Thought
    */
   protected think(thought: string): void {
-    this.thoughtProcess.push(`[${new Date().toISOString()}] ${thought}`);
+    this.thoughtProcess.push(`[${this.timestamp()}] ${thought}`);
     console.log(`🧠 ${this.role.toUpperCase()}: ${thought}`);
+    this.events?.emit({ type: 'thought', agent: this.role, message: thought });
   }
 
   /**
    * Record an action in the Chain of Execution
    */
   protected act(action: string): void {
-    this.actionsPerformed.push(`[${new Date().toISOString()}] ${action}`);
+    this.actionsPerformed.push(`[${this.timestamp()}] ${action}`);
     console.log(`⚡ ${this.role.toUpperCase()}: ${action}`);
+    this.events?.emit({ type: 'action', agent: this.role, message: action });
   }
 
   /**
@@ -53,6 +109,89 @@ export abstract class BaseAgent {
   protected setStatus(status: AgentStatus): void {
     this.status = status;
     console.log(`📊 ${this.role.toUpperCase()}: Status changed to ${status}`);
+    this.events?.emit({ type: 'status', agent: this.role, status });
+  }
+
+  /**
+   * Publish thoughts, actions and status changes to a live event stream
+   */
+  attachEventStream(events: AgentEventStream): void {
+    this.events = events;
+  }
+
+  /**
+   * Take tasks and queries from a message bus and ask other agents over it
+   */
+  attachMessageBus(bus: MessageBus): void {
+    this.bus = bus;
+    bus.register(this.role, {
+      task: input => this.execute(input as TInput),
+      query: query => this.answer(query)
+    });
+  }
+
+  /**
+   * Answer another agent's query; agents override this for the topics they know
+   */
+  protected async answer(query: AgentQuery): Promise<unknown> {
+    throw new Error(`${this.role} agent cannot answer ${query.topic} queries`);
+  }
+
+  /**
+   * Ask another agent over the bus. Resolves to undefined without a bus or
+   * when it can't answer - callers fall back to what they were given.
+   */
+  protected async ask<T>(to: AgentRole, query: AgentQuery): Promise<T | undefined> {
+    if (!this.bus) return undefined;
+
+    try {
+      return await this.bus.query<T>(this.role, to, query);
+    } catch (error) {
+      this.think(`${to} agent could not answer ${query.topic} (${error instanceof Error ? error.message : 'unknown error'})`);
+      return undefined;
+    }
+  }
+
+  /**
+   * Make HTTP calls, read time, wait and draw random numbers through these
+   */
+  useDependencies(deps: AgentDependencies): void {
+    this.deps = deps;
+  }
+
+  /**
+   * Consult this model on cases the agent's rules can't settle (none by default)
+   */
+  useLLM(llm?: LLMClient): void {
+    this.llm = llm;
+  }
+
+  /**
+   * Ask the model about one case: the system prompt and constraints, then the
+   * task and its facts as JSON. Resolves to output matching the schema, or
+   * null without a model or when the call or its output fails - callers keep
+   * their rule-based answer then.
+   */
+  protected async reason<T>(task: string, facts: unknown, schema: JsonSchema): Promise<T | null> {
+    if (!this.llm) return null;
+
+    this.think(`Consulting ${this.llm.model}: ${task}`);
+    try {
+      const { data } = await completeJson<T>(this.llm, {
+        messages: [
+          {
+            role: 'system',
+            content: `${this.config.systemPrompt}\n\nConstraints:\n${this.config.constraints.map(c => `- ${c}`).join('\n')}`
+          },
+          { role: 'user', content: `${task}\n\n${JSON.stringify(facts, null, 2)}` }
+        ],
+        schema
+      });
+      return data;
+    } catch (error) {
+      this.think(`Model answer unusable (${error instanceof Error ? error.message : 'unknown error'}) - using rules only`);
+      return null;
+    }
   }
 
   /**
@@ -65,7 +204,7 @@ export abstract class BaseAgent {
       thoughtProcess: [...this.thoughtProcess],
       actionsPerformed: [...this.actionsPerformed],
       startTime: this.startTime,
-      endTime: this.status === 'complete' ? Date.now() : undefined
+      endTime: this.status === 'complete' ? this.deps.clock.now() : undefined
     };
   }
 
@@ -87,7 +226,7 @@ export abstract class BaseAgent {
     toolsUsed: ToolName[] = [],
     retriesAttempted: number = 0
   ): AgentResponse<T> {
-    const executionTime = this.startTime ? Date.now() - this.startTime : 0;
+    const executionTime = this.startTime ? this.deps.clock.now() - this.startTime : 0;
     
     return {
       success: true,
@@ -109,9 +248,10 @@ export abstract class BaseAgent {
     code: string,
     message: string,
     recoverable: boolean = true,
-    suggestedAction?: string
+    suggestedAction?: string,
+    details: Pick<AgentError, 'errorClass' | 'retryAfterMs' | 'violations'> = {}
   ): AgentResponse {
-    const executionTime = this.startTime ? Date.now() - this.startTime : 0;
+    const executionTime = this.startTime ? this.deps.clock.now() - this.startTime : 0;
     
     return {
       success: false,
@@ -120,7 +260,8 @@ export abstract class BaseAgent {
         code,
         message,
         recoverable,
-        suggestedAction
+        suggestedAction,
+        ...details
       },
       metadata: {
         executionTime,
@@ -131,6 +272,25 @@ export abstract class BaseAgent {
     };
   }
 
+  /**
+   * SCHEMA_VIOLATION error listing every mismatch. Bad provider data and bad
+   * output are provider bugs (retried once); bad input is never retried.
+   */
+  protected schemaViolationResponse(
+    error: SchemaViolationError,
+    errorClass: 'provider_bug' | 'invalid_input' = 'provider_bug'
+  ): AgentResponse {
+    this.think(error.message);
+    this.setStatus('error');
+    return this.createErrorResponse(
+      SCHEMA_VIOLATION,
+      error.message,
+      errorClass === 'provider_bug',
+      errorClass === 'provider_bug' ? 'Retry once; persistent violations mean the provider changed its format' : 'Fix the request',
+      { errorClass, violations: error.violations }
+    );
+  }
+
   /**
    * Validate tool availability
    */
@@ -151,4 +311,8 @@ export abstract class BaseAgent {
   getRole(): AgentRole {
     return this.role;
   }
+
+  private timestamp(): string {
+    return new Date(this.deps.clock.now()).toISOString();
+  }
 }
@@ -0,0 +1,237 @@
+/**
+ * Circuit Breaker - Stops calling providers that keep failing
+ *
+ * Each provider gets a breaker that opens after a run of consecutive
+ * failures or a high failure rate over its recent calls. While open, the
+ * Decision Agent plans around the provider and the Retry Agent gives up
+ * instead of backing off. After a cooldown the breaker lets a trial call
+ * through (half-open): success closes it, failure opens it again.
+ *
+ * One ProviderHealthRegistry can be shared by several Supervisors so they
+ * all learn from each other's failures.
+ */
+
+import { ObservabilityLogger, createLogger } from '../observability/Logger';
+import { systemClock, type Clock } from './Dependencies';
+import type { CircuitState, ProviderHealth, ToolName } from '../types';
+
+export interface CircuitBreakerConfig {
+  failureThreshold: number; // Consecutive failures that open the circuit
+  failureRateThreshold: number; // 0-1 failure rate over the window that opens it
+  windowSize: number; // Recent calls the failure rate is measured over
+  minimumCalls: number; // Calls needed in the window before the rate counts
+  cooldownMs: number; // How long the circuit stays open before a trial call
+  halfOpenMaxCalls: number; // Trial calls allowed at once while half-open
+}
+
+export interface CircuitTransition {
+  tool: ToolName;
+  from: CircuitState;
+  to: CircuitState;
+  reason: string;
+}
+
+export const DEFAULT_CIRCUIT_CONFIG: CircuitBreakerConfig = {
+  failureThreshold: 5,
+  failureRateThreshold: 0.5,
+  windowSize: 20,
+  minimumCalls: 10,
+  cooldownMs: 30000,
+  halfOpenMaxCalls: 1
+};
+
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private outcomes: boolean[] = []; // Rolling window, true = success
+  private consecutiveFailures = 0;
+  private trialsInFlight = 0;
+  private openedAt?: number;
+  private totalCalls = 0;
+  private failures = 0;
+  private totalLatencyMs = 0;
+  private lastError?: string;
+
+  constructor(
+    readonly tool: ToolName,
+    private config: CircuitBreakerConfig = DEFAULT_CIRCUIT_CONFIG,
+    private onTransition?: (transition: CircuitTransition) => void,
+    private clock: Clock = systemClock
+  ) {}
+
+  getState(): CircuitState {
+    if (this.state === 'open' && this.clock.now() - this.openedAt! >= this.config.cooldownMs) {
+      this.transition('half_open', `cooldown of ${this.config.cooldownMs}ms elapsed`);
+    }
+    return this.state;
+  }
+
+  /**
+   * Whether a call would be let through right now
+   */
+  isAvailable(): boolean {
+    const state = this.getState();
+    return state === 'closed'
+      || (state === 'half_open' && this.trialsInFlight < this.config.halfOpenMaxCalls);
+  }
+
+  /**
+   * Claim permission for one call; while half-open this takes a trial slot
+   * that the matching recordSuccess()/recordFailure() gives back
+   */
+  tryAcquire(): boolean {
+    if (!this.isAvailable()) return false;
+    if (this.state === 'half_open') this.trialsInFlight++;
+    return true;
+  }
+
+  recordSuccess(latencyMs = 0): void {
+    this.record(true, latencyMs);
+    this.consecutiveFailures = 0;
+
+    if (this.state === 'half_open') {
+      this.outcomes = [];
+      this.transition('closed', 'trial call succeeded');
+    }
+  }
+
+  recordFailure(error?: string, latencyMs = 0): void {
+    this.record(false, latencyMs);
+    this.failures++;
+    this.consecutiveFailures++;
+    this.lastError = error;
+
+    if (this.state === 'half_open') {
+      this.transition('open', `trial call failed${error ? `: ${error}` : ''}`);
+      return;
+    }
+    if (this.state !== 'closed') return;
+
+    const failureRate = this.failureRate();
+    if (this.consecutiveFailures >= this.config.failureThreshold) {
+      this.transition('open', `${this.consecutiveFailures} consecutive failures`);
+    } else if (this.outcomes.length >= this.config.minimumCalls && failureRate >= this.config.failureRateThreshold) {
+      this.transition('open', `${Math.round(failureRate * 100)}% of the last ${this.outcomes.length} calls failed`);
+    }
+  }
+
+  getHealth(): ProviderHealth {
+    return {
+      tool: this.tool,
+      state: this.getState(),
+      totalCalls: this.totalCalls,
+      failures: this.failures,
+      consecutiveFailures: this.consecutiveFailures,
+      failureRate: this.failureRate(),
+      averageLatencyMs: this.totalCalls > 0 ? Math.round(this.totalLatencyMs / this.totalCalls) : 0,
+      openedAt: this.state === 'open' ? this.openedAt : undefined,
+      lastError: this.lastError
+    };
+  }
+
+  private record(success: boolean, latencyMs: number): void {
+    if (this.state === 'half_open') {
+      this.trialsInFlight = Math.max(0, this.trialsInFlight - 1);
+    }
+
+    this.totalCalls++;
+    this.totalLatencyMs += latencyMs;
+    this.outcomes.push(success);
+    if (this.outcomes.length > this.config.windowSize) {
+      this.outcomes.shift();
+    }
+  }
+
+  private failureRate(): number {
+    if (this.outcomes.length === 0) return 0;
+    return this.outcomes.filter(success => !success).length / this.outcomes.length;
+  }
+
+  private transition(to: CircuitState, reason: string): void {
+    const from = this.state;
+    this.state = to;
+    this.trialsInFlight = 0;
+    if (to === 'open') this.openedAt = this.clock.now();
+
+    this.onTransition?.({ tool: this.tool, from, to, reason });
+  }
+}
+
+export class ProviderHealthRegistry {
+  private breakers = new Map<ToolName, CircuitBreaker>();
+  private config: CircuitBreakerConfig;
+  private logger: ObservabilityLogger;
+
+  constructor(
+    config: Partial<CircuitBreakerConfig> = {},
+    logger: ObservabilityLogger = createLogger('provider-health'),
+    private clock: Clock = systemClock // Times cooldowns
+  ) {
+    this.config = { ...DEFAULT_CIRCUIT_CONFIG, ...config };
+    this.logger = logger;
+  }
+
+  /**
+   * The provider's breaker, created closed on first use
+   */
+  breaker(tool: ToolName): CircuitBreaker {
+    let breaker = this.breakers.get(tool);
+    if (!breaker) {
+      breaker = new CircuitBreaker(tool, this.config, transition => this.logTransition(transition), this.clock);
+      this.breakers.set(tool, breaker);
+    }
+    return breaker;
+  }
+
+  isAvailable(tool: ToolName): boolean {
+    return this.breakers.get(tool)?.isAvailable() ?? true;
+  }
+
+  tryAcquire(tool: ToolName): boolean {
+    return this.breaker(tool).tryAcquire();
+  }
+
+  recordSuccess(tool: ToolName, latencyMs?: number): void {
+    this.breaker(tool).recordSuccess(latencyMs);
+  }
+
+  recordFailure(tool: ToolName, error?: string, latencyMs?: number): void {
+    this.breaker(tool).recordFailure(error, latencyMs);
+  }
+
+  /**
+   * Providers currently refusing calls
+   */
+  openCircuits(): ToolName[] {
+    return Array.from(this.breakers.values())
+      .filter(breaker => !breaker.isAvailable())
+      .map(breaker => breaker.tool);
+  }
+
+  getHealth(tool: ToolName): ProviderHealth {
+    return this.breaker(tool).getHealth();
+  }
+
+  getAllHealth(): ProviderHealth[] {
+    return Array.from(this.breakers.values()).map(breaker => breaker.getHealth());
+  }
+
+  getLogger(): ObservabilityLogger {
+    return this.logger;
+  }
+
+  /**
+   * Forget every provider's history and close all circuits
+   */
+  reset(): void {
+    this.breakers.clear();
+  }
+
+  private logTransition({ tool, from, to, reason }: CircuitTransition): void {
+    this.logger.logSystem(
+      `Circuit for ${tool} ${from} → ${to}: ${reason}`,
+      to === 'open' ? 'warn' : 'info',
+      { tool, from, to, reason }
+    );
+    this.logger.recordMetric(`circuit_${to}`, 1, 'transition');
+  }
+}
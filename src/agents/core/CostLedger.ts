@@ -0,0 +1,99 @@
+/**
+ * Cost Ledger - Tracks what validations actually spend
+ *
+ * The Supervisor keeps one ledger per session and opens a child ledger for
+ * every request; charges made on a request ledger roll up into the session.
+ * Unit prices come from a resolver so APIConfig.prices can override the
+ * providers' own costPerCall.
+ */
+
+import { systemClock, type Clock } from './Dependencies';
+import type { CostEntry, ToolName } from '../types';
+
+export type PriceResolver = (tool: ToolName) => number;
+
+// Non-provider tools the Decision Agent can plan
+export const DEFAULT_UNIT_PRICES: Partial<Record<ToolName, number>> = {
+  whatsapp: 0.0015
+};
+
+// Float slack so e.g. 3 × $0.001 still fits a $0.003 budget
+const EPSILON = 1e-9;
+
+export class CostLedger {
+  private entries: CostEntry[] = [];
+  private priceOf: PriceResolver;
+  private clock: Clock;
+  private parent?: CostLedger;
+
+  constructor(priceOf: PriceResolver, clock: Clock = systemClock, parent?: CostLedger) {
+    this.priceOf = priceOf;
+    this.clock = clock;
+    this.parent = parent;
+  }
+
+  /**
+   * Child ledger for a single request
+   */
+  forRequest(): CostLedger {
+    return new CostLedger(this.priceOf, this.clock, this);
+  }
+
+  unitPrice(tool: ToolName): number {
+    return this.priceOf(tool);
+  }
+
+  /**
+   * Record one call to a tool at its unit price
+   */
+  charge(tool: ToolName, kind: CostEntry['kind'] = 'call'): CostEntry {
+    const entry: CostEntry = { tool, amount: this.priceOf(tool), kind, timestamp: this.clock.now() };
+    this.record(entry);
+    return entry;
+  }
+
+  /**
+   * Record a call priced by usage rather than per call, e.g. LLM tokens
+   */
+  chargeUsage(tool: ToolName, amount: number, tokens?: CostEntry['tokens']): CostEntry {
+    const entry: CostEntry = { tool, amount, kind: 'call', tokens, timestamp: this.clock.now() };
+    this.record(entry);
+    return entry;
+  }
+
+  /**
+   * How many more calls to a tool fit in the budget (Infinity without one)
+   */
+  affordableCalls(tool: ToolName, budget?: number): number {
+    if (budget === undefined) return Infinity;
+
+    const price = this.priceOf(tool);
+    const remaining = budget - this.total;
+    if (price <= 0) return remaining + EPSILON >= 0 ? Infinity : 0;
+    return Math.max(0, Math.floor((remaining + EPSILON) / price));
+  }
+
+  get total(): number {
+    return this.entries.reduce((sum, entry) => sum + entry.amount, 0);
+  }
+
+  getEntries(): CostEntry[] {
+    return [...this.entries];
+  }
+
+  /**
+   * Spend per tool, e.g. { numverify: 0.002, whatsapp: 0.0015 }
+   */
+  byTool(): Partial<Record<ToolName, number>> {
+    const totals: Partial<Record<ToolName, number>> = {};
+    this.entries.forEach(entry => {
+      totals[entry.tool] = (totals[entry.tool] ?? 0) + entry.amount;
+    });
+    return totals;
+  }
+
+  private record(entry: CostEntry): void {
+    this.entries.push(entry);
+    this.parent?.record(entry);
+  }
+}
@@ -0,0 +1,95 @@
+/**
+ * Agent Dependencies - HTTP transport, clock and random source
+ *
+ * Agents, providers and the Supervisor reach the outside world only through
+ * this container instead of calling fetch(), Date.now(), setTimeout() and
+ * Math.random() directly. Tests (via src/test/mocks/FakeClock) and replays
+ * swap in a FakeClock (backoff and rate-limit waits return instantly and are
+ * recorded) or a recorded transport;
+ * production can wrap the transport with a proxy, mTLS or request signing.
+ */
+
+/**
+ * fetch()-compatible function every outbound API request goes through
+ */
+export type HttpTransport = (url: string, init?: RequestInit) => Promise<Response>;
+
+export interface Clock {
+  now(): number; // Epoch milliseconds
+  sleep(ms: number): Promise<void>;
+  setTimer(ms: number, callback: () => void): () => void; // Returns the cancel function
+}
+
+/**
+ * Uniform random number in [0, 1), like Math.random
+ */
+export type RandomSource = () => number;
+
+export interface AgentDependencies {
+  http: HttpTransport;
+  clock: Clock;
+  random: RandomSource;
+}
+
+// Looked up on every call so test spies on the global fetch still apply
+export const fetchTransport: HttpTransport = (url, init) => fetch(url, init);
+
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  sleep: ms => new Promise(resolve => setTimeout(resolve, ms)),
+  setTimer: (ms, callback) => {
+    const timer = setTimeout(callback, ms);
+    return () => clearTimeout(timer);
+  }
+};
+
+export const DEFAULT_DEPENDENCIES: AgentDependencies = {
+  http: fetchTransport,
+  clock: systemClock,
+  random: Math.random
+};
+
+/**
+ * Container with the given overrides and the real implementations for the rest
+ */
+export function createDependencies(overrides: Partial<AgentDependencies> = {}): AgentDependencies {
+  return { ...DEFAULT_DEPENDENCIES, ...overrides };
+}
+
+/**
+ * Clock that only moves when told to. sleep() advances time by the requested
+ * amount and resolves immediately, so code that backs off runs instantly;
+ * every requested wait is kept in `sleeps`. Timers fire when time is
+ * advanced past their deadline.
+ */
+export class FakeClock implements Clock {
+  readonly sleeps: number[] = [];
+  private timers: { at: number; callback: () => void }[] = [];
+
+  constructor(private time: number = 0) {}
+
+  now(): number {
+    return this.time;
+  }
+
+  async sleep(ms: number): Promise<void> {
+    this.sleeps.push(ms);
+    this.advance(ms);
+  }
+
+  setTimer(ms: number, callback: () => void): () => void {
+    const timer = { at: this.time + Math.max(0, ms), callback };
+    this.timers.push(timer);
+    return () => {
+      this.timers = this.timers.filter(pending => pending !== timer);
+    };
+  }
+
+  advance(ms: number): void {
+    this.time += Math.max(0, ms);
+
+    const due = this.timers.filter(timer => timer.at <= this.time).sort((a, b) => a.at - b.at);
+    this.timers = this.timers.filter(timer => timer.at > this.time);
+    due.forEach(timer => timer.callback());
+  }
+}
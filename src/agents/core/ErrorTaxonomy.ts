@@ -0,0 +1,107 @@
+/**
+ * Error Taxonomy - Why a call failed and how to retry it
+ *
+ * Every agent error maps onto an ErrorClass, either set by the agent that
+ * produced it or derived from its code. Each class has a retry policy: how
+ * many attempts, how long to back off and whether retrying needs another
+ * credential. Backoff uses full jitter (a random delay up to the exponential
+ * cap) so parallel lanes don't retry in lockstep; a Retry-After from the
+ * provider takes precedence.
+ */
+
+import type { AgentError, ErrorClass } from '../types';
+
+export interface RetryPolicy {
+  retry: boolean;
+  maxAttempts: number;
+  baseDelayMs: number; // Backoff cap for the first retry, doubled per attempt
+  maxDelayMs: number; // Longest wait, including a provider's Retry-After
+  requiresNewKey: boolean; // The failing key can't succeed; only rotation helps
+}
+
+export const DEFAULT_RETRY_POLICIES: Record<ErrorClass, RetryPolicy> = {
+  auth: { retry: true, maxAttempts: 3, baseDelayMs: 0, maxDelayMs: 0, requiresNewKey: true },
+  quota: { retry: true, maxAttempts: 3, baseDelayMs: 0, maxDelayMs: 0, requiresNewKey: true },
+  rate_limit: { retry: true, maxAttempts: 3, baseDelayMs: 2000, maxDelayMs: 30000, requiresNewKey: false },
+  transient: { retry: true, maxAttempts: 3, baseDelayMs: 1000, maxDelayMs: 10000, requiresNewKey: false },
+  invalid_input: { retry: false, maxAttempts: 0, baseDelayMs: 0, maxDelayMs: 0, requiresNewKey: false },
+  provider_bug: { retry: true, maxAttempts: 1, baseDelayMs: 1000, maxDelayMs: 1000, requiresNewKey: false }
+};
+
+// Agent and HTTP error codes used before errors carried a class
+const CODE_CLASSES: Record<string, ErrorClass> = {
+  AUTH_ERROR: 'auth',
+  QUOTA_EXCEEDED: 'quota',
+  RATE_LIMIT: 'rate_limit',
+  TIMEOUT: 'transient',
+  NETWORK_ERROR: 'transient',
+  MALFORMED_RESPONSE: 'provider_bug',
+  SCHEMA_VIOLATION: 'provider_bug',
+  INVALID_INPUT: 'invalid_input'
+};
+
+/**
+ * Class of an HTTP error status
+ */
+export function classifyHttpStatus(status: number): ErrorClass {
+  switch (status) {
+    case 401:
+    case 403:
+      return 'auth';
+    case 402:
+      return 'quota';
+    case 429:
+      return 'rate_limit';
+    case 408:
+    case 502:
+    case 503:
+    case 504:
+      return 'transient';
+    default:
+      return status >= 400 && status < 500 ? 'invalid_input' : 'provider_bug';
+  }
+}
+
+/**
+ * Class of an agent or provider error: its own errorClass, else inferred from the code
+ */
+export function classifyAgentError(error: Pick<AgentError, 'code' | 'errorClass'>): ErrorClass {
+  if (error.errorClass) return error.errorClass;
+  if (CODE_CLASSES[error.code]) return CODE_CLASSES[error.code];
+  if (/^\d{3}$/.test(error.code)) return classifyHttpStatus(Number(error.code));
+  return 'provider_bug';
+}
+
+/**
+ * Full-jitter backoff: uniform between 0 and the exponential cap for the attempt
+ */
+export function fullJitterDelay(
+  policy: RetryPolicy,
+  attempt: number,
+  random: () => number = Math.random
+): number {
+  const cap = Math.min(policy.maxDelayMs, policy.baseDelayMs * Math.pow(2, attempt - 1));
+  return Math.floor(random() * cap);
+}
+
+/**
+ * Wait a provider asked for, from Retry-After (seconds or an HTTP date) or
+ * X-RateLimit-Reset (epoch seconds, or seconds from now for small values).
+ * `now` is the caller's clock time, which HTTP dates are measured against.
+ */
+export function parseRetryAfter(headers: Headers, now: number): number | undefined {
+  const retryAfter = headers.get('retry-after')?.trim();
+  if (retryAfter) {
+    if (/^\d+(\.\d+)?$/.test(retryAfter)) return Math.round(Number(retryAfter) * 1000);
+    const date = Date.parse(retryAfter);
+    if (!Number.isNaN(date)) return Math.max(0, date - now);
+  }
+
+  const reset = Number(headers.get('x-ratelimit-reset'));
+  if (reset > 0) {
+    // Anything past ~2001 in epoch seconds is a timestamp, not a delta
+    return reset > 1e9 ? Math.max(0, reset * 1000 - now) : reset * 1000;
+  }
+
+  return undefined;
+}
@@ -0,0 +1,98 @@
+/**
+ * HTTP helpers shared by providers and agents that call external APIs
+ *
+ * fetchWithTimeout() aborts requests that hang instead of holding a plan
+ * step (and its lane) forever; errorFromResponse() turns a non-2xx
+ * response into a ProviderError that keeps the provider's Retry-After.
+ */
+
+import { parseRetryAfter } from './ErrorTaxonomy';
+import { fetchTransport, systemClock, type Clock, type HttpTransport } from './Dependencies';
+import type { ProviderError } from '../types';
+
+export const DEFAULT_REQUEST_TIMEOUT_MS = 10000;
+export const TWILIO_LOOKUP_BASE_URL = 'https://lookups.twilio.com/v2';
+
+export class TimeoutError extends Error {
+  constructor(readonly timeoutMs: number) {
+    super(`Request timed out after ${timeoutMs}ms`);
+    this.name = 'TimeoutError';
+  }
+}
+
+// Statuses whose Response may not carry a body
+const NULL_BODY_STATUSES = [101, 204, 205, 304];
+
+/**
+ * Request through the transport (global fetch by default) that aborts after
+ * timeoutMs on the given clock; a caller's own signal still aborts it. The
+ * body is read before the timer is cleared (a provider can stall after the
+ * headers), so the returned Response is already buffered.
+ */
+export async function fetchWithTimeout(
+  url: string,
+  init: RequestInit = {},
+  timeoutMs: number = DEFAULT_REQUEST_TIMEOUT_MS,
+  transport: HttpTransport = fetchTransport,
+  clock: Clock = systemClock
+): Promise<Response> {
+  const controller = new AbortController();
+  const cancelTimer = clock.setTimer(timeoutMs, () => controller.abort());
+  const abortWithCaller = () => controller.abort();
+  init.signal?.addEventListener('abort', abortWithCaller);
+
+  try {
+    const response = await transport(url, { ...init, signal: controller.signal });
+    const body = await untilAborted(response.arrayBuffer(), controller.signal);
+    return new Response(NULL_BODY_STATUSES.includes(response.status) ? null : body, {
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers
+    });
+  } catch (error) {
+    if (controller.signal.aborted && !init.signal?.aborted) {
+      throw new TimeoutError(timeoutMs);
+    }
+    throw error;
+  } finally {
+    cancelTimer();
+    init.signal?.removeEventListener('abort', abortWithCaller);
+  }
+}
+
+/**
+ * Settle with the promise, or reject as soon as the signal aborts; a stalled
+ * body stream doesn't always notice its request's signal
+ */
+function untilAborted<T>(promise: Promise<T>, signal: AbortSignal): Promise<T> {
+  if (signal.aborted) return Promise.reject(signal.reason);
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise
+      .then(resolve, reject)
+      .finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
+
+/**
+ * ProviderError for an HTTP error status, with any Retry-After the provider
+ * sent measured from `now`
+ */
+export function errorFromResponse(response: Response, now: number, message?: string): ProviderError {
+  return {
+    code: response.status.toString(),
+    message: message || response.statusText,
+    retryAfterMs: parseRetryAfter(response.headers, now)
+  };
+}
+
+/**
+ * Error code for a request that threw before a usable response arrived;
+ * a body that isn't JSON is the provider's fault, not the network's
+ */
+export function requestErrorCode(error: unknown): 'TIMEOUT' | 'MALFORMED_RESPONSE' | 'NETWORK_ERROR' {
+  if (error instanceof TimeoutError) return 'TIMEOUT';
+  return error instanceof SyntaxError ? 'MALFORMED_RESPONSE' : 'NETWORK_ERROR';
+}
@@ -0,0 +1,101 @@
+/**
+ * Key Ring - Credentials a tool can be called with, in failover order
+ *
+ * Slots are the primary credential, the backup, then any extra rotation
+ * keys from APIConfig.rotation. Retry attempt n uses slot n (wrapping
+ * around), so a retry never reuses the key that just failed while another
+ * one is configured.
+ */
+
+import type { APIConfig, ToolName, TwilioCredentials } from '../types';
+
+export interface KeySlot<T = string> {
+  index: number;
+  label: string; // 'primary', 'backup', 'rotation 1', ...
+  credential: T;
+}
+
+interface LabeledCredential<T> {
+  label: string;
+  credential: T | undefined;
+}
+
+export class KeyRing<T = string> {
+  readonly slots: KeySlot<T>[];
+
+  constructor(
+    credentials: LabeledCredential<T>[],
+    isUsable: (credential: T) => boolean = Boolean,
+    sameCredential: (a: T, b: T) => boolean = (a, b) => a === b
+  ) {
+    const slots: KeySlot<T>[] = [];
+    for (const { label, credential } of credentials) {
+      if (credential === undefined || !isUsable(credential)) continue;
+      // The same key configured twice would only fail twice
+      if (slots.some(slot => sameCredential(slot.credential, credential))) continue;
+      slots.push({ index: slots.length, label, credential });
+    }
+    this.slots = slots;
+  }
+
+  get size(): number {
+    return this.slots.length;
+  }
+
+  /**
+   * Slot for the first call
+   */
+  get primary(): KeySlot<T> | undefined {
+    return this.slots[0];
+  }
+
+  /**
+   * Slot for a call attempt (0 = first call, 1 = first retry, ...)
+   */
+  forAttempt(attempt: number): KeySlot<T> | undefined {
+    return this.size === 0 ? undefined : this.slots[attempt % this.size];
+  }
+
+  /**
+   * API keys configured for a validation provider or the WhatsApp API
+   */
+  static forTool(apiConfig: APIConfig, tool: ToolName): KeyRing<string> {
+    const keyOf = (keys: APIConfig['primary'] | APIConfig['backup']) => {
+      switch (tool) {
+        case 'numverify':
+          return keys.numverify;
+        case 'abstract':
+          return keys.abstract;
+        case 'whatsapp':
+          return keys.whatsapp;
+        default:
+          return keys.providers?.[tool];
+      }
+    };
+
+    return new KeyRing<string>([
+      { label: 'primary', credential: keyOf(apiConfig.primary) },
+      { label: 'backup', credential: keyOf(apiConfig.backup) },
+      ...rotationSlots(apiConfig.rotation?.keys?.[tool])
+    ]);
+  }
+
+  /**
+   * Twilio accounts used for WhatsApp checks and message history
+   */
+  static forTwilio(apiConfig: APIConfig): KeyRing<TwilioCredentials> {
+    return new KeyRing<TwilioCredentials>(
+      [
+        { label: 'primary', credential: apiConfig.primary.twilio },
+        { label: 'backup', credential: apiConfig.backup.twilio },
+        ...rotationSlots(apiConfig.rotation?.twilio)
+      ],
+      twilio => Boolean(twilio.accountSid && twilio.authToken),
+      (a, b) => a.accountSid === b.accountSid && a.authToken === b.authToken
+    );
+  }
+}
+
+function rotationSlots<T>(credentials: T[] = []): LabeledCredential<T>[] {
+  return credentials.map((credential, index) => ({ label: `rotation ${index + 1}`, credential }));
+}
@@ -0,0 +1,115 @@
+/**
+ * Message Bus - In-process AgentMessage delivery
+ *
+ * The Supervisor dispatches tasks to agents by role and gets each agent's
+ * response back as a result (or error) message; agents query each other
+ * mid-run the same way. Every message goes to the bus's listeners in order,
+ * which is how the Supervisor keeps a session's message log:
+ *
+ *   supervisor.getMessageLog(); // [{ type: 'task', from: 'supervisor', to: 'decision', ... }, ...]
+ */
+
+import type { AgentMessage, AgentQuery, AgentResponse, AgentRole } from '../types';
+import { systemClock, type Clock } from './Dependencies';
+
+export type MessageListener = (message: AgentMessage) => void;
+
+/**
+ * What an agent does with the messages addressed to it
+ */
+export interface MessageHandler {
+  task(input: unknown): Promise<AgentResponse>;
+  query(query: AgentQuery): Promise<unknown>;
+}
+
+type Participant = AgentMessage['from'];
+
+export class MessageBus {
+  private handlers = new Map<AgentRole, MessageHandler>();
+  private listeners = new Set<MessageListener>();
+  private sequence = 0;
+
+  constructor(private clock: Clock = systemClock) {}
+
+  /**
+   * Deliver this role's tasks and queries to the handler (replacing any before it)
+   */
+  register(role: AgentRole, handler: MessageHandler): void {
+    this.handlers.set(role, handler);
+  }
+
+  /**
+   * Listen to every message; returns the unsubscribe function
+   */
+  subscribe(listener: MessageListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Send a task and resolve to the agent's response, published as a result
+   * or error message. An agent that throws gets an error message too.
+   */
+  async dispatch<T = unknown>(
+    from: Participant,
+    to: AgentRole,
+    input: unknown,
+    reasoning?: string
+  ): Promise<AgentResponse<T>> {
+    const task = this.publish({ from, to, type: 'task', content: input, reasoning });
+
+    try {
+      const response = await this.handlerFor(to).task(input);
+      this.publish({ from: to, to: from, type: response.success ? 'result' : 'error', content: response, replyTo: task.id });
+      return response as AgentResponse<T>;
+    } catch (error) {
+      this.publish({ from: to, to: from, type: 'error', content: errorMessage(error), replyTo: task.id });
+      throw error;
+    }
+  }
+
+  /**
+   * Ask an agent a question and resolve to its answer; rejects when the
+   * agent can't answer
+   */
+  async query<T = unknown>(from: AgentRole, to: AgentRole, query: AgentQuery): Promise<T> {
+    const question = this.publish({ from, to, type: 'query', content: query });
+
+    try {
+      const answer = await this.handlerFor(to).query(query);
+      this.publish({ from: to, to: from, type: 'result', content: answer, replyTo: question.id });
+      return answer as T;
+    } catch (error) {
+      this.publish({ from: to, to: from, type: 'error', content: errorMessage(error), replyTo: question.id });
+      throw error;
+    }
+  }
+
+  private handlerFor(role: AgentRole): MessageHandler {
+    const handler = this.handlers.get(role);
+    if (!handler) {
+      throw new Error(`No agent registered for ${role} messages`);
+    }
+    return handler;
+  }
+
+  private publish(message: Omit<AgentMessage, 'id' | 'timestamp'>): AgentMessage {
+    const stamped: AgentMessage = { ...message, id: `msg_${++this.sequence}`, timestamp: this.clock.now() };
+
+    this.listeners.forEach(listener => {
+      try {
+        listener(stamped);
+      } catch (error) {
+        // A broken log consumer must never fail a validation
+        console.error('Message listener failed:', error);
+      }
+    });
+    return stamped;
+  }
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
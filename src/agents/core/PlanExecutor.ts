@@ -0,0 +1,208 @@
+/**
+ * Plan Executor - Runs an ExecutionPlan as a dependency graph
+ *
+ * Steps start as soon as every step they depend on has settled, so
+ * independent steps (e.g. two validation providers) run in parallel.
+ * A step whose condition is false against the facts gathered so far is
+ * skipped, which still counts as settled for its dependents. A failed
+ * step blocks its dependents unless it is marked optional.
+ *
+ * Handlers are registered per agent role and record what they learn in
+ * the shared PlanContext, e.g. context.line_type = 'mobile'.
+ */
+
+import { systemClock, type Clock } from './Dependencies';
+import type { AgentRole, PlanStep, StepResult } from '../types';
+
+export type FactValue = string | number | boolean | null | undefined;
+export type PlanContext = Record<string, FactValue>;
+export type StepHandler = (step: PlanStep, context: PlanContext) => Promise<void>;
+export type StepListener = (result: StepResult) => void;
+
+type Operator = '==' | '!=' | '>' | '<' | '>=' | '<=';
+
+interface Comparison {
+  fact: string;
+  operator: Operator;
+  value: FactValue;
+}
+
+const COMPARISON_PATTERN = /^([a-z_][a-z0-9_]*)\s*(==|!=|>=|<=|>|<)\s*(.+)$/i;
+
+export class PlanExecutor {
+  private handlers: Partial<Record<AgentRole, StepHandler>>;
+  private onSettled?: StepListener;
+
+  constructor(
+    handlers: Partial<Record<AgentRole, StepHandler>>,
+    onSettled?: StepListener,
+    private clock: Clock = systemClock
+  ) {
+    this.handlers = handlers;
+    this.onSettled = onSettled;
+  }
+
+  /**
+   * Run every step of the plan and report how each one went.
+   * Throws before running anything if the plan is not a valid DAG.
+   */
+  async execute(steps: PlanStep[], context: PlanContext = {}): Promise<StepResult[]> {
+    this.validatePlan(steps);
+
+    const results = new Map<number, StepResult>(steps.map(step => [
+      step.id,
+      { stepId: step.id, agent: step.agent, action: step.action, status: 'pending' }
+    ]));
+    const stepsById = new Map(steps.map(step => [step.id, step]));
+    const running = new Map<number, Promise<void>>();
+
+    const isSettled = (result: StepResult) => result.status !== 'pending' && result.status !== 'running';
+
+    for (;;) {
+      // Keep scanning until no more steps can start or be skipped without waiting
+      let progressed = true;
+      while (progressed) {
+        progressed = false;
+
+        for (const step of steps) {
+          const result = results.get(step.id)!;
+          if (result.status !== 'pending') continue;
+
+          const dependencies = (step.dependsOn ?? []).map(id => results.get(id)!);
+          if (!dependencies.every(isSettled)) continue;
+
+          progressed = true;
+          const blocker = dependencies.find(
+            dependency => dependency.status === 'failed' && !stepsById.get(dependency.stepId)!.optional
+          );
+
+          if (blocker) {
+            result.status = 'skipped';
+            result.reason = `Step ${blocker.stepId} (${blocker.action}) failed`;
+            this.onSettled?.(result);
+          } else if (step.condition && !evaluateCondition(step.condition, context)) {
+            result.status = 'skipped';
+            result.reason = `Condition not met: ${step.condition}`;
+            this.onSettled?.(result);
+          } else {
+            running.set(step.id, this.runStep(step, result, context).finally(() => running.delete(step.id)));
+          }
+        }
+      }
+
+      if (running.size === 0) break;
+      await Promise.race(running.values());
+    }
+
+    return steps.map(step => results.get(step.id)!);
+  }
+
+  private async runStep(step: PlanStep, result: StepResult, context: PlanContext): Promise<void> {
+    result.status = 'running';
+    result.startedAt = this.clock.now();
+
+    try {
+      await this.handlers[step.agent]!(step, context);
+      result.status = 'completed';
+    } catch (error) {
+      result.status = 'failed';
+      result.error = error instanceof Error ? error.message : String(error);
+    }
+
+    result.durationMs = this.clock.now() - result.startedAt;
+    this.onSettled?.(result);
+  }
+
+  /**
+   * Reject plans that could never finish: unknown agents or dependencies,
+   * duplicate ids, cycles and conditions we cannot parse
+   */
+  private validatePlan(steps: PlanStep[]): void {
+    const ids = new Set<number>();
+
+    for (const step of steps) {
+      if (ids.has(step.id)) throw new Error(`Invalid plan: duplicate step id ${step.id}`);
+      ids.add(step.id);
+
+      if (!this.handlers[step.agent]) {
+        throw new Error(`Invalid plan: no handler for ${step.agent} (step ${step.id})`);
+      }
+      if (step.condition) parseCondition(step.condition);
+    }
+
+    for (const step of steps) {
+      const unknown = (step.dependsOn ?? []).find(id => !ids.has(id));
+      if (unknown !== undefined) {
+        throw new Error(`Invalid plan: step ${step.id} depends on unknown step ${unknown}`);
+      }
+    }
+
+    // Depth-first search for cycles
+    const stepsById = new Map(steps.map(step => [step.id, step]));
+    const visiting = new Set<number>();
+    const done = new Set<number>();
+
+    const visit = (id: number) => {
+      if (done.has(id)) return;
+      if (visiting.has(id)) throw new Error(`Invalid plan: dependency cycle through step ${id}`);
+
+      visiting.add(id);
+      (stepsById.get(id)!.dependsOn ?? []).forEach(visit);
+      visiting.delete(id);
+      done.add(id);
+    };
+
+    steps.forEach(step => visit(step.id));
+  }
+}
+
+/**
+ * Evaluate a plan condition such as `IF line_type == "mobile" AND valid == true`.
+ * AND binds tighter than OR; facts missing from the context compare as undefined.
+ */
+export function evaluateCondition(condition: string, context: PlanContext): boolean {
+  return parseCondition(condition).some(clauses =>
+    clauses.every(({ fact, operator, value }) => compare(context[fact], operator, value))
+  );
+}
+
+function parseCondition(condition: string): Comparison[][] {
+  const expression = condition.trim().replace(/^IF\s+/i, '');
+
+  return expression.split(/\s+OR\s+/i).map(disjunct =>
+    disjunct.split(/\s+AND\s+/i).map(clause => {
+      const match = clause.trim().match(COMPARISON_PATTERN);
+      if (!match) throw new Error(`Invalid plan: cannot parse condition "${condition}"`);
+      return { fact: match[1], operator: match[2] as Operator, value: parseLiteral(match[3].trim()) };
+    })
+  );
+}
+
+function parseLiteral(literal: string): FactValue {
+  const quoted = literal.match(/^"(.*)"$|^'(.*)'$/);
+  if (quoted) return quoted[1] ?? quoted[2];
+  if (literal === 'true') return true;
+  if (literal === 'false') return false;
+  if (literal === 'null') return null;
+
+  const number = Number(literal);
+  if (!isNaN(number)) return number;
+
+  throw new Error(`Invalid plan: cannot parse value ${literal}`);
+}
+
+function compare(actual: FactValue, operator: Operator, expected: FactValue): boolean {
+  switch (operator) {
+    case '==': return actual === expected;
+    case '!=': return actual !== expected;
+  }
+
+  if (typeof actual !== 'number' || typeof expected !== 'number') return false;
+
+  switch (operator) {
+    case '>': return actual > expected;
+    case '<': return actual < expected;
+    case '>=': return actual >= expected;
+    case '<=': return actual <= expected;
+  }
+}
@@ -0,0 +1,61 @@
+/**
+ * Rate Limiter - Serialized request queue
+ *
+ * Runs queued calls one at a time with a fixed delay between them.
+ * A single instance can be shared by several agents (e.g. every
+ * Supervisor lane of a batch run) so a provider's request budget is
+ * respected no matter how many validations are in flight.
+ */
+
+import { systemClock, type Clock } from './Dependencies';
+
+interface QueuedRequest {
+  resolve: (value: unknown) => void;
+  reject: (reason?: unknown) => void;
+  fn: () => Promise<unknown>;
+}
+
+export class RateLimiter {
+  private requestQueue: QueuedRequest[] = [];
+  private processing = false;
+  private readonly intervalMs: number;
+
+  constructor(intervalMs: number, private clock: Clock = systemClock) {
+    this.intervalMs = intervalMs;
+  }
+
+  /**
+   * Queue a request and resolve with its result once it has run
+   */
+  schedule<T>(fn: () => Promise<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+      this.requestQueue.push({ resolve, reject, fn });
+      this.processQueue();
+    });
+  }
+
+  /**
+   * Number of requests waiting for their turn
+   */
+  getPendingCount(): number {
+    return this.requestQueue.length;
+  }
+
+  private async processQueue() {
+    if (this.processing || this.requestQueue.length === 0) return;
+
+    this.processing = true;
+    const { resolve, reject, fn } = this.requestQueue.shift()!;
+
+    try {
+      const result = await fn();
+      resolve(result);
+    } catch (error) {
+      reject(error);
+    } finally {
+      await this.clock.sleep(this.intervalMs);
+      this.processing = false;
+      this.processQueue();
+    }
+  }
+}
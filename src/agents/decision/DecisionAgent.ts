@@ -10,34 +10,36 @@
  */
 
 import { BaseAgent } from '../core/BaseAgent';
+import {
+  DecisionInputSchema,
+  ExecutionPlanSchema,
+  type DecisionInput
+} from '../schemas/AgentSchemas';
+import { parsePhoneNumber, resolveCountry, type ParsedPhoneNumber } from '../numbering/NumberingPlan';
+import { ProviderRegistry, createDefaultProviderRegistry } from '../providers/ProviderRegistry';
+import { DEFAULT_UNIT_PRICES } from '../core/CostLedger';
 import type {
   AgentResponse,
   ExecutionPlan,
   PlanStep,
-  AgentRole
+  AgentRole,
+  ProviderCapability,
+  ToolName
 } from '../types';
 
-interface DecisionInput {
-  phoneNumber: string;
-  country?: string;
-  userPreferences?: {
-    maxCost?: number;
-    prioritizeSpeed?: boolean;
-  };
-}
 
 // High-risk countries that require dual validation
 const HIGH_RISK_COUNTRIES = [
   'NG', 'PK', 'IN', 'BD', 'ID', 'GH', 'KE', 'UG', 'ZA'
 ];
 
-// Countries with high landline usage
-const LANDLINE_COMMON_COUNTRIES = [
-  'DE', 'FR', 'IT', 'ES', 'JP', 'KR', 'CN'
-];
+// Lookup data the rest of the pipeline depends on
+const REQUIRED_CAPABILITIES: ProviderCapability[] = ['validity', 'line_type'];
+
+export class DecisionAgent extends BaseAgent<DecisionInput, ExecutionPlan> {
+  private providers: ProviderRegistry;
 
-export class DecisionAgent extends BaseAgent {
-  constructor() {
+  constructor(providers: ProviderRegistry = createDefaultProviderRegistry()) {
     super({
       role: 'decision',
       systemPrompt: `You are the Brain of a phone validation system. Your goal is to optimize for accuracy while minimizing API costs.
@@ -54,32 +56,44 @@ Plan the sequence of agent handoffs and output a structured plan for execution.`
       ],
       tools: ['none'],
       outputFormat: 'structured'
-    });
+    }, { input: DecisionInputSchema, output: ExecutionPlanSchema });
+
+    this.providers = providers;
   }
 
-  async execute(input: DecisionInput): Promise<AgentResponse<ExecutionPlan>> {
-    this.startTime = Date.now();
+  protected async run(input: DecisionInput): Promise<AgentResponse<ExecutionPlan>> {
+    this.startTime = this.deps.clock.now();
     this.setStatus('thinking');
 
     try {
       this.think('Analyzing phone number input...');
       
-      const { phoneNumber, country, userPreferences } = input;
+      const { phoneNumber, country, availableProviders, unitPrices, openCircuits = [], userPreferences } = input;
       
-      // Extract country code from phone number
-      const detectedCountry = this.detectCountryCode(phoneNumber);
-      const finalCountry = country || detectedCountry;
+      // Parse against the offline numbering plan
+      const parsed = parsePhoneNumber(phoneNumber, country);
+      const finalCountry = this.detectCountryCode(parsed, country);
 
       this.think(`Detected country: ${finalCountry}`);
+      if (parsed) {
+        this.think(`Normalized to ${parsed.e164} (${parsed.numberType.replace(/_/g, ' ')})`);
+        if (!parsed.isPossibleLength) {
+          this.think(`National number length ${parsed.nationalNumber.length} is not valid for ${finalCountry}`);
+        }
+      }
 
       // Check if country is high-risk
       const isHighRisk = HIGH_RISK_COUNTRIES.includes(finalCountry);
       this.think(`Risk level: ${isHighRisk ? 'HIGH' : 'LOW'}`);
 
       // Check if landline is likely
-      const isLandlineLikely = this.isLandlineLikely(phoneNumber, finalCountry);
+      const isLandlineLikely = this.isLandlineLikely(parsed);
       this.think(`Landline probability: ${isLandlineLikely ? 'HIGH' : 'LOW'}`);
 
+      if (openCircuits.length > 0) {
+        this.think(`Circuit open for: ${openCircuits.join(', ')}`);
+      }
+
       // Build execution plan
       this.setStatus('acting');
       this.act('Creating execution plan...');
@@ -89,6 +103,9 @@ Plan the sequence of agent handoffs and output a structured plan for execution.`
         finalCountry,
         isHighRisk,
         isLandlineLikely,
+        availableProviders,
+        unitPrices,
+        openCircuits,
         userPreferences
       );
 
@@ -109,102 +126,107 @@ Plan the sequence of agent handoffs and output a structured plan for execution.`
   }
 
   /**
-   * Detect country code from phone number
+   * Detect country code from the parsed number, falling back to the caller's hint
    */
-  private detectCountryCode(phoneNumber: string): string {
-    const cleaned = phoneNumber.replace(/\D/g, '');
-    
-    // Simple country code detection (first 1-3 digits)
-    if (cleaned.startsWith('1')) return 'US';
-    if (cleaned.startsWith('44')) return 'GB';
-    if (cleaned.startsWith('91')) return 'IN';
-    if (cleaned.startsWith('234')) return 'NG';
-    if (cleaned.startsWith('86')) return 'CN';
-    if (cleaned.startsWith('81')) return 'JP';
-    if (cleaned.startsWith('49')) return 'DE';
-    if (cleaned.startsWith('33')) return 'FR';
-    if (cleaned.startsWith('92')) return 'PK';
-    if (cleaned.startsWith('62')) return 'ID';
-    
-    return 'UNKNOWN';
+  private detectCountryCode(parsed: ParsedPhoneNumber | null, country?: string): string {
+    return parsed?.countryCode ?? resolveCountry(country) ?? 'UNKNOWN';
   }
 
   /**
    * Check if number is likely a landline
    */
-  private isLandlineLikely(phoneNumber: string, country: string): boolean {
-    // Landline patterns vary by country
-    // This is a simplified heuristic
-    
-    if (LANDLINE_COMMON_COUNTRIES.includes(country)) {
-      // In these countries, check for typical landline patterns
-      const cleaned = phoneNumber.replace(/\D/g, '');
-      
-      // US landlines often don't start with certain prefixes
-      if (country === 'US') {
-        const areaCode = cleaned.substring(1, 4);
-        // Mobile prefixes in US often start with 2-9
-        return false; // Most US numbers are mobile now
-      }
-      
-      // Germany landlines start with specific codes
-      if (country === 'DE') {
-        return !cleaned.startsWith('491'); // 491 is mobile
-      }
-    }
-    
-    return false;
+  private isLandlineLikely(parsed: ParsedPhoneNumber | null): boolean {
+    // Only numbering plans that separate fixed and mobile ranges can tell us;
+    // shared ranges (NANP, Mexico) stay eligible for the WhatsApp check
+    if (!parsed) return false;
+
+    return ['fixed_line', 'toll_free', 'premium_rate'].includes(parsed.numberType);
   }
 
   /**
-   * Create detailed execution plan
+   * Create detailed execution plan, trimmed to userPreferences.maxCost
    */
   private createExecutionPlan(
     phoneNumber: string,
     country: string,
     isHighRisk: boolean,
     isLandlineLikely: boolean,
+    availableProviders?: ToolName[],
+    unitPrices: Partial<Record<ToolName, number>> = {},
+    openCircuits: ToolName[] = [],
     userPreferences?: DecisionInput['userPreferences']
   ): ExecutionPlan {
     const steps: PlanStep[] = [];
-    let estimatedCost = 0;
     const reasoning: string[] = [];
+    const priceOf = (tool: ToolName, fallback = 0) => unitPrices[tool] ?? fallback;
+    const whatsappPrice = priceOf('whatsapp', DEFAULT_UNIT_PRICES.whatsapp);
 
-    // Step 1: Always validate the phone number
-    if (isHighRisk) {
-      // Use both APIs for cross-validation
-      steps.push({
-        id: 1,
-        agent: 'validation',
-        action: 'validate_with_numverify',
-        tool: 'numverify'
-      });
-      
+    // Providers with an open circuit are planned around; the next cheapest takes their place
+    const tripped = this.providers.select({ capabilities: REQUIRED_CAPABILITIES, available: availableProviders })
+      .filter(provider => openCircuits.includes(provider.name));
+    const healthy = (availableProviders ?? this.providers.list().map(provider => provider.name))
+      .filter(name => !openCircuits.includes(name));
+
+    // Step 1: Always validate the phone number with the cheapest capable provider(s)
+    let providers = this.providers.select({
+      capabilities: REQUIRED_CAPABILITIES,
+      available: healthy,
+      limit: isHighRisk ? 2 : 1,
+      prices: unitPrices
+    });
+
+    if (providers.length === 0) {
+      throw new Error(tripped.length > 0
+        ? `No validation provider available: circuit open for ${tripped.map(p => p.displayName).join(', ')}`
+        : `No validation provider offers: ${REQUIRED_CAPABILITIES.join(', ')}`);
+    }
+
+    const whatsappTripped = openCircuits.includes('whatsapp');
+    let skipWhatsApp = isLandlineLikely || userPreferences?.prioritizeSpeed || whatsappTripped;
+    const providerCost = () => providers.reduce((sum, provider) => sum + priceOf(provider.name, provider.costPerCall), 0);
+    const planCost = () => providerCost() + (skipWhatsApp ? 0 : whatsappPrice);
+
+    // Stay under budget: drop cross-validation first, then the WhatsApp check
+    const maxCost = userPreferences?.maxCost;
+    const budgetSkips: string[] = [];
+    if (maxCost !== undefined) {
+      if (planCost() > maxCost && providers.length > 1) {
+        budgetSkips.push(`Budget $${maxCost.toFixed(4)}: dropping cross-validation with ${providers.slice(1).map(p => p.displayName).join(', ')}`);
+        providers = providers.slice(0, 1);
+      }
+      if (planCost() > maxCost && !skipWhatsApp) {
+        budgetSkips.push(`Budget $${maxCost.toFixed(4)}: skipping WhatsApp check ($${whatsappPrice.toFixed(4)})`);
+        skipWhatsApp = true;
+      }
+      if (planCost() > maxCost) {
+        throw new Error(`Budget $${maxCost.toFixed(4)} is below the cheapest validation ($${providerCost().toFixed(4)})`);
+      }
+    }
+
+    providers.forEach(provider => {
       steps.push({
-        id: 2,
+        id: steps.length + 1,
         agent: 'validation',
-        action: 'validate_with_abstract',
-        tool: 'abstract'
+        action: `validate_with_${provider.name}`,
+        tool: provider.name,
+        // Cross-check providers run in parallel; any one provider's data is enough to go on
+        ...(providers.length > 1 && { optional: true })
       });
-      
-      estimatedCost += 0.002; // Both APIs
-      reasoning.push('High-risk country detected: using dual validation');
+    });
+    const validationSteps = steps.map(step => step.id);
+
+    const providerNames = providers.map(provider => provider.displayName).join(' + ');
+    if (isHighRisk && providers.length > 1) {
+      // Use two providers for cross-validation
+      reasoning.push(`High-risk country detected: using dual validation (${providerNames})`);
+    } else if (isHighRisk) {
+      reasoning.push(`High-risk country detected but only ${providerNames} is ${budgetSkips.length > 0 ? 'affordable' : 'available'}`);
     } else {
-      // Use primary API only
-      steps.push({
-        id: 1,
-        agent: 'validation',
-        action: 'validate_with_numverify',
-        tool: 'numverify'
-      });
-      
-      estimatedCost += 0.001;
-      reasoning.push('Standard validation with primary API');
+      // Use primary provider only
+      reasoning.push(`Standard validation with ${providerNames}`);
     }
 
     // Step 2: WhatsApp check (conditional)
-    const skipWhatsApp = isLandlineLikely || userPreferences?.prioritizeSpeed;
-    
     if (!skipWhatsApp) {
       steps.push({
         id: steps.length + 1,
@@ -212,20 +234,34 @@ Plan the sequence of agent handoffs and output a structured plan for execution.`
         action: 'check_whatsapp_existence',
         tool: 'whatsapp',
         condition: 'IF line_type == "mobile"',
-        dependsOn: [1]
+        dependsOn: validationSteps,
+        optional: true // Validation stands on its own if WhatsApp is unreachable
+      });
+
+      // Step 3: Inactivity analysis (only for numbers found on WhatsApp)
+      steps.push({
+        id: steps.length + 1,
+        agent: 'inactive',
+        action: 'analyze_inactivity',
+        condition: 'IF whatsapp_exists == true',
+        dependsOn: [steps.length],
+        optional: true
       });
       
-      estimatedCost += 0.0015;
-      reasoning.push('WhatsApp check included for mobile numbers');
-    } else {
+      reasoning.push('WhatsApp check and inactivity analysis included for mobile numbers');
+    } else if (isLandlineLikely || userPreferences?.prioritizeSpeed) {
       reasoning.push(
         isLandlineLikely 
           ? 'Skipping WhatsApp check: likely landline'
           : 'Skipping WhatsApp check: speed prioritized'
       );
+    } else if (whatsappTripped) {
+      reasoning.push('Skipping WhatsApp check: circuit open');
     }
+    tripped.forEach(provider => reasoning.push(`Circuit open for ${provider.displayName}: planning around it`));
+    reasoning.push(...budgetSkips);
 
-    // Step 3: Confidence scoring (always last)
+    // Final step: Confidence scoring (always last)
     steps.push({
       id: steps.length + 1,
       agent: 'confidence',
@@ -233,14 +269,15 @@ Plan the sequence of agent handoffs and output a structured plan for execution.`
       dependsOn: steps.map(s => s.id)
     });
 
+    const estimatedCost = planCost();
     reasoning.push(`Total estimated cost: $${estimatedCost.toFixed(4)}`);
 
     return {
-      id: `plan_${Date.now()}`,
+      id: `plan_${this.deps.clock.now()}`,
       steps,
       estimatedCost,
       riskLevel: isHighRisk ? 'high' : 'low',
-      skipWhatsApp,
+      skipWhatsApp: !!skipWhatsApp,
       reasoning
     };
   }
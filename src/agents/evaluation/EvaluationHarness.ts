@@ -0,0 +1,303 @@
+/**
+ * Evaluation Harness - Measures the Supervisor against labeled ground truth
+ *
+ * Runs the full agent pipeline over labeled fixtures against a mock provider
+ * server and reports precision/recall for validity and WhatsApp
+ * detection, line type accuracy and a calibration curve of confidence
+ * scores: within each score bucket, how often the validation was actually
+ * right. Headline metrics are compared against a stored baseline so a
+ * scoring or detection change that makes things worse is caught.
+ */
+
+import { Supervisor, type SupervisorConfig } from '../supervisor/Supervisor';
+import { RateLimiter } from '../core/RateLimiter';
+import { LABELED_FIXTURES, type LabeledFixture } from './fixtures';
+import type { APIConfig, ValidationData } from '../types';
+
+export interface EvaluationCase {
+  fixture: LabeledFixture;
+  predicted: {
+    valid: boolean;
+    lineType: ValidationData['lineType'];
+    whatsapp: boolean;
+  };
+  score: number; // Confidence score, 0 when the pipeline failed
+  correct: boolean; // Validity right and, for valid numbers, line type right
+  error?: string;
+}
+
+export interface BinaryMetrics {
+  truePositives: number;
+  falsePositives: number;
+  trueNegatives: number;
+  falseNegatives: number;
+  precision: number;
+  recall: number;
+  f1: number;
+  accuracy: number;
+}
+
+export interface CalibrationBucket {
+  min: number; // Inclusive score bounds
+  max: number;
+  count: number;
+  meanConfidence: number; // Mean score / 100
+  accuracy: number; // Share of cases that were correct
+}
+
+export interface EvaluationReport {
+  modelVersion: string;
+  cases: EvaluationCase[];
+  validity: BinaryMetrics;
+  whatsapp: BinaryMetrics;
+  lineTypeAccuracy: number; // Over numbers that are truly valid
+  calibration: CalibrationBucket[];
+  expectedCalibrationError: number; // Count-weighted |confidence - accuracy|
+}
+
+export interface EvaluationBaseline {
+  modelVersion: string;
+  metrics: Record<string, number>; // Headline metrics by name, e.g. { 'validity.recall': 0.94 }
+}
+
+export interface Regression {
+  metric: string;
+  baseline: number;
+  current: number;
+}
+
+export interface EvaluationOptions {
+  baseUrls: APIConfig['baseUrls']; // Provider API roots, e.g. the mock provider server's; never the live APIs
+  supervisor?: Partial<SupervisorConfig>; // Overrides, e.g. scoringModel
+  bucketSize?: number; // Calibration bucket width in score points (default 10)
+}
+
+// Credentials for the mock server, which answers any non-empty key
+export const EVALUATION_API_CONFIG: APIConfig = {
+  primary: {
+    numverify: 'eval-numverify-key',
+    abstract: 'eval-abstract-key',
+    twilio: { accountSid: 'AC00000000000000000000000000000eval', authToken: 'eval-auth-token' }
+  },
+  backup: {}
+};
+
+// Metrics where a lower value is better
+const LOWER_IS_BETTER = new Set(['calibration.ece']);
+
+export class EvaluationHarness {
+  private supervisor: Supervisor;
+  private bucketSize: number;
+
+  constructor(options: EvaluationOptions) {
+    this.supervisor = new Supervisor({
+      apiConfig: { ...EVALUATION_API_CONFIG, baseUrls: options.baseUrls },
+      enableLogging: false,
+      whatsappRateLimiter: new RateLimiter(0),
+      cache: false,
+      ...options.supervisor
+    });
+    this.bucketSize = options.bucketSize ?? 10;
+  }
+
+  async run(fixtures: LabeledFixture[] = LABELED_FIXTURES): Promise<EvaluationReport> {
+    const cases: EvaluationCase[] = [];
+    let modelVersion = 'unknown';
+
+    for (const fixture of fixtures) {
+      try {
+        const result = await this.supervisor.validate({
+          phoneNumber: fixture.phoneNumber,
+          country: fixture.country
+        });
+        modelVersion = result.confidence.modelVersion;
+
+        const predicted = {
+          valid: result.validation.valid,
+          lineType: result.validation.lineType,
+          whatsapp: result.whatsapp?.exists ?? false
+        };
+        cases.push({ fixture, predicted, score: result.confidence.score, correct: isCorrect(fixture, predicted) });
+      } catch (error) {
+        // A pipeline failure is a confident "invalid" with nothing detected
+        const predicted = { valid: false, lineType: 'unknown' as const, whatsapp: false };
+        cases.push({
+          fixture,
+          predicted,
+          score: 0,
+          correct: isCorrect(fixture, predicted),
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+    }
+
+    const calibration = calibrationCurve(cases, this.bucketSize);
+    const validNumbers = cases.filter(c => c.fixture.truth.valid);
+
+    return {
+      modelVersion,
+      cases,
+      validity: binaryMetrics(cases.map(c => [c.predicted.valid, c.fixture.truth.valid])),
+      whatsapp: binaryMetrics(cases.map(c => [c.predicted.whatsapp, c.fixture.truth.whatsapp])),
+      lineTypeAccuracy: ratio(
+        validNumbers.filter(c => c.predicted.lineType === c.fixture.truth.lineType).length,
+        validNumbers.length
+      ),
+      calibration,
+      expectedCalibrationError: round(
+        calibration.reduce((sum, bucket) => sum + bucket.count * Math.abs(bucket.meanConfidence - bucket.accuracy), 0)
+          / Math.max(1, cases.length)
+      )
+    };
+  }
+}
+
+function isCorrect(fixture: LabeledFixture, predicted: EvaluationCase['predicted']): boolean {
+  if (predicted.valid !== fixture.truth.valid) return false;
+  return !fixture.truth.valid || predicted.lineType === fixture.truth.lineType;
+}
+
+/**
+ * Confusion counts and rates from [predicted, actual] pairs
+ */
+export function binaryMetrics(pairs: [boolean, boolean][]): BinaryMetrics {
+  const count = (predicted: boolean, actual: boolean) =>
+    pairs.filter(([p, a]) => p === predicted && a === actual).length;
+
+  const truePositives = count(true, true);
+  const falsePositives = count(true, false);
+  const trueNegatives = count(false, false);
+  const falseNegatives = count(false, true);
+  const precision = ratio(truePositives, truePositives + falsePositives);
+  const recall = ratio(truePositives, truePositives + falseNegatives);
+
+  return {
+    truePositives,
+    falsePositives,
+    trueNegatives,
+    falseNegatives,
+    precision,
+    recall,
+    f1: precision + recall === 0 ? 0 : round((2 * precision * recall) / (precision + recall)),
+    accuracy: ratio(truePositives + trueNegatives, pairs.length)
+  };
+}
+
+/**
+ * Observed accuracy per confidence score bucket; empty buckets are kept so
+ * the curve always spans 0-100
+ */
+export function calibrationCurve(cases: EvaluationCase[], bucketSize = 10): CalibrationBucket[] {
+  const buckets: CalibrationBucket[] = [];
+
+  for (let min = 0; min < 100; min += bucketSize) {
+    const max = min + bucketSize >= 100 ? 100 : min + bucketSize - 1; // Last bucket takes a perfect 100
+    buckets.push(bucket(min, max, cases.filter(c => c.score >= min && c.score <= max)));
+  }
+
+  return buckets;
+}
+
+function bucket(min: number, max: number, cases: EvaluationCase[]): CalibrationBucket {
+  return {
+    min,
+    max,
+    count: cases.length,
+    meanConfidence: ratio(cases.reduce((sum, c) => sum + c.score / 100, 0), cases.length),
+    accuracy: ratio(cases.filter(c => c.correct).length, cases.length)
+  };
+}
+
+/**
+ * Headline metrics to store as the baseline
+ */
+export function toBaseline(report: EvaluationReport): EvaluationBaseline {
+  return {
+    modelVersion: report.modelVersion,
+    metrics: {
+      'validity.precision': report.validity.precision,
+      'validity.recall': report.validity.recall,
+      'validity.f1': report.validity.f1,
+      'whatsapp.precision': report.whatsapp.precision,
+      'whatsapp.recall': report.whatsapp.recall,
+      'whatsapp.f1': report.whatsapp.f1,
+      'lineType.accuracy': report.lineTypeAccuracy,
+      'calibration.ece': report.expectedCalibrationError
+    }
+  };
+}
+
+/**
+ * Metrics that got worse than the baseline by more than the tolerance
+ */
+export function compareWithBaseline(
+  report: EvaluationReport,
+  baseline: EvaluationBaseline,
+  tolerance = 0.005
+): Regression[] {
+  const current = toBaseline(report).metrics;
+
+  return Object.entries(baseline.metrics)
+    .filter(([metric, previous]) => {
+      const value = current[metric];
+      if (value === undefined) return false;
+      return LOWER_IS_BETTER.has(metric) ? value > previous + tolerance : value < previous - tolerance;
+    })
+    .map(([metric, previous]) => ({ metric, baseline: previous, current: current[metric] }));
+}
+
+/**
+ * Plain-text report for the terminal; regressions are listed when a baseline was compared
+ */
+export function formatReport(report: EvaluationReport, regressions?: Regression[]): string {
+  const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+  const binary = (name: string, metrics: BinaryMetrics) =>
+    `${name.padEnd(10)} precision ${percent(metrics.precision)}  recall ${percent(metrics.recall)}  ` +
+    `f1 ${percent(metrics.f1)}  (TP ${metrics.truePositives} FP ${metrics.falsePositives} ` +
+    `TN ${metrics.trueNegatives} FN ${metrics.falseNegatives})`;
+
+  const lines = [
+    `Evaluation of ${report.cases.length} labeled numbers (scoring model ${report.modelVersion})`,
+    '',
+    binary('Validity', report.validity),
+    binary('WhatsApp', report.whatsapp),
+    `Line type  accuracy ${percent(report.lineTypeAccuracy)} of valid numbers`,
+    '',
+    'Calibration (score bucket: mean confidence → observed accuracy)',
+    ...report.calibration
+      .filter(b => b.count > 0)
+      .map(b => `  ${`${b.min}-${b.max}`.padEnd(7)} ${percent(b.meanConfidence).padStart(6)} → ${percent(b.accuracy).padStart(6)}  (${b.count})`),
+    `  Expected calibration error: ${percent(report.expectedCalibrationError)}`
+  ];
+
+  const misses = report.cases.filter(c => !c.correct || c.predicted.whatsapp !== c.fixture.truth.whatsapp);
+  if (misses.length > 0) {
+    lines.push('', 'Misclassified');
+    misses.forEach(({ fixture, predicted, error }) => lines.push(
+      `  ${fixture.id.padEnd(18)} expected ${describe(fixture.truth)}, got ${describe(predicted)}${error ? ` (${error})` : ''}`
+    ));
+  }
+
+  if (!regressions) return lines.join('\n');
+
+  lines.push('', regressions.length === 0
+    ? 'No regressions against the baseline'
+    : `${regressions.length} regression(s) against the baseline:`);
+  regressions.forEach(({ metric, baseline, current }) =>
+    lines.push(`  ${metric}: ${baseline} → ${current}`)
+  );
+
+  return lines.join('\n');
+}
+
+function describe({ valid, lineType, whatsapp }: EvaluationCase['predicted']): string {
+  return valid ? `${lineType}${whatsapp ? ' on WhatsApp' : ''}` : 'invalid';
+}
+
+function ratio(numerator: number, denominator: number): number {
+  return denominator === 0 ? 0 : round(numerator / denominator);
+}
+
+function round(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
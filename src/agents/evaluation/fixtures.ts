@@ -0,0 +1,52 @@
+/**
+ * Labeled Fixtures - Ground truth for the evaluation harness
+ *
+ * Each entry is a number with its true validity, line type and WhatsApp
+ * presence. Invalid numbers have line type 'unknown' and no WhatsApp.
+ * Add a fixture whenever a misclassification is reported, then refresh the
+ * baseline with `npm run eval -- --update-baseline`.
+ */
+
+import type { ValidationData } from '../types';
+
+export interface LabeledFixture {
+  id: string;
+  phoneNumber: string;
+  country?: string;
+  truth: {
+    valid: boolean;
+    lineType: ValidationData['lineType'];
+    whatsapp: boolean;
+  };
+}
+
+export const LABELED_FIXTURES: LabeledFixture[] = [
+  // Mobiles in high WhatsApp adoption countries
+  { id: 'in-mobile-jio', phoneNumber: '+919876543210', truth: { valid: true, lineType: 'mobile', whatsapp: true } },
+  { id: 'in-mobile-airtel', phoneNumber: '+918123456789', truth: { valid: true, lineType: 'mobile', whatsapp: true } },
+  { id: 'br-mobile', phoneNumber: '+5511987654321', truth: { valid: true, lineType: 'mobile', whatsapp: true } },
+  { id: 'mx-mobile', phoneNumber: '+525512345678', truth: { valid: true, lineType: 'mobile', whatsapp: true } },
+  { id: 'de-mobile', phoneNumber: '+4915123456789', truth: { valid: true, lineType: 'mobile', whatsapp: true } },
+  { id: 'es-mobile', phoneNumber: '+34612345678', truth: { valid: true, lineType: 'mobile', whatsapp: true } },
+  { id: 'it-mobile', phoneNumber: '+393123456789', truth: { valid: true, lineType: 'mobile', whatsapp: true } },
+  { id: 'ng-mobile', phoneNumber: '+2348031234567', truth: { valid: true, lineType: 'mobile', whatsapp: true } },
+  { id: 'gb-mobile', phoneNumber: '+447700900123', truth: { valid: true, lineType: 'mobile', whatsapp: true } },
+
+  // Mobiles where WhatsApp is uncommon
+  { id: 'us-mobile', phoneNumber: '+14155552671', truth: { valid: true, lineType: 'mobile', whatsapp: false } },
+  { id: 'jp-mobile', phoneNumber: '+819012345678', truth: { valid: true, lineType: 'mobile', whatsapp: false } },
+  { id: 'cn-mobile', phoneNumber: '+8613812345678', truth: { valid: true, lineType: 'mobile', whatsapp: false } },
+  { id: 'kr-mobile', phoneNumber: '+821012345678', truth: { valid: true, lineType: 'mobile', whatsapp: false } },
+
+  // Landlines
+  { id: 'gb-landline', phoneNumber: '+442079460000', truth: { valid: true, lineType: 'landline', whatsapp: false } },
+  { id: 'de-landline', phoneNumber: '+493012345678', truth: { valid: true, lineType: 'landline', whatsapp: false } },
+  { id: 'fr-landline', phoneNumber: '+33123456789', truth: { valid: true, lineType: 'landline', whatsapp: false } },
+  { id: 'in-landline', phoneNumber: '+911123456789', truth: { valid: true, lineType: 'landline', whatsapp: false } },
+
+  // Invalid numbers
+  { id: 'too-short', phoneNumber: '+1415555', truth: { valid: false, lineType: 'unknown', whatsapp: false } },
+  { id: 'unassigned-code', phoneNumber: '+99912345678', truth: { valid: false, lineType: 'unknown', whatsapp: false } },
+  { id: 'in-leading-zero', phoneNumber: '+910123456789', truth: { valid: false, lineType: 'unknown', whatsapp: false } },
+  { id: 'us-bad-area-code', phoneNumber: '+11235550123', truth: { valid: false, lineType: 'unknown', whatsapp: false } }
+];
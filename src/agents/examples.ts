@@ -186,11 +186,11 @@ async function confidenceBreakdown() {
     phoneNumber: '+14155552671'
   });
 
-  console.log('Confidence Score Breakdown:');
+  console.log(`Confidence Score Breakdown (model ${result.confidence.modelVersion}):`);
   console.log(`  Base Score: ${result.confidence.breakdown.baseScore}`);
-  console.log(`  Carrier Deduction: -${result.confidence.breakdown.carrierDeduction}`);
-  console.log(`  Retry Deduction: -${result.confidence.breakdown.retryDeduction}`);
-  console.log(`  WhatsApp Bonus: +${result.confidence.breakdown.whatsappBonus}`);
+  result.confidence.breakdown.rules.forEach(({ description, points }) => {
+    console.log(`  ${description}: ${points >= 0 ? '+' : ''}${points}`);
+  });
   console.log(`  ─────────────────────────`);
   console.log(`  Final Score: ${result.confidence.score}/100`);
   
@@ -0,0 +1,73 @@
+/**
+ * Delivery History Repository - Message delivery stats for inactivity scoring
+ *
+ * Production reads the whatsapp_inactivity_summary view over message_logs
+ * (see SupabaseDeliveryHistoryRepository). The in-memory repository applies
+ * the same aggregation to locally recorded messages for tests and demos.
+ */
+
+export type MessageStatus = 'queued' | 'sent' | 'delivered' | 'read' | 'failed' | 'undelivered';
+
+export interface DeliveryHistory {
+  totalMessages: number;
+  deliveredMessages: number;
+  failedMessages: number;
+  lastDeliveryAttempt?: Date;
+  lastSuccessfulDelivery?: Date;
+}
+
+export interface MessageLogRecord {
+  phoneNumber: string; // E.164
+  status: MessageStatus;
+  sentAt?: Date;
+  deliveredAt?: Date;
+}
+
+export interface DeliveryHistoryRepository {
+  /**
+   * Aggregated delivery history for an E.164 number (all zero when never messaged)
+   */
+  getDeliveryHistory(phoneNumber: string): Promise<DeliveryHistory>;
+}
+
+export const EMPTY_DELIVERY_HISTORY: DeliveryHistory = {
+  totalMessages: 0,
+  deliveredMessages: 0,
+  failedMessages: 0
+};
+
+const DELIVERED: MessageStatus[] = ['delivered', 'read'];
+const FAILED: MessageStatus[] = ['failed', 'undelivered'];
+
+export class InMemoryDeliveryHistoryRepository implements DeliveryHistoryRepository {
+  private logs: MessageLogRecord[] = [];
+
+  constructor(logs: MessageLogRecord[] = []) {
+    logs.forEach(log => this.record(log));
+  }
+
+  record(log: MessageLogRecord): this {
+    this.logs.push({ ...log, sentAt: log.sentAt ?? new Date() });
+    return this;
+  }
+
+  async getDeliveryHistory(phoneNumber: string): Promise<DeliveryHistory> {
+    const logs = this.logs.filter(log => log.phoneNumber === phoneNumber);
+    if (logs.length === 0) return { ...EMPTY_DELIVERY_HISTORY };
+
+    // Mirrors whatsapp_inactivity_summary
+    const delivered = logs.filter(log => DELIVERED.includes(log.status));
+    return {
+      totalMessages: logs.length,
+      deliveredMessages: delivered.length,
+      failedMessages: logs.filter(log => FAILED.includes(log.status)).length,
+      lastDeliveryAttempt: latest(logs.map(log => log.sentAt)),
+      lastSuccessfulDelivery: latest(delivered.map(log => log.deliveredAt))
+    };
+  }
+}
+
+function latest(dates: (Date | undefined)[]): Date | undefined {
+  const times = dates.filter((date): date is Date => !!date).map(date => date.getTime());
+  return times.length > 0 ? new Date(Math.max(...times)) : undefined;
+}
@@ -9,6 +9,21 @@
  */
 
 import { BaseAgent } from '../core/BaseAgent';
+import {
+  InactiveAccountInputSchema,
+  InactivityStatusSchema,
+  type InactiveAccountInput
+} from '../schemas/AgentSchemas';
+import { TwilioLookupPayloadSchema } from '../schemas/ProviderSchemas';
+import { SchemaViolationError, assertSchema } from '../schemas/SchemaViolation';
+import { DEFAULT_REQUEST_TIMEOUT_MS, TWILIO_LOOKUP_BASE_URL, fetchWithTimeout } from '../core/Http';
+import { detectCountry, toE164 } from '../numbering/NumberingPlan';
+import {
+  InMemoryDeliveryHistoryRepository,
+  EMPTY_DELIVERY_HISTORY,
+  type DeliveryHistory,
+  type DeliveryHistoryRepository
+} from './DeliveryHistoryRepository';
 import type {
   AgentResponse,
   InactivityStatus,
@@ -16,20 +31,6 @@ import type {
   AgentConfig
 } from '../types';
 
-interface InactiveAccountInput {
-  phoneNumber: string;
-  twilioAccountSid?: string;
-  twilioAuthToken?: string;
-  retryContext?: RetryContext;
-}
-
-interface DeliveryHistory {
-  totalMessages: number;
-  deliveredMessages: number;
-  failedMessages: number;
-  lastDeliveryAttempt?: Date;
-  lastSuccessfulDelivery?: Date;
-}
 
 interface CarrierStatus {
   active: boolean;
@@ -37,7 +38,7 @@ interface CarrierStatus {
   carrier: string;
 }
 
-export class InactiveAccountAgent extends BaseAgent {
+export class InactiveAccountAgent extends BaseAgent<InactiveAccountInput, InactivityStatus> {
   // Country-specific WhatsApp prevalence data
   private readonly WHATSAPP_PREVALENCE: Record<string, number> = {
     'IN': 0.90, // India - 90%
@@ -55,7 +56,10 @@ export class InactiveAccountAgent extends BaseAgent {
     'KR': 0.25, // South Korea - 25%
   };
 
-  constructor() {
+  constructor(
+    private history: DeliveryHistoryRepository = new InMemoryDeliveryHistoryRepository(),
+    private lookupBaseUrl: string = TWILIO_LOOKUP_BASE_URL
+  ) {
     super({
       role: 'inactive' as const,
       systemPrompt: `You are an inactive account detection specialist. Analyze message delivery patterns, carrier status, and historical data to determine if a WhatsApp account is dormant or abandoned.`,
@@ -67,27 +71,30 @@ export class InactiveAccountAgent extends BaseAgent {
       ],
       tools: ['twilio' as const, 'database' as const],
       outputFormat: 'json' as const
-    } satisfies AgentConfig);
+    } satisfies AgentConfig, { input: InactiveAccountInputSchema, output: InactivityStatusSchema });
   }
 
-  async execute(input: InactiveAccountInput): Promise<AgentResponse<InactivityStatus>> {
-    this.startTime = Date.now();
+  protected async run(input: InactiveAccountInput): Promise<AgentResponse<InactivityStatus>> {
+    this.startTime = this.deps.clock.now();
     this.setStatus('thinking');
 
     try {
       this.think(`Analyzing inactivity patterns for: ${input.phoneNumber}`);
+
+      // message_logs and Twilio key numbers by E.164; national input needs the country
+      const phoneNumber = toE164(input.phoneNumber, input.country) ?? input.phoneNumber;
       
       this.setStatus('acting');
       
       // Run all checks in parallel
       const [deliveryHistory, carrierStatus] = await Promise.all([
-        this.getDeliveryHistory(input.phoneNumber),
-        this.checkCarrierStatus(input.phoneNumber, input.twilioAccountSid, input.twilioAuthToken)
+        this.getDeliveryHistory(phoneNumber),
+        this.checkCarrierStatus(phoneNumber, input.twilioAccountSid, input.twilioAuthToken)
       ]);
       
       // Analyze all data
       const analysis = this.analyzeInactivity({
-        phoneNumber: input.phoneNumber,
+        phoneNumber,
         deliveryHistory,
         carrierStatus
       });
@@ -102,6 +109,9 @@ export class InactiveAccountAgent extends BaseAgent {
 
     } catch (error) {
       this.setStatus('error');
+      if (error instanceof SchemaViolationError) {
+        return this.schemaViolationResponse(error);
+      }
       return this.createErrorResponse(
         'INACTIVE_CHECK_ERROR',
         error instanceof Error ? error.message : 'Unknown error checking inactivity',
@@ -112,53 +122,16 @@ export class InactiveAccountAgent extends BaseAgent {
   }
 
   /**
-   * Get historical message delivery data
+   * Get historical message delivery data from message_logs
    */
   private async getDeliveryHistory(phoneNumber: string): Promise<DeliveryHistory> {
     try {
-      // Mock implementation - replace with actual Supabase query
-      // const { data: messages } = await supabase
-      //   .from('message_logs')
-      //   .select('*')
-      //   .eq('phone_number', phoneNumber)
-      //   .order('created_at', { ascending: false })
-      //   .limit(100);
-
-      // For now, return mock data
-      const hash = phoneNumber.split('').reduce((acc, char) => acc + char.charCodeAt(0), 0);
-      const hasHistory = hash % 10 > 3; // 60% have history
-
-      if (!hasHistory) {
-        return {
-          totalMessages: 0,
-          deliveredMessages: 0,
-          failedMessages: 0
-        };
-      }
-
-      const totalMessages = Math.floor(hash % 50) + 10;
-      const failureRate = (hash % 100) / 100;
-      const failedMessages = Math.floor(totalMessages * failureRate);
-      const deliveredMessages = totalMessages - failedMessages;
-
-      const daysSinceLastSuccess = hash % 730; // 0-2 years
-      const lastSuccessDate = new Date();
-      lastSuccessDate.setDate(lastSuccessDate.getDate() - daysSinceLastSuccess);
-
-      return {
-        totalMessages,
-        deliveredMessages,
-        failedMessages,
-        lastDeliveryAttempt: new Date(),
-        lastSuccessfulDelivery: deliveredMessages > 0 ? lastSuccessDate : undefined
-      };
+      const history = await this.history.getDeliveryHistory(phoneNumber);
+      this.think(`Delivery history: ${history.deliveredMessages}/${history.totalMessages} delivered, ${history.failedMessages} failed`);
+      return history;
     } catch (error) {
       this.think(`Failed to get delivery history: ${error}`);
-      return {
-        totalMessages: 0,
-        deliveredMessages: 0,
-        failedMessages: 0
-      };
+      return { ...EMPTY_DELIVERY_HISTORY };
     }
   }
 
@@ -171,32 +144,30 @@ export class InactiveAccountAgent extends BaseAgent {
     authToken?: string
   ): Promise<CarrierStatus> {
     try {
-      if (!accountSid || !authToken || accountSid.includes('demo')) {
-        // Mock response
-        const hash = phoneNumber.split('').reduce((acc, char) => acc + char.charCodeAt(0), 0);
-        return {
-          active: hash % 10 > 1, // 90% active
-          lineType: hash % 10 > 3 ? 'mobile' : 'landline',
-          carrier: 'AT&T'
-        };
+      if (!accountSid || !authToken) {
+        throw new Error('No Twilio credentials configured');
       }
 
       const cleanNumber = phoneNumber.startsWith('+') ? phoneNumber : `+${phoneNumber.replace(/\D/g, '')}`;
       
-      const response = await fetch(
-        `https://lookups.twilio.com/v2/PhoneNumbers/${encodeURIComponent(cleanNumber)}?Fields=line_type_intelligence`,
+      const response = await fetchWithTimeout(
+        `${this.lookupBaseUrl}/PhoneNumbers/${encodeURIComponent(cleanNumber)}?Fields=line_type_intelligence`,
         {
           headers: {
             'Authorization': `Basic ${btoa(`${accountSid}:${authToken}`)}`
           }
-        }
+        },
+        DEFAULT_REQUEST_TIMEOUT_MS,
+        this.deps.http,
+        this.deps.clock
       );
 
       if (!response.ok) {
         throw new Error(`Twilio API error: ${response.status}`);
       }
 
-      const data = await response.json();
+      // A malformed payload is reported, not read as an active line
+      const data = assertSchema(TwilioLookupPayloadSchema, await response.json(), 'Twilio Lookup payload');
       
       return {
         active: data.valid === true,
@@ -204,6 +175,7 @@ export class InactiveAccountAgent extends BaseAgent {
         carrier: data.line_type_intelligence?.carrier_name || 'unknown'
       };
     } catch (error) {
+      if (error instanceof SchemaViolationError) throw error;
       this.think(`Carrier check failed: ${error}`);
       return { active: true, lineType: 'mobile', carrier: 'unknown' };
     }
@@ -217,7 +189,7 @@ export class InactiveAccountAgent extends BaseAgent {
     deliveryHistory: DeliveryHistory;
     carrierStatus: CarrierStatus;
   }): InactivityStatus {
-    const now = Date.now();
+    const now = this.deps.clock.now();
     let score = 0;
     const reasons: string[] = [];
     let daysSinceActive = 0;
@@ -359,22 +331,6 @@ export class InactiveAccountAgent extends BaseAgent {
    * Extract country code from phone number
    */
   private extractCountryCode(phoneNumber: string): string {
-    const cleaned = phoneNumber.replace(/\D/g, '');
-    
-    // Simple country code extraction (first 1-3 digits)
-    if (cleaned.startsWith('1')) return 'US';
-    if (cleaned.startsWith('91')) return 'IN';
-    if (cleaned.startsWith('55')) return 'BR';
-    if (cleaned.startsWith('52')) return 'MX';
-    if (cleaned.startsWith('44')) return 'GB';
-    if (cleaned.startsWith('49')) return 'DE';
-    if (cleaned.startsWith('33')) return 'FR';
-    if (cleaned.startsWith('39')) return 'IT';
-    if (cleaned.startsWith('34')) return 'ES';
-    if (cleaned.startsWith('81')) return 'JP';
-    if (cleaned.startsWith('82')) return 'KR';
-    if (cleaned.startsWith('86')) return 'CN';
-    
-    return 'UNKNOWN';
+    return detectCountry(phoneNumber);
   }
 }
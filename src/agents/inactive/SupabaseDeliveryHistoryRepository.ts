@@ -0,0 +1,55 @@
+/**
+ * Supabase Delivery History Repository - Reads the whatsapp_inactivity_summary view
+ *
+ * See supabase/migrations/20260204_create_message_logs.sql for the schema.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  EMPTY_DELIVERY_HISTORY,
+  type DeliveryHistory,
+  type DeliveryHistoryRepository
+} from './DeliveryHistoryRepository';
+
+const VIEW = 'whatsapp_inactivity_summary';
+
+interface SummaryRow {
+  phone_number: string | null;
+  total_messages: number | null;
+  delivered_messages: number | null;
+  failed_messages: number | null;
+  last_successful_delivery: string | null;
+  last_attempt: string | null;
+}
+
+export class SupabaseDeliveryHistoryRepository implements DeliveryHistoryRepository {
+  constructor(private client: SupabaseClient) {}
+
+  async getDeliveryHistory(phoneNumber: string): Promise<DeliveryHistory> {
+    const { data, error } = await this.client
+      .from(VIEW)
+      .select('phone_number, total_messages, delivered_messages, failed_messages, last_successful_delivery, last_attempt')
+      .eq('phone_number', phoneNumber)
+      .maybeSingle();
+
+    if (error) throw new Error(`Delivery history query failed: ${error.message}`);
+    if (!data) return { ...EMPTY_DELIVERY_HISTORY };
+
+    const row = data as SummaryRow;
+    return {
+      // Postgres bigint/numeric aggregates may arrive as strings
+      totalMessages: Number(row.total_messages ?? 0),
+      deliveredMessages: Number(row.delivered_messages ?? 0),
+      failedMessages: Number(row.failed_messages ?? 0),
+      lastDeliveryAttempt: toDate(row.last_attempt),
+      lastSuccessfulDelivery: toDate(row.last_successful_delivery)
+    };
+  }
+}
+
+function toDate(value: string | null): Date | undefined {
+  if (!value) return undefined;
+  // message_logs uses TIMESTAMP without time zone, written in UTC
+  const date = new Date(/[zZ]|[+-]\d\d:?\d\d$/.test(value) ? value : `${value}Z`);
+  return isNaN(date.getTime()) ? undefined : date;
+}
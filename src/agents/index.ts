@@ -9,37 +9,301 @@ export type {
   AgentRole,
   AgentStatus,
   AgentMessage,
+  AgentQuery,
   AgentResponse,
+  AgentRun,
   AgentError,
+  ErrorClass,
   AgentState,
+  AgentEvent,
+  AgentEventType,
   AgentConfig,
   ExecutionPlan,
   PlanStep,
+  StepStatus,
+  StepResult,
   ValidationData,
   WhatsAppData,
   BusinessAccountData,
   InactivityStatus,
   ConfidenceScore,
+  ScoreContribution,
   RetryContext,
   ValidationResult,
   SupervisorState,
   APIConfig,
-  ToolName
+  TwilioCredentials,
+  ToolName,
+  BatchItemResult,
+  BatchSummary,
+  CostEntry,
+  CostReport,
+  CircuitState,
+  ProviderHealth,
+  ValidationProvider,
+  ProviderCapability,
+  ProviderError,
+  ProviderErrorKind,
+  ProviderLookupData,
+  ProviderResponse,
+  ProviderResult
 } from './types';
 
 // Base Agent
-export { BaseAgent } from './core/BaseAgent';
+export { BaseAgent, type AgentSchemas } from './core/BaseAgent';
 
 // Individual Agents
 export { DecisionAgent } from './decision/DecisionAgent';
 export { ValidationAgent } from './validation/ValidationAgent';
 export { WhatsAppAgent } from './whatsapp/WhatsAppAgent';
-export { RetryAgent } from './retry/RetryAgent';
+export { RetryAgent, type RetryPolicies, type RetryInput, type RetryResult } from './retry/RetryAgent';
 export { ConfidenceAgent } from './confidence/ConfidenceAgent';
+export {
+  DEFAULT_SCORING_MODEL,
+  applyScoringModel,
+  validateScoringModel,
+  type ScoringModel,
+  type ScoringRule,
+  type ScoringOutcome
+} from './confidence/ScoringModel';
 export { InactiveAccountAgent } from './inactive/InactiveAccountAgent';
 
 // Supervisor
-export { Supervisor } from './supervisor/Supervisor';
+export {
+  Supervisor,
+  MAX_BATCH_CONCURRENCY,
+  type SupervisorConfig,
+  type ValidationRequest,
+  type BatchOptions,
+  type ReplayReport
+} from './supervisor/Supervisor';
+export { RateLimiter } from './core/RateLimiter';
+export {
+  PlanExecutor,
+  evaluateCondition,
+  type PlanContext,
+  type FactValue,
+  type StepHandler,
+  type StepListener
+} from './core/PlanExecutor';
+export { CostLedger, DEFAULT_UNIT_PRICES, type PriceResolver } from './core/CostLedger';
+export {
+  CircuitBreaker,
+  ProviderHealthRegistry,
+  DEFAULT_CIRCUIT_CONFIG,
+  type CircuitBreakerConfig,
+  type CircuitTransition
+} from './core/CircuitBreaker';
+export { KeyRing, type KeySlot } from './core/KeyRing';
+export {
+  DEFAULT_RETRY_POLICIES,
+  classifyAgentError,
+  classifyHttpStatus,
+  fullJitterDelay,
+  parseRetryAfter,
+  type RetryPolicy
+} from './core/ErrorTaxonomy';
+export {
+  DEFAULT_REQUEST_TIMEOUT_MS,
+  TWILIO_LOOKUP_BASE_URL,
+  TimeoutError,
+  fetchWithTimeout,
+  errorFromResponse
+} from './core/Http';
+export {
+  DEFAULT_DEPENDENCIES,
+  createDependencies,
+  fetchTransport,
+  systemClock,
+  type AgentDependencies,
+  type Clock,
+  type HttpTransport,
+  type RandomSource
+} from './core/Dependencies';
+export {
+  AgentEventStream,
+  type AgentEventInput,
+  type AgentEventListener
+} from './core/AgentEventStream';
+export { MessageBus, type MessageHandler, type MessageListener } from './core/MessageBus';
+
+// Validation Providers
+export {
+  ProviderRegistry,
+  createDefaultProviderRegistry,
+  type ProviderSelection
+} from './providers/ProviderRegistry';
+export { BaseProvider, type ProviderOptions } from './providers/BaseProvider';
+export { NumVerifyProvider } from './providers/NumVerifyProvider';
+export { AbstractProvider } from './providers/AbstractProvider';
+
+// Evaluation
+export {
+  EvaluationHarness,
+  EVALUATION_API_CONFIG,
+  binaryMetrics,
+  calibrationCurve,
+  compareWithBaseline,
+  toBaseline,
+  formatReport,
+  type EvaluationCase,
+  type EvaluationReport,
+  type EvaluationBaseline,
+  type EvaluationOptions,
+  type BinaryMetrics,
+  type CalibrationBucket,
+  type Regression
+} from './evaluation/EvaluationHarness';
+export { LABELED_FIXTURES, type LabeledFixture } from './evaluation/fixtures';
+
+// Numbering Plan
+export {
+  parsePhoneNumber,
+  resolveCountry,
+  detectCountry,
+  toE164,
+  getCountryInfo,
+  classifyNationalNumber,
+  findAllocatedCarrier,
+  toLineType,
+  type ParsedPhoneNumber,
+  type NumberType,
+  type CountryMetadata
+} from './numbering/NumberingPlan';
+
+// Delivery History
+export {
+  InMemoryDeliveryHistoryRepository,
+  type DeliveryHistory,
+  type DeliveryHistoryRepository,
+  type MessageLogRecord,
+  type MessageStatus
+} from './inactive/DeliveryHistoryRepository';
+export { SupabaseDeliveryHistoryRepository } from './inactive/SupabaseDeliveryHistoryRepository';
+
+// Validation Cache
+export {
+  ValidationCache,
+  MemoryCacheStore,
+  formatCacheAge,
+  type CacheEntry,
+  type CacheStore,
+  type CacheLookup,
+  type ValidationCacheConfig
+} from './cache/ValidationCache';
+export { SupabaseCacheStore } from './cache/SupabaseCacheStore';
+
+// Traffic Recording & Replay
+export {
+  TrafficRecorder,
+  TrafficReplayer,
+  InMemoryTrafficStore,
+  REDACTED,
+  redactUrl,
+  redactHeaders,
+  type RecordedExchange,
+  type RecordedSession,
+  type TrafficStore
+} from './replay/TrafficRecorder';
+export { SupabaseTrafficStore } from './replay/SupabaseTrafficStore';
+
+// Validation Audit Trail
+export {
+  InMemoryValidationAuditLog,
+  DEFAULT_AUDIT_LIMIT,
+  auditOutcome,
+  matchesAuditFilter,
+  summarizeAudit,
+  type ValidationAuditEntry,
+  type ValidationAuditLog,
+  type AuditFilter,
+  type AuditOutcome,
+  type AuditStats,
+  type AuditStatus
+} from './audit/ValidationAuditLog';
+export { SupabaseValidationAuditLog, type SupabaseAuditLogOptions } from './audit/SupabaseValidationAuditLog';
+
+// HTTP API
+export {
+  createValidationHandler,
+  parseApiRequest,
+  encodeServerEvent,
+  readServerEvents,
+  RequestValidationError,
+  DEFAULT_MAX_BATCH_SIZE,
+  type BatchApiRequest,
+  type ValidationApiEvent,
+  type ValidationApiEvents,
+  type ValidationHandlerOptions
+} from './api/ValidationApi';
+export {
+  summarizeValidation,
+  getWhatsAppStatus,
+  toAgentLogLine,
+  type ValidationSummary,
+  type WhatsAppStatus,
+  type AgentLogLine,
+  type AgentLogStatus
+} from './api/ValidationSummary';
+export {
+  ValidationApiClient,
+  ValidationApiError,
+  type ValidationApiClientConfig
+} from './api/ValidationApiClient';
+
+// LLM Reasoning
+export {
+  MeteredLLMClient,
+  LLMOutputError,
+  completeJson,
+  llmCost,
+  estimateTokens,
+  type LLMClient,
+  type LLMRequest,
+  type LLMMessage,
+  type LLMCompletion,
+  type LLMUsage,
+  type LLMPricing,
+  type LLMCallRecord
+} from './llm/LLMClient';
+export { validateJsonSchema, type JsonSchema } from './llm/JsonSchema';
+export { StubLLMClient, type StubRule, type StubLLMConfig } from './llm/StubLLMClient';
+export { OpenAIClient, type OpenAIClientConfig } from './llm/OpenAIClient';
+
+// Schemas
+export {
+  SCHEMA_VIOLATION,
+  SchemaViolationError,
+  assertSchema,
+  describeIssues
+} from './schemas/SchemaViolation';
+export {
+  DecisionInputSchema,
+  ValidationInputSchema,
+  WhatsAppInputSchema,
+  InactiveAccountInputSchema,
+  ConfidenceInputSchema,
+  RetryInputSchema,
+  ExecutionPlanSchema,
+  ValidationDataSchema,
+  WhatsAppDataSchema,
+  InactivityStatusSchema,
+  ConfidenceScoreSchema,
+  RetryResultSchema,
+  type DecisionInput,
+  type ValidationInput,
+  type WhatsAppInput,
+  type InactiveAccountInput,
+  type ConfidenceInput
+} from './schemas/AgentSchemas';
+export {
+  NumVerifyPayloadSchema,
+  AbstractPayloadSchema,
+  TwilioLookupPayloadSchema,
+  type NumVerifyRaw,
+  type AbstractRaw,
+  type TwilioLookupPayload
+} from './schemas/ProviderSchemas';
 
 // Observability
 export { 
@@ -52,7 +316,18 @@ export {
 } from './observability/Logger';
 
 // Import Supervisor for internal use
-import { Supervisor } from './supervisor/Supervisor';
+import { Supervisor, type ValidationRequest } from './supervisor/Supervisor';
+import type { ProviderRegistry } from './providers/ProviderRegistry';
+import type { ValidationCache } from './cache/ValidationCache';
+import type { DeliveryHistoryRepository } from './inactive/DeliveryHistoryRepository';
+import type { ProviderHealthRegistry } from './core/CircuitBreaker';
+import type { RetryPolicies } from './retry/RetryAgent';
+import type { ScoringModel } from './confidence/ScoringModel';
+import type { AgentDependencies } from './core/Dependencies';
+import type { TrafficRecorder } from './replay/TrafficRecorder';
+import type { ValidationAuditLog } from './audit/ValidationAuditLog';
+import type { LLMClient } from './llm/LLMClient';
+import type { APIConfig, BatchItemResult, BatchSummary, TwilioCredentials } from './types';
 
 /**
  * Quick Start Factory Function
@@ -69,6 +344,25 @@ export function createMultiAgentSystem(config: {
   twilioAccountSid?: string;
   twilioAuthToken?: string;
   twilioPhoneNumber?: string;
+  twilioBackupAccountSid?: string;
+  twilioBackupAuthToken?: string;
+  twilioBackupPhoneNumber?: string;
+  keyRotation?: Record<string, string[]>; // Further keys per tool, tried after primary and backup
+  twilioRotation?: TwilioCredentials[];
+  providers?: ProviderRegistry;
+  providerKeys?: Record<string, string | undefined>; // Keys for extra providers, by name
+  providerBackupKeys?: Record<string, string | undefined>;
+  prices?: Record<string, number>; // USD per call by tool name, e.g. { numverify: 0.002 }
+  baseUrls?: APIConfig['baseUrls']; // API roots replacing the public endpoints
+  cache?: ValidationCache | false; // Share one cache across supervisors; false disables caching
+  deliveryHistory?: DeliveryHistoryRepository; // Defaults to an empty in-memory history
+  health?: ProviderHealthRegistry; // Share circuit breakers across supervisors
+  retryPolicies?: RetryPolicies; // Override retry policies per error class
+  scoringModel?: ScoringModel; // Confidence rules, weights and caps
+  dependencies?: Partial<AgentDependencies>; // HTTP transport, clock and random source
+  recorder?: TrafficRecorder; // Record provider traffic per session for replay
+  auditLog?: ValidationAuditLog; // Keep an audit entry for every validation
+  llm?: LLMClient; // Model the agents consult on ambiguous cases
   enableLogging?: boolean;
   maxExecutionTime?: number;
 }) {
@@ -78,6 +372,7 @@ export function createMultiAgentSystem(config: {
         numverify: config.numverifyKey,
         abstract: config.abstractKey,
         whatsapp: config.whatsappKey,
+        providers: config.providerKeys,
         twilio: {
           accountSid: config.twilioAccountSid,
           authToken: config.twilioAuthToken,
@@ -87,9 +382,31 @@ export function createMultiAgentSystem(config: {
       backup: {
         numverify: config.numverifyBackupKey,
         abstract: config.abstractBackupKey,
-        whatsapp: config.whatsappBackupKey
-      }
+        whatsapp: config.whatsappBackupKey,
+        providers: config.providerBackupKeys,
+        twilio: {
+          accountSid: config.twilioBackupAccountSid,
+          authToken: config.twilioBackupAuthToken,
+          phoneNumber: config.twilioBackupPhoneNumber
+        }
+      },
+      rotation: {
+        keys: config.keyRotation,
+        twilio: config.twilioRotation
+      },
+      prices: config.prices,
+      baseUrls: config.baseUrls
     },
+    providers: config.providers,
+    cache: config.cache,
+    deliveryHistory: config.deliveryHistory,
+    health: config.health,
+    retryPolicies: config.retryPolicies,
+    scoringModel: config.scoringModel,
+    dependencies: config.dependencies,
+    recorder: config.recorder,
+    auditLog: config.auditLog,
+    llm: config.llm,
     enableLogging: config.enableLogging ?? true,
     maxExecutionTime: config.maxExecutionTime
   });
@@ -131,3 +448,47 @@ export async function validatePhoneNumber(
     }
   });
 }
+
+/**
+ * Validate Phone Numbers - Bulk API
+ * 
+ * Runs a list (or stream) of requests through Supervisor.validateBatch()
+ * and collects every per-number result together with the batch summary
+ */
+export async function validatePhoneNumbers(
+  requests: Iterable<ValidationRequest> | AsyncIterable<ValidationRequest>,
+  options?: {
+    concurrency?: number;
+    onResult?: (item: BatchItemResult) => void;
+    apiKeys?: {
+      numverify?: string;
+      abstract?: string;
+      whatsapp?: string;
+    };
+  }
+): Promise<{ results: BatchItemResult[]; summary: BatchSummary }> {
+  const supervisor = createMultiAgentSystem({
+    numverifyKey: options?.apiKeys?.numverify || process.env.NUMVERIFY_API_KEY,
+    abstractKey: options?.apiKeys?.abstract || process.env.ABSTRACT_API_KEY,
+    whatsappKey: options?.apiKeys?.whatsapp || process.env.WHATSAPP_API_KEY,
+    enableLogging: false
+  });
+
+  const batch = supervisor.validateBatch(requests, {
+    concurrency: options?.concurrency
+  });
+  const results: BatchItemResult[] = [];
+
+  // Iterate manually so the generator's return value (the summary) is kept
+  let next = await batch.next();
+  while (!next.done) {
+    const item = next.value as BatchItemResult;
+    results.push(item);
+    options?.onResult?.(item);
+    next = await batch.next();
+  }
+
+  results.sort((a, b) => a.index - b.index);
+
+  return { results, summary: next.value as BatchSummary };
+}
@@ -0,0 +1,81 @@
+/**
+ * JSON Schema - The subset of JSON Schema agents describe model output with
+ *
+ * Small enough to check without a dependency, and close enough to the real
+ * thing that OpenAI-compatible APIs accept it as a structured-output schema.
+ */
+
+export type JsonSchema =
+  | { type: 'string'; enum?: string[]; minLength?: number; maxLength?: number; description?: string }
+  | { type: 'number' | 'integer'; minimum?: number; maximum?: number; description?: string }
+  | { type: 'boolean'; description?: string }
+  | { type: 'array'; items: JsonSchema; maxItems?: number; description?: string }
+  | {
+      type: 'object';
+      properties: Record<string, JsonSchema>;
+      required?: string[];
+      additionalProperties?: boolean;
+      description?: string;
+    };
+
+/**
+ * Every way the value breaks the schema, e.g. ['$.carrier: expected one of "MTN", "Airtel"'];
+ * empty when it conforms
+ */
+export function validateJsonSchema(value: unknown, schema: JsonSchema, path = '$'): string[] {
+  switch (schema.type) {
+    case 'string': {
+      if (typeof value !== 'string') return [`${path}: expected string`];
+      if (schema.enum && !schema.enum.includes(value)) {
+        return [`${path}: expected one of ${schema.enum.map(option => JSON.stringify(option)).join(', ')}`];
+      }
+      if (schema.minLength !== undefined && value.length < schema.minLength) {
+        return [`${path}: shorter than ${schema.minLength} characters`];
+      }
+      if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+        return [`${path}: longer than ${schema.maxLength} characters`];
+      }
+      return [];
+    }
+
+    case 'number':
+    case 'integer': {
+      if (typeof value !== 'number' || !Number.isFinite(value)) return [`${path}: expected number`];
+      if (schema.type === 'integer' && !Number.isInteger(value)) return [`${path}: expected integer`];
+      if (schema.minimum !== undefined && value < schema.minimum) return [`${path}: below ${schema.minimum}`];
+      if (schema.maximum !== undefined && value > schema.maximum) return [`${path}: above ${schema.maximum}`];
+      return [];
+    }
+
+    case 'boolean':
+      return typeof value === 'boolean' ? [] : [`${path}: expected boolean`];
+
+    case 'array': {
+      if (!Array.isArray(value)) return [`${path}: expected array`];
+      if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+        return [`${path}: more than ${schema.maxItems} items`];
+      }
+      return value.flatMap((item, index) => validateJsonSchema(item, schema.items, `${path}[${index}]`));
+    }
+
+    case 'object': {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        return [`${path}: expected object`];
+      }
+      const record = value as Record<string, unknown>;
+      const violations = (schema.required ?? [])
+        .filter(key => record[key] === undefined)
+        .map(key => `${path}.${key}: required`);
+
+      Object.entries(record).forEach(([key, property]) => {
+        const propertySchema = schema.properties[key];
+        if (propertySchema) {
+          violations.push(...validateJsonSchema(property, propertySchema, `${path}.${key}`));
+        } else if (schema.additionalProperties === false) {
+          violations.push(`${path}.${key}: not allowed`);
+        }
+      });
+      return violations;
+    }
+  }
+}
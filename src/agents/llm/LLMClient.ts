@@ -0,0 +1,169 @@
+/**
+ * LLM Client - Model backend agents can consult on ambiguous cases
+ *
+ * Agents stay deterministic by default; given an LLMClient (see
+ * BaseAgent.useLLM) they send their system prompt plus the case at hand and
+ * get back JSON checked against a schema. Anything that goes wrong - no
+ * model, a failed call, output that breaks the schema - leaves the agent on
+ * its rule-based answer.
+ *
+ * Implementations: OpenAIClient for any OpenAI-compatible API and
+ * StubLLMClient, a deterministic local model for offline tests and demos.
+ */
+
+import { validateJsonSchema, type JsonSchema } from './JsonSchema';
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface LLMRequest {
+  messages: LLMMessage[];
+  schema?: JsonSchema; // Ask for JSON matching this schema
+  temperature?: number;
+  maxTokens?: number;
+}
+
+export interface LLMUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface LLMCompletion {
+  model: string;
+  content: string;
+  usage: LLMUsage;
+}
+
+/**
+ * USD per 1,000 tokens
+ */
+export interface LLMPricing {
+  prompt: number;
+  completion: number;
+}
+
+export interface LLMClient {
+  readonly model: string;
+  readonly pricing?: LLMPricing; // Without it calls are free, e.g. a local model
+  complete(request: LLMRequest): Promise<LLMCompletion>;
+}
+
+/**
+ * Model output that isn't JSON or doesn't match the requested schema
+ */
+export class LLMOutputError extends Error {
+  readonly code = 'LLM_INVALID_OUTPUT';
+
+  constructor(message: string, readonly violations: string[] = [], readonly content?: string) {
+    super(message);
+    this.name = 'LLMOutputError';
+  }
+}
+
+export function llmCost(usage: LLMUsage, pricing?: LLMPricing): number {
+  if (!pricing) return 0;
+  return (usage.promptTokens * pricing.prompt + usage.completionTokens * pricing.completion) / 1000;
+}
+
+/**
+ * Rough token count (about four characters per token) for backends that
+ * don't report usage
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Complete a request and parse the answer as JSON matching its schema.
+ * Throws LLMOutputError when it doesn't.
+ */
+export async function completeJson<T>(
+  client: LLMClient,
+  request: LLMRequest & { schema: JsonSchema }
+): Promise<{ data: T; completion: LLMCompletion }> {
+  const completion = await client.complete(request);
+  const data = parseJson(completion.content);
+
+  const violations = validateJsonSchema(data, request.schema);
+  if (violations.length > 0) {
+    throw new LLMOutputError(`Model output does not match the schema: ${violations.join('; ')}`, violations, completion.content);
+  }
+  return { data: data as T, completion };
+}
+
+// Models sometimes wrap JSON in a Markdown fence or a sentence; take the outermost object
+function parseJson(content: string): unknown {
+  const start = content.indexOf('{');
+  const end = content.lastIndexOf('}');
+  if (start === -1 || end < start) {
+    throw new LLMOutputError('Model output contains no JSON object', [], content);
+  }
+
+  try {
+    return JSON.parse(content.slice(start, end + 1));
+  } catch {
+    throw new LLMOutputError('Model output is not valid JSON', [], content);
+  }
+}
+
+/**
+ * One completed call, as recorded by MeteredLLMClient
+ */
+export interface LLMCallRecord extends LLMUsage {
+  model: string;
+  cost: number; // USD
+}
+
+/**
+ * Wraps a client to add up tokens and cost across calls, reporting each call
+ * to a listener (the Supervisor charges it to the request's cost ledger)
+ */
+export class MeteredLLMClient implements LLMClient {
+  private calls: LLMCallRecord[] = [];
+
+  constructor(
+    private inner: LLMClient,
+    private onCall?: (call: LLMCallRecord) => void
+  ) {}
+
+  get model(): string {
+    return this.inner.model;
+  }
+
+  get pricing(): LLMPricing | undefined {
+    return this.inner.pricing;
+  }
+
+  async complete(request: LLMRequest): Promise<LLMCompletion> {
+    const completion = await this.inner.complete(request);
+    const call: LLMCallRecord = {
+      model: completion.model,
+      ...completion.usage,
+      cost: llmCost(completion.usage, this.inner.pricing)
+    };
+    this.calls.push(call);
+    this.onCall?.(call);
+    return completion;
+  }
+
+  getCalls(): LLMCallRecord[] {
+    return [...this.calls];
+  }
+
+  /**
+   * Tokens and USD across every call so far
+   */
+  totals(): LLMCallRecord {
+    return this.calls.reduce(
+      (sum, call) => ({
+        model: sum.model,
+        promptTokens: sum.promptTokens + call.promptTokens,
+        completionTokens: sum.completionTokens + call.completionTokens,
+        cost: sum.cost + call.cost
+      }),
+      { model: this.model, promptTokens: 0, completionTokens: 0, cost: 0 }
+    );
+  }
+}
@@ -0,0 +1,74 @@
+/**
+ * OpenAI Client - LLMClient for the Chat Completions API and compatible servers
+ *
+ * Requests with a schema use structured outputs (response_format json_schema);
+ * the answer is still checked by completeJson(), since compatible servers
+ * don't all enforce it. Calls go through an HttpTransport like provider
+ * lookups, so tests can answer them without the network.
+ */
+
+import { fetchTransport, type HttpTransport } from '../core/Dependencies';
+import type { LLMClient, LLMCompletion, LLMPricing, LLMRequest } from './LLMClient';
+
+export interface OpenAIClientConfig {
+  apiKey: string;
+  model?: string; // Default gpt-4o-mini
+  baseUrl?: string; // API root, e.g. a local OpenAI-compatible server
+  pricing?: LLMPricing; // Defaults to gpt-4o-mini's list price
+  http?: HttpTransport;
+}
+
+const DEFAULT_BASE_URL = 'https://api.openai.com/v1';
+const DEFAULT_MODEL = 'gpt-4o-mini';
+const DEFAULT_PRICING: LLMPricing = { prompt: 0.00015, completion: 0.0006 };
+
+interface ChatCompletionResponse {
+  model: string;
+  choices: { message: { content: string | null } }[];
+  usage?: { prompt_tokens: number; completion_tokens: number };
+}
+
+export class OpenAIClient implements LLMClient {
+  readonly model: string;
+  readonly pricing: LLMPricing;
+  private http: HttpTransport;
+
+  constructor(private config: OpenAIClientConfig) {
+    this.model = config.model ?? DEFAULT_MODEL;
+    this.pricing = config.pricing ?? DEFAULT_PRICING;
+    this.http = config.http ?? fetchTransport;
+  }
+
+  async complete(request: LLMRequest): Promise<LLMCompletion> {
+    const response = await this.http(`${this.config.baseUrl ?? DEFAULT_BASE_URL}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${this.config.apiKey}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({
+        model: this.model,
+        messages: request.messages,
+        temperature: request.temperature ?? 0,
+        max_tokens: request.maxTokens,
+        response_format: request.schema
+          ? { type: 'json_schema', json_schema: { name: 'agent_output', schema: request.schema } }
+          : undefined
+      })
+    });
+
+    if (!response.ok) {
+      throw new Error(`LLM API error: ${response.status} ${response.statusText}`);
+    }
+
+    const body: ChatCompletionResponse = await response.json();
+    return {
+      model: body.model ?? this.model,
+      content: body.choices[0]?.message.content ?? '',
+      usage: {
+        promptTokens: body.usage?.prompt_tokens ?? 0,
+        completionTokens: body.usage?.completion_tokens ?? 0
+      }
+    };
+  }
+}
@@ -0,0 +1,79 @@
+/**
+ * Stub LLM Client - Deterministic local model for offline tests and demos
+ *
+ * Answers from scripted rules matched against the last user message; with
+ * no matching rule it builds the simplest answer the request's schema
+ * allows (first enum option, minimum numbers, empty strings). Same request,
+ * same answer, no network. Token usage is estimated from the text so cost
+ * accounting runs as it would against a real model.
+ */
+
+import type { JsonSchema } from './JsonSchema';
+import { estimateTokens, type LLMClient, type LLMCompletion, type LLMPricing, type LLMRequest } from './LLMClient';
+
+export interface StubRule {
+  match: RegExp | ((request: LLMRequest) => boolean); // A RegExp is tested against the last user message
+  respond: (request: LLMRequest) => unknown; // Strings are returned as-is, anything else as JSON
+}
+
+export interface StubLLMConfig {
+  model?: string;
+  rules?: StubRule[];
+  pricing?: LLMPricing;
+}
+
+export class StubLLMClient implements LLMClient {
+  readonly model: string;
+  readonly pricing?: LLMPricing;
+  readonly requests: LLMRequest[] = []; // Every request received, for assertions
+  private rules: StubRule[];
+
+  constructor(config: StubLLMConfig = {}) {
+    this.model = config.model ?? 'stub-1';
+    this.pricing = config.pricing;
+    this.rules = config.rules ?? [];
+  }
+
+  async complete(request: LLMRequest): Promise<LLMCompletion> {
+    this.requests.push(request);
+
+    const rule = this.rules.find(({ match }) =>
+      typeof match === 'function' ? match(request) : match.test(lastUserMessage(request))
+    );
+    const answer = rule ? rule.respond(request) : request.schema ? defaultValue(request.schema) : '';
+    const content = typeof answer === 'string' ? answer : JSON.stringify(answer);
+
+    return {
+      model: this.model,
+      content,
+      usage: {
+        promptTokens: request.messages.reduce((sum, message) => sum + estimateTokens(message.content), 0),
+        completionTokens: estimateTokens(content)
+      }
+    };
+  }
+}
+
+function lastUserMessage(request: LLMRequest): string {
+  return [...request.messages].reverse().find(message => message.role === 'user')?.content ?? '';
+}
+
+function defaultValue(schema: JsonSchema): unknown {
+  switch (schema.type) {
+    case 'string':
+      return schema.enum?.[0] ?? ''.padEnd(schema.minLength ?? 0, '?');
+    case 'number':
+    case 'integer':
+      return schema.minimum ?? 0;
+    case 'boolean':
+      return false;
+    case 'array':
+      return [];
+    case 'object':
+      return Object.fromEntries(
+        (schema.required ?? [])
+          .filter(key => schema.properties[key])
+          .map(key => [key, defaultValue(schema.properties[key])])
+      );
+  }
+}
@@ -0,0 +1,212 @@
+/**
+ * Numbering Plan - Offline phone number metadata engine
+ *
+ * Parses raw input into E.164 using the ITU country calling codes, resolves the
+ * region (NANP area codes, Kazakhstan inside +7), checks national number length,
+ * classifies the number type from per-country ranges and names the carrier a
+ * mobile block was allocated to. No network calls.
+ */
+
+import type { ValidationData } from '../types';
+import {
+  COUNTRIES,
+  COUNTRIES_BY_CALLING_CODE,
+  NANP_AREA_CODES,
+  type CountryMetadata
+} from './metadata';
+
+export type NumberType =
+  | 'mobile'
+  | 'fixed_line'
+  | 'fixed_line_or_mobile'
+  | 'toll_free'
+  | 'premium_rate'
+  | 'voip'
+  | 'unknown';
+
+export interface ParsedPhoneNumber {
+  e164: string;
+  callingCode: string;
+  countryCode: string; // ISO 3166-1 alpha-2
+  countryName: string;
+  nationalNumber: string;
+  isPossibleLength: boolean;
+  numberType: NumberType;
+  allocatedCarrier?: string; // Carrier the number's block was allocated to (may since be ported)
+}
+
+export type { CountryMetadata };
+
+/**
+ * Look up metadata for an ISO 3166-1 alpha-2 country code
+ */
+export function getCountryInfo(countryCode: string): CountryMetadata | undefined {
+  return COUNTRIES[countryCode.toUpperCase()];
+}
+
+/**
+ * Resolve a country hint ("GB", "gb", "+44", "44") to an ISO code.
+ * Calling codes shared by several countries resolve to the main country.
+ */
+export function resolveCountry(hint?: string): string | undefined {
+  const value = hint?.trim();
+  if (!value) return undefined;
+
+  if (/^[A-Za-z]{2}$/.test(value)) {
+    const iso = value.toUpperCase();
+    return COUNTRIES[iso] ? iso : undefined;
+  }
+
+  const callingCode = value.replace(/^(\+|00)/, '');
+  if (/^\d{1,3}$/.test(callingCode)) {
+    return COUNTRIES_BY_CALLING_CODE[callingCode]?.[0];
+  }
+
+  return undefined;
+}
+
+/**
+ * Parse a phone number into its E.164 parts.
+ * Numbers without a "+"/"00" prefix are read as national numbers of
+ * defaultCountry when one is given, otherwise as international.
+ */
+export function parsePhoneNumber(input: string, defaultCountry?: string): ParsedPhoneNumber | null {
+  const trimmed = input.trim();
+  const isInternational = trimmed.startsWith('+') || trimmed.startsWith('00');
+  let digits = trimmed.replace(/\D/g, '');
+  if (trimmed.startsWith('00')) digits = digits.slice(2);
+  if (!digits) return null;
+
+  const defaultIso = resolveCountry(defaultCountry);
+  const defaultInfo = defaultIso ? COUNTRIES[defaultIso] : undefined;
+
+  let callingCode: string | undefined;
+  let nationalNumber = digits;
+
+  if (!isInternational && defaultInfo) {
+    const hasCallingCode = digits.startsWith(defaultInfo.callingCode) &&
+      defaultInfo.lengths.includes(digits.length - defaultInfo.callingCode.length);
+
+    callingCode = defaultInfo.callingCode;
+    nationalNumber = hasCallingCode
+      ? digits.slice(callingCode.length)
+      : stripTrunkPrefix(digits, defaultInfo);
+  } else {
+    callingCode = extractCallingCode(digits);
+    if (!callingCode) return null;
+    nationalNumber = digits.slice(callingCode.length);
+  }
+
+  if (!nationalNumber) return null;
+
+  // A country hint sharing the calling code (e.g. "CA" for +1) only wins when
+  // the number itself does not identify a more specific region
+  const countryCode = resolveRegion(callingCode, nationalNumber, defaultIso);
+  const info = COUNTRIES[countryCode];
+
+  return {
+    e164: `+${callingCode}${nationalNumber}`,
+    callingCode,
+    countryCode,
+    countryName: info.name,
+    nationalNumber,
+    isPossibleLength: info.lengths.includes(nationalNumber.length),
+    numberType: classifyNationalNumber(nationalNumber, countryCode),
+    allocatedCarrier: findAllocatedCarrier(nationalNumber, countryCode)
+  };
+}
+
+/**
+ * Detect the ISO country of a phone number, or 'UNKNOWN'
+ */
+export function detectCountry(phoneNumber: string, defaultCountry?: string): string {
+  return parsePhoneNumber(phoneNumber, defaultCountry)?.countryCode ?? 'UNKNOWN';
+}
+
+/**
+ * Normalize input to E.164, or null when no calling code can be found
+ */
+export function toE164(phoneNumber: string, defaultCountry?: string): string | null {
+  return parsePhoneNumber(phoneNumber, defaultCountry)?.e164 ?? null;
+}
+
+/**
+ * Classify a national significant number using the country's ranges
+ */
+export function classifyNationalNumber(nationalNumber: string, countryCode: string): NumberType {
+  const info = COUNTRIES[countryCode];
+  if (!info?.ranges) return 'unknown';
+
+  const { tollFree, premiumRate, voip, mobile, fixedLine } = info.ranges;
+
+  // Special service ranges first: they overlap geographic prefixes in some plans
+  if (tollFree?.test(nationalNumber)) return 'toll_free';
+  if (premiumRate?.test(nationalNumber)) return 'premium_rate';
+  if (voip?.test(nationalNumber)) return 'voip';
+
+  if (!mobile && !fixedLine) return 'fixed_line_or_mobile';
+  if (mobile?.test(nationalNumber)) return 'mobile';
+  if (fixedLine?.test(nationalNumber)) return 'fixed_line';
+
+  return 'unknown';
+}
+
+/**
+ * Carrier the national number's block was allocated to, when the plan says
+ */
+export function findAllocatedCarrier(nationalNumber: string, countryCode: string): string | undefined {
+  return COUNTRIES[countryCode]?.carriers?.find(([range]) => range.test(nationalNumber))?.[1];
+}
+
+/**
+ * Map a numbering plan type onto the ValidationData line type.
+ * Toll-free and premium numbers are network-routed services, never a handset.
+ */
+export function toLineType(numberType: NumberType): ValidationData['lineType'] {
+  switch (numberType) {
+    case 'mobile':
+      return 'mobile';
+    case 'fixed_line':
+    case 'toll_free':
+    case 'premium_rate':
+      return 'landline';
+    case 'voip':
+      return 'voip';
+    default:
+      return 'unknown';
+  }
+}
+
+/**
+ * Calling codes are prefix-free (ITU E.164), so the first 1-3 digit match is the code
+ */
+function extractCallingCode(digits: string): string | undefined {
+  for (let length = 1; length <= 3; length++) {
+    const candidate = digits.slice(0, length);
+    if (COUNTRIES_BY_CALLING_CODE[candidate]) return candidate;
+  }
+  return undefined;
+}
+
+function stripTrunkPrefix(digits: string, info: CountryMetadata): string {
+  const { trunkPrefix } = info;
+  if (!trunkPrefix || !digits.startsWith(trunkPrefix)) return digits;
+
+  const stripped = digits.slice(trunkPrefix.length);
+  return info.lengths.includes(stripped.length) ? stripped : digits;
+}
+
+function resolveRegion(callingCode: string, nationalNumber: string, hint?: string): string {
+  const candidates = COUNTRIES_BY_CALLING_CODE[callingCode];
+
+  if (callingCode === '1') {
+    return NANP_AREA_CODES[nationalNumber.slice(0, 3)] ?? 'US';
+  }
+
+  if (callingCode === '7') {
+    return /^[67]/.test(nationalNumber) ? 'KZ' : 'RU';
+  }
+
+  if (hint && candidates.includes(hint)) return hint;
+  return candidates[0];
+}
@@ -0,0 +1,488 @@
+/**
+ * Numbering Plan Metadata
+ *
+ * Offline ITU-T E.164 data used by the NumberingPlan module:
+ * - Country calling codes for every ITU region
+ * - National (significant) number lengths per country
+ * - Trunk prefixes dialled in front of national numbers
+ * - Number type ranges (mobile / fixed / toll-free / premium / VoIP) as
+ *   national-number prefix patterns, for the countries we see most traffic from
+ * - NANP area code → country mapping for the shared +1 calling code
+ * - Mobile ranges → the carrier they were allocated to, where the plan
+ *   allocates blocks by prefix
+ *
+ * Lengths and ranges follow the public ITU and national regulator plans
+ * (the same sources libphonenumber is built from), simplified to prefixes.
+ */
+
+export interface NumberRanges {
+  mobile?: RegExp;
+  fixedLine?: RegExp;
+  tollFree?: RegExp;
+  premiumRate?: RegExp;
+  voip?: RegExp;
+}
+
+// [national-number prefix pattern, carrier the block was allocated to]
+export type CarrierRange = [RegExp, string];
+
+export interface CountryMetadata {
+  name: string;
+  callingCode: string;
+  lengths: number[]; // Allowed national significant number lengths
+  trunkPrefix?: string; // Stripped from nationally-formatted input
+  ranges?: NumberRanges;
+  carriers?: CarrierRange[];
+}
+
+// [ISO 3166-1 alpha-2, name, calling code, national number lengths, trunk prefix]
+// Trunk prefix defaults to '0'; null means the country has none.
+type CountryRow = [string, string, string, number[], (string | null)?];
+
+const COUNTRY_ROWS: CountryRow[] = [
+  // Zone 1 - North American Numbering Plan
+  ['US', 'United States', '1', [10], '1'],
+  ['CA', 'Canada', '1', [10], '1'],
+  ['AG', 'Antigua and Barbuda', '1', [10], '1'],
+  ['AI', 'Anguilla', '1', [10], '1'],
+  ['AS', 'American Samoa', '1', [10], '1'],
+  ['BB', 'Barbados', '1', [10], '1'],
+  ['BM', 'Bermuda', '1', [10], '1'],
+  ['BS', 'Bahamas', '1', [10], '1'],
+  ['DM', 'Dominica', '1', [10], '1'],
+  ['DO', 'Dominican Republic', '1', [10], '1'],
+  ['GD', 'Grenada', '1', [10], '1'],
+  ['GU', 'Guam', '1', [10], '1'],
+  ['JM', 'Jamaica', '1', [10], '1'],
+  ['KN', 'Saint Kitts and Nevis', '1', [10], '1'],
+  ['KY', 'Cayman Islands', '1', [10], '1'],
+  ['LC', 'Saint Lucia', '1', [10], '1'],
+  ['MP', 'Northern Mariana Islands', '1', [10], '1'],
+  ['MS', 'Montserrat', '1', [10], '1'],
+  ['PR', 'Puerto Rico', '1', [10], '1'],
+  ['SX', 'Sint Maarten', '1', [10], '1'],
+  ['TC', 'Turks and Caicos Islands', '1', [10], '1'],
+  ['TT', 'Trinidad and Tobago', '1', [10], '1'],
+  ['VC', 'Saint Vincent and the Grenadines', '1', [10], '1'],
+  ['VG', 'British Virgin Islands', '1', [10], '1'],
+  ['VI', 'U.S. Virgin Islands', '1', [10], '1'],
+
+  // Zone 2 - Africa and dependencies
+  ['EG', 'Egypt', '20', [8, 9, 10]],
+  ['SS', 'South Sudan', '211', [9]],
+  ['MA', 'Morocco', '212', [9]],
+  ['EH', 'Western Sahara', '212', [9]],
+  ['DZ', 'Algeria', '213', [8, 9]],
+  ['TN', 'Tunisia', '216', [8], null],
+  ['LY', 'Libya', '218', [9]],
+  ['GM', 'Gambia', '220', [7], null],
+  ['SN', 'Senegal', '221', [9], null],
+  ['MR', 'Mauritania', '222', [8], null],
+  ['ML', 'Mali', '223', [8], null],
+  ['GN', 'Guinea', '224', [8, 9], null],
+  ['CI', "Côte d'Ivoire", '225', [10], null],
+  ['BF', 'Burkina Faso', '226', [8], null],
+  ['NE', 'Niger', '227', [8], null],
+  ['TG', 'Togo', '228', [8], null],
+  ['BJ', 'Benin', '229', [8, 10], null],
+  ['MU', 'Mauritius', '230', [7, 8], null],
+  ['LR', 'Liberia', '231', [7, 8, 9]],
+  ['SL', 'Sierra Leone', '232', [8]],
+  ['GH', 'Ghana', '233', [9]],
+  ['NG', 'Nigeria', '234', [7, 8, 10]],
+  ['TD', 'Chad', '235', [8], null],
+  ['CF', 'Central African Republic', '236', [8], null],
+  ['CM', 'Cameroon', '237', [9], null],
+  ['CV', 'Cape Verde', '238', [7], null],
+  ['ST', 'São Tomé and Príncipe', '239', [7], null],
+  ['GQ', 'Equatorial Guinea', '240', [9], null],
+  ['GA', 'Gabon', '241', [7, 8]],
+  ['CG', 'Republic of the Congo', '242', [9], null],
+  ['CD', 'DR Congo', '243', [7, 9]],
+  ['AO', 'Angola', '244', [9], null],
+  ['GW', 'Guinea-Bissau', '245', [9], null],
+  ['IO', 'British Indian Ocean Territory', '246', [7], null],
+  ['AC', 'Ascension Island', '247', [5, 6], null],
+  ['SC', 'Seychelles', '248', [7], null],
+  ['SD', 'Sudan', '249', [9]],
+  ['RW', 'Rwanda', '250', [9]],
+  ['ET', 'Ethiopia', '251', [9]],
+  ['SO', 'Somalia', '252', [7, 8, 9]],
+  ['DJ', 'Djibouti', '253', [8], null],
+  ['KE', 'Kenya', '254', [9, 10]],
+  ['TZ', 'Tanzania', '255', [9]],
+  ['UG', 'Uganda', '256', [9]],
+  ['BI', 'Burundi', '257', [8], null],
+  ['MZ', 'Mozambique', '258', [8, 9], null],
+  ['ZM', 'Zambia', '260', [9]],
+  ['MG', 'Madagascar', '261', [9]],
+  ['RE', 'Réunion', '262', [9]],
+  ['YT', 'Mayotte', '262', [9]],
+  ['ZW', 'Zimbabwe', '263', [9]],
+  ['NA', 'Namibia', '264', [8, 9]],
+  ['MW', 'Malawi', '265', [7, 9]],
+  ['LS', 'Lesotho', '266', [8], null],
+  ['BW', 'Botswana', '267', [7, 8], null],
+  ['SZ', 'Eswatini', '268', [8], null],
+  ['KM', 'Comoros', '269', [7], null],
+  ['ZA', 'South Africa', '27', [9]],
+  ['SH', 'Saint Helena', '290', [4, 5], null],
+  ['TA', 'Tristan da Cunha', '290', [4, 5], null],
+  ['ER', 'Eritrea', '291', [7]],
+  ['AW', 'Aruba', '297', [7], null],
+  ['FO', 'Faroe Islands', '298', [6], null],
+  ['GL', 'Greenland', '299', [6], null],
+
+  // Zones 3 & 4 - Europe
+  ['GR', 'Greece', '30', [10], null],
+  ['NL', 'Netherlands', '31', [9]],
+  ['BE', 'Belgium', '32', [8, 9]],
+  ['FR', 'France', '33', [9]],
+  ['ES', 'Spain', '34', [9], null],
+  ['GI', 'Gibraltar', '350', [8], null],
+  ['PT', 'Portugal', '351', [9], null],
+  ['LU', 'Luxembourg', '352', [6, 7, 8, 9, 10, 11], null],
+  ['IE', 'Ireland', '353', [7, 8, 9]],
+  ['IS', 'Iceland', '354', [7, 9], null],
+  ['AL', 'Albania', '355', [8, 9]],
+  ['MT', 'Malta', '356', [8], null],
+  ['CY', 'Cyprus', '357', [8], null],
+  ['FI', 'Finland', '358', [6, 7, 8, 9, 10]],
+  ['AX', 'Åland Islands', '358', [6, 7, 8, 9, 10]],
+  ['BG', 'Bulgaria', '359', [7, 8, 9]],
+  ['HU', 'Hungary', '36', [8, 9], '06'],
+  ['LT', 'Lithuania', '370', [8], '8'],
+  ['LV', 'Latvia', '371', [8], null],
+  ['EE', 'Estonia', '372', [7, 8], null],
+  ['MD', 'Moldova', '373', [8]],
+  ['AM', 'Armenia', '374', [8]],
+  ['BY', 'Belarus', '375', [9], '8'],
+  ['AD', 'Andorra', '376', [6, 8, 9], null],
+  ['MC', 'Monaco', '377', [8, 9], null],
+  ['SM', 'San Marino', '378', [6, 8, 10], null],
+  ['VA', 'Vatican City', '39', [6, 7, 8, 9, 10, 11], null],
+  ['UA', 'Ukraine', '380', [9]],
+  ['RS', 'Serbia', '381', [8, 9]],
+  ['ME', 'Montenegro', '382', [8]],
+  ['XK', 'Kosovo', '383', [8, 9]],
+  ['HR', 'Croatia', '385', [8, 9]],
+  ['SI', 'Slovenia', '386', [8]],
+  ['BA', 'Bosnia and Herzegovina', '387', [8, 9]],
+  ['MK', 'North Macedonia', '389', [8]],
+  ['IT', 'Italy', '39', [6, 7, 8, 9, 10, 11], null],
+  ['RO', 'Romania', '40', [9]],
+  ['CH', 'Switzerland', '41', [9]],
+  ['CZ', 'Czech Republic', '420', [9], null],
+  ['SK', 'Slovakia', '421', [9]],
+  ['LI', 'Liechtenstein', '423', [7, 9], null],
+  ['AT', 'Austria', '43', [7, 8, 9, 10, 11, 12, 13]],
+  ['GB', 'United Kingdom', '44', [9, 10]],
+  ['GG', 'Guernsey', '44', [10]],
+  ['IM', 'Isle of Man', '44', [10]],
+  ['JE', 'Jersey', '44', [10]],
+  ['DK', 'Denmark', '45', [8], null],
+  ['SE', 'Sweden', '46', [7, 8, 9]],
+  ['NO', 'Norway', '47', [8], null],
+  ['SJ', 'Svalbard and Jan Mayen', '47', [8], null],
+  ['PL', 'Poland', '48', [9], null],
+  ['DE', 'Germany', '49', [6, 7, 8, 9, 10, 11, 12, 13]],
+
+  // Zone 5 - South and Central America
+  ['FK', 'Falkland Islands', '500', [5], null],
+  ['BZ', 'Belize', '501', [7], null],
+  ['GT', 'Guatemala', '502', [8], null],
+  ['SV', 'El Salvador', '503', [8], null],
+  ['HN', 'Honduras', '504', [8], null],
+  ['NI', 'Nicaragua', '505', [8], null],
+  ['CR', 'Costa Rica', '506', [8], null],
+  ['PA', 'Panama', '507', [7, 8], null],
+  ['PM', 'Saint Pierre and Miquelon', '508', [6]],
+  ['HT', 'Haiti', '509', [8], null],
+  ['PE', 'Peru', '51', [8, 9]],
+  ['MX', 'Mexico', '52', [10], null],
+  ['CU', 'Cuba', '53', [8]],
+  ['AR', 'Argentina', '54', [10, 11]],
+  ['BR', 'Brazil', '55', [10, 11]],
+  ['CL', 'Chile', '56', [9], null],
+  ['CO', 'Colombia', '57', [10], null],
+  ['VE', 'Venezuela', '58', [10]],
+  ['GP', 'Guadeloupe', '590', [9]],
+  ['BL', 'Saint Barthélemy', '590', [9]],
+  ['MF', 'Saint Martin', '590', [9]],
+  ['BO', 'Bolivia', '591', [8]],
+  ['GY', 'Guyana', '592', [7], null],
+  ['EC', 'Ecuador', '593', [8, 9]],
+  ['GF', 'French Guiana', '594', [9]],
+  ['PY', 'Paraguay', '595', [9]],
+  ['MQ', 'Martinique', '596', [9]],
+  ['SR', 'Suriname', '597', [6, 7], null],
+  ['UY', 'Uruguay', '598', [8], null],
+  ['CW', 'Curaçao', '599', [7, 8], null],
+  ['BQ', 'Caribbean Netherlands', '599', [7], null],
+
+  // Zone 6 - Southeast Asia and Oceania
+  ['MY', 'Malaysia', '60', [8, 9, 10]],
+  ['AU', 'Australia', '61', [9]],
+  ['CX', 'Christmas Island', '61', [9]],
+  ['CC', 'Cocos (Keeling) Islands', '61', [9]],
+  ['ID', 'Indonesia', '62', [8, 9, 10, 11, 12]],
+  ['PH', 'Philippines', '63', [8, 9, 10]],
+  ['NZ', 'New Zealand', '64', [8, 9, 10]],
+  ['SG', 'Singapore', '65', [8], null],
+  ['TH', 'Thailand', '66', [8, 9]],
+  ['TL', 'Timor-Leste', '670', [7, 8], null],
+  ['NF', 'Norfolk Island', '672', [6], null],
+  ['BN', 'Brunei', '673', [7], null],
+  ['NR', 'Nauru', '674', [7], null],
+  ['PG', 'Papua New Guinea', '675', [7, 8], null],
+  ['TO', 'Tonga', '676', [5, 7], null],
+  ['SB', 'Solomon Islands', '677', [5, 7], null],
+  ['VU', 'Vanuatu', '678', [5, 7], null],
+  ['FJ', 'Fiji', '679', [7], null],
+  ['PW', 'Palau', '680', [7], null],
+  ['WF', 'Wallis and Futuna', '681', [6], null],
+  ['CK', 'Cook Islands', '682', [5], null],
+  ['NU', 'Niue', '683', [4, 7], null],
+  ['WS', 'Samoa', '685', [5, 6, 7], null],
+  ['KI', 'Kiribati', '686', [5, 8], null],
+  ['NC', 'New Caledonia', '687', [6], null],
+  ['TV', 'Tuvalu', '688', [5, 6], null],
+  ['PF', 'French Polynesia', '689', [8], null],
+  ['TK', 'Tokelau', '690', [4], null],
+  ['FM', 'Micronesia', '691', [7], null],
+  ['MH', 'Marshall Islands', '692', [7], null],
+
+  // Zone 7 - Russia and Kazakhstan
+  ['RU', 'Russia', '7', [10], '8'],
+  ['KZ', 'Kazakhstan', '7', [10], '8'],
+
+  // Zone 8 - East Asia and special services
+  ['JP', 'Japan', '81', [9, 10]],
+  ['KR', 'South Korea', '82', [8, 9, 10]],
+  ['VN', 'Vietnam', '84', [9, 10]],
+  ['KP', 'North Korea', '850', [8, 10]],
+  ['HK', 'Hong Kong', '852', [8], null],
+  ['MO', 'Macau', '853', [8], null],
+  ['KH', 'Cambodia', '855', [8, 9]],
+  ['LA', 'Laos', '856', [8, 9, 10]],
+  ['CN', 'China', '86', [9, 10, 11]],
+  ['BD', 'Bangladesh', '880', [8, 9, 10]],
+  ['TW', 'Taiwan', '886', [8, 9]],
+
+  // Zone 9 - West, Central and South Asia, Middle East
+  ['TR', 'Turkey', '90', [10]],
+  ['IN', 'India', '91', [10]],
+  ['PK', 'Pakistan', '92', [9, 10]],
+  ['AF', 'Afghanistan', '93', [9]],
+  ['LK', 'Sri Lanka', '94', [9]],
+  ['MM', 'Myanmar', '95', [7, 8, 9, 10]],
+  ['MV', 'Maldives', '960', [7], null],
+  ['LB', 'Lebanon', '961', [7, 8]],
+  ['JO', 'Jordan', '962', [8, 9]],
+  ['SY', 'Syria', '963', [8, 9]],
+  ['IQ', 'Iraq', '964', [8, 9, 10]],
+  ['KW', 'Kuwait', '965', [7, 8], null],
+  ['SA', 'Saudi Arabia', '966', [8, 9]],
+  ['YE', 'Yemen', '967', [7, 8, 9]],
+  ['OM', 'Oman', '968', [8], null],
+  ['PS', 'Palestine', '970', [8, 9]],
+  ['AE', 'United Arab Emirates', '971', [8, 9]],
+  ['IL', 'Israel', '972', [8, 9]],
+  ['BH', 'Bahrain', '973', [8], null],
+  ['QA', 'Qatar', '974', [7, 8], null],
+  ['BT', 'Bhutan', '975', [7, 8], null],
+  ['MN', 'Mongolia', '976', [8]],
+  ['NP', 'Nepal', '977', [8, 10]],
+  ['IR', 'Iran', '98', [10]],
+  ['TJ', 'Tajikistan', '992', [9], null],
+  ['TM', 'Turkmenistan', '993', [8], '8'],
+  ['AZ', 'Azerbaijan', '994', [9]],
+  ['GE', 'Georgia', '995', [9]],
+  ['KG', 'Kyrgyzstan', '996', [9]],
+  ['UZ', 'Uzbekistan', '998', [9], null],
+];
+
+/**
+ * Number type ranges by country, matched against the national significant number
+ */
+const NUMBER_RANGES: Record<string, NumberRanges> = {
+  // NANP: mobile and fixed share the same NPA-NXX space
+  US: { tollFree: /^8(00|33|44|55|66|77|88)/, premiumRate: /^900/ },
+  CA: { tollFree: /^8(00|33|44|55|66|77|88)/, premiumRate: /^900/ },
+  GB: {
+    mobile: /^7([1-57-9]|624)/,
+    fixedLine: /^[12]/,
+    tollFree: /^80[08]/,
+    premiumRate: /^9[018]/,
+    voip: /^56/
+  },
+  IE: { mobile: /^8[35-9]/, fixedLine: /^[1-79]/, tollFree: /^1800/, premiumRate: /^15/ },
+  DE: { mobile: /^1[5-7]/, fixedLine: /^[2-9]/, tollFree: /^800/, premiumRate: /^900/, voip: /^32/ },
+  FR: { mobile: /^[67]/, fixedLine: /^[1-5]/, tollFree: /^80/, premiumRate: /^8[129]/, voip: /^9/ },
+  ES: { mobile: /^[67]/, fixedLine: /^[89]/, tollFree: /^900/, premiumRate: /^80[36]/ },
+  IT: { mobile: /^3/, fixedLine: /^0/, tollFree: /^80/, premiumRate: /^89/ },
+  PT: { mobile: /^9/, fixedLine: /^2/, tollFree: /^800/, premiumRate: /^76/ },
+  NL: { mobile: /^6/, fixedLine: /^[1-57]/, tollFree: /^800/, premiumRate: /^90/, voip: /^85/ },
+  BE: { mobile: /^4[5-9]/, fixedLine: /^[1-9]/, tollFree: /^800/, premiumRate: /^90/ },
+  CH: { mobile: /^7[5-9]/, fixedLine: /^[2-6]|^9[1]/, tollFree: /^800/, premiumRate: /^90/ },
+  AT: { mobile: /^6[5-9]/, fixedLine: /^[1-5]|^7/, tollFree: /^800/, premiumRate: /^9[03]/ },
+  SE: { mobile: /^7[02369]/, fixedLine: /^[1-6]|^8/, tollFree: /^20/, premiumRate: /^9[039]/ },
+  NO: { mobile: /^[49]/, fixedLine: /^[2-3567]/, tollFree: /^80/, premiumRate: /^82/ },
+  DK: { mobile: /^[2-9]/ },
+  PL: { mobile: /^(45|5|6[069]|7[2389]|88)/, fixedLine: /^[1-9]/, tollFree: /^800/, premiumRate: /^70/ },
+  RU: { mobile: /^9/, fixedLine: /^[348]/, tollFree: /^800/, premiumRate: /^80[39]/ },
+  KZ: { mobile: /^7(0[0-8]|47|[5-8])/, fixedLine: /^(6|7[1-2])/ },
+  UA: { mobile: /^(39|50|6[3678]|7[35]|9[1-9])/, fixedLine: /^[3-6]/, tollFree: /^800/, premiumRate: /^900/ },
+  TR: { mobile: /^5/, fixedLine: /^[234]/, tollFree: /^800/, premiumRate: /^900/ },
+  IN: { mobile: /^[6-9]/, fixedLine: /^[1-5]/, tollFree: /^1800/, premiumRate: /^1900/ },
+  PK: { mobile: /^3/, fixedLine: /^[2-9]/, tollFree: /^800/, premiumRate: /^900/ },
+  BD: { mobile: /^1[3-9]/, fixedLine: /^[2-9]/ },
+  LK: { mobile: /^7/, fixedLine: /^[1-689]/ },
+  CN: { mobile: /^1[3-9]/, fixedLine: /^[2-9]/, tollFree: /^(400|800)/ },
+  HK: { mobile: /^[4-9]/, fixedLine: /^[23]/, tollFree: /^800/ },
+  TW: { mobile: /^9/, fixedLine: /^[2-8]/, tollFree: /^80/ },
+  JP: { mobile: /^[789]0/, fixedLine: /^[1-9]/, tollFree: /^(120|800)/, premiumRate: /^990/, voip: /^50/ },
+  KR: { mobile: /^1[0-9]/, fixedLine: /^[2-6]/, tollFree: /^80/, premiumRate: /^60/, voip: /^70/ },
+  VN: { mobile: /^([35789])/, fixedLine: /^2/, tollFree: /^1800/, premiumRate: /^1900/ },
+  TH: { mobile: /^[689]/, fixedLine: /^[2-7]/, tollFree: /^1800/ },
+  MY: { mobile: /^1/, fixedLine: /^[2-9]/, tollFree: /^1800/ },
+  SG: { mobile: /^[89]/, fixedLine: /^6/, tollFree: /^800/ },
+  ID: { mobile: /^8/, fixedLine: /^[2-7]/, tollFree: /^(177|800)/ },
+  PH: { mobile: /^9/, fixedLine: /^[2-8]/, tollFree: /^1800/ },
+  AU: { mobile: /^4/, fixedLine: /^[2378]/, tollFree: /^180/, premiumRate: /^190/ },
+  NZ: { mobile: /^2/, fixedLine: /^[3-9]/, tollFree: /^80/, premiumRate: /^90/ },
+  AE: { mobile: /^5/, fixedLine: /^[2-4679]/, tollFree: /^800/, premiumRate: /^900/ },
+  SA: { mobile: /^5/, fixedLine: /^1/, tollFree: /^800/ },
+  IL: { mobile: /^5/, fixedLine: /^[2-489]/, tollFree: /^180/, premiumRate: /^19/, voip: /^7/ },
+  EG: { mobile: /^1/, fixedLine: /^[2-9]/, tollFree: /^800/, premiumRate: /^900/ },
+  MA: { mobile: /^[67]/, fixedLine: /^5/, tollFree: /^80/ },
+  NG: { mobile: /^[789][01]/, fixedLine: /^[1-9]/, tollFree: /^800/ },
+  GH: { mobile: /^(2[034-9]|5)/, fixedLine: /^3/, tollFree: /^800/ },
+  KE: { mobile: /^(7|1[01])/, fixedLine: /^[2-6]/, tollFree: /^800/, premiumRate: /^900/ },
+  UG: { mobile: /^7/, fixedLine: /^[234]/, tollFree: /^800/ },
+  TZ: { mobile: /^[67]/, fixedLine: /^2/, tollFree: /^80/ },
+  ZA: { mobile: /^([67]|8[1-4])/, fixedLine: /^[1-5]/, tollFree: /^80/, premiumRate: /^86/, voip: /^87/ },
+  BR: { mobile: /^[1-9]{2}9/, fixedLine: /^[1-9]{2}[2-5]/, tollFree: /^800/, premiumRate: /^900/ },
+  AR: { mobile: /^9/, fixedLine: /^[1-8]/, tollFree: /^800/, premiumRate: /^60/ },
+  CL: { mobile: /^9/, fixedLine: /^[2-8]/, tollFree: /^800/ },
+  CO: { mobile: /^3/, fixedLine: /^60/, tollFree: /^1800/ },
+  PE: { mobile: /^9/, fixedLine: /^[1-8]/, tollFree: /^800/ },
+  VE: { mobile: /^4/, fixedLine: /^2/, tollFree: /^800/ },
+  // Mexico merged mobile and fixed dialling in 2019
+  MX: { tollFree: /^800/, premiumRate: /^900/ },
+};
+
+/**
+ * Mobile number blocks by the carrier they were allocated to, matched against
+ * the national significant number. Ported numbers keep their block, so this is
+ * the allocation holder, not necessarily the carrier serving the number today.
+ * NANP countries are absent: every carrier there shares the same area codes.
+ */
+const CARRIER_RANGES: Record<string, CarrierRange[]> = {
+  GB: [
+    [/^7[4-9]/, 'Vodafone UK'],
+    [/^7[01]/, 'O2 UK'],
+    [/^7[23]/, 'EE Limited'],
+  ],
+  // Mobile series (first two digits) as allocated by DoT
+  IN: [
+    [/^(6|7[5-9]|88)/, 'Reliance Jio'],
+    [/^(70|7[34]|8[34]|9[0-5])/, 'Bharti Airtel'],
+    [/^(7[12]|8[0-2]|8[5-7]|89|9[6-9])/, 'Vodafone Idea'],
+  ],
+  // NCC operator codes
+  NG: [
+    [/^(70[36]|80[36]|81[0346]|90[36]|913)/, 'MTN Nigeria'],
+    [/^(705|80[57]|81[15]|905)/, 'Globacom'],
+    [/^(70[18]|80[28]|812|90[127])/, 'Airtel Nigeria'],
+    [/^(809|81[78]|90[89])/, '9mobile'],
+  ],
+};
+
+/**
+ * NANP area codes outside the United States (everything else in +1 is US)
+ */
+const NANP_AREA_CODE_ROWS: Array<[string, string[]]> = [
+  ['CA', [
+    '204', '226', '236', '249', '250', '257', '263', '289', '306', '343', '354', '365',
+    '367', '368', '382', '387', '403', '416', '418', '428', '431', '437', '438', '450',
+    '460', '468', '474', '506', '514', '519', '548', '579', '581', '584', '587', '604',
+    '613', '639', '647', '672', '683', '705', '709', '742', '753', '778', '780', '782',
+    '807', '819', '825', '867', '873', '879', '902', '905', '942'
+  ]],
+  ['AG', ['268']],
+  ['AI', ['264']],
+  ['AS', ['684']],
+  ['BB', ['246']],
+  ['BM', ['441']],
+  ['BS', ['242']],
+  ['DM', ['767']],
+  ['DO', ['809', '829', '849']],
+  ['GD', ['473']],
+  ['GU', ['671']],
+  ['JM', ['658', '876']],
+  ['KN', ['869']],
+  ['KY', ['345']],
+  ['LC', ['758']],
+  ['MP', ['670']],
+  ['MS', ['664']],
+  ['PR', ['787', '939']],
+  ['SX', ['721']],
+  ['TC', ['649']],
+  ['TT', ['868']],
+  ['VC', ['784']],
+  ['VG', ['284']],
+  ['VI', ['340']],
+];
+
+/**
+ * Primary region for calling codes shared by several countries
+ */
+export const MAIN_COUNTRY_FOR_CODE: Record<string, string> = {
+  '1': 'US',
+  '7': 'RU',
+  '39': 'IT',
+  '44': 'GB',
+  '47': 'NO',
+  '61': 'AU',
+  '212': 'MA',
+  '262': 'RE',
+  '290': 'SH',
+  '358': 'FI',
+  '590': 'GP',
+  '599': 'CW',
+};
+
+export const COUNTRIES: Record<string, CountryMetadata> = Object.fromEntries(
+  COUNTRY_ROWS.map(([iso, name, callingCode, lengths, trunkPrefix]) => [
+    iso,
+    {
+      name,
+      callingCode,
+      lengths,
+      trunkPrefix: trunkPrefix === null ? undefined : trunkPrefix ?? '0',
+      ranges: NUMBER_RANGES[iso],
+      carriers: CARRIER_RANGES[iso]
+    }
+  ])
+);
+
+export const NANP_AREA_CODES: Record<string, string> = Object.fromEntries(
+  NANP_AREA_CODE_ROWS.flatMap(([iso, areaCodes]) => areaCodes.map(code => [code, iso]))
+);
+
+/**
+ * Calling code → countries using it (main country first)
+ */
+export const COUNTRIES_BY_CALLING_CODE: Record<string, string[]> = COUNTRY_ROWS.reduce(
+  (index, [iso, , callingCode]) => {
+    const countries = index[callingCode] ?? (index[callingCode] = []);
+    if (MAIN_COUNTRY_FOR_CODE[callingCode] === iso) {
+      countries.unshift(iso);
+    } else {
+      countries.push(iso);
+    }
+    return index;
+  },
+  {} as Record<string, string[]>
+);
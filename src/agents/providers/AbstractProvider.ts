@@ -0,0 +1,89 @@
+/**
+ * Abstract Provider - Abstract API phone validation
+ *
+ * Returns validity, country, carrier and line type ("mobile", "landline",
+ * "fixed_line", "voip", ...). Errors use regular HTTP status codes, except
+ * 422 which Abstract uses for an exhausted quota.
+ */
+
+import { BaseProvider } from './BaseProvider';
+import { parseRetryAfter } from '../core/ErrorTaxonomy';
+import { errorFromResponse } from '../core/Http';
+import { AbstractPayloadSchema, type AbstractRaw } from '../schemas/ProviderSchemas';
+import type {
+  ProviderCapability,
+  ProviderError,
+  ProviderErrorKind,
+  ProviderLookupData,
+  ValidationData
+} from '../types';
+
+export type { AbstractRaw };
+
+const LINE_TYPE_MAP: Record<string, ValidationData['lineType']> = {
+  'mobile': 'mobile',
+  'landline': 'landline',
+  'fixed_line': 'landline',
+  'voip': 'voip'
+};
+
+export class AbstractProvider extends BaseProvider<AbstractRaw> {
+  readonly name = 'abstract';
+  readonly displayName = 'Abstract';
+  readonly costPerCall = 0.001;
+  readonly capabilities: ProviderCapability[] = ['validity', 'country', 'carrier', 'line_type', 'formatting'];
+  protected readonly defaultBaseUrl = 'https://phonevalidation.abstractapi.com/v1';
+  protected readonly payloadSchema = AbstractPayloadSchema;
+
+  protected async fetchLookup(
+    phoneNumber: string,
+    apiKey: string
+  ): Promise<{ raw?: AbstractRaw; error?: ProviderError }> {
+    const cleanNumber = phoneNumber.replace(/\D/g, '');
+    const url = `${this.baseUrl}/?api_key=${apiKey}&phone=${cleanNumber}`;
+    
+    const response = await this.request(url);
+    
+    if (!response.ok) {
+      return { error: errorFromResponse(response, this.clock.now()) };
+    }
+    
+    const data = await response.json();
+    
+    console.log('📡 Abstract API Response:', {
+      valid: data.valid,
+      carrier: data.carrier,
+      type: data.type,
+      country: data.country?.name
+    });
+    
+    if (data.error) {
+      return {
+        error: {
+          code: data.error.code?.toString() || '500',
+          message: data.error.message || 'Abstract API error',
+          retryAfterMs: parseRetryAfter(response.headers, this.clock.now())
+        }
+      };
+    }
+    
+    return { raw: data };
+  }
+
+  protected normalize(raw: AbstractRaw): ProviderLookupData {
+    return {
+      valid: !!raw.valid,
+      countryCode: raw.country?.code || undefined,
+      countryName: raw.country?.name || undefined,
+      carrier: raw.carrier || undefined,
+      lineType: raw.type ? LINE_TYPE_MAP[raw.type.toLowerCase()] || 'unknown' : undefined,
+      formatted: raw.format?.international || undefined,
+      raw
+    };
+  }
+
+  classifyError(error: ProviderError): ProviderErrorKind {
+    if (error.code === '422') return 'quota';
+    return super.classifyError(error);
+  }
+}
@@ -0,0 +1,118 @@
+/**
+ * Base Provider - Shared plumbing for HTTP validation providers
+ *
+ * Subclasses describe themselves (name, cost, capabilities) and implement
+ * fetchLookup() and normalize(); missing-key handling, request timeouts,
+ * network error wrapping, payload schema checks and HTTP status
+ * classification live here.
+ */
+
+import { classifyHttpStatus } from '../core/ErrorTaxonomy';
+import { DEFAULT_REQUEST_TIMEOUT_MS, fetchWithTimeout, requestErrorCode } from '../core/Http';
+import { systemClock, type Clock, type HttpTransport } from '../core/Dependencies';
+import { SCHEMA_VIOLATION, describeIssues } from '../schemas/SchemaViolation';
+import type { ZodType } from 'zod';
+import type {
+  ProviderCapability,
+  ProviderError,
+  ProviderErrorKind,
+  ProviderLookupData,
+  ProviderResponse,
+  ToolName,
+  ValidationProvider
+} from '../types';
+
+export interface ProviderOptions {
+  baseUrl?: string; // API root, e.g. a local mock server in tests
+  timeoutMs?: number;
+  http?: HttpTransport; // Defaults to the global fetch
+  clock?: Clock; // Times requests out and dates Retry-After; defaults to real time
+}
+
+export abstract class BaseProvider<TRaw> implements ValidationProvider {
+  abstract readonly name: ToolName;
+  abstract readonly displayName: string;
+  abstract readonly costPerCall: number;
+  abstract readonly capabilities: ProviderCapability[];
+  readonly requiresApiKey: boolean = true;
+  timeoutMs: number;
+
+  protected abstract readonly defaultBaseUrl: string;
+  protected readonly payloadSchema?: ZodType<TRaw>; // Live payloads that break it never reach normalize()
+
+  constructor(protected options: ProviderOptions = {}) {
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_REQUEST_TIMEOUT_MS;
+  }
+
+  protected get clock(): Clock {
+    return this.options.clock ?? systemClock;
+  }
+
+  /**
+   * API root without a trailing slash
+   */
+  get baseUrl(): string {
+    return (this.options.baseUrl ?? this.defaultBaseUrl).replace(/\/+$/, '');
+  }
+
+  async lookup(phoneNumber: string, apiKey?: string): Promise<ProviderResponse> {
+    // Never sent: the API would only answer with its own auth error
+    if (!apiKey) {
+      return { error: { code: 'AUTH_ERROR', message: `No ${this.displayName} API key configured` } };
+    }
+
+    try {
+      const result = await this.fetchLookup(phoneNumber, apiKey);
+      if (result.error) return { error: result.error };
+
+      const checked = this.payloadSchema?.safeParse(result.raw);
+      if (checked && !checked.success) {
+        const violations = describeIssues(checked.error);
+        return {
+          error: {
+            code: SCHEMA_VIOLATION,
+            message: `${this.displayName} response does not match its schema: ${violations.join('; ')}`,
+            violations
+          }
+        };
+      }
+
+      return { data: this.normalize(result.raw) };
+    } catch (error) {
+      return {
+        error: {
+          code: requestErrorCode(error),
+          message: error instanceof Error ? error.message : 'Network error'
+        }
+      };
+    }
+  }
+
+  classifyError(error: ProviderError): ProviderErrorKind {
+    if (error.code === 'AUTH_ERROR') return 'auth';
+    if (error.code === 'NETWORK_ERROR' || error.code === 'TIMEOUT') return 'transient';
+    if (error.code === SCHEMA_VIOLATION) return 'provider_bug';
+    if (/^\d{3}$/.test(error.code)) return classifyHttpStatus(Number(error.code));
+    return 'provider_bug';
+  }
+
+  /**
+   * Call the live API; return the raw payload or a provider error
+   */
+  protected abstract fetchLookup(
+    phoneNumber: string,
+    apiKey: string
+  ): Promise<{ raw?: TRaw; error?: ProviderError }>;
+
+  /**
+   * GET a provider endpoint, aborting after timeoutMs
+   */
+  protected request(url: string): Promise<Response> {
+    return fetchWithTimeout(url, {}, this.timeoutMs, this.options.http, this.clock);
+  }
+
+  /**
+   * Map the raw payload onto the shared lookup shape
+   */
+  protected abstract normalize(raw: TRaw): ProviderLookupData;
+}
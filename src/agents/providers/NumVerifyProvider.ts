@@ -0,0 +1,101 @@
+/**
+ * NumVerify Provider - apilayer.net number validation
+ *
+ * Returns validity, country, carrier and line type. NumVerify reports API
+ * errors with HTTP 200 and its own numeric codes, mapped in classifyError().
+ */
+
+import { BaseProvider } from './BaseProvider';
+import { parseRetryAfter } from '../core/ErrorTaxonomy';
+import { errorFromResponse } from '../core/Http';
+import { NumVerifyPayloadSchema, type NumVerifyRaw } from '../schemas/ProviderSchemas';
+import type {
+  ProviderCapability,
+  ProviderError,
+  ProviderErrorKind,
+  ProviderLookupData
+} from '../types';
+
+export type { NumVerifyRaw };
+
+// NumVerify error codes (https://numverify.com/documentation)
+const AUTH_ERROR_CODES = ['101', '102', '103'];
+const QUOTA_ERROR_CODES = ['104']; // Monthly allowance used up
+const RATE_LIMIT_ERROR_CODES = ['106'];
+const INVALID_INPUT_ERROR_CODES = ['210', '211', '310'];
+
+export class NumVerifyProvider extends BaseProvider<NumVerifyRaw> {
+  readonly name = 'numverify';
+  readonly displayName = 'NumVerify';
+  readonly costPerCall = 0.001;
+  readonly capabilities: ProviderCapability[] = ['validity', 'country', 'carrier', 'line_type', 'formatting'];
+  protected readonly defaultBaseUrl = 'https://apilayer.net/api';
+  protected readonly payloadSchema = NumVerifyPayloadSchema;
+
+  protected async fetchLookup(
+    phoneNumber: string,
+    apiKey: string
+  ): Promise<{ raw?: NumVerifyRaw; error?: ProviderError }> {
+    const cleanNumber = phoneNumber.replace(/\D/g, '');
+    // Use HTTPS endpoint for better compatibility
+    const url = `${this.baseUrl}/validate?access_key=${apiKey}&number=${cleanNumber}&format=1`;
+    
+    console.log('🔑 NumVerify Request:', { url: url.replace(apiKey, 'KEY***'), cleanNumber });
+    
+    const response = await this.request(url);
+    
+    console.log('📡 NumVerify Response Status:', response.status, response.statusText);
+    
+    if (!response.ok) {
+      return { error: errorFromResponse(response, this.clock.now()) };
+    }
+    
+    const data = await response.json();
+    
+    console.log('📡 NumVerify API Response:', {
+      valid: data.valid,
+      carrier: data.carrier,
+      line_type: data.line_type,
+      country_code: data.country_code,
+      country_name: data.country_name,
+      location: data.location,
+      hasError: !!data.error
+    });
+    
+    if (data.error) {
+      return {
+        error: {
+          code: data.error.code?.toString() || '500',
+          message: data.error.info || 'NumVerify API error',
+          retryAfterMs: parseRetryAfter(response.headers, this.clock.now())
+        }
+      };
+    }
+    
+    return { raw: data };
+  }
+
+  protected normalize(raw: NumVerifyRaw): ProviderLookupData {
+    // NumVerify also reports toll_free, premium_rate, special_services, ...;
+    // anything but mobile/landline is left for the numbering plan to classify
+    const lineType = raw.line_type?.toLowerCase();
+
+    return {
+      valid: !!raw.valid,
+      countryCode: raw.country_code || undefined,
+      countryName: raw.country_name || undefined,
+      carrier: raw.carrier || undefined,
+      lineType: lineType === 'mobile' || lineType === 'landline' ? lineType : 'unknown',
+      formatted: raw.international_format || undefined,
+      raw
+    };
+  }
+
+  classifyError(error: ProviderError): ProviderErrorKind {
+    if (AUTH_ERROR_CODES.includes(error.code)) return 'auth';
+    if (QUOTA_ERROR_CODES.includes(error.code)) return 'quota';
+    if (RATE_LIMIT_ERROR_CODES.includes(error.code)) return 'rate_limit';
+    if (INVALID_INPUT_ERROR_CODES.includes(error.code)) return 'invalid_input';
+    return super.classifyError(error);
+  }
+}
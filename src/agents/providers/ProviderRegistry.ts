@@ -0,0 +1,83 @@
+/**
+ * Provider Registry - Catalogue of validation providers
+ *
+ * The Validation Agent looks providers up here by name and the Decision Agent
+ * selects them by capability and cost, so adding a backend (Twilio Lookup,
+ * Telnyx, Vonage Number Insight, an in-house HLR) is a register() call.
+ */
+
+import { NumVerifyProvider } from './NumVerifyProvider';
+import { AbstractProvider } from './AbstractProvider';
+import type { Clock, HttpTransport } from '../core/Dependencies';
+import type { APIConfig, ProviderCapability, ToolName, ValidationProvider } from '../types';
+
+export interface ProviderSelection {
+  capabilities?: ProviderCapability[]; // Every selected provider must offer all of these
+  available?: ToolName[]; // Restrict to providers with credentials configured
+  limit?: number;
+  prices?: Partial<Record<ToolName, number>>; // Rank by these unit prices instead of costPerCall
+}
+
+export class ProviderRegistry {
+  private providers = new Map<ToolName, ValidationProvider>();
+
+  constructor(providers: ValidationProvider[] = []) {
+    providers.forEach(provider => this.register(provider));
+  }
+
+  /**
+   * Add a provider, replacing any registered under the same name
+   */
+  register(provider: ValidationProvider): this {
+    this.providers.set(provider.name, provider);
+    return this;
+  }
+
+  unregister(name: ToolName): boolean {
+    return this.providers.delete(name);
+  }
+
+  get(name: ToolName): ValidationProvider | undefined {
+    return this.providers.get(name);
+  }
+
+  has(name: ToolName): boolean {
+    return this.providers.has(name);
+  }
+
+  list(): ValidationProvider[] {
+    return Array.from(this.providers.values());
+  }
+
+  /**
+   * Cheapest providers matching the selection, in ascending cost order.
+   * Ties keep registration order.
+   */
+  select(selection: ProviderSelection = {}): ValidationProvider[] {
+    const { capabilities = [], available, limit, prices = {} } = selection;
+    const priceOf = (provider: ValidationProvider) => prices[provider.name] ?? provider.costPerCall;
+
+    const matches = this.list()
+      .filter(provider => !available || available.includes(provider.name))
+      .filter(provider => capabilities.every(capability => provider.capabilities.includes(capability)))
+      .sort((a, b) => priceOf(a) - priceOf(b));
+
+    return limit === undefined ? matches : matches.slice(0, limit);
+  }
+}
+
+/**
+ * Registry with the built-in NumVerify and Abstract providers, optionally
+ * pointed at other API roots (e.g. the mock provider server in tests) and
+ * sending requests through a custom transport and clock
+ */
+export function createDefaultProviderRegistry(
+  baseUrls: APIConfig['baseUrls'] = {},
+  http?: HttpTransport,
+  clock?: Clock
+): ProviderRegistry {
+  return new ProviderRegistry([
+    new NumVerifyProvider({ baseUrl: baseUrls.numverify, http, clock }),
+    new AbstractProvider({ baseUrl: baseUrls.abstract, http, clock })
+  ]);
+}
@@ -1,7 +1,8 @@
 /**
  * Quick Test - Multi-Agent System
  * 
- * Run this to verify the MAS is working correctly
+ * Run this to verify the MAS is working correctly. Calls the live APIs with
+ * the keys in NUMVERIFY_API_KEY and ABSTRACT_API_KEY.
  */
 
 import { createMultiAgentSystem } from './index';
@@ -10,11 +11,10 @@ async function quickTest() {
   console.log('🚀 Starting Multi-Agent System Quick Test\n');
 
   try {
-    // Create supervisor with mock API keys
     const supervisor = createMultiAgentSystem({
-      numverifyKey: 'test_key_123',
-      abstractKey: 'test_key_456',
-      whatsappKey: 'test_key_789',
+      numverifyKey: process.env.NUMVERIFY_API_KEY,
+      abstractKey: process.env.ABSTRACT_API_KEY,
+      whatsappKey: process.env.WHATSAPP_API_KEY,
       enableLogging: true
     });
 
@@ -0,0 +1,61 @@
+/**
+ * Supabase Traffic Store - provider_traffic table backend for TrafficRecorder
+ *
+ * See supabase/migrations/20261019_create_provider_traffic.sql for the schema.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { RecordedSession, TrafficStore } from './TrafficRecorder';
+
+const TABLE = 'provider_traffic';
+
+interface TrafficRow {
+  session_id: string;
+  started_at: string;
+  requests: RecordedSession['requests'];
+  exchanges: RecordedSession['exchanges'];
+  randoms: RecordedSession['randoms'];
+}
+
+export class SupabaseTrafficStore implements TrafficStore {
+  constructor(private client: SupabaseClient) {}
+
+  async get(sessionId: string): Promise<RecordedSession | undefined> {
+    const { data, error } = await this.client
+      .from(TABLE)
+      .select('*')
+      .eq('session_id', sessionId)
+      .maybeSingle();
+
+    if (error) throw new Error(`Traffic read failed: ${error.message}`);
+    return data ? this.fromRow(data as TrafficRow) : undefined;
+  }
+
+  async save(session: RecordedSession): Promise<void> {
+    const { error } = await this.client
+      .from(TABLE)
+      .upsert(this.toRow(session), { onConflict: 'session_id' });
+
+    if (error) throw new Error(`Traffic write failed: ${error.message}`);
+  }
+
+  private fromRow(row: TrafficRow): RecordedSession {
+    return {
+      sessionId: row.session_id,
+      startedAt: Date.parse(row.started_at),
+      requests: row.requests ?? [],
+      exchanges: row.exchanges ?? [],
+      randoms: row.randoms ?? []
+    };
+  }
+
+  private toRow(session: RecordedSession): TrafficRow {
+    return {
+      session_id: session.sessionId,
+      started_at: new Date(session.startedAt).toISOString(),
+      requests: session.requests,
+      exchanges: session.exchanges,
+      randoms: session.randoms
+    };
+  }
+}
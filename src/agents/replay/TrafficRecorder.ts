@@ -0,0 +1,251 @@
+/**
+ * Traffic Recorder - Record provider traffic per session and replay it
+ *
+ * The recorder wraps a Supervisor's HTTP transport and random source: every
+ * outbound provider request and its response (or network failure) is kept
+ * under the Supervisor's sessionId, with API keys, tokens and credentials
+ * redacted, and saved to a TrafficStore after each validation. Random draws
+ * (backoff jitter) are kept too.
+ *
+ * A TrafficReplayer turns a recorded session back into dependencies: the
+ * transport answers each request with the recorded response for the same
+ * method and redacted URL, in recorded order; a fake clock starting at the
+ * session's start makes backoff instant; random draws repeat. Replaying the
+ * recorded requests through a Supervisor (Supervisor.replay) reproduces what
+ * the providers said at the time without calling them.
+ */
+
+import { FakeClock, type AgentDependencies, type HttpTransport, type RandomSource } from '../core/Dependencies';
+import { TimeoutError } from '../core/Http';
+import type { ValidationRequest } from '../supervisor/Supervisor';
+
+export interface RecordedExchange {
+  method: string;
+  url: string; // Secret query parameters redacted
+  requestHeaders: Record<string, string>; // Credentials redacted
+  status?: number; // Missing when the request failed before a response
+  statusText?: string;
+  responseHeaders?: Record<string, string>;
+  body?: string;
+  error?: {
+    name: string;
+    message: string;
+    timedOut: boolean; // Aborted by the request timeout
+  };
+  startedAt: number;
+  durationMs: number;
+}
+
+export interface RecordedSession {
+  sessionId: string;
+  startedAt: number;
+  requests: ValidationRequest[]; // Every validate() call, in order
+  exchanges: RecordedExchange[];
+  randoms: number[];
+}
+
+export interface TrafficStore {
+  get(sessionId: string): Promise<RecordedSession | undefined>;
+  save(session: RecordedSession): Promise<void>;
+}
+
+export class InMemoryTrafficStore implements TrafficStore {
+  private sessions = new Map<string, RecordedSession>();
+
+  async get(sessionId: string): Promise<RecordedSession | undefined> {
+    return this.sessions.get(sessionId);
+  }
+
+  async save(session: RecordedSession): Promise<void> {
+    this.sessions.set(session.sessionId, structuredClone(session));
+  }
+}
+
+export const REDACTED = 'REDACTED';
+
+// Query parameters and headers that carry credentials
+const SECRET_PARAM = /key|token|secret|password|signature|auth/i;
+const SECRET_HEADERS = new Set(['authorization', 'proxy-authorization', 'cookie', 'set-cookie', 'x-api-key']);
+
+/**
+ * URL with the values of secret-looking query parameters replaced
+ */
+export function redactUrl(url: string): string {
+  const [base, query] = url.split('?', 2);
+  if (!query) return url;
+
+  const params = query.split('&').map(param => {
+    const [name] = param.split('=', 1);
+    return SECRET_PARAM.test(name) && param.includes('=') ? `${name}=${REDACTED}` : param;
+  });
+  return `${base}?${params.join('&')}`;
+}
+
+export function redactHeaders(headers: Headers): Record<string, string> {
+  const redacted: Record<string, string> = {};
+  headers.forEach((value, name) => {
+    redacted[name] = SECRET_HEADERS.has(name.toLowerCase()) ? REDACTED : value;
+  });
+  return redacted;
+}
+
+export class TrafficRecorder {
+  private sessions = new Map<string, RecordedSession>();
+
+  constructor(private store: TrafficStore = new InMemoryTrafficStore()) {}
+
+  getStore(): TrafficStore {
+    return this.store;
+  }
+
+  /**
+   * Dependencies whose HTTP calls and random draws are recorded under the
+   * session currentSession() names; outside a session nothing is recorded
+   */
+  instrument(deps: AgentDependencies, currentSession: () => string | undefined): AgentDependencies {
+    return {
+      ...deps,
+      http: this.recordingTransport(deps, currentSession),
+      random: this.recordingRandom(deps.random, currentSession)
+    };
+  }
+
+  /**
+   * Start recording a validate() call
+   */
+  begin(sessionId: string, request: ValidationRequest, now: number): void {
+    let session = this.sessions.get(sessionId);
+    if (!session) {
+      session = { sessionId, startedAt: now, requests: [], exchanges: [], randoms: [] };
+      this.sessions.set(sessionId, session);
+    }
+    session.requests.push({ ...request });
+  }
+
+  /**
+   * Persist everything recorded for the session so far
+   */
+  async flush(sessionId: string): Promise<void> {
+    const session = this.sessions.get(sessionId);
+    if (session) await this.store.save(session);
+  }
+
+  /**
+   * Recorded session, from memory or the store
+   */
+  async getSession(sessionId: string): Promise<RecordedSession | undefined> {
+    return this.sessions.get(sessionId) ?? this.store.get(sessionId);
+  }
+
+  private recordingTransport(deps: AgentDependencies, currentSession: () => string | undefined): HttpTransport {
+    return async (url, init = {}) => {
+      const session = this.sessions.get(currentSession() ?? '');
+      if (!session) return deps.http(url, init);
+
+      const exchange: RecordedExchange = {
+        method: (init.method ?? 'GET').toUpperCase(),
+        url: redactUrl(url),
+        requestHeaders: redactHeaders(new Headers(init.headers)),
+        startedAt: deps.clock.now(),
+        durationMs: 0
+      };
+      session.exchanges.push(exchange);
+
+      try {
+        const response = await deps.http(url, init);
+        const body = await response.text();
+        Object.assign(exchange, {
+          status: response.status,
+          statusText: response.statusText,
+          responseHeaders: redactHeaders(response.headers),
+          body,
+          durationMs: deps.clock.now() - exchange.startedAt
+        });
+
+        // The body has been read; hand the caller an unread copy
+        return new Response(hasNoBody(response.status) ? null : body, {
+          status: response.status,
+          statusText: response.statusText,
+          headers: response.headers
+        });
+      } catch (error) {
+        exchange.error = {
+          name: error instanceof Error ? error.name : 'Error',
+          message: error instanceof Error ? error.message : String(error),
+          timedOut: init.signal?.aborted ?? false
+        };
+        exchange.durationMs = deps.clock.now() - exchange.startedAt;
+        throw error;
+      }
+    };
+  }
+
+  private recordingRandom(random: RandomSource, currentSession: () => string | undefined): RandomSource {
+    return () => {
+      const value = random();
+      this.sessions.get(currentSession() ?? '')?.randoms.push(value);
+      return value;
+    };
+  }
+}
+
+/**
+ * Serves a recorded session back as an HTTP transport, clock and random source
+ */
+export class TrafficReplayer {
+  readonly unmatched: string[] = []; // "METHOD url" of requests with no recorded exchange
+  private pending = new Map<string, RecordedExchange[]>();
+  private randoms: number[];
+
+  constructor(readonly session: RecordedSession) {
+    session.exchanges.forEach(exchange => {
+      const key = replayKey(exchange.method, exchange.url);
+      this.pending.set(key, [...(this.pending.get(key) ?? []), exchange]);
+    });
+    this.randoms = [...session.randoms];
+  }
+
+  dependencies(): AgentDependencies {
+    return {
+      http: this.transport,
+      clock: new FakeClock(this.session.startedAt),
+      random: () => this.randoms.shift() ?? 0
+    };
+  }
+
+  /**
+   * Recorded exchanges that were never requested during the replay
+   */
+  remaining(): RecordedExchange[] {
+    return Array.from(this.pending.values()).flat();
+  }
+
+  private transport: HttpTransport = async (url, init = {}) => {
+    const key = replayKey((init.method ?? 'GET').toUpperCase(), redactUrl(url));
+    const exchange = this.pending.get(key)?.shift();
+
+    if (!exchange) {
+      this.unmatched.push(key);
+      throw new TypeError(`No recorded response for ${key}`);
+    }
+
+    if (exchange.error) {
+      if (exchange.error.timedOut) throw new TimeoutError(exchange.durationMs);
+      throw new TypeError(exchange.error.message);
+    }
+
+    return new Response(hasNoBody(exchange.status!) ? null : exchange.body, {
+      status: exchange.status,
+      statusText: exchange.statusText,
+      headers: exchange.responseHeaders
+    });
+  };
+}
+
+function replayKey(method: string, url: string): string {
+  return `${method} ${url}`;
+}
+
+function hasNoBody(status: number): boolean {
+  return status === 204 || status === 205 || status === 304;
+}
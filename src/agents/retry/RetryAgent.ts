@@ -2,68 +2,99 @@
  * Retry & Recovery Agent - Resilience Engineer
  * 
  * System Prompt:
- * "You monitor system health. If any agent reports a rate limit (429) or timeout, you must:
+ * "You monitor system health. If any agent reports a recoverable failure, you must:
  * 
- * 1. Implement a 2-second exponential backoff
- * 2. Switch from the primary API key to the secondary backup key
- * 3. Attempt the task exactly 3 times before declaring a final 'System Failure' status
+ * 1. Classify it (auth, quota, rate limit, transient, invalid input, provider bug)
+ * 2. Back off with full jitter, or as long as the provider's Retry-After asks
+ * 3. Switch from the primary API key to the next configured key
+ * 4. Stop when the error class's retry policy is exhausted and declare 'System Failure'
  * 
  * Track all retry attempts and report them to the Confidence Scoring Agent."
  */
 
 import { BaseAgent } from '../core/BaseAgent';
+import { RetryInputSchema, RetryResultSchema } from '../schemas/AgentSchemas';
+import type { ProviderHealthRegistry } from '../core/CircuitBreaker';
+import {
+  DEFAULT_RETRY_POLICIES,
+  classifyAgentError,
+  fullJitterDelay,
+  type RetryPolicy
+} from '../core/ErrorTaxonomy';
+import type { KeyRing, KeySlot } from '../core/KeyRing';
 import type {
   AgentResponse,
   RetryContext,
   AgentError,
+  ErrorClass,
   ToolName,
   APIConfig
 } from '../types';
 
-interface RetryInput {
+export type RetryPolicies = Partial<Record<ErrorClass, Partial<RetryPolicy>>>;
+
+export interface RetryInput<T = unknown> {
   originalError: AgentError;
   originalTask: () => Promise<AgentResponse>;
+  keyRing?: KeyRing<T>; // Credentials to rotate through; slot 0 made the failed call
+  taskWithKey?: (slot: KeySlot<T>) => Promise<AgentResponse>; // Rebuilds the task for a credential
   apiConfig: APIConfig;
   failedTool: ToolName;
+  maxAttempts?: number; // Lower cap, e.g. what the remaining budget allows
+  health?: ProviderHealthRegistry; // Stop retrying once the tool's circuit opens
 }
 
-interface RetryResult {
+export interface RetryResult {
   success: boolean;
   finalResponse: AgentResponse;
   context: RetryContext;
 }
 
-export class RetryAgent extends BaseAgent {
-  private readonly MAX_ATTEMPTS = 3;
-  private readonly BASE_BACKOFF_MS = 2000;
+export class RetryAgent extends BaseAgent<RetryInput, RetryResult> {
+  private policies: Record<ErrorClass, RetryPolicy>;
 
-  constructor() {
+  constructor(policies: RetryPolicies = {}) {
     super({
       role: 'retry',
-      systemPrompt: `You monitor system health. If any agent reports a rate limit (429) or timeout, you must:
+      systemPrompt: `You monitor system health. If any agent reports a recoverable failure, you must:
 
-1. Implement a 2-second exponential backoff
-2. Switch from the primary API key to the secondary backup key
-3. Attempt the task exactly 3 times before declaring a final 'System Failure' status
+1. Classify it (auth, quota, rate limit, transient, invalid input, provider bug)
+2. Back off with full jitter, or as long as the provider's Retry-After asks
+3. Switch from the primary API key to the next configured key
+4. Stop when the error class's retry policy is exhausted and declare 'System Failure'
 
 Track all retry attempts and report them to the Confidence Scoring Agent.`,
       constraints: [
-        'Maximum 3 retry attempts',
-        'Exponential backoff starting at 2 seconds',
-        'Switch to backup keys after first failure',
+        'Retry policy per error class',
+        'Full-jitter exponential backoff, never shorter than Retry-After',
+        'Auth and quota errors only retry with another key',
+        'Never retry invalid input',
         'Track and report all retry metadata'
       ],
       tools: ['none'],
       outputFormat: 'structured'
-    });
+    }, { input: RetryInputSchema, output: RetryResultSchema });
+
+    this.policies = { ...DEFAULT_RETRY_POLICIES };
+    for (const [errorClass, policy] of Object.entries(policies) as [ErrorClass, Partial<RetryPolicy>][]) {
+      this.policies[errorClass] = { ...DEFAULT_RETRY_POLICIES[errorClass], ...policy };
+    }
+  }
+
+  /**
+   * Retry a failed task, rotating through credentials of any type
+   */
+  execute<T>(input: RetryInput<T>): Promise<AgentResponse<RetryResult>> {
+    return super.execute(input as RetryInput);
   }
 
-  async execute(input: RetryInput): Promise<AgentResponse<RetryResult>> {
-    this.startTime = Date.now();
+  protected async run(input: RetryInput): Promise<AgentResponse<RetryResult>> {
+    this.startTime = this.deps.clock.now();
     this.setStatus('thinking');
 
     try {
-      this.think(`Analyzing failure from ${input.originalError.code}`);
+      const originalClass = classifyAgentError(input.originalError);
+      this.think(`Analyzing failure from ${input.originalError.code} (${originalClass})`);
       
       // Determine if the error is retryable
       if (!input.originalError.recoverable) {
@@ -77,8 +108,9 @@ Track all retry attempts and report them to the Confidence Scoring Agent.`,
           ),
           context: {
             attempts: 0,
-            maxAttempts: this.MAX_ATTEMPTS,
+            maxAttempts: 0,
             lastError: input.originalError,
+            errorClass: originalClass,
             backoffDelay: 0,
             useBackupKey: false,
             failedTools: [input.failedTool]
@@ -86,45 +118,117 @@ Track all retry attempts and report them to the Confidence Scoring Agent.`,
         });
       }
 
-      this.think('Error is recoverable - initiating retry sequence');
-      this.setStatus('acting');
+      const rotate = Boolean(input.taskWithKey && input.keyRing && input.keyRing.size > 1);
+      const keyCount = rotate ? input.keyRing!.size : 1;
+      // Attempt n uses key slot n, so only attempts before the ring wraps get a fresh key
+      const canRotateKey = (attempt: number) => attempt < keyCount;
+
+      const originalPolicy = this.policyFor(originalClass);
+      const budgetCap = input.maxAttempts ?? Infinity;
+      const maxAttempts = Math.min(
+        budgetCap,
+        originalPolicy.requiresNewKey ? Math.min(originalPolicy.maxAttempts, keyCount - 1) : originalPolicy.maxAttempts
+      );
 
       // Initialize retry context
       const context: RetryContext = {
         attempts: 0,
-        maxAttempts: this.MAX_ATTEMPTS,
+        maxAttempts,
         lastError: input.originalError,
-        backoffDelay: this.BASE_BACKOFF_MS,
+        errorClass: originalClass,
+        backoffDelay: 0,
         useBackupKey: false,
+        keySlot: input.keyRing?.primary?.label,
         failedTools: [input.failedTool]
       };
 
+      if (!rotate) {
+        this.think(`No other credentials configured for ${input.failedTool} - retries reuse the same key`);
+      }
+      if (!this.shouldRetry(input.originalError, 1, canRotateKey(1))) {
+        this.think(this.policyRefusal(originalClass));
+        this.setStatus('error');
+        return this.createSuccessResponse({
+          success: false,
+          finalResponse: this.createErrorResponse(
+            input.originalError.code,
+            input.originalError.message,
+            false,
+            input.originalError.suggestedAction,
+            { errorClass: originalClass, retryAfterMs: input.originalError.retryAfterMs }
+          ),
+          context
+        });
+      }
+
+      this.think(`Error is retryable (${originalClass}) - initiating retry sequence`);
+      this.setStatus('acting');
+
+      if (budgetCap < originalPolicy.maxAttempts) {
+        this.think(`Limited to ${budgetCap} attempt(s) by budget`);
+      }
+
       let finalResponse: AgentResponse | null = null;
 
-      // Retry loop
-      for (let attempt = 1; attempt <= this.MAX_ATTEMPTS; attempt++) {
+      // Retry loop; the latest failure's class decides whether to go on
+      for (let attempt = 1; attempt <= budgetCap; attempt++) {
+        const lastError = context.lastError!;
+        const errorClass = classifyAgentError(lastError);
+        context.errorClass = errorClass;
+
+        if (attempt > 1 && !this.shouldRetry(lastError, attempt, canRotateKey(attempt))) {
+          this.think(lastError.recoverable ? this.policyRefusal(errorClass) : 'Error is not recoverable - stopping');
+          break;
+        }
+
+        // Backing off is pointless while the provider is known to be down
+        if (input.health && !input.health.isAvailable(input.failedTool)) {
+          this.think(`Circuit open for ${input.failedTool} - aborting retry sequence`);
+          this.setStatus('error');
+
+          return this.createSuccessResponse({
+            success: false,
+            finalResponse: finalResponse || this.createErrorResponse(
+              'CIRCUIT_OPEN',
+              `${input.failedTool} circuit is open after repeated failures`,
+              false,
+              'Wait for the provider to recover or configure another provider'
+            ),
+            context
+          });
+        }
+
+        const policy = this.policyFor(errorClass);
+        if (lastError.retryAfterMs !== undefined && !policy.requiresNewKey && lastError.retryAfterMs > policy.maxDelayMs) {
+          this.think(`${input.failedTool} asked to wait ${lastError.retryAfterMs}ms, longer than the ${policy.maxDelayMs}ms limit - giving up`);
+          break;
+        }
+
         context.attempts = attempt;
+        this.act(`Retry attempt ${attempt}/${Math.min(budgetCap, policy.maxAttempts)}`);
         
-        this.act(`Retry attempt ${attempt}/${this.MAX_ATTEMPTS}`);
-        
-        // Calculate exponential backoff
-        const backoffDelay = this.BASE_BACKOFF_MS * Math.pow(2, attempt - 1);
+        const backoffDelay = this.backoffDelay(lastError, policy, attempt);
         context.backoffDelay = backoffDelay;
-        
-        this.think(`Waiting ${backoffDelay}ms before retry...`);
-        await this.sleep(backoffDelay);
-
-        // Switch to backup key after first failure
-        if (attempt > 1 && !context.useBackupKey) {
-          this.think('Switching to backup API key');
-          context.useBackupKey = true;
-          this.act('Activated backup API configuration');
+        if (backoffDelay > 0) {
+          this.think(lastError.retryAfterMs !== undefined
+            ? `Waiting ${backoffDelay}ms as requested by Retry-After...`
+            : `Waiting ${backoffDelay}ms before retry...`);
+          await this.sleep(backoffDelay);
+        }
+
+        // Rebuild the task with the next credential so the failing key is not reused
+        const slot = rotate ? input.keyRing!.forAttempt(attempt) : undefined;
+        if (slot && slot.label !== context.keySlot) {
+          this.think(`Switching to ${slot.label} API key`);
+          context.keySlot = slot.label;
+          context.useBackupKey = slot.index > 0;
+          this.act(`Activated ${slot.label} API configuration`);
         }
 
-        // Attempt the original task
+        // Attempt the task
         try {
           this.act(`Executing retry attempt ${attempt}...`);
-          finalResponse = await input.originalTask();
+          finalResponse = slot ? await input.taskWithKey!(slot) : await input.originalTask();
 
           if (finalResponse.success) {
             this.think(`Retry attempt ${attempt} succeeded!`);
@@ -145,18 +249,19 @@ Track all retry attempts and report them to the Confidence Scoring Agent.`,
           context.lastError = {
             code: 'EXCEPTION',
             message: error instanceof Error ? error.message : 'Unknown error',
-            recoverable: attempt < this.MAX_ATTEMPTS
+            recoverable: true,
+            errorClass: 'provider_bug'
           };
         }
       }
 
       // All retries exhausted
-      this.think('All retry attempts exhausted - declaring System Failure');
+      this.think('Retry policy exhausted - declaring System Failure');
       this.setStatus('error');
 
       const systemFailureResponse = this.createErrorResponse(
         'SYSTEM_FAILURE',
-        `Failed after ${this.MAX_ATTEMPTS} retry attempts`,
+        `Failed after ${context.attempts} retry attempts`,
         false,
         'System is experiencing persistent issues. Try again later or contact support.'
       );
@@ -178,81 +283,44 @@ Track all retry attempts and report them to the Confidence Scoring Agent.`,
   }
 
   /**
-   * Get appropriate API key based on retry context
+   * Retry policy for an error class
    */
-  getAPIKey(
-    apiConfig: APIConfig,
-    tool: ToolName,
-    useBackup: boolean
-  ): string | undefined {
-    const keySet = useBackup ? apiConfig.backup : apiConfig.primary;
-    
-    switch (tool) {
-      case 'numverify':
-        return keySet.numverify;
-      case 'abstract':
-        return keySet.abstract;
-      case 'whatsapp':
-        return keySet.whatsapp;
-      default:
-        return undefined;
-    }
+  policyFor(errorClass: ErrorClass): RetryPolicy {
+    return this.policies[errorClass];
   }
 
   /**
-   * Determine if error warrants a retry
+   * Determine if error warrants retry attempt n under its class's policy
    */
-  shouldRetry(error: AgentError): boolean {
-    const retryableCodes = [
-      'RATE_LIMIT',
-      'TIMEOUT',
-      'NETWORK_ERROR',
-      'AUTH_ERROR', // Can retry with backup key
-      '429',
-      '503',
-      '504'
-    ];
-
-    return error.recoverable && retryableCodes.includes(error.code);
+  shouldRetry(error: AgentError, attempt: number = 1, canRotateKey: boolean = false): boolean {
+    const policy = this.policyFor(classifyAgentError(error));
+    return error.recoverable
+      && policy.retry
+      && attempt <= policy.maxAttempts
+      && (!policy.requiresNewKey || canRotateKey);
   }
 
   /**
-   * Sleep utility for backoff
+   * Wait before retry attempt n: none when switching away from a dead key,
+   * the provider's Retry-After when it sent one, full jitter otherwise
    */
-  private sleep(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+  private backoffDelay(error: AgentError, policy: RetryPolicy, attempt: number): number {
+    if (policy.requiresNewKey) return 0;
+    if (error.retryAfterMs !== undefined) return error.retryAfterMs;
+    return fullJitterDelay(policy, attempt, this.deps.random);
+  }
+
+  private policyRefusal(errorClass: ErrorClass): string {
+    const policy = this.policyFor(errorClass);
+    if (!policy.retry) return `${errorClass} errors are never retried`;
+    if (policy.requiresNewKey) return `${errorClass} error and no unused key left - not retrying`;
+    return `Retry policy for ${errorClass} errors exhausted`;
   }
 
   /**
-   * Create a wrapped task with backup key injection
+   * Sleep utility for backoff
    */
-  static wrapTaskWithBackupKey(
-    originalTask: (apiKey: string) => Promise<AgentResponse>,
-    apiConfig: APIConfig,
-    tool: ToolName,
-    useBackup: boolean
-  ): () => Promise<AgentResponse> {
-    return async () => {
-      const keySet = useBackup ? apiConfig.backup : apiConfig.primary;
-      let apiKey: string | undefined;
-
-      switch (tool) {
-        case 'numverify':
-          apiKey = keySet.numverify;
-          break;
-        case 'abstract':
-          apiKey = keySet.abstract;
-          break;
-        case 'whatsapp':
-          apiKey = keySet.whatsapp;
-          break;
-      }
-
-      if (!apiKey) {
-        throw new Error(`No ${useBackup ? 'backup' : 'primary'} API key for ${tool}`);
-      }
-
-      return originalTask(apiKey);
-    };
+  private sleep(ms: number): Promise<void> {
+    return this.deps.clock.sleep(ms);
   }
 }
@@ -0,0 +1,230 @@
+/**
+ * Agent Schemas - What each agent accepts and returns
+ *
+ * BaseAgent.execute() checks every call's input and every successful
+ * response's data against these. Input types are inferred from the schemas;
+ * output schemas mirror the interfaces in types.ts - change both together.
+ */
+
+import { z } from 'zod';
+import type { AgentRole, ValidationData } from '../types';
+
+const AGENT_ROLES: [AgentRole, ...AgentRole[]] = ['decision', 'validation', 'whatsapp', 'retry', 'confidence', 'inactive'];
+const LINE_TYPES: [ValidationData['lineType'], ...ValidationData['lineType'][]] = ['mobile', 'landline', 'voip', 'unknown'];
+
+const phoneNumber = z.string().trim().min(1, 'Phone number is required');
+const toolName = z.string().min(1);
+const riskLevel = z.enum(['low', 'medium', 'high']);
+
+// === SHARED ===
+
+export const AgentErrorSchema = z.object({
+  code: z.string(),
+  message: z.string(),
+  recoverable: z.boolean(),
+  suggestedAction: z.string().optional(),
+  errorClass: z.enum(['auth', 'quota', 'rate_limit', 'transient', 'invalid_input', 'provider_bug']).optional(),
+  retryAfterMs: z.number().nonnegative().optional(),
+  violations: z.array(z.string()).optional()
+});
+
+export const RetryContextSchema = z.object({
+  attempts: z.number().int().nonnegative(),
+  maxAttempts: z.number().int().nonnegative(),
+  lastError: AgentErrorSchema.optional(),
+  errorClass: z.enum(['auth', 'quota', 'rate_limit', 'transient', 'invalid_input', 'provider_bug']).optional(),
+  backoffDelay: z.number().nonnegative(),
+  useBackupKey: z.boolean(),
+  keySlot: z.string().optional(),
+  failedTools: z.array(toolName)
+});
+
+export const AgentResponseSchema = z.object({
+  success: z.boolean(),
+  agent: z.enum(AGENT_ROLES),
+  data: z.unknown().optional(),
+  error: AgentErrorSchema.optional(),
+  metadata: z.object({
+    executionTime: z.number(),
+    retriesAttempted: z.number(),
+    toolsUsed: z.array(toolName),
+    reasoning: z.array(z.string())
+  })
+});
+
+export const ProviderLookupDataSchema = z.object({
+  valid: z.boolean(),
+  countryCode: z.string().optional(),
+  countryName: z.string().optional(),
+  carrier: z.string().optional(),
+  lineType: z.enum(LINE_TYPES).optional(),
+  formatted: z.string().optional(),
+  raw: z.unknown()
+});
+
+export const ProviderResultSchema = z.object({
+  source: toolName,
+  provider: z.string(),
+  data: ProviderLookupDataSchema
+});
+
+// === OUTPUTS ===
+
+export const ExecutionPlanSchema = z.object({
+  id: z.string(),
+  steps: z.array(z.object({
+    id: z.number().int(),
+    agent: z.enum(AGENT_ROLES),
+    action: z.string(),
+    tool: toolName.optional(),
+    condition: z.string().optional(),
+    dependsOn: z.array(z.number().int()).optional(),
+    optional: z.boolean().optional()
+  })).min(1),
+  estimatedCost: z.number().nonnegative(),
+  riskLevel,
+  skipWhatsApp: z.boolean(),
+  reasoning: z.array(z.string())
+});
+
+export const ValidationDataSchema = z.object({
+  phoneNumber: z.string(),
+  countryCode: z.string(),
+  countryName: z.string(),
+  carrier: z.string().optional(),
+  lineType: z.enum(LINE_TYPES),
+  valid: z.boolean(),
+  formatted: z.string().optional(),
+  source: toolName,
+  rawData: z.array(ProviderResultSchema),
+  schemaViolations: z.array(z.string()).optional()
+});
+
+export const WhatsAppDataSchema = z.object({
+  exists: z.boolean(),
+  verified: z.boolean(),
+  businessAccount: z.boolean(),
+  lastSeen: z.string().optional(),
+  profilePicture: z.boolean().optional(),
+  about: z.string().optional(),
+  metadata: z.object({
+    carrier: z.string().optional(),
+    lineType: z.string().optional(),
+    countryCode: z.string().optional(),
+    businessConfidence: z.number().min(0).max(1).optional(),
+    businessIndicators: z.array(z.string()).optional()
+  }).optional()
+});
+
+export const InactivityStatusSchema = z.object({
+  isInactive: z.boolean(),
+  daysSinceActive: z.number().nonnegative(),
+  inactivityScore: z.number().nonnegative(),
+  deliveryProbability: z.number().min(0).max(100),
+  confidence: z.number().min(0).max(1),
+  severity: z.enum(['critical', 'high', 'moderate', 'low', 'none']),
+  reasons: z.array(z.string()),
+  recommendation: z.string(),
+  alternativeChannels: z.array(z.string()),
+  countryPrevalence: z.object({
+    country: z.string(),
+    whatsappUsage: z.number().min(0).max(1)
+  })
+});
+
+export const ConfidenceScoreSchema = z.object({
+  score: z.number(),
+  reasoning: z.string(),
+  discrepancies: z.array(z.string()),
+  explanation: z.string().optional(),
+  recommendations: z.array(z.string()),
+  modelVersion: z.string(),
+  breakdown: z.object({
+    baseScore: z.number(),
+    rules: z.array(z.object({ rule: z.string(), description: z.string(), points: z.number() }))
+  })
+});
+
+export const RetryResultSchema = z.object({
+  success: z.boolean(),
+  finalResponse: AgentResponseSchema,
+  context: RetryContextSchema
+});
+
+// === INPUTS ===
+
+export const DecisionInputSchema = z.object({
+  phoneNumber,
+  country: z.string().optional(),
+  availableProviders: z.array(toolName).optional(), // Providers with credentials configured (default: all registered)
+  unitPrices: z.record(z.number().nonnegative()).optional(), // APIConfig.prices overrides
+  openCircuits: z.array(toolName).optional(), // Providers whose circuit breaker is refusing calls
+  userPreferences: z.object({
+    maxCost: z.number().nonnegative().optional(),
+    prioritizeSpeed: z.boolean().optional()
+  }).optional()
+});
+
+export type DecisionInput = z.infer<typeof DecisionInputSchema>;
+
+export const ValidationInputSchema = z.object({
+  phoneNumber,
+  tools: z.array(toolName).min(1),
+  apiKeys: z.record(z.string().optional()), // Keyed by provider name
+  retryContext: RetryContextSchema.optional()
+});
+
+export type ValidationInput = z.infer<typeof ValidationInputSchema>;
+
+export const WhatsAppInputSchema = z.object({
+  phoneNumber,
+  accountSid: z.string().optional(),
+  authToken: z.string().optional(),
+  twilioNumber: z.string().optional(),
+  retryContext: RetryContextSchema.optional(),
+  validationData: z.object({
+    countryCode: z.string(),
+    lineType: z.string(),
+    carrier: z.string().optional()
+  }).optional()
+});
+
+export type WhatsAppInput = z.infer<typeof WhatsAppInputSchema>;
+
+export const InactiveAccountInputSchema = z.object({
+  phoneNumber,
+  country: z.string().optional(), // Country hint for national-format numbers, as on ValidationRequest
+  twilioAccountSid: z.string().optional(),
+  twilioAuthToken: z.string().optional(),
+  retryContext: RetryContextSchema.optional()
+});
+
+export type InactiveAccountInput = z.infer<typeof InactiveAccountInputSchema>;
+
+export const ConfidenceInputSchema = z.object({
+  validation: ValidationDataSchema,
+  whatsapp: WhatsAppDataSchema.optional(),
+  inactivity: InactivityStatusSchema.optional(),
+  retryContext: RetryContextSchema.optional(),
+  executionPlan: z.object({
+    skipWhatsApp: z.boolean(),
+    riskLevel
+  })
+});
+
+export type ConfidenceInput = z.infer<typeof ConfidenceInputSchema>;
+
+const task = z.custom<() => Promise<unknown>>(value => typeof value === 'function', 'Expected a function');
+
+// Functions and registries are only checked for presence; RetryAgent keeps
+// the generic RetryInput<T> type
+export const RetryInputSchema = z.object({
+  originalError: AgentErrorSchema,
+  originalTask: task,
+  keyRing: z.object({ slots: z.array(z.unknown()) }).passthrough().optional(),
+  taskWithKey: task.optional(),
+  apiConfig: z.object({ primary: z.object({}).passthrough(), backup: z.object({}).passthrough() }).passthrough(),
+  failedTool: toolName,
+  maxAttempts: z.number().int().nonnegative().optional(),
+  health: z.object({}).passthrough().optional()
+});
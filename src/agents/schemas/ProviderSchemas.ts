@@ -0,0 +1,84 @@
+/**
+ * Provider Schemas - Payloads NumVerify, Abstract and Twilio Lookup answer with
+ *
+ * Only what the agents read is described; other fields pass through
+ * untouched. Providers send null or '' for data they don't have, so optional
+ * fields accept both. A payload that breaks these shapes (e.g. `valid: "yes"`
+ * or a carrier object where a name belongs) is reported as SCHEMA_VIOLATION
+ * instead of being normalized into 'Unknown' fields.
+ */
+
+import { z } from 'zod';
+
+const optionalText = z.string().nullish();
+
+export const NumVerifyPayloadSchema = z
+  .object({
+    valid: z.boolean(),
+    number: optionalText,
+    local_format: optionalText,
+    international_format: optionalText,
+    country_prefix: optionalText,
+    country_code: optionalText,
+    country_name: optionalText,
+    location: optionalText,
+    carrier: optionalText,
+    line_type: optionalText
+  })
+  .passthrough();
+
+export type NumVerifyRaw = z.infer<typeof NumVerifyPayloadSchema>;
+
+export const AbstractPayloadSchema = z
+  .object({
+    phone: optionalText,
+    valid: z.boolean(),
+    format: z
+      .object({
+        international: optionalText,
+        local: optionalText
+      })
+      .passthrough()
+      .nullish(),
+    country: z
+      .object({
+        code: optionalText,
+        name: optionalText,
+        prefix: optionalText
+      })
+      .passthrough()
+      .nullish(),
+    location: optionalText,
+    type: optionalText,
+    carrier: optionalText
+  })
+  .passthrough();
+
+export type AbstractRaw = z.infer<typeof AbstractPayloadSchema>;
+
+/**
+ * Twilio Lookup v2 with the line_type_intelligence and caller_name packages
+ */
+export const TwilioLookupPayloadSchema = z
+  .object({
+    valid: z.boolean(),
+    country_code: optionalText,
+    phone_number: optionalText,
+    line_type_intelligence: z
+      .object({
+        type: optionalText,
+        carrier_name: optionalText
+      })
+      .passthrough()
+      .nullish(),
+    caller_name: z
+      .object({
+        caller_name: optionalText,
+        caller_type: optionalText
+      })
+      .passthrough()
+      .nullish()
+  })
+  .passthrough();
+
+export type TwilioLookupPayload = z.infer<typeof TwilioLookupPayloadSchema>;
@@ -0,0 +1,43 @@
+/**
+ * Schema Violation - Data that doesn't match its zod schema at a boundary
+ *
+ * Agent inputs and outputs and provider payloads are checked where they
+ * cross a boundary; a mismatch becomes a SCHEMA_VIOLATION error listing
+ * every issue, instead of flowing on as 'Unknown' fields.
+ */
+
+import type { ZodError, ZodType } from 'zod';
+
+export const SCHEMA_VIOLATION = 'SCHEMA_VIOLATION';
+
+export class SchemaViolationError extends Error {
+  readonly code = SCHEMA_VIOLATION;
+
+  constructor(
+    readonly boundary: string, // What was checked, e.g. 'NumVerify payload' or 'validation output'
+    readonly violations: string[] // e.g. ['valid: Expected boolean, received string']
+  ) {
+    super(`${boundary} does not match its schema: ${violations.join('; ')}`);
+    this.name = 'SchemaViolationError';
+  }
+}
+
+/**
+ * One line per issue, prefixed with the path it was found at
+ */
+export function describeIssues(error: ZodError): string[] {
+  return error.issues.map(issue => (issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message));
+}
+
+/**
+ * Check a value against its schema, throwing SchemaViolationError when it
+ * doesn't match. Returns the value as given (unknown keys and all); schemas
+ * check shapes, they don't transform.
+ */
+export function assertSchema<T>(schema: ZodType<T>, value: unknown, boundary: string): T {
+  const result = schema.safeParse(value);
+  if (!result.success) {
+    throw new SchemaViolationError(boundary, describeIssues(result.error));
+  }
+  return value as T;
+}
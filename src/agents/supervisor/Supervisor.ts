@@ -8,9 +8,37 @@
 import { DecisionAgent } from '../decision/DecisionAgent';
 import { ValidationAgent } from '../validation/ValidationAgent';
 import { WhatsAppAgent } from '../whatsapp/WhatsAppAgent';
-import { RetryAgent } from '../retry/RetryAgent';
+import { RetryAgent, type RetryInput, type RetryPolicies, type RetryResult } from '../retry/RetryAgent';
 import { ConfidenceAgent } from '../confidence/ConfidenceAgent';
+import type { ScoringModel } from '../confidence/ScoringModel';
 import { InactiveAccountAgent } from '../inactive/InactiveAccountAgent';
+import {
+  InMemoryDeliveryHistoryRepository,
+  type DeliveryHistoryRepository
+} from '../inactive/DeliveryHistoryRepository';
+import { RateLimiter } from '../core/RateLimiter';
+import { ProviderRegistry, createDefaultProviderRegistry } from '../providers/ProviderRegistry';
+import { ValidationCache, formatCacheAge, type CacheLookup } from '../cache/ValidationCache';
+import { toE164 } from '../numbering/NumberingPlan';
+import { PlanExecutor, type PlanContext } from '../core/PlanExecutor';
+import { CostLedger, DEFAULT_UNIT_PRICES } from '../core/CostLedger';
+import { AgentEventStream, type AgentEventListener } from '../core/AgentEventStream';
+import { MessageBus } from '../core/MessageBus';
+import type {
+  ConfidenceInput,
+  DecisionInput,
+  InactiveAccountInput,
+  ValidationInput,
+  WhatsAppInput
+} from '../schemas/AgentSchemas';
+import { ProviderHealthRegistry } from '../core/CircuitBreaker';
+import { KeyRing, type KeySlot } from '../core/KeyRing';
+import { classifyAgentError } from '../core/ErrorTaxonomy';
+import { createDependencies, type AgentDependencies } from '../core/Dependencies';
+import type { ValidationAuditLog } from '../audit/ValidationAuditLog';
+import { TrafficRecorder, TrafficReplayer, type RecordedExchange, type RecordedSession } from '../replay/TrafficRecorder';
+import { createLogger } from '../observability/Logger';
+import { MeteredLLMClient, type LLMCallRecord, type LLMClient } from '../llm/LLMClient';
 import type {
   ValidationResult,
   ExecutionPlan,
@@ -22,25 +50,100 @@ import type {
   ValidationData,
   WhatsAppData,
   ConfidenceScore,
+  InactivityStatus,
   RetryContext,
-  AgentResponse
+  PlanStep,
+  StepResult,
+  ToolName,
+  AgentResponse,
+  AgentRun,
+  ErrorClass,
+  AgentEvent,
+  BatchItemResult,
+  BatchSummary
 } from '../types';
 
-interface SupervisorConfig {
+export interface SupervisorConfig {
   apiConfig: APIConfig;
   enableLogging?: boolean;
   maxExecutionTime?: number;
+  whatsappRateLimiter?: RateLimiter; // Shared Twilio queue (defaults to a private one)
+  providers?: ProviderRegistry; // Validation providers (defaults to NumVerify + Abstract)
+  cache?: ValidationCache | false; // Result cache (defaults to in-memory; false disables)
+  deliveryHistory?: DeliveryHistoryRepository; // message_logs source for inactivity scoring
+  costLedger?: CostLedger; // Session spend (defaults to a private ledger)
+  health?: ProviderHealthRegistry; // Circuit breakers (share one so Supervisors learn from each other)
+  retryPolicies?: RetryPolicies; // Overrides of the Retry Agent's per-error-class policies
+  scoringModel?: ScoringModel; // Confidence rules (defaults to DEFAULT_SCORING_MODEL)
+  dependencies?: Partial<AgentDependencies>; // HTTP transport, clock and random source (defaults to fetch, system time, Math.random)
+  recorder?: TrafficRecorder; // Record provider traffic per session for replay
+  auditLog?: ValidationAuditLog; // Durable record of every validation (validation_sessions)
+  sessionId?: string; // Run under this session id instead of a new one (replays keep the recorded id)
+  llm?: LLMClient; // Model agents consult on ambiguous cases (none: rules only)
+}
+
+export interface ReplayReport {
+  sessionId: string;
+  results: ValidationResult[];
+  unmatched: string[]; // Requests the recording has no response for, e.g. parts served from cache
+  unused: RecordedExchange[]; // Recorded exchanges the replay never asked for
 }
 
-interface ValidationRequest {
+export interface ValidationRequest {
   phoneNumber: string;
   country?: string;
+  forceRefresh?: boolean; // Ignore cached results (fresh results are still cached)
   userPreferences?: {
     maxCost?: number;
     prioritizeSpeed?: boolean;
   };
 }
 
+export interface BatchOptions {
+  concurrency?: number; // Max validations in flight (default 5, at most MAX_BATCH_CONCURRENCY)
+  onProgress?: (index: number, phase: string) => void; // Pipeline phase per request
+}
+
+const DEFAULT_BATCH_CONCURRENCY = 5;
+export const MAX_BATCH_CONCURRENCY = 10;
+
+const AGENT_LABELS: Record<AgentRole, string> = {
+  decision: 'Decision Agent',
+  validation: 'Validation Agent',
+  whatsapp: 'WhatsApp Agent',
+  retry: 'Retry Agent',
+  confidence: 'Confidence Agent',
+  inactive: 'Inactive Agent'
+};
+
+// Error classes that say the provider itself is struggling
+const PROVIDER_FAULTS: ErrorClass[] = ['rate_limit', 'transient', 'provider_bug'];
+
+function toAgentRun({ agent, success, error, metadata }: AgentResponse): AgentRun {
+  return { agent, success, error, metadata };
+}
+
+// Everything one validate() call accumulates while its plan runs
+interface PlanRun {
+  request: ValidationRequest;
+  plan: ExecutionPlan;
+  apiKeys: Partial<Record<ToolName, string>>;
+  cacheKey: string;
+  cached: CacheLookup;
+  ledger: CostLedger; // This request's spend
+  budget?: number; // userPreferences.maxCost
+  validations: ValidationData[]; // Fresh provider results, one per validation step
+  validation?: ValidationData; // Merged view of all validation steps
+  whatsapp?: WhatsAppData;
+  inactivity?: InactivityStatus;
+  confidence?: ConfidenceScore;
+  retryContext?: RetryContext;
+  keySlots: Partial<Record<ToolName, string>>; // Credential slot that answered, per tool
+  agentRuns: AgentRun[];
+  chainOfThought: string[];
+  chainOfExecution: string[];
+}
+
 export class Supervisor {
   private decisionAgent: DecisionAgent;
   private validationAgent: ValidationAgent;
@@ -48,9 +151,22 @@ export class Supervisor {
   private retryAgent: RetryAgent;
   private confidenceAgent: ConfidenceAgent;
   private inactiveAgent: InactiveAccountAgent;
+  private whatsappRateLimiter: RateLimiter;
+  private providers: ProviderRegistry;
+  private cache: ValidationCache | null;
+  private deliveryHistory: DeliveryHistoryRepository;
+  private costLedger: CostLedger;
+  private health: ProviderHealthRegistry;
+  private deps: AgentDependencies;
+  private llm?: MeteredLLMClient;
+  private activeLedger?: CostLedger; // The running validation's ledger, which model calls are charged to
+  private baseDeps: AgentDependencies; // Before recording instrumentation, for lanes
+  private events: AgentEventStream;
+  private bus: MessageBus; // Tasks go to the agents as messages, logged per session
   
   private state: SupervisorState;
   private config: SupervisorConfig;
+  private phaseListener?: (phase: string) => void;
 
   constructor(config: SupervisorConfig) {
     this.config = {
@@ -59,18 +175,50 @@ export class Supervisor {
       ...config
     };
 
+    this.baseDeps = createDependencies(config.dependencies);
+    this.deps = config.recorder
+      ? config.recorder.instrument(this.baseDeps, () => this.state?.sessionId)
+      : this.baseDeps;
+    this.whatsappRateLimiter = config.whatsappRateLimiter
+      ?? new RateLimiter(WhatsAppAgent.REQUEST_DELAY_MS, this.deps.clock);
+
+    this.providers = config.providers
+      ?? createDefaultProviderRegistry(config.apiConfig.baseUrls, this.deps.http, this.deps.clock);
+    this.cache = config.cache === false ? null : config.cache ?? new ValidationCache({ clock: this.deps.clock });
+    this.deliveryHistory = config.deliveryHistory ?? new InMemoryDeliveryHistoryRepository();
+    this.costLedger = config.costLedger ?? new CostLedger(tool => this.unitPrice(tool), this.deps.clock);
+    this.health = config.health ?? new ProviderHealthRegistry({}, createLogger('provider-health'), this.deps.clock);
+    this.llm = config.llm && new MeteredLLMClient(config.llm, call => this.chargeLLMCall(call));
+    this.events = new AgentEventStream(this.deps.clock);
+    this.bus = new MessageBus(this.deps.clock);
+    this.bus.subscribe(message => this.state.messageQueue.push(message));
+
     // Initialize all agents
-    this.decisionAgent = new DecisionAgent();
-    this.validationAgent = new ValidationAgent();
-    this.whatsappAgent = new WhatsAppAgent();
-    this.retryAgent = new RetryAgent();
-    this.confidenceAgent = new ConfidenceAgent();
-    this.inactiveAgent = new InactiveAccountAgent();
+    this.decisionAgent = new DecisionAgent(this.providers);
+    this.validationAgent = new ValidationAgent(this.providers);
+    this.whatsappAgent = new WhatsAppAgent(this.whatsappRateLimiter, config.apiConfig.baseUrls?.twilio);
+    this.retryAgent = new RetryAgent(config.retryPolicies);
+    this.confidenceAgent = new ConfidenceAgent(config.scoringModel);
+    this.inactiveAgent = new InactiveAccountAgent(this.deliveryHistory, config.apiConfig.baseUrls?.twilio);
+
+    [
+      this.decisionAgent,
+      this.validationAgent,
+      this.whatsappAgent,
+      this.retryAgent,
+      this.confidenceAgent,
+      this.inactiveAgent
+    ].forEach(agent => {
+      agent.attachEventStream(this.events);
+      agent.attachMessageBus(this.bus);
+      agent.useDependencies(this.deps);
+      agent.useLLM(this.llm);
+    });
 
     // Initialize state
     this.state = {
-      sessionId: this.generateSessionId(),
-      startTime: Date.now(),
+      sessionId: config.sessionId ?? this.generateSessionId(),
+      startTime: this.deps.clock.now(),
       agents: new Map<AgentRole, AgentState>(),
       messageQueue: []
     };
@@ -86,7 +234,12 @@ export class Supervisor {
     this.log(`🚀 Starting validation for: ${request.phoneNumber}`);
     this.log('='.repeat(60));
 
-    this.state.startTime = Date.now();
+    this.state.startTime = this.deps.clock.now();
+    this.state.currentPlan = undefined;
+    this.config.recorder?.begin(this.state.sessionId, request, this.state.startTime);
+    const agentRuns: AgentRun[] = [];
+    const ledger = this.costLedger.forRequest(); // This request's spend
+    this.activeLedger = ledger;
     const chainOfThought: string[] = [];
     const chainOfExecution: string[] = [];
 
@@ -94,11 +247,19 @@ export class Supervisor {
       // === PHASE 1: DECISION & PLANNING ===
       this.logPhase('PHASE 1: STRATEGIC PLANNING');
       
-      const planResponse = await this.decisionAgent.execute({
+      const apiKeys = this.getProviderKeys();
+      const planResponse = await this.bus.dispatch<ExecutionPlan>('supervisor', 'decision', {
         phoneNumber: request.phoneNumber,
         country: request.country,
+        availableProviders: this.providers.list()
+          .filter(provider => !provider.requiresApiKey || apiKeys[provider.name])
+          .map(provider => provider.name),
+        unitPrices: this.config.apiConfig.prices,
+        openCircuits: this.health.openCircuits(),
         userPreferences: request.userPreferences
-      });
+      } satisfies DecisionInput, 'Plan the validation');
+
+      agentRuns.push(toAgentRun(planResponse));
 
       if (!planResponse.success || !planResponse.data) {
         throw new Error('Decision agent failed to create execution plan');
@@ -117,158 +278,77 @@ export class Supervisor {
       this.log(`   Risk Level: ${plan.riskLevel.toUpperCase()}`);
       this.log(`   Estimated Cost: $${plan.estimatedCost.toFixed(4)}`);
 
-      // === PHASE 2: VALIDATION ===
-      this.logPhase('PHASE 2: PHONE VALIDATION');
-      
-      const validationSteps = plan.steps.filter(s => s.agent === 'validation');
-      const validationTools = validationSteps.map(s => s.tool!);
-      
-      let validationData: ValidationData | null = null;
-      let retryContext: RetryContext | undefined;
-
-      const validationResponse = await this.executeWithRetry(
-        () => this.validationAgent.execute({
-          phoneNumber: request.phoneNumber,
-          tools: validationTools,
-          apiKeys: this.config.apiConfig.primary,
-          retryContext
-        }),
-        'validation',
-        validationTools[0]
-      );
-
-      if (validationResponse.success && validationResponse.data) {
-        validationData = validationResponse.data as ValidationData;
-        retryContext = {
-          attempts: validationResponse.metadata.retriesAttempted,
-          maxAttempts: 3,
-          backoffDelay: 2000,
-          useBackupKey: validationResponse.metadata.retriesAttempted > 0,
-          failedTools: []
-        };
-        
-        chainOfThought.push(...validationResponse.metadata.reasoning);
-        chainOfExecution.push(`Validation Agent: Retrieved data from ${validationData.source}`);
-        
-        this.log(`✅ Validation complete: ${validationData.valid ? 'VALID' : 'INVALID'}`);
-        this.log(`   Country: ${validationData.countryName} (${validationData.countryCode})`);
-        this.log(`   Carrier: ${validationData.carrier || 'Unknown'}`);
-        this.log(`   Line Type: ${validationData.lineType}`);
-      } else {
-        throw new Error(`Validation failed: ${validationResponse.error?.message}`);
-      }
+      // === PHASES 2-4: PLAN EXECUTION ===
+      const cacheKey = toE164(request.phoneNumber, request.country) ?? request.phoneNumber;
+      const run: PlanRun = {
+        request,
+        plan,
+        apiKeys,
+        cacheKey,
+        cached: await this.readCache(cacheKey, request.forceRefresh),
+        ledger,
+        budget: request.userPreferences?.maxCost,
+        validations: [],
+        keySlots: {},
+        agentRuns,
+        chainOfThought,
+        chainOfExecution
+      };
 
-      // === PHASE 3: WHATSAPP CHECK ===
-      let whatsappData: WhatsAppData | undefined;
-      
-      if (!plan.skipWhatsApp && validationData.lineType === 'mobile') {
-        this.logPhase('PHASE 3: WHATSAPP INTELLIGENCE');
-        
-        const whatsappResponse = await this.executeWithRetry(
-          () => this.whatsappAgent.execute({
-            phoneNumber: request.phoneNumber,
-            accountSid: this.config.apiConfig.primary.twilio?.accountSid,
-            authToken: this.config.apiConfig.primary.twilio?.authToken,
-            twilioNumber: this.config.apiConfig.primary.twilio?.phoneNumber,
-            retryContext,
-            validationData: {
-              countryCode: validationData.countryCode,
-              lineType: validationData.lineType,
-              carrier: validationData.carrier
-            }
-          }),
-          'whatsapp',
-          'whatsapp'
-        );
-
-        if (whatsappResponse.success && whatsappResponse.data) {
-          whatsappData = whatsappResponse.data as WhatsAppData;
-          chainOfThought.push(...whatsappResponse.metadata.reasoning);
-          chainOfExecution.push(`WhatsApp Agent: ${whatsappData.exists ? 'Found' : 'Not found'}`);
-          
-          this.log(`✅ WhatsApp check: ${whatsappData.exists ? 'EXISTS' : 'NOT FOUND'}`);
-          if (whatsappData.exists) {
-            this.log(`   Verified: ${whatsappData.verified ? 'Yes' : 'No'}`);
-            this.log(`   Business: ${whatsappData.businessAccount ? 'Yes' : 'No'}`);
-            if (whatsappData.metadata?.businessConfidence) {
-              this.log(`   Business Confidence: ${Math.round(whatsappData.metadata.businessConfidence * 100)}%`);
-            }
-          }
-        }
-      } else {
+      if (plan.skipWhatsApp) {
         this.logPhase('PHASE 3: WHATSAPP CHECK SKIPPED');
-        this.log(`   Reason: ${plan.skipWhatsApp ? 'Planned skip' : 'Non-mobile number'}`);
+        this.log('   Reason: Planned skip');
         chainOfExecution.push('WhatsApp Agent: Skipped');
       }
 
-      // === PHASE 3.5: INACTIVE ACCOUNT DETECTION ===
-      let inactivityStatus;
-      
-      if (whatsappData && whatsappData.exists) {
-        this.logPhase('PHASE 3.5: INACTIVE ACCOUNT ANALYSIS');
-        
-        const inactiveResponse = await this.inactiveAgent.execute({
-          phoneNumber: request.phoneNumber,
-          twilioAccountSid: this.config.apiConfig.primary.twilio?.accountSid,
-          twilioAuthToken: this.config.apiConfig.primary.twilio?.authToken,
-          retryContext
-        });
+      const context: PlanContext = { risk_level: plan.riskLevel };
+      const executor = new PlanExecutor(
+        {
+          validation: step => this.runValidationStep(step, run, context),
+          whatsapp: () => this.runWhatsAppStep(run, context),
+          inactive: () => this.runInactivityStep(run, context),
+          confidence: () => this.runConfidenceStep(run, context)
+        },
+        result => this.onStepSettled(result, run),
+        this.deps.clock
+      );
+      const stepResults = await executor.execute(plan.steps, context);
 
-        if (inactiveResponse.success && inactiveResponse.data) {
-          inactivityStatus = inactiveResponse.data;
-          chainOfThought.push(...inactiveResponse.metadata.reasoning);
-          chainOfExecution.push(`Inactive Agent: Score ${inactivityStatus.inactivityScore}/100`);
-          
-          this.log(`📊 Inactivity Analysis:`);
-          this.log(`   Inactive: ${inactivityStatus.isInactive ? 'YES' : 'NO'}`);
-          this.log(`   Severity: ${inactivityStatus.severity.toUpperCase()}`);
-          this.log(`   Delivery Probability: ${inactivityStatus.deliveryProbability}%`);
-          
-          if (inactivityStatus.daysSinceActive > 0) {
-            this.log(`   Days Since Active: ${inactivityStatus.daysSinceActive}`);
-          }
-          
-          if (inactivityStatus.reasons.length > 0) {
-            this.log(`   Indicators:`);
-            inactivityStatus.reasons.forEach(r => this.log(`      - ${r}`));
-          }
-        }
+      // Validation steps are optional when several providers cross-check:
+      // any one of them answering is enough
+      const validationResults = stepResults.filter(result => result.agent === 'validation');
+      if (validationResults.length > 0 && validationResults.every(result => result.status === 'failed')) {
+        throw new Error(validationResults[0].error);
       }
 
-      // === PHASE 4: CONFIDENCE SCORING ===
-      this.logPhase('PHASE 4: CONFIDENCE ANALYSIS');
-      
-      const confidenceResponse = await this.confidenceAgent.execute({
-        validation: validationData,
-        whatsapp: whatsappData,
-        retryContext,
-        executionPlan: {
-          skipWhatsApp: plan.skipWhatsApp,
-          riskLevel: plan.riskLevel
-        }
-      });
-
-      if (!confidenceResponse.success || !confidenceResponse.data) {
-        throw new Error('Confidence scoring failed');
+      const failure = stepResults.find(
+        result => result.status === 'failed' && !plan.steps.find(step => step.id === result.stepId)?.optional
+      );
+      if (failure) {
+        throw new Error(failure.error);
+      }
+      if (!run.validation || !run.confidence) {
+        throw new Error('Execution plan finished without validation and confidence results');
       }
 
-      const confidence = confidenceResponse.data as ConfidenceScore;
-      chainOfThought.push(...confidenceResponse.metadata.reasoning);
-      chainOfExecution.push(`Confidence Agent: Score ${confidence.score}/100`);
-
-      // Adjust confidence based on inactivity
-      let adjustedConfidence = confidence.score;
-      if (inactivityStatus && inactivityStatus.isInactive) {
-        const inactivityPenalty = (100 - inactivityStatus.deliveryProbability) * 0.5; // 50% weight
-        adjustedConfidence = Math.max(0, confidence.score - inactivityPenalty);
-        
-        this.log(`⚠️  Confidence adjusted for inactivity:`);
-        this.log(`   Original: ${confidence.score}/100`);
-        this.log(`   Adjusted: ${Math.round(adjustedConfidence)}/100`);
-        this.log(`   Penalty: -${Math.round(inactivityPenalty)} points`);
+      if (run.validations.length > 0) {
+        await this.writeCache(cache => cache.storeValidation(cacheKey, run.validation!));
       }
+      if (run.whatsapp && !run.cached.whatsapp) {
+        await this.writeCache(cache => cache.storePresence(cacheKey, run.whatsapp!, run.inactivity));
+      }
+
+      const {
+        validation: validationData,
+        whatsapp: whatsappData,
+        inactivity: inactivityStatus,
+        confidence
+      } = run;
 
-      this.log(`✅ Final Confidence Score: ${Math.round(adjustedConfidence)}/100`);
+      this.log(`✅ Final Confidence Score: ${confidence.score}/100 (model ${confidence.modelVersion})`);
+      confidence.breakdown.rules
+        .filter(({ points }) => points !== 0)
+        .forEach(({ description, points }) => this.log(`   ${points > 0 ? '+' : ''}${points}: ${description}`));
       this.log(`   Reasoning: ${confidence.reasoning}`);
       
       if (confidence.discrepancies.length > 0) {
@@ -282,24 +362,32 @@ export class Supervisor {
       }
 
       // === FINAL RESULT ===
-      const totalExecutionTime = Date.now() - this.state.startTime;
+      const totalExecutionTime = this.deps.clock.now() - this.state.startTime;
       
       const result: ValidationResult = {
+        sessionId: this.state.sessionId,
         phoneNumber: request.phoneNumber,
         validation: validationData,
         whatsapp: whatsappData,
-        confidence: {
-          ...confidence,
-          score: Math.round(adjustedConfidence) // Use adjusted score
-        },
+        confidence,
         inactivityStatus,
         executionPlan: plan,
+        stepResults,
+        cost: {
+          estimated: plan.estimatedCost,
+          actual: run.ledger.total,
+          budget: run.budget,
+          entries: run.ledger.getEntries()
+        },
+        keySlots: run.keySlots,
+        agentRuns,
         totalExecutionTime,
         chainOfThought,
         chainOfExecution
       };
 
       this.state.finalResult = result;
+      this.events.emit({ type: 'result', result });
 
       this.log('\n' + '='.repeat(60));
       this.log(`✅ VALIDATION COMPLETE in ${totalExecutionTime}ms`);
@@ -307,39 +395,353 @@ export class Supervisor {
       this.log(`   Recommendation: ${this.confidenceAgent.getRecommendation(confidence.score)}`);
       this.log('='.repeat(60) + '\n');
 
+      await this.writeAudit(request, { agentRuns, ledger, result });
       return result;
 
     } catch (error) {
-      this.log(`❌ SYSTEM ERROR: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      this.log(`❌ SYSTEM ERROR: ${message}`);
+      this.events.emit({ type: 'error', message });
       
+      await this.writeAudit(request, { agentRuns, ledger, error: message });
       throw error;
+    } finally {
+      await this.flushRecording();
+    }
+  }
+
+  /**
+   * Re-run a recorded session's validations against the recorded provider
+   * responses, without calling any provider. Requests are matched with
+   * secrets redacted, so any credential values will do, but the config must
+   * have one for every provider the session used: a provider or Twilio
+   * account without a credential fails its step before reaching the
+   * transport, and its recorded responses come back as unused.
+   */
+  static async replay(session: RecordedSession, config: SupervisorConfig): Promise<ReplayReport> {
+    const replayer = new TrafficReplayer(session);
+    const supervisor = new Supervisor({
+      ...config,
+      cache: false,
+      health: undefined,
+      whatsappRateLimiter: undefined,
+      costLedger: undefined,
+      recorder: undefined,
+      dependencies: replayer.dependencies(),
+      sessionId: session.sessionId
+    });
+
+    const results: ValidationResult[] = [];
+    for (const request of session.requests) {
+      results.push(await supervisor.validate(request));
     }
+
+    return {
+      sessionId: session.sessionId,
+      results,
+      unmatched: [...replayer.unmatched],
+      unused: replayer.remaining()
+    };
   }
 
   /**
-   * Execute an agent task with automatic retry on failure
+   * Validate one number, yielding agent events live as the plan runs.
+   * The generator returns the same ValidationResult validate() resolves to.
    */
-  private async executeWithRetry(
-    task: () => Promise<AgentResponse>,
+  stream(request: ValidationRequest): AsyncGenerator<AgentEvent, ValidationResult, undefined> {
+    return this.events.capture(() => this.validate(request));
+  }
+
+  /**
+   * Listen to agent events from every validation this Supervisor runs;
+   * returns the unsubscribe function
+   */
+  subscribe(listener: AgentEventListener): () => void {
+    return this.events.subscribe(listener);
+  }
+
+  /**
+   * Bulk entry point - Validate many numbers with bounded concurrency
+   *
+   * Requests are pulled lazily from the iterable, so large CRM exports can be
+   * streamed in. Each in-flight validation runs on its own Supervisor lane
+   * (agents keep per-run reasoning state), while all lanes share this
+   * Supervisor's WhatsApp rate-limit queue. Lanes are created as requests
+   * arrive, up to the concurrency (capped at MAX_BATCH_CONCURRENCY), so a
+   * short batch never builds more lanes than it has numbers. Items are
+   * yielded in completion order; the generator's return value is the
+   * aggregate summary.
+   */
+  async *validateBatch(
+    requests: Iterable<ValidationRequest> | AsyncIterable<ValidationRequest>,
+    options: BatchOptions = {}
+  ): AsyncGenerator<BatchItemResult, BatchSummary, undefined> {
+    const concurrency = Math.min(
+      MAX_BATCH_CONCURRENCY,
+      Math.max(1, Math.floor(options.concurrency ?? DEFAULT_BATCH_CONCURRENCY))
+    );
+    const source = Symbol.asyncIterator in requests
+      ? requests[Symbol.asyncIterator]()
+      : requests[Symbol.iterator]();
+
+    const batchStart = this.deps.clock.now();
+    const summary: BatchSummary = {
+      total: 0,
+      succeeded: 0,
+      failed: 0,
+      valid: 0,
+      invalid: 0,
+      whatsapp: 0,
+      inactive: 0,
+      totalCost: 0,
+      totalExecutionTime: 0
+    };
+
+    const completed: BatchItemResult[] = [];
+    let wake: (() => void) | null = null;
+    let nextIndex = 0;
+    let activeLanes = 0;
+    let stopped = false;
+    let sourceError: unknown;
+
+    const notify = () => {
+      const resolve = wake;
+      wake = null;
+      resolve?.();
+    };
+
+    const workers: Promise<void>[] = [];
+
+    // A lane builds its Supervisor only once it has a request to run, and
+    // starts the next lane then, while there's room for one
+    const runLane = async () => {
+      let lane: Supervisor | undefined;
+      while (!stopped) {
+        const next = await source.next();
+        if (next.done || stopped) return;
+
+        const index = nextIndex++;
+        if (activeLanes < concurrency) {
+          startLane();
+        }
+        lane = lane ?? this.createLane();
+        completed.push(await lane.validateBatchItem(index, next.value, options.onProgress));
+        notify();
+      }
+    };
+
+    const startLane = () => {
+      activeLanes++;
+      workers.push(
+        runLane()
+          .catch(error => {
+            sourceError = sourceError ?? error;
+            stopped = true;
+          })
+          .finally(() => {
+            activeLanes--;
+            notify();
+          })
+      );
+    };
+
+    this.log(`📦 Starting batch validation (concurrency: ${concurrency})`);
+
+    startLane();
+
+    try {
+      while (activeLanes > 0 || completed.length > 0) {
+        if (completed.length === 0) {
+          await new Promise<void>(resolve => (wake = resolve));
+          continue;
+        }
+
+        const item = completed.shift()!;
+        this.accumulateBatchSummary(summary, item);
+        yield item;
+      }
+
+      await Promise.all(workers);
+      if (sourceError) {
+        throw sourceError;
+      }
+    } finally {
+      stopped = true;
+    }
+
+    summary.totalExecutionTime = this.deps.clock.now() - batchStart;
+
+    this.log(`📦 Batch complete: ${summary.succeeded}/${summary.total} succeeded in ${summary.totalExecutionTime}ms`);
+    this.log(`   Valid: ${summary.valid} | Invalid: ${summary.invalid} | WhatsApp: ${summary.whatsapp} | Inactive: ${summary.inactive}`);
+    this.log(`   Total Cost: $${summary.totalCost.toFixed(4)}`);
+
+    return summary;
+  }
+
+  /**
+   * Validate a single batch entry, capturing failures instead of throwing
+   */
+  private async validateBatchItem(
+    index: number,
+    request: ValidationRequest,
+    onProgress?: BatchOptions['onProgress']
+  ): Promise<BatchItemResult> {
+    this.reset();
+    this.phaseListener = onProgress ? phase => onProgress(index, phase) : undefined;
+
+    try {
+      const result = await this.validate(request);
+      return { index, phoneNumber: request.phoneNumber, success: true, result };
+    } catch (error) {
+      return {
+        index,
+        phoneNumber: request.phoneNumber,
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    } finally {
+      this.phaseListener = undefined;
+    }
+  }
+
+  /**
+   * Create an isolated Supervisor that shares this one's rate-limit queue, providers,
+   * cache, delivery history, cost ledger, circuit breakers and dependencies
+   */
+  private createLane(): Supervisor {
+    return new Supervisor({
+      ...this.config,
+      whatsappRateLimiter: this.whatsappRateLimiter,
+      providers: this.providers,
+      cache: this.cache ?? false,
+      deliveryHistory: this.deliveryHistory,
+      costLedger: this.costLedger,
+      health: this.health,
+      dependencies: this.baseDeps,
+      sessionId: undefined
+    });
+  }
+
+  private accumulateBatchSummary(summary: BatchSummary, item: BatchItemResult): void {
+    summary.total++;
+
+    if (!item.success || !item.result) {
+      summary.failed++;
+      return;
+    }
+
+    const { result } = item;
+    summary.succeeded++;
+    summary[result.validation.valid ? 'valid' : 'invalid']++;
+    if (result.whatsapp?.exists) summary.whatsapp++;
+    if (result.inactivityStatus?.isInactive) summary.inactive++;
+    summary.totalCost += result.cost?.actual ?? result.executionPlan.estimatedCost;
+  }
+
+  /**
+   * Execute an agent task with automatic retry on failure.
+   * Every call, retries included, is charged to the request's ledger and
+   * retries are capped at what the remaining budget can pay for. Calls to a
+   * tool whose circuit is open are refused without reaching the provider. Neither
+   * those nor calls to a tool without any configured credential, which the
+   * agent answers without sending a request, are charged.
+   * The task is rebuilt for each retry with the next credential on the key ring.
+   */
+  private async executeWithRetry<T>(
+    task: (credential?: T) => Promise<AgentResponse>,
     agentRole: AgentRole,
-    tool: any
+    tool: ToolName,
+    run: PlanRun,
+    keyRing?: KeyRing<T>
   ): Promise<AgentResponse> {
-    const response = await task();
+    // Report every provider round trip, retries included, on the event stream
+    // and to the tool's circuit breaker
+    const instrumented = (attempt: 'call' | 'retry', slot?: KeySlot<T>) => async (): Promise<AgentResponse> => {
+      if (!this.health.tryAcquire(tool)) {
+        return this.circuitOpenResponse(agentRole, tool);
+      }
+
+      this.events.emit({ type: 'tool_call', agent: agentRole, tool, attempt, keySlot: slot?.label });
+      const started = this.deps.clock.now();
+      let result: AgentResponse;
+      try {
+        result = await task(slot?.credential);
+        run.agentRuns.push(toAgentRun(result));
+      } catch (error) {
+        this.health.recordFailure(tool, error instanceof Error ? error.message : String(error), this.deps.clock.now() - started);
+        throw error;
+      }
+      const durationMs = this.deps.clock.now() - started;
+
+      // Only failures on the provider's side count against it; a definitive
+      // answer (banned account, bad credentials, bad input) means it is up
+      if (!result.success && result.error?.recoverable && PROVIDER_FAULTS.includes(classifyAgentError(result.error))) {
+        this.health.recordFailure(tool, result.error.message, durationMs);
+      } else {
+        this.health.recordSuccess(tool, durationMs);
+      }
+
+      this.events.emit({
+        type: 'tool_result',
+        agent: agentRole,
+        tool,
+        keySlot: slot?.label,
+        success: result.success,
+        durationMs,
+        error: result.error?.message
+      });
+      return result;
+    };
+
+    const primary = keyRing?.primary;
+    const response = await instrumented('call', primary)();
+    if (response.error?.code === 'CIRCUIT_OPEN') {
+      this.log(`🔌 ${tool} circuit open - call refused`);
+      run.chainOfExecution.push(`${AGENT_LABELS[agentRole]}: ${tool} circuit open`);
+      return response;
+    }
+    const sent = !keyRing || keyRing.size > 0;
+    if (sent) run.ledger.charge(tool);
+
+    if (response.success && primary) {
+      run.keySlots[tool] = primary.label;
+    }
 
     // If failed and recoverable, trigger retry agent
     if (!response.success && response.error?.recoverable) {
+      const affordable = run.ledger.affordableCalls(tool, run.budget);
+      if (affordable === 0) {
+        this.log(`💸 ${agentRole} failed - budget exhausted, not retrying`);
+        run.chainOfExecution.push(`Retry Agent: Skipped (budget $${run.budget!.toFixed(4)} spent)`);
+        return response;
+      }
+
       this.log(`⚠️  ${agentRole} failed - triggering Retry Agent...`);
       
-      const retryResponse = await this.retryAgent.execute({
+      const retryResponse = await this.bus.dispatch<RetryResult>('supervisor', 'retry', {
         originalError: response.error,
-        originalTask: task,
+        originalTask: instrumented('retry', primary),
+        keyRing,
+        taskWithKey: slot => instrumented('retry', slot)(),
         apiConfig: this.config.apiConfig,
-        failedTool: tool
-      });
+        failedTool: tool,
+        maxAttempts: Number.isFinite(affordable) ? affordable : undefined,
+        health: this.health
+      } satisfies RetryInput<T>, `Recover ${tool} from ${response.error.code}`);
+      run.agentRuns.push(toAgentRun(retryResponse));
 
       if (retryResponse.success && retryResponse.data) {
-        const retryResult = retryResponse.data as any;
+        const retryResult = retryResponse.data;
+        for (let attempt = 0; sent && attempt < retryResult.context.attempts; attempt++) {
+          run.ledger.charge(tool, 'retry');
+        }
         this.log(`✅ Retry Agent ${retryResult.success ? 'succeeded' : 'exhausted'}`);
+
+        const keySlot = retryResult.context.keySlot;
+        if (retryResult.success && keySlot) {
+          run.keySlots[tool] = keySlot;
+          run.chainOfExecution.push(`Retry Agent: ${tool} succeeded with ${keySlot} key`);
+        }
         return retryResult.finalResponse;
       }
     }
@@ -347,6 +749,57 @@ export class Supervisor {
     return response;
   }
 
+  private circuitOpenResponse(agentRole: AgentRole, tool: ToolName): AgentResponse {
+    const health = this.health.getHealth(tool);
+    return {
+      success: false,
+      agent: agentRole,
+      error: {
+        code: 'CIRCUIT_OPEN',
+        message: `${tool} circuit is open${health.lastError ? ` (last error: ${health.lastError})` : ''}`,
+        recoverable: false,
+        suggestedAction: 'Wait for the provider to recover or configure another provider'
+      },
+      metadata: { executionTime: 0, retriesAttempted: 0, toolsUsed: [], reasoning: [] }
+    };
+  }
+
+  /**
+   * Unit price of one call: APIConfig.prices, then the provider's own cost
+   */
+  private unitPrice(tool: ToolName): number {
+    return this.config.apiConfig.prices?.[tool]
+      ?? this.providers.get(tool)?.costPerCall
+      ?? DEFAULT_UNIT_PRICES[tool]
+      ?? 0;
+  }
+
+  private chargeLLMCall(call: LLMCallRecord): void {
+    this.activeLedger?.chargeUsage('llm', call.cost, { prompt: call.promptTokens, completion: call.completionTokens });
+  }
+
+  /**
+   * Model calls made by this Supervisor's agents, with token and cost totals
+   * (null without a model)
+   */
+  getLLMUsage(): { calls: LLMCallRecord[]; totals: LLMCallRecord } | null {
+    return this.llm ? { calls: this.llm.getCalls(), totals: this.llm.totals() } : null;
+  }
+
+  /**
+   * Spend across every validation this Supervisor (and its batch lanes) ran
+   */
+  getCostLedger(): CostLedger {
+    return this.costLedger;
+  }
+
+  /**
+   * Circuit breakers and call statistics for every tool this Supervisor has used
+   */
+  getProviderHealth(): ProviderHealthRegistry {
+    return this.health;
+  }
+
   /**
    * Get current system state for observability
    */
@@ -359,10 +812,19 @@ export class Supervisor {
         ['whatsapp', this.whatsappAgent.getState()],
         ['retry', this.retryAgent.getState()],
         ['confidence', this.confidenceAgent.getState()]
-      ])
+      ]),
+      messageQueue: this.getMessageLog()
     };
   }
 
+  /**
+   * Every message between the Supervisor and its agents this session
+   * (tasks, results, errors and agent-to-agent queries), oldest first
+   */
+  getMessageLog(): AgentMessage[] {
+    return [...this.state.messageQueue];
+  }
+
   /**
    * Get Chain of Thought log
    */
@@ -386,14 +848,342 @@ export class Supervisor {
     }
   }
 
+  /**
+   * Plan step: look the number up with the step's provider
+   */
+  private async runValidationStep(step: PlanStep, run: PlanRun, context: PlanContext): Promise<void> {
+    if (run.cached.validation) {
+      // Every provider step is answered by the same cached lookup; report it once
+      if (!run.validation) {
+        run.validation = run.cached.validation;
+        run.chainOfExecution.push(`Cache: Validation hit (${formatCacheAge(run.cached.validationAge!)} old)`);
+        this.events.emit({
+          type: 'action',
+          agent: 'validation',
+          message: `Using cached lookup (${formatCacheAge(run.cached.validationAge!)} old)`
+        });
+
+        this.log(`💾 Cached validation: ${run.validation.valid ? 'VALID' : 'INVALID'}`);
+        this.log(`   Carrier: ${run.validation.carrier || 'Unknown'}`);
+        this.log(`   Line Type: ${run.validation.lineType}`);
+      }
+      this.recordValidationFacts(run.validation, context);
+      return;
+    }
+
+    this.logPhase('PHASE 2: PHONE VALIDATION');
+
+    const validationResponse = await this.executeWithRetry(
+      apiKey => this.bus.dispatch<ValidationData>('supervisor', 'validation', {
+        phoneNumber: run.request.phoneNumber,
+        tools: [step.tool!],
+        apiKeys: { ...run.apiKeys, [step.tool!]: apiKey },
+        retryContext: run.retryContext
+      } satisfies ValidationInput, step.action),
+      'validation',
+      step.tool!,
+      run,
+      KeyRing.forTool(this.config.apiConfig, step.tool!)
+    );
+
+    if (!validationResponse.success || !validationResponse.data) {
+      throw new Error(`Validation failed: ${validationResponse.error?.message}`);
+    }
+
+    const data = validationResponse.data as ValidationData;
+    run.validations.push(data);
+    run.validation = run.validations.length > 1
+      ? await this.validationAgent.mergeResults(run.request.phoneNumber, run.validations)
+      : data;
+
+    const retries = Math.max(run.retryContext?.attempts ?? 0, validationResponse.metadata.retriesAttempted);
+    run.retryContext = {
+      attempts: retries,
+      maxAttempts: 3,
+      backoffDelay: 2000,
+      useBackupKey: retries > 0,
+      failedTools: []
+    };
+
+    // Parallel steps share the agent, so its reasoning may already be recorded
+    run.chainOfThought.push(
+      ...validationResponse.metadata.reasoning.filter(thought => !run.chainOfThought.includes(thought))
+    );
+    run.chainOfExecution.push(`Validation Agent: Retrieved data from ${data.source}`);
+
+    this.log(`✅ Validation complete: ${data.valid ? 'VALID' : 'INVALID'}`);
+    this.log(`   Country: ${data.countryName} (${data.countryCode})`);
+    this.log(`   Carrier: ${data.carrier || 'Unknown'}`);
+    this.log(`   Line Type: ${data.lineType}`);
+
+    this.recordValidationFacts(run.validation, context);
+  }
+
+  private recordValidationFacts(validation: ValidationData, context: PlanContext): void {
+    context.valid = validation.valid;
+    context.line_type = validation.lineType;
+    context.country_code = validation.countryCode;
+    context.carrier = validation.carrier;
+  }
+
+  /**
+   * Plan step: check WhatsApp presence
+   */
+  private async runWhatsAppStep(run: PlanRun, context: PlanContext): Promise<void> {
+    const validationData = run.validation!;
+
+    if (run.cached.whatsapp) {
+      this.logPhase('PHASE 3: WHATSAPP INTELLIGENCE (CACHED)');
+
+      run.whatsapp = run.cached.whatsapp;
+      run.inactivity = run.cached.inactivity;
+      run.chainOfExecution.push(`Cache: WhatsApp hit (${formatCacheAge(run.cached.presenceAge!)} old)`);
+      this.events.emit({
+        type: 'action',
+        agent: 'whatsapp',
+        message: `Using cached presence check (${formatCacheAge(run.cached.presenceAge!)} old)`
+      });
+      context.whatsapp_exists = run.whatsapp.exists;
+
+      this.log(`💾 Cached WhatsApp check: ${run.whatsapp.exists ? 'EXISTS' : 'NOT FOUND'}`);
+      return;
+    }
+
+    this.logPhase('PHASE 3: WHATSAPP INTELLIGENCE');
+
+    const whatsappResponse = await this.executeWithRetry(
+      twilio => this.bus.dispatch<WhatsAppData>('supervisor', 'whatsapp', {
+        phoneNumber: run.request.phoneNumber,
+        accountSid: twilio?.accountSid,
+        authToken: twilio?.authToken,
+        twilioNumber: twilio?.phoneNumber,
+        retryContext: run.retryContext,
+        validationData: {
+          countryCode: validationData.countryCode,
+          lineType: validationData.lineType,
+          carrier: validationData.carrier
+        }
+      } satisfies WhatsAppInput, 'Check WhatsApp presence'),
+      'whatsapp',
+      'whatsapp',
+      run,
+      KeyRing.forTwilio(this.config.apiConfig)
+    );
+
+    if (!whatsappResponse.success || !whatsappResponse.data) {
+      throw new Error(`WhatsApp check failed: ${whatsappResponse.error?.message}`);
+    }
+
+    const whatsappData = whatsappResponse.data as WhatsAppData;
+    run.whatsapp = whatsappData;
+    context.whatsapp_exists = whatsappData.exists;
+    context.whatsapp_business = whatsappData.businessAccount;
+    run.chainOfThought.push(...whatsappResponse.metadata.reasoning);
+    run.chainOfExecution.push(`WhatsApp Agent: ${whatsappData.exists ? 'Found' : 'Not found'}`);
+
+    this.log(`✅ WhatsApp check: ${whatsappData.exists ? 'EXISTS' : 'NOT FOUND'}`);
+    if (whatsappData.exists) {
+      this.log(`   Verified: ${whatsappData.verified ? 'Yes' : 'No'}`);
+      this.log(`   Business: ${whatsappData.businessAccount ? 'Yes' : 'No'}`);
+      if (whatsappData.metadata?.businessConfidence) {
+        this.log(`   Business Confidence: ${Math.round(whatsappData.metadata.businessConfidence * 100)}%`);
+      }
+    }
+  }
+
+  /**
+   * Plan step: score how likely the WhatsApp account is dormant
+   */
+  private async runInactivityStep(run: PlanRun, context: PlanContext): Promise<void> {
+    if (run.cached.whatsapp) {
+      // Cached together with the WhatsApp check
+      context.inactive = run.inactivity?.isInactive;
+      return;
+    }
+
+    this.logPhase('PHASE 3.5: INACTIVE ACCOUNT ANALYSIS');
+
+    // Message history lives in the account that answered the WhatsApp check
+    const twilioRing = KeyRing.forTwilio(this.config.apiConfig);
+    const twilio = (twilioRing.slots.find(slot => slot.label === run.keySlots.whatsapp) ?? twilioRing.primary)?.credential;
+    const inactiveResponse = await this.bus.dispatch<InactivityStatus>('supervisor', 'inactive', {
+      phoneNumber: run.request.phoneNumber,
+      country: run.request.country,
+      twilioAccountSid: twilio?.accountSid,
+      twilioAuthToken: twilio?.authToken,
+      retryContext: run.retryContext
+    } satisfies InactiveAccountInput, 'Score account inactivity');
+    run.agentRuns.push(toAgentRun(inactiveResponse));
+
+    if (!inactiveResponse.success || !inactiveResponse.data) {
+      throw new Error(`Inactivity analysis failed: ${inactiveResponse.error?.message}`);
+    }
+
+    const inactivityStatus = inactiveResponse.data;
+    run.inactivity = inactivityStatus;
+    context.inactive = inactivityStatus.isInactive;
+    run.chainOfThought.push(...inactiveResponse.metadata.reasoning);
+    run.chainOfExecution.push(`Inactive Agent: Score ${inactivityStatus.inactivityScore}/100`);
+
+    this.log(`📊 Inactivity Analysis:`);
+    this.log(`   Inactive: ${inactivityStatus.isInactive ? 'YES' : 'NO'}`);
+    this.log(`   Severity: ${inactivityStatus.severity.toUpperCase()}`);
+    this.log(`   Delivery Probability: ${inactivityStatus.deliveryProbability}%`);
+
+    if (inactivityStatus.daysSinceActive > 0) {
+      this.log(`   Days Since Active: ${inactivityStatus.daysSinceActive}`);
+    }
+
+    if (inactivityStatus.reasons.length > 0) {
+      this.log(`   Indicators:`);
+      inactivityStatus.reasons.forEach(r => this.log(`      - ${r}`));
+    }
+  }
+
+  /**
+   * Plan step: score confidence in everything gathered so far
+   */
+  private async runConfidenceStep(run: PlanRun, context: PlanContext): Promise<void> {
+    this.logPhase('PHASE 4: CONFIDENCE ANALYSIS');
+
+    if (!run.validation) {
+      throw new Error('No validation data to score');
+    }
+
+    const confidenceResponse = await this.bus.dispatch<ConfidenceScore>('supervisor', 'confidence', {
+      validation: run.validation,
+      whatsapp: run.whatsapp,
+      inactivity: run.inactivity,
+      retryContext: run.retryContext,
+      executionPlan: {
+        skipWhatsApp: run.plan.skipWhatsApp,
+        riskLevel: run.plan.riskLevel
+      }
+    } satisfies ConfidenceInput, 'Score confidence');
+
+    run.agentRuns.push(toAgentRun(confidenceResponse));
+
+    if (!confidenceResponse.success || !confidenceResponse.data) {
+      throw new Error('Confidence scoring failed');
+    }
+
+    const confidence = confidenceResponse.data as ConfidenceScore;
+    run.confidence = confidence;
+    context.confidence_score = confidence.score;
+    run.chainOfThought.push(...confidenceResponse.metadata.reasoning);
+    run.chainOfExecution.push(`Confidence Agent: Score ${confidence.score}/100`);
+  }
+
+  /**
+   * Log each step as it finishes; skipped and failed steps also go in the execution chain
+   */
+  private onStepSettled(result: StepResult, run: PlanRun): void {
+    const label = AGENT_LABELS[result.agent];
+    this.events.emit({ type: 'step', step: { ...result } });
+
+    if (result.status === 'skipped') {
+      if (result.agent === 'whatsapp') {
+        this.logPhase('PHASE 3: WHATSAPP CHECK SKIPPED');
+      }
+      this.log(`   Step ${result.stepId} (${result.action}) skipped: ${result.reason}`);
+      run.chainOfExecution.push(`${label}: Skipped`);
+    } else if (result.status === 'failed') {
+      this.log(`⚠️  Step ${result.stepId} (${result.action}) failed: ${result.error}`);
+      run.chainOfExecution.push(`${label}: Failed`);
+    } else {
+      this.log(`   Step ${result.stepId} (${result.action}) completed in ${result.durationMs}ms`);
+    }
+  }
+
+  /**
+   * Fresh cache entries for a number (nothing when refreshing or uncached)
+   */
+  private async readCache(cacheKey: string, forceRefresh?: boolean): Promise<CacheLookup> {
+    if (!this.cache) return {};
+    if (forceRefresh) {
+      this.log('🔄 Force refresh: bypassing cache');
+      return {};
+    }
+
+    try {
+      return await this.cache.lookup(cacheKey);
+    } catch (error) {
+      // A broken cache backend must never fail a validation
+      this.log(`⚠️  Cache read failed: ${error instanceof Error ? error.message : error}`);
+      return {};
+    }
+  }
+
+  private async writeCache(write: (cache: ValidationCache) => Promise<void>): Promise<void> {
+    if (!this.cache) return;
+
+    try {
+      await write(this.cache);
+    } catch (error) {
+      this.log(`⚠️  Cache write failed: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  /**
+   * First configured API key (primary, else backup or rotation) by provider name
+   */
+  private getProviderKeys(): Record<string, string | undefined> {
+    return Object.fromEntries(this.providers.list().map(provider => [
+      provider.name,
+      KeyRing.forTool(this.config.apiConfig, provider.name).primary?.credential
+    ]));
+  }
+
   private logPhase(phase: string): void {
+    this.phaseListener?.(phase);
+    this.events.emit({ type: 'phase', phase });
     this.log(`\n${'─'.repeat(60)}`);
     this.log(`  ${phase}`);
     this.log('─'.repeat(60));
   }
 
+  /**
+   * Add the validation to the audit log; a failing log never fails a validation
+   */
+  private async writeAudit(
+    request: ValidationRequest,
+    outcome: { agentRuns: AgentRun[]; ledger: CostLedger; result?: ValidationResult; error?: string }
+  ): Promise<void> {
+    if (!this.config.auditLog) return;
+
+    const { agentRuns, ledger, result, error } = outcome;
+    try {
+      await this.config.auditLog.record({
+        sessionId: this.state.sessionId,
+        createdAt: this.state.startTime,
+        request,
+        phoneNumber: toE164(request.phoneNumber, request.country) ?? request.phoneNumber,
+        status: result ? 'complete' : 'failed',
+        error,
+        plan: this.state.currentPlan,
+        agentRuns,
+        result,
+        totalCost: ledger.total,
+        executionTimeMs: result?.totalExecutionTime ?? this.deps.clock.now() - this.state.startTime
+      });
+    } catch (auditError) {
+      console.warn(`⚠️ Audit entry for ${request.phoneNumber} not saved:`, auditError);
+    }
+  }
+
+  /**
+   * Save this session's recorded traffic; a failing store never fails a validation
+   */
+  private async flushRecording(): Promise<void> {
+    try {
+      await this.config.recorder?.flush(this.state.sessionId);
+    } catch (error) {
+      console.warn(`⚠️ Traffic recording for ${this.state.sessionId} not saved:`, error);
+    }
+  }
+
   private generateSessionId(): string {
-    return `session_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    return `session_${this.deps.clock.now()}_${this.deps.random().toString(36).substr(2, 9)}`;
   }
 
   /**
@@ -402,7 +1192,7 @@ export class Supervisor {
   reset(): void {
     this.state = {
       sessionId: this.generateSessionId(),
-      startTime: Date.now(),
+      startTime: this.deps.clock.now(),
       agents: new Map<AgentRole, AgentState>(),
       messageQueue: []
     };
@@ -413,6 +1203,7 @@ export class Supervisor {
     this.whatsappAgent.reset();
     this.retryAgent.reset();
     this.confidenceAgent.reset();
+    this.inactiveAgent.reset();
 
     this.log('🔄 Supervisor reset for new validation');
   }
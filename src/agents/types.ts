@@ -26,21 +26,32 @@ export type ToolName =
   | 'whatsapp'
   | 'twilio'
   | 'database'
-  | 'none';
+  | 'llm' // Model the agents consult on ambiguous cases
+  | 'none'
+  | (string & {}); // Any registered validation provider
 
 /**
- * Agent Message - Communication between agents
+ * Agent Message - Communication between agents over the MessageBus
  */
 export interface AgentMessage {
   id: string;
-  from: AgentRole;
+  from: AgentRole | 'supervisor';
   to: AgentRole | 'supervisor';
   timestamp: number;
   type: 'task' | 'result' | 'error' | 'query';
-  content: any;
+  content: unknown; // Task input (checked by the receiver's schema), AgentResponse, AgentQuery or its answer
+  replyTo?: string; // Id of the task or query a result or error answers
   reasoning?: string; // Chain of Thought
 }
 
+/**
+ * Agent Query - What one agent asks another mid-run
+ */
+export interface AgentQuery {
+  topic: 'provider_data'; // Validation Agent: every provider answer for phoneNumber (ProviderResult[])
+  phoneNumber: string;
+}
+
 /**
  * Execution Plan - Created by Decision Agent
  */
@@ -58,8 +69,25 @@ export interface PlanStep {
   agent: AgentRole;
   action: string;
   tool?: ToolName;
-  condition?: string;
+  condition?: string; // e.g. IF line_type == "mobile" AND valid == true
   dependsOn?: number[];
+  optional?: boolean; // Failure does not block dependent steps
+}
+
+export type StepStatus = 'pending' | 'running' | 'completed' | 'skipped' | 'failed';
+
+/**
+ * Step Result - How the plan executor ran (or skipped) one PlanStep
+ */
+export interface StepResult {
+  stepId: number;
+  agent: AgentRole;
+  action: string;
+  status: StepStatus;
+  startedAt?: number;
+  durationMs?: number;
+  reason?: string; // Why the step was skipped
+  error?: string; // Why the step failed
 }
 
 /**
@@ -78,13 +106,37 @@ export interface AgentResponse<T = any> {
   };
 }
 
+/**
+ * Agent Run - One agent call within a validation, kept for the audit trail
+ */
+export interface AgentRun {
+  agent: AgentRole;
+  success: boolean;
+  error?: AgentError;
+  metadata: AgentResponse['metadata'];
+}
+
 export interface AgentError {
   code: string;
   message: string;
   recoverable: boolean;
   suggestedAction?: string;
+  errorClass?: ErrorClass; // Drives the Retry Agent's policy; derived from code when missing
+  retryAfterMs?: number; // Wait the provider asked for (Retry-After / X-RateLimit-Reset)
+  violations?: string[]; // SCHEMA_VIOLATION: every mismatch, e.g. 'valid: Expected boolean, received string'
 }
 
+/**
+ * Error Class - Why a call failed, shared by every agent and provider
+ */
+export type ErrorClass =
+  | 'auth'          // Bad or revoked key - retry only with another key
+  | 'quota'         // Plan allowance used up - retry only with another key
+  | 'rate_limit'    // Too many requests - wait (Retry-After) and retry
+  | 'transient'     // Network failure, timeout or provider outage
+  | 'invalid_input' // The request itself is wrong - never retried
+  | 'provider_bug'; // Unexpected response from the provider
+
 /**
  * Validation Data - Output from Validation Agent
  */
@@ -96,8 +148,62 @@ export interface ValidationData {
   lineType: 'mobile' | 'landline' | 'voip' | 'unknown';
   valid: boolean;
   formatted?: string;
-  source: 'numverify' | 'abstract' | 'both';
-  rawData: any;
+  source: ToolName | 'both'; // 'both' when more than one provider answered
+  rawData: ProviderResult[];
+  schemaViolations?: string[]; // Provider payloads rejected by their schema while others answered
+}
+
+/**
+ * Validation Provider - Pluggable phone lookup backend used by the Validation Agent
+ */
+export type ProviderCapability =
+  | 'validity'
+  | 'country'
+  | 'carrier'
+  | 'line_type'
+  | 'formatting';
+
+export type ProviderErrorKind = ErrorClass;
+
+export interface ProviderError {
+  code: string;
+  message: string;
+  retryAfterMs?: number;
+  violations?: string[]; // SCHEMA_VIOLATION: how the payload broke its schema
+}
+
+export interface ProviderLookupData {
+  valid: boolean;
+  countryCode?: string;
+  countryName?: string;
+  carrier?: string;
+  lineType?: ValidationData['lineType'];
+  formatted?: string;
+  raw: unknown; // Untouched provider payload
+}
+
+/**
+ * Provider Result - One provider's answer, kept in ValidationData.rawData
+ */
+export interface ProviderResult {
+  source: ToolName;
+  provider: string; // Display name
+  data: ProviderLookupData;
+}
+
+export interface ProviderResponse {
+  data?: ProviderLookupData;
+  error?: ProviderError;
+}
+
+export interface ValidationProvider {
+  readonly name: ToolName;
+  readonly displayName: string;
+  readonly costPerCall: number; // USD
+  readonly capabilities: ProviderCapability[];
+  readonly requiresApiKey: boolean;
+  lookup(phoneNumber: string, apiKey?: string): Promise<ProviderResponse>;
+  classifyError(error: ProviderError): ProviderErrorKind;
 }
 
 /**
@@ -156,15 +262,24 @@ export interface ConfidenceScore {
   score: number; // 0-100
   reasoning: string;
   discrepancies: string[];
+  explanation?: string; // The LLM's account of the discrepancies, when one is configured
   recommendations: string[];
+  modelVersion: string; // Scoring model that produced the score
   breakdown: {
     baseScore: number;
-    carrierDeduction: number;
-    retryDeduction: number;
-    whatsappBonus: number;
+    rules: ScoreContribution[]; // Every rule that fired, in model order
   };
 }
 
+/**
+ * Score Contribution - One scoring rule's effect on a confidence score
+ */
+export interface ScoreContribution {
+  rule: string;
+  description: string;
+  points: number; // Negative for deductions
+}
+
 /**
  * Retry Context - Used by Retry Agent
  */
@@ -172,8 +287,10 @@ export interface RetryContext {
   attempts: number;
   maxAttempts: number;
   lastError?: AgentError;
+  errorClass?: ErrorClass; // Class of lastError, which picked the retry policy
   backoffDelay: number;
   useBackupKey: boolean;
+  keySlot?: string; // Credential slot of the last attempt, e.g. 'backup'
   failedTools: ToolName[];
 }
 
@@ -190,6 +307,38 @@ export interface AgentState {
   endTime?: number;
 }
 
+/**
+ * Agent Event - Emitted live while a validation runs (see AgentEventStream)
+ */
+export type AgentEvent =
+  | { type: 'status'; agent: AgentRole; status: AgentStatus; timestamp: number }
+  | { type: 'thought'; agent: AgentRole; message: string; timestamp: number }
+  | { type: 'action'; agent: AgentRole; message: string; timestamp: number }
+  | {
+      type: 'tool_call';
+      agent: AgentRole;
+      tool: ToolName;
+      attempt: 'call' | 'retry';
+      keySlot?: string;
+      timestamp: number;
+    }
+  | {
+      type: 'tool_result';
+      agent: AgentRole;
+      tool: ToolName;
+      keySlot?: string;
+      success: boolean;
+      durationMs: number;
+      error?: string;
+      timestamp: number;
+    }
+  | { type: 'phase'; phase: string; timestamp: number }
+  | { type: 'step'; step: StepResult; timestamp: number }
+  | { type: 'result'; result: ValidationResult; timestamp: number }
+  | { type: 'error'; message: string; timestamp: number };
+
+export type AgentEventType = AgentEvent['type'];
+
 /**
  * System Prompt Configuration
  */
@@ -217,17 +366,57 @@ export interface SupervisorState {
  * Final Validation Result - Combined output
  */
 export interface ValidationResult {
+  sessionId?: string; // Supervisor session, e.g. to look up its recorded provider traffic
   phoneNumber: string;
   validation: ValidationData;
   whatsapp?: WhatsAppData;
   confidence: ConfidenceScore;
   inactivityStatus?: InactivityStatus;
   executionPlan: ExecutionPlan;
+  stepResults?: StepResult[];
+  cost?: CostReport;
+  keySlots?: Partial<Record<ToolName, string>>; // Credential slot that answered, per tool
+  agentRuns?: AgentRun[]; // Every agent call, in order
   totalExecutionTime: number;
   chainOfThought: string[];
   chainOfExecution: string[];
 }
 
+/**
+ * Batch Item Result - One entry yielded by Supervisor.validateBatch()
+ */
+export interface BatchItemResult {
+  index: number; // Position of the request in the input iterable
+  phoneNumber: string;
+  success: boolean;
+  result?: ValidationResult;
+  error?: string;
+}
+
+/**
+ * Batch Summary - Aggregate counts for a completed batch run
+ */
+export interface BatchSummary {
+  total: number;
+  succeeded: number;
+  failed: number;
+  valid: number;
+  invalid: number;
+  whatsapp: number;
+  inactive: number;
+  totalCost: number;
+  totalExecutionTime: number;
+}
+
+/**
+ * Twilio Credentials - One Twilio account (WhatsApp checks, message history)
+ */
+export interface TwilioCredentials {
+  accountSid?: string;
+  authToken?: string;
+  phoneNumber?: string;
+}
+
 /**
  * API Configuration
  */
@@ -236,15 +425,67 @@ export interface APIConfig {
     numverify?: string;
     abstract?: string;
     whatsapp?: string;
-    twilio?: {
-      accountSid?: string;
-      authToken?: string;
-      phoneNumber?: string;
-    };
+    providers?: Record<string, string | undefined>; // Keys for other registered providers, by name
+    twilio?: TwilioCredentials;
   };
   backup: {
     numverify?: string;
     abstract?: string;
     whatsapp?: string;
+    providers?: Record<string, string | undefined>;
+    twilio?: TwilioCredentials;
+  };
+  rotation?: {
+    // Further credentials tried after primary and backup, in order
+    keys?: Partial<Record<ToolName, string[]>>;
+    twilio?: TwilioCredentials[];
+  };
+  prices?: Partial<Record<ToolName, number>>; // USD per call, overriding provider defaults
+  baseUrls?: {
+    // API roots replacing the public endpoints, e.g. a local mock server
+    numverify?: string;
+    abstract?: string;
+    twilio?: string; // Twilio Lookup v2 root, e.g. 'https://lookups.twilio.com/v2'
   };
 }
+
+/**
+ * Circuit State - Whether calls to a provider are let through
+ */
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+/**
+ * Provider Health - Rolling call statistics behind a provider's circuit breaker
+ */
+export interface ProviderHealth {
+  tool: ToolName;
+  state: CircuitState;
+  totalCalls: number;
+  failures: number;
+  consecutiveFailures: number;
+  failureRate: number; // 0-1 over the breaker's rolling window
+  averageLatencyMs: number;
+  openedAt?: number;
+  lastError?: string;
+}
+
+/**
+ * Cost Entry - One billable call recorded in a CostLedger
+ */
+export interface CostEntry {
+  tool: ToolName;
+  amount: number; // USD
+  kind: 'call' | 'retry';
+  tokens?: { prompt: number; completion: number }; // What an LLM call was priced on
+  timestamp: number;
+}
+
+/**
+ * Cost Report - Planned vs actual spend for one validation
+ */
+export interface CostReport {
+  estimated: number;
+  actual: number;
+  budget?: number; // userPreferences.maxCost
+  entries: CostEntry[];
+}
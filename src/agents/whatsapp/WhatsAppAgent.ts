@@ -10,45 +10,36 @@
  */
 
 import { BaseAgent } from '../core/BaseAgent';
+import {
+  WhatsAppDataSchema,
+  WhatsAppInputSchema,
+  type WhatsAppInput
+} from '../schemas/AgentSchemas';
+import { TwilioLookupPayloadSchema, type TwilioLookupPayload } from '../schemas/ProviderSchemas';
+import { SCHEMA_VIOLATION, describeIssues } from '../schemas/SchemaViolation';
+import { classifyAgentError } from '../core/ErrorTaxonomy';
+import {
+  DEFAULT_REQUEST_TIMEOUT_MS,
+  TWILIO_LOOKUP_BASE_URL,
+  errorFromResponse,
+  fetchWithTimeout,
+  requestErrorCode
+} from '../core/Http';
+import { RateLimiter } from '../core/RateLimiter';
 import type {
   AgentResponse,
+  ProviderError,
   WhatsAppData,
   BusinessAccountData,
   RetryContext,
   AgentConfig
 } from '../types';
 
-interface WhatsAppInput {
-  phoneNumber: string;
-  accountSid?: string;
-  authToken?: string;
-  twilioNumber?: string;
-  retryContext?: RetryContext;
-  validationData?: {
-    countryCode: string;
-    lineType: string;
-    carrier?: string;
-  };
-}
-
-interface TwilioLookupResponse {
-  valid: boolean;
-  country_code: string;
-  line_type_intelligence?: {
-    type: string;
-    carrier_name: string;
-  };
-  caller_name?: {
-    caller_name: string;
-    caller_type: string;
-  };
-}
 
-export class WhatsAppAgent extends BaseAgent {
+export class WhatsAppAgent extends BaseAgent<WhatsAppInput, WhatsAppData> {
   // Rate limiting
-  private requestQueue: Array<{ resolve: Function; reject: Function; fn: Function }> = [];
-  private processing = false;
-  private readonly REQUEST_DELAY_MS = 1100; // ~50 requests per minute
+  static readonly REQUEST_DELAY_MS = 1100; // ~50 requests per minute
+  private rateLimiter: RateLimiter;
 
   // WhatsApp error codes
   private readonly ERROR_CODES = {
@@ -59,7 +50,7 @@ export class WhatsAppAgent extends BaseAgent {
     AUTH_ERROR: ['401', '403'],
   };
 
-  constructor() {
+  constructor(rateLimiter?: RateLimiter, private lookupBaseUrl: string = TWILIO_LOOKUP_BASE_URL) {
     super({
       role: 'whatsapp' as const,
       systemPrompt: `You are a WhatsApp intelligence specialist. Analyze phone numbers to detect WhatsApp presence, business accounts, and potential delivery issues.`,
@@ -71,11 +62,14 @@ export class WhatsAppAgent extends BaseAgent {
       ],
       tools: ['whatsapp' as const, 'twilio' as const],
       outputFormat: 'json' as const
-    } satisfies AgentConfig);
+    } satisfies AgentConfig, { input: WhatsAppInputSchema, output: WhatsAppDataSchema });
+
+    // Shared limiters let several agents draw from one Twilio request budget
+    this.rateLimiter = rateLimiter ?? new RateLimiter(WhatsAppAgent.REQUEST_DELAY_MS);
   }
 
-  async execute(input: WhatsAppInput): Promise<AgentResponse<WhatsAppData>> {
-    this.startTime = Date.now();
+  protected async run(input: WhatsAppInput): Promise<AgentResponse<WhatsAppData>> {
+    this.startTime = this.deps.clock.now();
     this.setStatus('thinking');
 
     try {
@@ -89,10 +83,11 @@ export class WhatsAppAgent extends BaseAgent {
         this.checkTwilioLookup(input.phoneNumber, input.accountSid, input.authToken)
       );
       
-      // If Twilio fails but we have validation data, use that instead
-      if (twilioData.error && input.validationData) {
+      // If Twilio fails but we have validation data, use that instead -
+      // unless Twilio answered with a malformed payload, which goes to retry
+      if (twilioData.error && input.validationData && twilioData.error.code !== SCHEMA_VIOLATION) {
         console.log('⚠️ Twilio failed, using NumVerify/Abstract data instead');
-        const mockTwilioData: TwilioLookupResponse = {
+        const mockTwilioData: TwilioLookupPayload = {
           valid: true,
           country_code: input.validationData.countryCode.replace('+', ''),
           line_type_intelligence: {
@@ -161,9 +156,9 @@ export class WhatsAppAgent extends BaseAgent {
         profilePicture: false,
         about: twilioData.data?.line_type_intelligence?.type || undefined,
         metadata: {
-          carrier: twilioData.data?.line_type_intelligence?.carrier_name,
-          lineType: twilioData.data?.line_type_intelligence?.type,
-          countryCode: twilioData.data?.country_code,
+          carrier: twilioData.data?.line_type_intelligence?.carrier_name ?? undefined,
+          lineType: twilioData.data?.line_type_intelligence?.type ?? undefined,
+          countryCode: twilioData.data?.country_code ?? undefined,
           businessConfidence: businessData.confidence,
           businessIndicators: businessData.reasons
         }
@@ -191,32 +186,7 @@ export class WhatsAppAgent extends BaseAgent {
    * Rate-limited request execution
    */
   private async rateLimitedRequest<T>(fn: () => Promise<T>): Promise<T> {
-    return new Promise((resolve, reject) => {
-      this.requestQueue.push({ resolve, reject, fn });
-      this.processQueue();
-    });
-  }
-
-  private async processQueue() {
-    if (this.processing || this.requestQueue.length === 0) return;
-
-    this.processing = true;
-    const { resolve, reject, fn } = this.requestQueue.shift()!;
-
-    try {
-      const result = await fn();
-      resolve(result);
-    } catch (error) {
-      reject(error);
-    } finally {
-      await this.sleep(this.REQUEST_DELAY_MS);
-      this.processing = false;
-      this.processQueue();
-    }
-  }
-
-  private sleep(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+    return this.rateLimiter.schedule(fn);
   }
 
   /**
@@ -226,7 +196,7 @@ export class WhatsAppAgent extends BaseAgent {
     phoneNumber: string,
     accountSid?: string,
     authToken?: string
-  ): Promise<{ data?: TwilioLookupResponse; error?: { code: string; message: string } }> {
+  ): Promise<{ data?: TwilioLookupPayload; error?: ProviderError }> {
     try {
       console.log('🔑 Twilio Credentials Check:', {
         accountSid: accountSid ? accountSid.substring(0, 10) + '...' : 'MISSING',
@@ -234,29 +204,27 @@ export class WhatsAppAgent extends BaseAgent {
         phoneNumber
       });
       
-      // Demo mode
-      if (!accountSid || !authToken || accountSid.includes('demo')) {
-        console.warn('⚠️ DEMO MODE: No valid Twilio credentials, using mock data');
-        this.think('Using mock Twilio response (demo mode)');
-        return this.getMockTwilioResponse(phoneNumber);
+      if (!accountSid || !authToken) {
+        this.think('No Twilio credentials configured');
+        return { error: { code: 'AUTH_ERROR', message: 'Twilio credentials are not configured' } };
       }
 
       const cleanNumber = phoneNumber.startsWith('+') ? phoneNumber : `+${phoneNumber.replace(/\D/g, '')}`;
       
       this.think(`Querying Twilio Lookup for: ${cleanNumber}`);
       
-      const url = `https://lookups.twilio.com/v2/PhoneNumbers/${encodeURIComponent(cleanNumber)}?Fields=line_type_intelligence,caller_name`;
+      const url = `${this.lookupBaseUrl}/PhoneNumbers/${encodeURIComponent(cleanNumber)}?Fields=line_type_intelligence,caller_name`;
       const credentials = btoa(`${accountSid}:${authToken}`);
       
       console.log('🌐 Making Twilio API Call:', { url, cleanNumber });
       
-      const response = await fetch(url, {
+      const response = await fetchWithTimeout(url, {
         method: 'GET',
         headers: {
           'Authorization': `Basic ${credentials}`,
           'Content-Type': 'application/json'
         }
-      });
+      }, DEFAULT_REQUEST_TIMEOUT_MS, this.deps.http, this.deps.clock);
       
       console.log('📡 Twilio Response Status:', response.status, response.statusText);
 
@@ -269,33 +237,30 @@ export class WhatsAppAgent extends BaseAgent {
         });
         
         if (response.status === 429) {
-          return {
-            error: {
-              code: '429',
-              message: 'Twilio rate limit exceeded - backing off'
-            }
-          };
+          return { error: errorFromResponse(response, this.deps.clock.now(), 'Twilio rate limit exceeded - backing off') };
         }
         
         if (response.status === 401 || response.status === 403) {
           console.error('🔐 Twilio Authentication Failed! Check your credentials in .env');
-          return {
-            error: {
-              code: String(response.status),
-              message: 'Twilio authentication failed. Check credentials.'
-            }
-          };
+          return { error: errorFromResponse(response, this.deps.clock.now(), 'Twilio authentication failed. Check credentials.') };
         }
         
+        return { error: errorFromResponse(response, this.deps.clock.now(), errorData.message || 'Twilio API error') };
+      }
+
+      const data: TwilioLookupPayload = await response.json();
+      const checked = TwilioLookupPayloadSchema.safeParse(data);
+      if (!checked.success) {
+        const violations = describeIssues(checked.error);
+        this.think(`Twilio payload rejected: ${violations.join('; ')}`);
         return {
           error: {
-            code: String(response.status),
-            message: errorData.message || 'Twilio API error'
+            code: SCHEMA_VIOLATION,
+            message: `Twilio Lookup response does not match its schema: ${violations.join('; ')}`,
+            violations
           }
         };
       }
-
-      const data: TwilioLookupResponse = await response.json();
       console.log('✅ Twilio API Success:', {
         valid: data.valid,
         country: data.country_code,
@@ -311,7 +276,7 @@ export class WhatsAppAgent extends BaseAgent {
       this.think(`Network error: ${error instanceof Error ? error.message : 'Unknown'}`);
       return {
         error: {
-          code: 'NETWORK_ERROR',
+          code: requestErrorCode(error),
           message: error instanceof Error ? error.message : 'Network error'
         }
       };
@@ -322,7 +287,7 @@ export class WhatsAppAgent extends BaseAgent {
    * Detect WhatsApp presence from Twilio data
    * Uses country-specific prevalence rates for accurate detection
    */
-  private detectWhatsAppPresence(twilioData: TwilioLookupResponse): boolean {
+  private detectWhatsAppPresence(twilioData: TwilioLookupPayload): boolean {
     const lineType = twilioData.line_type_intelligence?.type;
     const countryCode = twilioData.country_code;
     
@@ -380,7 +345,7 @@ export class WhatsAppAgent extends BaseAgent {
    */
   private async detectBusinessAccount(
     phoneNumber: string,
-    twilioData: TwilioLookupResponse
+    twilioData: TwilioLookupPayload
   ): Promise<BusinessAccountData> {
     const reasons: string[] = [];
     let score = 0;
@@ -441,7 +406,7 @@ export class WhatsAppAgent extends BaseAgent {
   /**
    * Handle various error scenarios
    */
-  private handleError(error: { code: string; message: string }): AgentResponse<WhatsAppData> {
+  private handleError(error: ProviderError): AgentResponse<WhatsAppData> {
     const code = error.code;
 
     // Rate limiting
@@ -450,17 +415,19 @@ export class WhatsAppAgent extends BaseAgent {
         'RATE_LIMIT',
         'API rate limit exceeded',
         true,
-        'Wait 60 seconds and retry with exponential backoff'
+        'Wait for the Retry-After period and retry with backoff',
+        { errorClass: 'rate_limit', retryAfterMs: error.retryAfterMs }
       );
     }
 
-    // Authentication
+    // Authentication - another Twilio account may still work
     if (this.ERROR_CODES.AUTH_ERROR.includes(code)) {
       return this.createErrorResponse(
         'AUTH_ERROR',
         error.message,
-        false,
-        'Check Twilio credentials in .env file'
+        true,
+        'Check Twilio credentials in .env file',
+        { errorClass: 'auth' }
       );
     }
 
@@ -492,38 +459,25 @@ export class WhatsAppAgent extends BaseAgent {
       );
     }
 
+    // Malformed payload - retried once like any provider bug
+    if (code === SCHEMA_VIOLATION) {
+      return this.createErrorResponse(
+        SCHEMA_VIOLATION,
+        error.message,
+        true,
+        'Retry once, then continue validation without WhatsApp data',
+        { errorClass: 'provider_bug', violations: error.violations }
+      );
+    }
+
     // Generic error
+    const errorClass = classifyAgentError(error);
     return this.createErrorResponse(
       'WHATSAPP_ERROR',
       error.message,
-      true,
-      'Continue validation without WhatsApp data'
+      errorClass !== 'invalid_input',
+      'Continue validation without WhatsApp data',
+      { errorClass, retryAfterMs: error.retryAfterMs }
     );
   }
-
-  /**
-   * Get mock Twilio response for demo mode
-   */
-  private getMockTwilioResponse(phoneNumber: string): { data: TwilioLookupResponse } {
-    const cleaned = phoneNumber.replace(/\D/g, '');
-    const hash = cleaned.split('').reduce((acc, char) => acc + char.charCodeAt(0), 0);
-
-    const lineTypes = ['mobile', 'landline', 'voip'];
-    const lineType = lineTypes[hash % 3];
-    
-    const data: TwilioLookupResponse = {
-      valid: true,
-      country_code: cleaned.startsWith('1') ? 'US' : 'IN',
-      line_type_intelligence: {
-        type: lineType,
-        carrier_name: hash % 2 === 0 ? 'AT&T' : 'Verizon'
-      },
-      caller_name: {
-        caller_name: 'Demo User',
-        caller_type: hash % 10 > 6 ? 'BUSINESS' : 'CONSUMER'
-      }
-    };
-
-    return { data };
-  }
 }
@@ -8,7 +8,8 @@ import {
   MessageSquare,
   BarChart3,
   Radio,
-  Loader2
+  Loader2,
+  UserX
 } from "lucide-react";
 
 const agentIcons: Record<AgentType, typeof Network> = {
@@ -19,6 +20,7 @@ const agentIcons: Record<AgentType, typeof Network> = {
   retry: RefreshCw,
   whatsapp: MessageSquare,
   confidence: BarChart3,
+  inactive: UserX,
 };
 
 interface AgentStatusPanelProps {
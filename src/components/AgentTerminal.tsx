@@ -11,7 +11,8 @@ import {
   RefreshCw,
   MessageSquare,
   BarChart3,
-  Network
+  Network,
+  UserX
 } from "lucide-react";
 
 interface AgentTerminalProps {
@@ -27,6 +28,7 @@ const agentConfig: Record<AgentType, { color: string; icon: typeof Bot }> = {
   whatsapp: { color: 'text-green-400', icon: MessageSquare },
   carrier: { color: 'text-blue-400', icon: Network },
   confidence: { color: 'text-primary', icon: BarChart3 },
+  inactive: { color: 'text-orange-400', icon: UserX },
 };
 
 export function AgentTerminal({ logs, isProcessing }: AgentTerminalProps) {
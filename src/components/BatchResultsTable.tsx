@@ -0,0 +1,103 @@
+import { cn } from "@/lib/utils";
+import { CheckCircle2, XCircle, Loader2, Clock } from "lucide-react";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { getWhatsAppStatus } from "@/agents";
+import type { BatchRow } from "@/hooks/useBatchValidation";
+
+interface BatchResultsTableProps {
+  rows: BatchRow[];
+}
+
+const whatsappLabels = {
+  verified: 'On WhatsApp',
+  not_found: 'Not found',
+  unchecked: 'Skipped',
+  checking: 'Checking',
+};
+
+function StatusCell({ row }: { row: BatchRow }) {
+  switch (row.status) {
+    case 'running':
+      return (
+        <span className="flex items-center gap-2 text-primary">
+          <Loader2 className="w-3 h-3 animate-spin" />
+          {row.phase ?? 'Starting'}
+        </span>
+      );
+    case 'complete':
+      return (
+        <span className="flex items-center gap-2 text-success">
+          <CheckCircle2 className="w-3 h-3" />
+          Done
+        </span>
+      );
+    case 'error':
+      return (
+        <span className="flex items-center gap-2 text-destructive" title={row.item?.error}>
+          <XCircle className="w-3 h-3" />
+          Failed
+        </span>
+      );
+    default:
+      return (
+        <span className="flex items-center gap-2 text-muted-foreground">
+          <Clock className="w-3 h-3" />
+          Queued
+        </span>
+      );
+  }
+}
+
+export function BatchResultsTable({ rows }: BatchResultsTableProps) {
+  return (
+    <div className="max-h-[600px] overflow-y-auto rounded-lg border border-border">
+      <Table>
+        <TableHeader className="sticky top-0 bg-card">
+          <TableRow>
+            <TableHead className="w-12">#</TableHead>
+            <TableHead>Number</TableHead>
+            <TableHead>Status</TableHead>
+            <TableHead>Country</TableHead>
+            <TableHead>Carrier</TableHead>
+            <TableHead>Line Type</TableHead>
+            <TableHead>WhatsApp</TableHead>
+            <TableHead>Inactivity</TableHead>
+            <TableHead className="text-right">Confidence</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody className="font-mono text-xs">
+          {rows.map((row) => {
+            const result = row.item?.result;
+
+            return (
+              <TableRow key={row.index}>
+                <TableCell className="text-muted-foreground">{row.index + 1}</TableCell>
+                <TableCell>{row.phoneNumber}</TableCell>
+                <TableCell><StatusCell row={row} /></TableCell>
+                <TableCell>{result?.validation.countryName ?? '—'}</TableCell>
+                <TableCell>{result?.validation.carrier ?? '—'}</TableCell>
+                <TableCell className="capitalize">{result?.validation.lineType ?? '—'}</TableCell>
+                <TableCell>{result ? whatsappLabels[getWhatsAppStatus(result)] : '—'}</TableCell>
+                <TableCell className="capitalize">{result?.inactivityStatus?.severity ?? '—'}</TableCell>
+                <TableCell className={cn(
+                  "text-right font-semibold",
+                  result && result.confidence.score >= 70 && "text-success",
+                  result && result.confidence.score < 50 && "text-destructive"
+                )}>
+                  {result ? `${result.confidence.score}/100` : '—'}
+                </TableCell>
+              </TableRow>
+            );
+          })}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
@@ -0,0 +1,158 @@
+import { useEffect, useRef, useState } from "react";
+import { cn } from "@/lib/utils";
+import { FileSpreadsheet, Upload, Play } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { SpreadsheetData } from "@/lib/spreadsheet";
+import type { ColumnMapping } from "@/hooks/useBatchValidation";
+
+interface BatchUploadProps {
+  file: File | null;
+  sheet: SpreadsheetData | null;
+  isProcessing: boolean;
+  onFile: (file: File) => void;
+  onStart: (mapping: ColumnMapping) => void;
+}
+
+const NO_COUNTRY_COLUMN = 'none';
+
+/**
+ * Guess a column index from common header names
+ */
+function guessColumn(headers: string[], pattern: RegExp): number {
+  return headers.findIndex(header => pattern.test(header));
+}
+
+export function BatchUpload({ file, sheet, isProcessing, onFile, onStart }: BatchUploadProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const [phoneColumn, setPhoneColumn] = useState('0');
+  const [countryColumn, setCountryColumn] = useState(NO_COUNTRY_COLUMN);
+
+  // Pre-select mapping when a new file is loaded
+  useEffect(() => {
+    if (!sheet) return;
+    const phoneGuess = guessColumn(sheet.headers, /phone|mobile|number|msisdn|tel/i);
+    const countryGuess = guessColumn(sheet.headers, /country|region|dial|calling/i);
+    setPhoneColumn(String(Math.max(0, phoneGuess)));
+    setCountryColumn(countryGuess >= 0 ? String(countryGuess) : NO_COUNTRY_COLUMN);
+  }, [sheet]);
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    const dropped = e.dataTransfer.files[0];
+    if (dropped) onFile(dropped);
+  };
+
+  const handleStart = () => {
+    onStart({
+      phoneColumn: Number(phoneColumn),
+      countryColumn: countryColumn === NO_COUNTRY_COLUMN ? null : Number(countryColumn),
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Drop Zone */}
+      <div
+        role="button"
+        tabIndex={0}
+        onClick={() => inputRef.current?.click()}
+        onKeyDown={(e) => e.key === 'Enter' && inputRef.current?.click()}
+        onDragOver={(e) => {
+          e.preventDefault();
+          setIsDragging(true);
+        }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+        className={cn(
+          "flex flex-col items-center justify-center gap-3 p-8 rounded-lg border-2 border-dashed cursor-pointer",
+          "transition-colors duration-200",
+          isDragging ? "border-primary bg-primary/10" : "border-border hover:border-primary/50",
+          isProcessing && "pointer-events-none opacity-50"
+        )}
+      >
+        {file ? (
+          <FileSpreadsheet className="w-10 h-10 text-primary" />
+        ) : (
+          <Upload className="w-10 h-10 text-muted-foreground" />
+        )}
+        <div className="text-center">
+          <p className="font-medium">
+            {file ? file.name : 'Drop a CSV or XLSX file here'}
+          </p>
+          <p className="text-xs text-muted-foreground mt-1">
+            {sheet
+              ? `${sheet.rows.length.toLocaleString()} rows · ${sheet.headers.length} columns`
+              : 'or click to browse — the first row must contain column headers'}
+          </p>
+        </div>
+        <input
+          ref={inputRef}
+          type="file"
+          accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+          className="hidden"
+          onChange={(e) => {
+            const selected = e.target.files?.[0];
+            if (selected) onFile(selected);
+            e.target.value = '';
+          }}
+        />
+      </div>
+
+      {/* Column Mapping */}
+      {sheet && (
+        <div className="grid grid-cols-1 sm:grid-cols-[1fr_1fr_auto] gap-4 items-end">
+          <div className="space-y-2">
+            <label className="text-xs uppercase tracking-wider text-muted-foreground">
+              Phone number column
+            </label>
+            <Select value={phoneColumn} onValueChange={setPhoneColumn} disabled={isProcessing}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {sheet.headers.map((header, i) => (
+                  <SelectItem key={i} value={String(i)}>{header}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <label className="text-xs uppercase tracking-wider text-muted-foreground">
+              Country column
+            </label>
+            <Select value={countryColumn} onValueChange={setCountryColumn} disabled={isProcessing}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_COUNTRY_COLUMN}>None — numbers include country code</SelectItem>
+                {sheet.headers.map((header, i) => (
+                  <SelectItem key={i} value={String(i)}>{header}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <Button
+            onClick={handleStart}
+            disabled={isProcessing}
+            className="bg-primary text-primary-foreground font-semibold hover:shadow-glow-md"
+          >
+            <Play className="w-4 h-4 mr-2" />
+            Validate {sheet.rows.length.toLocaleString()} numbers
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,4 +1,11 @@
 import { Phone, Zap, Shield } from "lucide-react";
+import { NavLink } from "@/components/NavLink";
+
+const navItems = [
+  { to: "/", label: "Single Number" },
+  { to: "/batch", label: "Batch Upload" },
+  { to: "/history", label: "History" },
+];
 
 export function Header() {
   return (
@@ -19,6 +26,20 @@ export function Header() {
             </div>
           </div>
 
+          <nav className="flex items-center gap-1">
+            {navItems.map((item) => (
+              <NavLink
+                key={item.to}
+                to={item.to}
+                end
+                className="px-3 py-1.5 rounded-md text-sm text-muted-foreground hover:text-foreground transition-colors"
+                activeClassName="bg-primary/10 text-primary"
+              >
+                {item.label}
+              </NavLink>
+            ))}
+          </nav>
+
           <div className="flex items-center gap-4">
             <div className="hidden md:flex items-center gap-2 px-3 py-1.5 rounded-full bg-success/10 border border-success/30">
               <div className="w-2 h-2 rounded-full bg-success animate-pulse" />
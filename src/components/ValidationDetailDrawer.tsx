@@ -0,0 +1,155 @@
+import { cn } from "@/lib/utils";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Badge } from "@/components/ui/badge";
+import { auditOutcome, type StepResult, type ValidationAuditEntry } from "@/agents";
+
+interface ValidationDetailDrawerProps {
+  entry: ValidationAuditEntry | null;
+  onClose: () => void;
+}
+
+const stepStatusStyles: Record<StepResult['status'], string> = {
+  pending: 'text-muted-foreground',
+  running: 'text-primary',
+  completed: 'text-success',
+  skipped: 'text-muted-foreground',
+  failed: 'text-destructive',
+};
+
+function Section({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <section className="space-y-2">
+      <h4 className="text-xs font-medium text-muted-foreground uppercase tracking-wider">{title}</h4>
+      {children}
+    </section>
+  );
+}
+
+export function ValidationDetailDrawer({ entry, onClose }: ValidationDetailDrawerProps) {
+  const result = entry?.result;
+  const stepResults = new Map(result?.stepResults?.map(step => [step.stepId, step]));
+
+  return (
+    <Sheet open={entry !== null} onOpenChange={(open) => !open && onClose()}>
+      <SheetContent className="w-full sm:max-w-xl">
+        {entry && (
+          <>
+            <SheetHeader>
+              <SheetTitle className="font-mono">{entry.phoneNumber}</SheetTitle>
+              <SheetDescription>
+                {new Date(entry.createdAt).toLocaleString()} · session {entry.sessionId}
+              </SheetDescription>
+            </SheetHeader>
+
+            <ScrollArea className="h-[calc(100vh-8rem)] pr-4 mt-4">
+              <div className="space-y-6 text-sm">
+                <div className="flex flex-wrap gap-2">
+                  <Badge variant={auditOutcome(entry) === 'valid' ? 'default' : 'destructive'} className="capitalize">
+                    {auditOutcome(entry)}
+                  </Badge>
+                  {result && <Badge variant="outline">Confidence {result.confidence.score}/100</Badge>}
+                  <Badge variant="outline">${entry.totalCost.toFixed(4)}</Badge>
+                  <Badge variant="outline">{Math.round(entry.executionTimeMs)}ms</Badge>
+                </div>
+
+                {entry.error && (
+                  <p className="rounded-md border border-destructive/30 bg-destructive/10 p-3 text-destructive">
+                    {entry.error}
+                  </p>
+                )}
+
+                {result && (
+                  <Section title="Result">
+                    <dl className="grid grid-cols-2 gap-x-4 gap-y-1 font-mono text-xs">
+                      <dt className="text-muted-foreground">Country</dt>
+                      <dd>{result.validation.countryName} ({result.validation.countryCode})</dd>
+                      <dt className="text-muted-foreground">Carrier</dt>
+                      <dd>{result.validation.carrier ?? '—'}</dd>
+                      <dt className="text-muted-foreground">Line type</dt>
+                      <dd className="capitalize">{result.validation.lineType}</dd>
+                      <dt className="text-muted-foreground">WhatsApp</dt>
+                      <dd>{result.whatsapp ? (result.whatsapp.exists ? 'Found' : 'Not found') : 'Not checked'}</dd>
+                    </dl>
+                  </Section>
+                )}
+
+                {entry.plan && (
+                  <Section title={`Execution plan · ${entry.plan.riskLevel} risk`}>
+                    <ol className="space-y-1 font-mono text-xs">
+                      {entry.plan.steps.map(step => {
+                        const outcome = stepResults.get(step.id);
+                        return (
+                          <li key={step.id} className="flex justify-between gap-4">
+                            <span>
+                              {step.id}. {step.action}
+                              {step.condition && <span className="text-muted-foreground"> {step.condition}</span>}
+                            </span>
+                            <span className={cn("shrink-0", outcome && stepStatusStyles[outcome.status])}>
+                              {outcome ? `${outcome.status}${outcome.durationMs !== undefined ? ` · ${outcome.durationMs}ms` : ''}` : '—'}
+                            </span>
+                          </li>
+                        );
+                      })}
+                    </ol>
+                  </Section>
+                )}
+
+                {entry.agentRuns.length > 0 && (
+                  <Section title="Agent calls">
+                    <ul className="space-y-1 font-mono text-xs">
+                      {entry.agentRuns.map((run, index) => (
+                        <li key={index} className="flex justify-between gap-4">
+                          <span className={cn("capitalize", !run.success && "text-destructive")}>
+                            {run.agent}
+                            {run.error && <span className="normal-case"> — {run.error.message}</span>}
+                          </span>
+                          <span className="shrink-0 text-muted-foreground">
+                            {run.metadata.toolsUsed.join(', ') || 'no tools'} · {run.metadata.executionTime}ms
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  </Section>
+                )}
+
+                {result && result.confidence.breakdown.rules.length > 0 && (
+                  <Section title={`Confidence breakdown · model ${result.confidence.modelVersion}`}>
+                    <ul className="space-y-1 font-mono text-xs">
+                      <li className="flex justify-between">
+                        <span>Base score</span>
+                        <span>{result.confidence.breakdown.baseScore}</span>
+                      </li>
+                      {result.confidence.breakdown.rules.map(rule => (
+                        <li key={rule.rule} className="flex justify-between gap-4">
+                          <span>{rule.description}</span>
+                          <span className={rule.points < 0 ? "text-destructive" : "text-success"}>
+                            {rule.points > 0 ? `+${rule.points}` : rule.points}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  </Section>
+                )}
+
+                {result && (
+                  <Section title="Chain of thought">
+                    <pre className="whitespace-pre-wrap rounded-md bg-muted/30 p-3 font-mono text-xs leading-relaxed">
+                      {result.chainOfThought.join('\n')}
+                    </pre>
+                  </Section>
+                )}
+              </div>
+            </ScrollArea>
+          </>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
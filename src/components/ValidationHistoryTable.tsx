@@ -0,0 +1,92 @@
+import { cn } from "@/lib/utils";
+import { CheckCircle2, XCircle, AlertTriangle } from "lucide-react";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { auditOutcome, type AuditOutcome, type ValidationAuditEntry } from "@/agents";
+
+interface ValidationHistoryTableProps {
+  entries: ValidationAuditEntry[];
+  onSelect: (entry: ValidationAuditEntry) => void;
+}
+
+const outcomeStyles: Record<AuditOutcome, { label: string; icon: typeof CheckCircle2; className: string }> = {
+  valid: { label: 'Valid', icon: CheckCircle2, className: 'text-success' },
+  invalid: { label: 'Invalid', icon: XCircle, className: 'text-destructive' },
+  failed: { label: 'Failed', icon: AlertTriangle, className: 'text-warning' },
+};
+
+function OutcomeCell({ entry }: { entry: ValidationAuditEntry }) {
+  const { label, icon: Icon, className } = outcomeStyles[auditOutcome(entry)];
+  return (
+    <span className={cn("flex items-center gap-2", className)} title={entry.error}>
+      <Icon className="w-3 h-3" />
+      {label}
+    </span>
+  );
+}
+
+export function ValidationHistoryTable({ entries, onSelect }: ValidationHistoryTableProps) {
+  return (
+    <div className="max-h-[600px] overflow-y-auto rounded-lg border border-border">
+      <Table>
+        <TableHeader className="sticky top-0 bg-card">
+          <TableRow>
+            <TableHead>When</TableHead>
+            <TableHead>Number</TableHead>
+            <TableHead>Outcome</TableHead>
+            <TableHead>Country</TableHead>
+            <TableHead>Line Type</TableHead>
+            <TableHead>WhatsApp</TableHead>
+            <TableHead>Agents</TableHead>
+            <TableHead className="text-right">Cost</TableHead>
+            <TableHead className="text-right">Time</TableHead>
+            <TableHead className="text-right">Confidence</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody className="font-mono text-xs">
+          {entries.map((entry) => {
+            const { result } = entry;
+
+            return (
+              <TableRow
+                key={entry.id ?? `${entry.sessionId}-${entry.createdAt}`}
+                className="cursor-pointer"
+                onClick={() => onSelect(entry)}
+              >
+                <TableCell className="text-muted-foreground whitespace-nowrap">
+                  {new Date(entry.createdAt).toLocaleString()}
+                </TableCell>
+                <TableCell>{entry.phoneNumber}</TableCell>
+                <TableCell><OutcomeCell entry={entry} /></TableCell>
+                <TableCell>{result?.validation.countryName ?? '—'}</TableCell>
+                <TableCell className="capitalize">{result?.validation.lineType ?? '—'}</TableCell>
+                <TableCell>{result?.whatsapp ? (result.whatsapp.exists ? 'On WhatsApp' : 'Not found') : '—'}</TableCell>
+                <TableCell title={entry.agentRuns.map(run => run.agent).join(' → ')}>
+                  {entry.agentRuns.length}
+                  {entry.agentRuns.some(run => !run.success) && (
+                    <span className="text-destructive"> ({entry.agentRuns.filter(run => !run.success).length} failed)</span>
+                  )}
+                </TableCell>
+                <TableCell className="text-right">${entry.totalCost.toFixed(4)}</TableCell>
+                <TableCell className="text-right">{Math.round(entry.executionTimeMs)}ms</TableCell>
+                <TableCell className={cn(
+                  "text-right font-semibold",
+                  result && result.confidence.score >= 70 && "text-success",
+                  result && result.confidence.score < 50 && "text-destructive"
+                )}>
+                  {result ? `${result.confidence.score}/100` : '—'}
+                </TableCell>
+              </TableRow>
+            );
+          })}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
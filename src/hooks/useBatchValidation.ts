@@ -0,0 +1,158 @@
+import { useState, useCallback, useRef } from "react";
+import { resolveCountry, toE164 } from "@/agents";
+import type { BatchItemResult, BatchSummary, ValidationRequest } from "@/agents";
+import { readSpreadsheetFile, downloadCsv, type SpreadsheetData } from "@/lib/spreadsheet";
+import { toExportRows } from "@/lib/batchExport";
+import { validationApi } from "@/lib/validationApi";
+
+export interface ColumnMapping {
+  phoneColumn: number;
+  countryColumn: number | null; // null = numbers already carry their country code
+}
+
+export interface BatchRow {
+  index: number;
+  phoneNumber: string;
+  country: string;
+  status: 'queued' | 'running' | 'complete' | 'error';
+  phase?: string;
+  item?: BatchItemResult;
+}
+
+const BATCH_CONCURRENCY = 4;
+
+/**
+ * Build a Supervisor request from a spreadsheet row.
+ * The country column may hold a calling code ("+44", "44") or an ISO code ("GB");
+ * nationally formatted numbers are normalized to E.164 against it.
+ */
+function toValidationRequest(rawNumber: string, rawCountry: string): ValidationRequest {
+  const number = rawNumber.trim();
+  const country = resolveCountry(rawCountry);
+
+  return {
+    phoneNumber: toE164(number, country) ?? number,
+    country,
+  };
+}
+
+/**
+ * Phase labels from the Supervisor ("PHASE 2: PHONE VALIDATION") → short UI text
+ */
+function formatPhase(phase: string): string {
+  const label = phase.replace(/^PHASE [\d.]+:\s*/, '');
+  return label.charAt(0) + label.slice(1).toLowerCase();
+}
+
+export function useBatchValidation() {
+  const [file, setFile] = useState<File | null>(null);
+  const [sheet, setSheet] = useState<SpreadsheetData | null>(null);
+  const [rows, setRows] = useState<BatchRow[]>([]);
+  const [summary, setSummary] = useState<BatchSummary | null>(null);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const cancelledRef = useRef(false);
+
+  const loadFile = useCallback(async (nextFile: File) => {
+    setError(null);
+    setRows([]);
+    setSummary(null);
+
+    try {
+      const data = await readSpreadsheetFile(nextFile);
+      if (data.rows.length === 0) {
+        throw new Error('The file has a header row but no data rows');
+      }
+      setFile(nextFile);
+      setSheet(data);
+    } catch (err) {
+      setFile(null);
+      setSheet(null);
+      setError(err instanceof Error ? err.message : 'Could not read file');
+    }
+  }, []);
+
+  const updateRow = useCallback((index: number, patch: Partial<BatchRow>) => {
+    setRows(prev => prev.map(row => (row.index === index ? { ...row, ...patch } : row)));
+  }, []);
+
+  const start = useCallback(async (mapping: ColumnMapping) => {
+    if (!sheet) return;
+
+    const initialRows: BatchRow[] = sheet.rows.map((cells, index) => ({
+      index,
+      phoneNumber: cells[mapping.phoneColumn] ?? '',
+      country: mapping.countryColumn === null ? '' : cells[mapping.countryColumn] ?? '',
+      status: 'queued',
+    }));
+
+    setRows(initialRows);
+    setSummary(null);
+    setError(null);
+    setIsProcessing(true);
+    cancelledRef.current = false;
+
+    try {
+      const batch = validationApi.validateBatch(
+        initialRows.map(row => toValidationRequest(row.phoneNumber, row.country)),
+        {
+          concurrency: BATCH_CONCURRENCY,
+          onProgress: (index, phase) => updateRow(index, { status: 'running', phase: formatPhase(phase) })
+        }
+      );
+
+      let next = await batch.next();
+      while (!next.done) {
+        const item = next.value as BatchItemResult;
+        updateRow(item.index, {
+          status: item.success ? 'complete' : 'error',
+          phase: undefined,
+          item
+        });
+
+        if (cancelledRef.current) {
+          await batch.return(undefined);
+          break;
+        }
+        next = await batch.next();
+      }
+
+      if (next.done) {
+        setSummary(next.value as BatchSummary);
+      }
+    } catch (err) {
+      console.error('Batch validation error:', err);
+      setError(err instanceof Error ? err.message : 'Batch validation failed');
+    } finally {
+      setIsProcessing(false);
+    }
+  }, [sheet, updateRow]);
+
+  const cancel = useCallback(() => {
+    cancelledRef.current = true;
+  }, []);
+
+  const downloadResults = useCallback(() => {
+    if (!sheet) return;
+
+    const validated = rows
+      .filter(row => row.item)
+      .map(row => ({ index: row.index, item: row.item! }));
+
+    const baseName = file?.name.replace(/\.(csv|xlsx)$/i, '') || 'validation';
+    downloadCsv(`${baseName}-validated.csv`, toExportRows(sheet, validated));
+  }, [sheet, rows, file]);
+
+  return {
+    file,
+    sheet,
+    rows,
+    summary,
+    isProcessing,
+    error,
+    loadFile,
+    start,
+    cancel,
+    downloadResults,
+  };
+}
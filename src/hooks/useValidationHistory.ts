@@ -0,0 +1,94 @@
+import { useState, useEffect, useCallback } from "react";
+import type { AuditFilter, AuditStats, ValidationAuditEntry } from "@/agents";
+import { hasSession } from "@/lib/session";
+import { validationAudit } from "@/lib/validationAudit";
+
+/**
+ * Past validations from the audit trail, reloaded whenever the filter changes.
+ * hasSession is false until this browser has run a validation (or when
+ * anonymous sign-ins are off): there's no owner to read history for.
+ */
+export function useValidationHistory(filter: AuditFilter) {
+  const [entries, setEntries] = useState<ValidationAuditEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [signedIn, setSignedIn] = useState(true);
+  const {
+    phoneNumber,
+    outcome,
+    countryCode,
+    lineType,
+    whatsapp,
+    minConfidence,
+    maxConfidence,
+    since,
+    until,
+    limit,
+  } = filter;
+
+  const load = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const session = await hasSession();
+      setSignedIn(session);
+      if (!session) {
+        setEntries([]);
+        return;
+      }
+
+      setEntries(await validationAudit.list({
+        phoneNumber,
+        outcome,
+        countryCode,
+        lineType,
+        whatsapp,
+        minConfidence,
+        maxConfidence,
+        since,
+        until,
+        limit,
+      }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not load validation history');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [phoneNumber, outcome, countryCode, lineType, whatsapp, minConfidence, maxConfidence, since, until, limit]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  return { entries, isLoading, error, hasSession: signedIn, reload: load };
+}
+
+const EMPTY_STATS: AuditStats = {
+  totalValidations: 0,
+  successRate: 0,
+  avgResponseTime: 0,
+  totalSaved: 0,
+};
+
+/**
+ * Aggregates over the audit trail for the stats bar; null until this browser
+ * has a session to own any validations
+ */
+export function useValidationStats() {
+  const [stats, setStats] = useState<AuditStats | null>(EMPTY_STATS);
+
+  const load = useCallback(async () => {
+    try {
+      const session = await hasSession();
+      setStats(session ? await validationAudit.stats() : null);
+    } catch (err) {
+      console.warn('Could not load validation stats:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  return { stats, reload: load };
+}
@@ -14,10 +14,222 @@ export type Database = {
   }
   public: {
     Tables: {
-      [_ in never]: never
+      message_logs: {
+        Row: {
+          campaign_id: string | null
+          country_code: string | null
+          created_at: string | null
+          delivered_at: string | null
+          error_code: string | null
+          error_message: string | null
+          error_type: string | null
+          failed_at: string | null
+          id: string
+          message_id: string | null
+          message_type: string | null
+          phone_number: string
+          read_at: string | null
+          sender_id: string | null
+          sent_at: string | null
+          status: string
+          updated_at: string | null
+          user_id: string | null
+        }
+        Insert: {
+          campaign_id?: string | null
+          country_code?: string | null
+          created_at?: string | null
+          delivered_at?: string | null
+          error_code?: string | null
+          error_message?: string | null
+          error_type?: string | null
+          failed_at?: string | null
+          id?: string
+          message_id?: string | null
+          message_type?: string | null
+          phone_number: string
+          read_at?: string | null
+          sender_id?: string | null
+          sent_at?: string | null
+          status: string
+          updated_at?: string | null
+          user_id?: string | null
+        }
+        Update: {
+          campaign_id?: string | null
+          country_code?: string | null
+          created_at?: string | null
+          delivered_at?: string | null
+          error_code?: string | null
+          error_message?: string | null
+          error_type?: string | null
+          failed_at?: string | null
+          id?: string
+          message_id?: string | null
+          message_type?: string | null
+          phone_number?: string
+          read_at?: string | null
+          sender_id?: string | null
+          sent_at?: string | null
+          status?: string
+          updated_at?: string | null
+          user_id?: string | null
+        }
+        Relationships: []
+      }
+      provider_traffic: {
+        Row: {
+          created_at: string | null
+          exchanges: Json
+          randoms: Json
+          requests: Json
+          session_id: string
+          started_at: string
+          updated_at: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          exchanges?: Json
+          randoms?: Json
+          requests?: Json
+          session_id: string
+          started_at: string
+          updated_at?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          exchanges?: Json
+          randoms?: Json
+          requests?: Json
+          session_id?: string
+          started_at?: string
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      validation_cache: {
+        Row: {
+          created_at: string | null
+          inactivity: Json | null
+          phone_e164: string
+          presence_cached_at: string | null
+          updated_at: string | null
+          validation: Json | null
+          validation_cached_at: string | null
+          whatsapp: Json | null
+        }
+        Insert: {
+          created_at?: string | null
+          inactivity?: Json | null
+          phone_e164: string
+          presence_cached_at?: string | null
+          updated_at?: string | null
+          validation?: Json | null
+          validation_cached_at?: string | null
+          whatsapp?: Json | null
+        }
+        Update: {
+          created_at?: string | null
+          inactivity?: Json | null
+          phone_e164?: string
+          presence_cached_at?: string | null
+          updated_at?: string | null
+          validation?: Json | null
+          validation_cached_at?: string | null
+          whatsapp?: Json | null
+        }
+        Relationships: []
+      }
+      validation_sessions: {
+        Row: {
+          agent_runs: Json
+          confidence_score: number | null
+          country_code: string | null
+          created_at: string | null
+          error_message: string | null
+          execution_plan: Json | null
+          execution_time_ms: number
+          id: string
+          line_type: string | null
+          model_version: string | null
+          phone_number: string
+          request: Json
+          result: Json | null
+          session_id: string
+          status: string
+          total_cost: number
+          user_id: string | null
+          valid: boolean | null
+          whatsapp_exists: boolean | null
+        }
+        Insert: {
+          agent_runs?: Json
+          confidence_score?: number | null
+          country_code?: string | null
+          created_at?: string | null
+          error_message?: string | null
+          execution_plan?: Json | null
+          execution_time_ms?: number
+          id?: string
+          line_type?: string | null
+          model_version?: string | null
+          phone_number: string
+          request: Json
+          result?: Json | null
+          session_id: string
+          status: string
+          total_cost?: number
+          user_id?: string | null
+          valid?: boolean | null
+          whatsapp_exists?: boolean | null
+        }
+        Update: {
+          agent_runs?: Json
+          confidence_score?: number | null
+          country_code?: string | null
+          created_at?: string | null
+          error_message?: string | null
+          execution_plan?: Json | null
+          execution_time_ms?: number
+          id?: string
+          line_type?: string | null
+          model_version?: string | null
+          phone_number?: string
+          request?: Json
+          result?: Json | null
+          session_id?: string
+          status?: string
+          total_cost?: number
+          user_id?: string | null
+          valid?: boolean | null
+          whatsapp_exists?: boolean | null
+        }
+        Relationships: []
+      }
     }
     Views: {
-      [_ in never]: never
+      validation_session_stats: {
+        Row: {
+          avg_response_time_ms: number | null
+          completed_validations: number | null
+          total_saved: number | null
+          total_validations: number | null
+        }
+        Relationships: []
+      }
+      whatsapp_inactivity_summary: {
+        Row: {
+          days_since_last_success: number | null
+          delivered_messages: number | null
+          failed_messages: number | null
+          failure_rate_percent: number | null
+          last_attempt: string | null
+          last_successful_delivery: string | null
+          phone_number: string | null
+          total_messages: number | null
+        }
+        Relationships: []
+      }
     }
     Functions: {
       [_ in never]: never
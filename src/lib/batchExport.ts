@@ -0,0 +1,115 @@
+import { ConfidenceAgent, getWhatsAppStatus } from "@/agents";
+import type { BatchItemResult } from "@/agents";
+import type { CellValue, SpreadsheetData } from "@/lib/spreadsheet";
+
+const confidenceAgent = new ConfidenceAgent();
+
+/**
+ * Columns appended to every uploaded row in the enriched CSV
+ */
+export const RESULT_COLUMNS = [
+  'validated_number',
+  'valid',
+  'country_code',
+  'country_name',
+  'carrier',
+  'line_type',
+  'formatted',
+  'validation_source',
+  'whatsapp_status',
+  'whatsapp_verified',
+  'whatsapp_business',
+  'confidence_score',
+  'confidence_reasoning',
+  'discrepancies',
+  'inactive',
+  'inactivity_score',
+  'inactivity_severity',
+  'delivery_probability',
+  'days_since_active',
+  'alternative_channels',
+  'recommendation',
+  'inactivity_recommendation',
+  'risk_level',
+  'estimated_cost',
+  'actual_cost',
+  'execution_time_ms',
+  'error',
+] as const;
+
+/**
+ * Flatten a batch item into the result columns (same order as RESULT_COLUMNS)
+ */
+export function toResultCells(item: BatchItemResult): CellValue[] {
+  const result = item.result;
+
+  if (!item.success || !result) {
+    return RESULT_COLUMNS.map(column => (column === 'error' ? item.error ?? 'Unknown error' : ''));
+  }
+
+  const { validation, whatsapp, confidence, inactivityStatus, executionPlan } = result;
+
+  return [
+    validation.phoneNumber,
+    validation.valid,
+    validation.countryCode,
+    validation.countryName,
+    validation.carrier ?? '',
+    validation.lineType,
+    validation.formatted ?? '',
+    validation.source,
+    getWhatsAppStatus(result),
+    whatsapp?.verified ?? '',
+    whatsapp?.businessAccount ?? '',
+    confidence.score,
+    confidence.reasoning,
+    confidence.discrepancies.join('; '),
+    inactivityStatus?.isInactive ?? '',
+    inactivityStatus?.inactivityScore ?? '',
+    inactivityStatus?.severity ?? '',
+    inactivityStatus?.deliveryProbability ?? '',
+    inactivityStatus?.daysSinceActive ?? '',
+    inactivityStatus?.alternativeChannels.join('; ') ?? '',
+    confidenceAgent.getRecommendation(confidence.score),
+    inactivityStatus?.recommendation ?? '',
+    executionPlan.riskLevel,
+    executionPlan.estimatedCost,
+    result.cost?.actual ?? '',
+    result.totalExecutionTime,
+    '',
+  ];
+}
+
+/**
+ * The enriched CSV: the uploaded columns, then RESULT_COLUMNS, for each
+ * validated row. Short rows are padded (and the header widened for long ones)
+ * so results always land under their headers.
+ */
+export function toExportRows(
+  sheet: SpreadsheetData,
+  rows: Array<{ index: number; item: BatchItemResult }>
+): CellValue[][] {
+  const width = rows.reduce((max, row) => Math.max(max, sheet.rows[row.index].length), sheet.headers.length);
+  const headers = Array.from({ length: width }, (_, i) => sheet.headers[i] ?? `Column ${i + 1}`);
+
+  const body = rows.map(({ index, item }) => [
+    ...Array.from({ length: width }, (_, i) => sheet.rows[index][i] ?? ''),
+    ...toResultCells(item),
+  ]);
+
+  return [[...headers, ...RESULT_COLUMNS], ...body].map(row => row.map(neutralizeFormula));
+}
+
+const FORMULA_START = /^[=+\-@\t\r]/;
+const NUMBER_LIKE = /^[+-]?[\d\s().-]+$/;
+
+/**
+ * Quote a text cell a spreadsheet would run as a formula (CSV injection).
+ * Phone numbers and negative numbers ("+14155552671", "-3") are left alone.
+ */
+export function neutralizeFormula(value: CellValue): CellValue {
+  if (typeof value !== 'string' || !FORMULA_START.test(value) || NUMBER_LIKE.test(value)) {
+    return value;
+  }
+  return `'${value}`;
+}
@@ -0,0 +1,35 @@
+import type { Session } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+
+let pending: Promise<Session | null> | null = null;
+
+/**
+ * This browser's Supabase session, signing in anonymously the first time.
+ * The app has no sign-in form, so the anonymous user is what owns the
+ * browser's validation history. Null when anonymous sign-ins are disabled.
+ */
+export function ensureSession(): Promise<Session | null> {
+  pending ??= (async () => {
+    const { data } = await supabase.auth.getSession();
+    if (data.session) return data.session;
+
+    const { data: signedIn, error } = await supabase.auth.signInAnonymously();
+    if (error) {
+      console.warn('Anonymous sign-in failed:', error.message);
+      return null;
+    }
+    return signedIn.session;
+  })().finally(() => {
+    pending = null;
+  });
+  return pending;
+}
+
+/**
+ * Whether this browser has a session yet, without signing in. Without one
+ * there is no validation history to read.
+ */
+export async function hasSession(): Promise<boolean> {
+  const { data } = await supabase.auth.getSession();
+  return data.session !== null;
+}
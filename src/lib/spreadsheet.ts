@@ -0,0 +1,111 @@
+export type CellValue = string | number | boolean | null | undefined;
+
+export interface SpreadsheetData {
+  headers: string[];
+  rows: string[][];
+}
+
+/**
+ * Parse CSV text (RFC 4180: quoted fields, escaped quotes, CRLF/LF line endings)
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  // Strip UTF-8 BOM added by Excel exports
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Drop blank lines
+  return rows.filter(r => r.some(cell => cell.trim() !== ''));
+}
+
+/**
+ * Serialize rows to CSV, quoting fields that need it
+ */
+export function toCsv(rows: CellValue[][]): string {
+  return rows
+    .map(row => row.map(escapeCsvField).join(','))
+    .join('\r\n');
+}
+
+function escapeCsvField(value: CellValue): string {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Read an uploaded CSV or XLSX file; the first row is treated as headers
+ */
+export async function readSpreadsheetFile(file: File): Promise<SpreadsheetData> {
+  let table: string[][];
+
+  if (/\.xlsx$/i.test(file.name)) {
+    // Loaded on demand so the XLSX parser stays out of the main bundle
+    const { default: readXlsxFile } = await import('read-excel-file');
+    const sheet = await readXlsxFile(file);
+    table = sheet.map(row => row.map(cell => (cell === null ? '' : String(cell))));
+  } else {
+    table = parseCsv(await file.text());
+  }
+
+  const [headerRow = [], ...rows] = table;
+  const headers = headerRow.map((header, i) => header.trim() || `Column ${i + 1}`);
+
+  return { headers, rows };
+}
+
+/**
+ * Trigger a browser download of CSV content
+ */
+export function downloadCsv(filename: string, rows: CellValue[][]): void {
+  const blob = new Blob([toCsv(rows)], { type: 'text/csv;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+
+  URL.revokeObjectURL(url);
+}
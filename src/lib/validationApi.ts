@@ -0,0 +1,22 @@
+import { ValidationApiClient } from "@/agents";
+import { ensureSession } from "@/lib/session";
+
+const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL;
+const SUPABASE_PUBLISHABLE_KEY = import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY;
+
+/**
+ * Client for the validate-number edge function, which runs the Supervisor
+ * with the provider keys kept in function secrets. Calls carry the browser's
+ * (anonymous) user's access token, which the function records as the owner of
+ * the audit entries; the publishable key when anonymous sign-ins are off.
+ */
+export const validationApi = new ValidationApiClient({
+  url: `${SUPABASE_URL}/functions/v1/validate-number`,
+  headers: async () => {
+    const session = await ensureSession();
+    return {
+      apikey: SUPABASE_PUBLISHABLE_KEY,
+      Authorization: `Bearer ${session?.access_token ?? SUPABASE_PUBLISHABLE_KEY}`,
+    };
+  },
+});
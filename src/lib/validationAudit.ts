@@ -0,0 +1,8 @@
+import { SupabaseValidationAuditLog } from "@/agents";
+import { supabase } from "@/integrations/supabase/client";
+
+/**
+ * Audit trail the validate-number function writes, read back for the history
+ * page and stats bar. RLS limits it to this browser's user's validations.
+ */
+export const validationAudit = new SupabaseValidationAuditLog(supabase);
@@ -0,0 +1,116 @@
+import { Header } from "@/components/Header";
+import { BatchUpload } from "@/components/BatchUpload";
+import { BatchResultsTable } from "@/components/BatchResultsTable";
+import { GlowCard } from "@/components/ui/GlowCard";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { useBatchValidation } from "@/hooks/useBatchValidation";
+import { AlertTriangle, Download, Layers, Square } from "lucide-react";
+
+const BatchValidation = () => {
+  const {
+    file,
+    sheet,
+    rows,
+    summary,
+    isProcessing,
+    error,
+    loadFile,
+    start,
+    cancel,
+    downloadResults,
+  } = useBatchValidation();
+
+  const finished = rows.filter(row => row.status === 'complete' || row.status === 'error').length;
+  const progress = rows.length > 0 ? (finished / rows.length) * 100 : 0;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+
+      <main className="container mx-auto px-4 py-8 space-y-8">
+        <section className="text-center space-y-4 py-4">
+          <h2 className="text-3xl md:text-4xl font-bold text-foreground">
+            Batch Validation
+          </h2>
+          <p className="text-muted-foreground max-w-2xl mx-auto">
+            Upload a CRM export, map the phone and country columns, and run every number
+            through the multi-agent pipeline. Download the enriched file when it finishes.
+          </p>
+        </section>
+
+        <GlowCard className="max-w-4xl mx-auto" variant="gradient">
+          <div className="flex items-center gap-2 mb-6">
+            <Layers className="w-5 h-5 text-primary" />
+            <h3 className="font-semibold">Upload & Column Mapping</h3>
+          </div>
+          <BatchUpload
+            file={file}
+            sheet={sheet}
+            isProcessing={isProcessing}
+            onFile={loadFile}
+            onStart={start}
+          />
+        </GlowCard>
+
+        {error && (
+          <Alert variant="destructive" className="max-w-4xl mx-auto">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertTitle>Batch validation problem</AlertTitle>
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {rows.length > 0 && (
+          <section className="space-y-4">
+            <div className="flex flex-col sm:flex-row sm:items-center gap-4">
+              <div className="flex-1 space-y-2">
+                <div className="flex justify-between text-xs text-muted-foreground font-mono">
+                  <span>{finished.toLocaleString()} / {rows.length.toLocaleString()} processed</span>
+                  <span>{Math.round(progress)}%</span>
+                </div>
+                <Progress value={progress} className="h-2" />
+              </div>
+
+              {isProcessing ? (
+                <Button variant="outline" onClick={cancel}>
+                  <Square className="w-4 h-4 mr-2" />
+                  Stop
+                </Button>
+              ) : (
+                <Button onClick={downloadResults} disabled={finished === 0}>
+                  <Download className="w-4 h-4 mr-2" />
+                  Download enriched CSV
+                </Button>
+              )}
+            </div>
+
+            {summary && (
+              <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-7 gap-3 p-4 rounded-lg bg-muted/30 border border-border text-center">
+                {[
+                  { label: 'Succeeded', value: summary.succeeded },
+                  { label: 'Failed', value: summary.failed },
+                  { label: 'Valid', value: summary.valid },
+                  { label: 'Invalid', value: summary.invalid },
+                  { label: 'On WhatsApp', value: summary.whatsapp },
+                  { label: 'Inactive', value: summary.inactive },
+                  { label: 'Total Cost', value: `$${summary.totalCost.toFixed(4)}` },
+                ].map(stat => (
+                  <div key={stat.label}>
+                    <p className="text-xl font-bold font-mono">{stat.value}</p>
+                    <p className="text-xs text-muted-foreground">{stat.label}</p>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <BatchResultsTable rows={rows} />
+          </section>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default BatchValidation;
@@ -36,7 +36,13 @@ const Index = () => {
         </section>
 
         {/* Stats Bar */}
-        <StatsBar {...stats} />
+        {stats ? (
+          <StatsBar {...stats} />
+        ) : (
+          <p className="text-center text-sm text-muted-foreground">
+            Stats cover the validations run in this browser and appear after your first one.
+          </p>
+        )}
 
         {/* Input Section */}
         <GlowCard className="max-w-3xl mx-auto" variant="gradient">
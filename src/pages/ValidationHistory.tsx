@@ -0,0 +1,251 @@
+import { useState } from "react";
+import { Header } from "@/components/Header";
+import { ValidationHistoryTable } from "@/components/ValidationHistoryTable";
+import { ValidationDetailDrawer } from "@/components/ValidationDetailDrawer";
+import { GlowCard } from "@/components/ui/GlowCard";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useValidationHistory } from "@/hooks/useValidationHistory";
+import type { AuditFilter, AuditOutcome, ValidationAuditEntry, ValidationData } from "@/agents";
+import { AlertTriangle, History, Info, RefreshCw, X } from "lucide-react";
+
+type OutcomeFilter = AuditOutcome | 'all';
+type LineTypeFilter = ValidationData['lineType'] | 'all';
+type WhatsAppFilter = 'all' | 'found' | 'not_found';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const emptyFilters = {
+  phoneNumber: '',
+  outcome: 'all' as OutcomeFilter,
+  countryCode: '',
+  lineType: 'all' as LineTypeFilter,
+  whatsapp: 'all' as WhatsAppFilter,
+  minConfidence: '',
+  maxConfidence: '',
+  since: '', // yyyy-mm-dd from the date inputs
+  until: '',
+};
+
+function optionalNumber(value: string): number | undefined {
+  return value.trim() === '' ? undefined : Number(value);
+}
+
+/**
+ * Form state to an audit filter; empty fields don't filter
+ */
+function toAuditFilter(filters: typeof emptyFilters): AuditFilter {
+  return {
+    phoneNumber: filters.phoneNumber.trim() || undefined,
+    outcome: filters.outcome === 'all' ? undefined : filters.outcome,
+    countryCode: filters.countryCode.trim() || undefined,
+    lineType: filters.lineType === 'all' ? undefined : filters.lineType,
+    whatsapp: filters.whatsapp === 'all' ? undefined : filters.whatsapp === 'found',
+    minConfidence: optionalNumber(filters.minConfidence),
+    maxConfidence: optionalNumber(filters.maxConfidence),
+    since: filters.since ? new Date(`${filters.since}T00:00`).getTime() : undefined, // Local midnight
+    until: filters.until ? new Date(`${filters.until}T00:00`).getTime() + DAY_MS - 1 : undefined, // Through the end of the day
+  };
+}
+
+const ValidationHistory = () => {
+  const [filters, setFilters] = useState(emptyFilters);
+  const [selected, setSelected] = useState<ValidationAuditEntry | null>(null);
+  const { entries, isLoading, error, hasSession, reload } = useValidationHistory(toAuditFilter(filters));
+
+  const update = <K extends keyof typeof emptyFilters>(key: K, value: (typeof emptyFilters)[K]) =>
+    setFilters(prev => ({ ...prev, [key]: value }));
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+
+      <main className="container mx-auto px-4 py-8 space-y-8">
+        <section className="text-center space-y-4 py-4">
+          <h2 className="text-3xl md:text-4xl font-bold text-foreground">
+            Validation History
+          </h2>
+          <p className="text-muted-foreground max-w-2xl mx-auto">
+            Every validation the agents ran, with its plan, agent calls, cost and outcome.
+            Filter the list, then open a validation to see the reasoning behind it.
+          </p>
+        </section>
+
+        <GlowCard className="max-w-4xl mx-auto" variant="gradient">
+          <div className="flex items-center justify-between mb-6">
+            <div className="flex items-center gap-2">
+              <History className="w-5 h-5 text-primary" />
+              <h3 className="font-semibold">Filters</h3>
+            </div>
+            <div className="flex gap-2">
+              <Button variant="ghost" size="sm" onClick={() => setFilters(emptyFilters)}>
+                <X className="w-4 h-4 mr-2" />
+                Clear
+              </Button>
+              <Button variant="outline" size="sm" onClick={reload} disabled={isLoading}>
+                <RefreshCw className={isLoading ? "w-4 h-4 mr-2 animate-spin" : "w-4 h-4 mr-2"} />
+                Refresh
+              </Button>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+            <div className="space-y-2 sm:col-span-2">
+              <Label htmlFor="history-phone">Phone number</Label>
+              <Input
+                id="history-phone"
+                placeholder="Search by phone number"
+                value={filters.phoneNumber}
+                onChange={(e) => update('phoneNumber', e.target.value)}
+                className="font-mono"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Outcome</Label>
+              <Select value={filters.outcome} onValueChange={(value) => update('outcome', value as OutcomeFilter)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All outcomes</SelectItem>
+                  <SelectItem value="valid">Valid</SelectItem>
+                  <SelectItem value="invalid">Invalid</SelectItem>
+                  <SelectItem value="failed">Failed</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="history-country">Country</Label>
+              <Input
+                id="history-country"
+                placeholder="e.g. US"
+                maxLength={2}
+                value={filters.countryCode}
+                onChange={(e) => update('countryCode', e.target.value.toUpperCase())}
+                className="font-mono uppercase"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Line type</Label>
+              <Select value={filters.lineType} onValueChange={(value) => update('lineType', value as LineTypeFilter)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All line types</SelectItem>
+                  <SelectItem value="mobile">Mobile</SelectItem>
+                  <SelectItem value="landline">Landline</SelectItem>
+                  <SelectItem value="voip">VoIP</SelectItem>
+                  <SelectItem value="unknown">Unknown</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>WhatsApp</Label>
+              <Select value={filters.whatsapp} onValueChange={(value) => update('whatsapp', value as WhatsAppFilter)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Any</SelectItem>
+                  <SelectItem value="found">On WhatsApp</SelectItem>
+                  <SelectItem value="not_found">Not on WhatsApp</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Confidence</Label>
+              <div className="flex items-center gap-2">
+                <Input
+                  type="number"
+                  min={0}
+                  max={100}
+                  placeholder="0"
+                  value={filters.minConfidence}
+                  onChange={(e) => update('minConfidence', e.target.value)}
+                />
+                <span className="text-muted-foreground">–</span>
+                <Input
+                  type="number"
+                  min={0}
+                  max={100}
+                  placeholder="100"
+                  value={filters.maxConfidence}
+                  onChange={(e) => update('maxConfidence', e.target.value)}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="history-since">From</Label>
+              <Input
+                id="history-since"
+                type="date"
+                value={filters.since}
+                onChange={(e) => update('since', e.target.value)}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="history-until">To</Label>
+              <Input
+                id="history-until"
+                type="date"
+                value={filters.until}
+                onChange={(e) => update('until', e.target.value)}
+              />
+            </div>
+          </div>
+        </GlowCard>
+
+        {error && (
+          <Alert variant="destructive" className="max-w-4xl mx-auto">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertTitle>Could not load history</AlertTitle>
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {!hasSession && (
+          <Alert className="max-w-4xl mx-auto">
+            <Info className="h-4 w-4" />
+            <AlertTitle>No history in this browser yet</AlertTitle>
+            <AlertDescription>
+              Validations are saved to an anonymous session for this browser, created on your first
+              validation. Run one from the home page and it will show up here. If it still doesn't,
+              anonymous sign-ins are turned off for this project, so history can't be kept.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {entries.length > 0 ? (
+          <ValidationHistoryTable entries={entries} onSelect={setSelected} />
+        ) : (
+          !isLoading && hasSession && (
+            <p className="text-center text-sm text-muted-foreground">
+              No validations match these filters yet.
+            </p>
+          )
+        )}
+
+        <ValidationDetailDrawer entry={selected} onClose={() => setSelected(null)} />
+      </main>
+    </div>
+  );
+};
+
+export default ValidationHistory;
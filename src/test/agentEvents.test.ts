@@ -0,0 +1,116 @@
+import { describe, it, expect, vi, afterEach, beforeAll, afterAll } from "vitest";
+import { AgentEventStream, DecisionAgent, Supervisor, RateLimiter } from "@/agents";
+import type { AgentEvent, AgentResponse } from "@/agents";
+import { MockProviderServer } from "./mocks/MockProviderServer";
+import { numberingPlanResponse } from "./mocks/numberingPlanResponses";
+
+const TWILIO = { accountSid: "AC00000000000000000000000000000001", authToken: "auth-token-0123456789" };
+const server = new MockProviderServer({}, numberingPlanResponse);
+
+function mockSupervisor() {
+  return new Supervisor({
+    apiConfig: {
+      primary: { numverify: "test_key_123", abstract: "test_key_456", twilio: TWILIO },
+      backup: {},
+      baseUrls: server.baseUrls,
+    },
+    enableLogging: false,
+    whatsappRateLimiter: new RateLimiter(0),
+    cache: false,
+  });
+}
+
+async function collect(events: AsyncGenerator<AgentEvent, unknown, undefined>) {
+  const seen: AgentEvent[] = [];
+  let next = await events.next();
+  while (!next.done) {
+    seen.push(next.value as AgentEvent);
+    next = await events.next();
+  }
+  return { seen, result: next.value };
+}
+
+describe("Agent event stream", () => {
+  beforeAll(async () => {
+    await server.start();
+  });
+
+  afterAll(async () => {
+    await server.stop();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("streams agent activity while a validation runs and returns the result", async () => {
+    const { seen, result } = await collect(mockSupervisor().stream({ phoneNumber: "+14155552671" }));
+
+    const types = seen.map(event => event.type);
+    expect(types).toContain("status");
+    expect(types).toContain("thought");
+    expect(types).toContain("phase");
+    expect(types).toContain("step");
+    expect(seen.at(-1)).toMatchObject({ type: "result", result });
+
+    const call = types.indexOf("tool_call");
+    const response = types.indexOf("tool_result");
+    expect(call).toBeGreaterThan(-1);
+    expect(response).toBeGreaterThan(call);
+    expect(seen[response]).toMatchObject({ agent: "validation", success: true });
+
+    const planning = seen.findIndex(event => event.type === "thought" && event.agent === "decision");
+    const scoring = seen.findIndex(event => event.type === "status" && event.agent === "confidence");
+    expect(planning).toBeGreaterThan(-1);
+    expect(scoring).toBeGreaterThan(planning);
+    expect(seen.every(event => typeof event.timestamp === "number")).toBe(true);
+  });
+
+  it("yields the error event before rethrowing a failed validation", async () => {
+    vi.spyOn(DecisionAgent.prototype, "execute").mockResolvedValue({
+      success: false,
+      agent: "decision",
+      metadata: { executionTime: 0, retriesAttempted: 0, toolsUsed: [], reasoning: [] },
+    } as AgentResponse);
+
+    const seen: AgentEvent[] = [];
+    const events = mockSupervisor().stream({ phoneNumber: "+14155552671" });
+
+    await expect((async () => {
+      for await (const event of events) seen.push(event);
+    })()).rejects.toThrow("Decision agent failed to create execution plan");
+
+    expect(seen.at(-1)).toMatchObject({
+      type: "error",
+      message: "Decision agent failed to create execution plan",
+    });
+  });
+
+  it("delivers events to subscribers until they unsubscribe", async () => {
+    const supervisor = mockSupervisor();
+    const received: AgentEvent[] = [];
+    const unsubscribe = supervisor.subscribe(event => received.push(event));
+
+    await supervisor.validate({ phoneNumber: "+14155552671" });
+    const count = received.length;
+    expect(received.some(event => event.type === "result")).toBe(true);
+
+    unsubscribe();
+    await supervisor.validate({ phoneNumber: "+14155552671" });
+    expect(received).toHaveLength(count);
+  });
+
+  it("keeps validating when a listener throws", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const stream = new AgentEventStream();
+    const received: string[] = [];
+
+    stream.subscribe(() => {
+      throw new Error("render failed");
+    });
+    stream.subscribe(event => received.push(event.type));
+    stream.emit({ type: "phase", phase: "PHASE 1: STRATEGIC PLANNING" });
+
+    expect(received).toEqual(["phase"]);
+  });
+});
@@ -0,0 +1,162 @@
+import { describe, it, expect, vi, afterEach, beforeAll, afterAll } from "vitest";
+import { MAX_BATCH_CONCURRENCY, Supervisor, RateLimiter } from "@/agents";
+import type { SupervisorConfig, ValidationResult } from "@/agents";
+import { MockProviderServer } from "./mocks/MockProviderServer";
+import { numberingPlanResponse } from "./mocks/numberingPlanResponses";
+
+const TWILIO = { accountSid: "AC00000000000000000000000000000001", authToken: "auth-token-0123456789" };
+const server = new MockProviderServer({}, numberingPlanResponse);
+
+const mockConfig = (): SupervisorConfig => ({
+  apiConfig: {
+    primary: { numverify: "test_key_123", abstract: "test_key_456", twilio: TWILIO },
+    backup: {},
+    baseUrls: server.baseUrls,
+  },
+  enableLogging: false,
+  whatsappRateLimiter: new RateLimiter(0),
+});
+
+function fakeResult(phoneNumber: string, valid: boolean): ValidationResult {
+  return {
+    phoneNumber,
+    validation: {
+      phoneNumber,
+      countryCode: "US",
+      countryName: "United States",
+      lineType: "mobile",
+      valid,
+      source: "numverify",
+      rawData: [],
+    },
+    whatsapp: { exists: valid, verified: false, businessAccount: false },
+    confidence: {
+      score: 90,
+      reasoning: "",
+      discrepancies: [],
+      recommendations: [],
+      modelVersion: "1.0.0",
+      breakdown: { baseScore: 100, rules: [] },
+    },
+    executionPlan: {
+      id: "plan",
+      steps: [],
+      estimatedCost: 0.001,
+      riskLevel: "low",
+      skipWhatsApp: false,
+      reasoning: [],
+    },
+    totalExecutionTime: 1,
+    chainOfThought: [],
+    chainOfExecution: [],
+  };
+}
+
+async function drain<T, R>(generator: AsyncGenerator<T, R>) {
+  const items: T[] = [];
+  let next = await generator.next();
+  while (!next.done) {
+    items.push(next.value as T);
+    next = await generator.next();
+  }
+  return { items, summary: next.value as R };
+}
+
+describe("Supervisor.validateBatch", () => {
+  beforeAll(async () => {
+    await server.start();
+  });
+
+  afterAll(async () => {
+    await server.stop();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("never runs more validations at once than the concurrency limit", async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+
+    vi.spyOn(Supervisor.prototype, "validate").mockImplementation(async (request) => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      inFlight--;
+      return fakeResult(request.phoneNumber, true);
+    });
+
+    const supervisor = new Supervisor(mockConfig());
+    const requests = Array.from({ length: 7 }, (_, i) => ({ phoneNumber: `+1415555000${i}` }));
+    const { items, summary } = await drain(supervisor.validateBatch(requests, { concurrency: 3 }));
+
+    expect(maxInFlight).toBe(3);
+    expect(items.map((item) => item.index).sort()).toEqual([0, 1, 2, 3, 4, 5, 6]);
+    expect(summary.total).toBe(7);
+  });
+
+  it("builds lanes only for the numbers it has, and never more than the cap", async () => {
+    const lanes = new Set<Supervisor>();
+    let inFlight = 0;
+    let maxInFlight = 0;
+
+    vi.spyOn(Supervisor.prototype, "validate").mockImplementation(async function (this: Supervisor, request) {
+      lanes.add(this);
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      inFlight--;
+      return fakeResult(request.phoneNumber, true);
+    });
+
+    const supervisor = new Supervisor(mockConfig());
+    const few = [{ phoneNumber: "+14155550000" }, { phoneNumber: "+14155550001" }];
+    await drain(supervisor.validateBatch(few, { concurrency: 1e9 }));
+    expect(lanes.size).toBe(2);
+
+    lanes.clear();
+    const many = Array.from({ length: 25 }, (_, i) => ({ phoneNumber: `+141555500${String(i).padStart(2, "0")}` }));
+    const { summary } = await drain(supervisor.validateBatch(many, { concurrency: 50 }));
+    expect(lanes.size).toBe(MAX_BATCH_CONCURRENCY);
+    expect(maxInFlight).toBe(MAX_BATCH_CONCURRENCY);
+    expect(summary.total).toBe(25);
+  });
+
+  it("aggregates per-number outcomes into the summary", async () => {
+    vi.spyOn(Supervisor.prototype, "validate").mockImplementation(async (request) => {
+      if (request.phoneNumber === "bad") throw new Error("Validation failed");
+      return fakeResult(request.phoneNumber, request.phoneNumber.endsWith("1"));
+    });
+
+    const supervisor = new Supervisor(mockConfig());
+    const { items, summary } = await drain(
+      supervisor.validateBatch([{ phoneNumber: "+11" }, { phoneNumber: "+12" }, { phoneNumber: "bad" }])
+    );
+
+    expect(items.find((item) => item.phoneNumber === "bad")?.error).toBe("Validation failed");
+    expect(summary).toMatchObject({
+      total: 3,
+      succeeded: 2,
+      failed: 1,
+      valid: 1,
+      invalid: 1,
+      whatsapp: 1,
+    });
+    expect(summary.totalCost).toBeCloseTo(0.002);
+  });
+
+  it("runs numbers through the full agent pipeline", async () => {
+    const supervisor = new Supervisor(mockConfig());
+    async function* stream() {
+      yield { phoneNumber: "+14155552671", country: "US" };
+      yield { phoneNumber: "+447700900123", country: "GB" };
+    }
+
+    const { items, summary } = await drain(supervisor.validateBatch(stream(), { concurrency: 2 }));
+
+    expect(items).toHaveLength(2);
+    expect(items.every((item) => item.success)).toBe(true);
+    expect(summary.succeeded).toBe(2);
+  });
+});
@@ -0,0 +1,149 @@
+import { describe, it, expect, vi, afterEach, beforeAll, afterAll } from "vitest";
+import {
+  CircuitBreaker,
+  DecisionAgent,
+  ProviderHealthRegistry,
+  RateLimiter,
+  RetryAgent,
+  Supervisor,
+  createLogger,
+  DEFAULT_CIRCUIT_CONFIG,
+} from "@/agents";
+import type { AgentResponse, APIConfig } from "@/agents";
+import { MockProviderServer } from "./mocks/MockProviderServer";
+import { numberingPlanResponse } from "./mocks/numberingPlanResponses";
+
+const API_CONFIG: APIConfig = {
+  primary: { numverify: "test_key_123", abstract: "test_key_456" },
+  backup: {},
+};
+
+const server = new MockProviderServer({}, numberingPlanResponse);
+
+function trip(health: ProviderHealthRegistry, tool: string) {
+  for (let i = 0; i < DEFAULT_CIRCUIT_CONFIG.failureThreshold; i++) {
+    health.recordFailure(tool, "503 Service Unavailable");
+  }
+}
+
+describe("Circuit breaker", () => {
+  beforeAll(async () => {
+    await server.start();
+  });
+
+  afterAll(async () => {
+    await server.stop();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it("opens on consecutive failures and recovers through a half-open trial", () => {
+    vi.useFakeTimers();
+    const breaker = new CircuitBreaker("numverify", { ...DEFAULT_CIRCUIT_CONFIG, failureThreshold: 3, cooldownMs: 1000 });
+
+    breaker.recordFailure("timeout");
+    breaker.recordFailure("timeout");
+    expect(breaker.getState()).toBe("closed");
+    breaker.recordFailure("timeout");
+    expect(breaker.getState()).toBe("open");
+    expect(breaker.tryAcquire()).toBe(false);
+
+    vi.advanceTimersByTime(1000);
+    expect(breaker.getState()).toBe("half_open");
+    expect(breaker.tryAcquire()).toBe(true);
+    expect(breaker.tryAcquire()).toBe(false); // Only one trial at a time
+
+    breaker.recordFailure("still down");
+    expect(breaker.getState()).toBe("open");
+
+    vi.advanceTimersByTime(1000);
+    expect(breaker.tryAcquire()).toBe(true);
+    breaker.recordSuccess(120);
+    expect(breaker.getState()).toBe("closed");
+    expect(breaker.getHealth()).toMatchObject({ totalCalls: 5, failures: 4, consecutiveFailures: 0 });
+  });
+
+  it("opens when the failure rate over the window crosses the threshold", () => {
+    const breaker = new CircuitBreaker("abstract", { ...DEFAULT_CIRCUIT_CONFIG, windowSize: 10, minimumCalls: 10 });
+
+    for (let i = 0; i < 5; i++) {
+      breaker.recordSuccess();
+      breaker.recordFailure("rate limited");
+    }
+
+    expect(breaker.getHealth()).toMatchObject({ state: "open", failureRate: 0.5, consecutiveFailures: 1 });
+  });
+
+  it("logs breaker transitions through the ObservabilityLogger", () => {
+    const logger = createLogger("test");
+    const logSystem = vi.spyOn(logger, "logSystem").mockImplementation(() => {});
+    const health = new ProviderHealthRegistry({}, logger);
+
+    trip(health, "numverify");
+
+    expect(health.openCircuits()).toEqual(["numverify"]);
+    expect(logSystem).toHaveBeenCalledWith(
+      expect.stringContaining("numverify closed → open"),
+      "warn",
+      expect.objectContaining({ tool: "numverify", to: "open" })
+    );
+  });
+
+  it("plans around providers whose circuit is open", async () => {
+    const agent = new DecisionAgent();
+
+    const substituted = await agent.execute({ phoneNumber: "+14155552671", openCircuits: ["numverify"] });
+    expect(substituted.data?.steps[0].tool).toBe("abstract");
+    expect(substituted.data?.reasoning).toContain("Circuit open for NumVerify: planning around it");
+
+    const noWhatsApp = await agent.execute({ phoneNumber: "+14155552671", openCircuits: ["whatsapp"] });
+    expect(noWhatsApp.data?.skipWhatsApp).toBe(true);
+
+    const none = await agent.execute({ phoneNumber: "+14155552671", openCircuits: ["numverify", "abstract"] });
+    expect(none.success).toBe(false);
+    expect(none.error?.message).toContain("circuit open for NumVerify, Abstract");
+  });
+
+  it("stops retrying once the failing tool's circuit is open", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    const health = new ProviderHealthRegistry({}, createLogger("test"));
+    trip(health, "numverify");
+    const task = vi.fn<() => Promise<AgentResponse>>();
+
+    const response = await new RetryAgent().execute({
+      originalError: { code: "NETWORK_ERROR", message: "timeout", recoverable: true },
+      originalTask: task,
+      apiConfig: API_CONFIG,
+      failedTool: "numverify",
+      health,
+    });
+
+    expect(task).not.toHaveBeenCalled();
+    expect(response.data?.context.attempts).toBe(0);
+    expect(response.data?.finalResponse.error?.code).toBe("CIRCUIT_OPEN");
+  });
+
+  it("shares provider health across Supervisors", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    const health = new ProviderHealthRegistry({}, createLogger("test"));
+    const supervisor = () => new Supervisor({
+      apiConfig: { ...API_CONFIG, baseUrls: server.baseUrls },
+      enableLogging: false,
+      whatsappRateLimiter: new RateLimiter(0),
+      cache: false,
+      health,
+    });
+
+    await supervisor().validate({ phoneNumber: "+14155552671" });
+    expect(health.getHealth("numverify")).toMatchObject({ state: "closed", totalCalls: 1, failures: 0 });
+
+    trip(health, "numverify");
+    const result = await supervisor().validate({ phoneNumber: "+14155552671" });
+
+    expect(result.executionPlan.steps[0].tool).toBe("abstract");
+    expect(result.validation.source).toBe("abstract");
+  });
+});
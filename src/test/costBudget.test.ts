@@ -0,0 +1,153 @@
+import { describe, it, expect, vi, afterEach, beforeAll, afterAll } from "vitest";
+import {
+  DecisionAgent,
+  Supervisor,
+  RateLimiter,
+  RetryAgent,
+  ValidationAgent,
+  createDefaultProviderRegistry,
+} from "@/agents";
+import type { APIConfig } from "@/agents";
+import { MockProviderServer } from "./mocks/MockProviderServer";
+import { numberingPlanResponse } from "./mocks/numberingPlanResponses";
+
+const TWILIO = { accountSid: "AC00000000000000000000000000000001", authToken: "auth-token-0123456789" };
+const server = new MockProviderServer({}, numberingPlanResponse);
+
+function mockSupervisor(apiConfig: Partial<APIConfig> = {}) {
+  return new Supervisor({
+    apiConfig: {
+      primary: { numverify: "test_key_123", abstract: "test_key_456", twilio: TWILIO },
+      backup: {},
+      baseUrls: server.baseUrls,
+      ...apiConfig,
+    },
+    enableLogging: false,
+    whatsappRateLimiter: new RateLimiter(0),
+    cache: false,
+  });
+}
+
+describe("Cost budget", () => {
+  beforeAll(async () => {
+    await server.start();
+  });
+
+  afterAll(async () => {
+    await server.stop();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("drops cross-validation, then the WhatsApp check, to fit maxCost", async () => {
+    const agent = new DecisionAgent();
+    const plan = async (maxCost?: number) =>
+      (await agent.execute({ phoneNumber: "+919876543210", userPreferences: { maxCost } })).data!;
+
+    const full = await plan();
+    const single = await plan(0.0025);
+    const minimal = await plan(0.002);
+
+    expect(full.steps.map((step) => step.action)).toContain("validate_with_abstract");
+    expect(full.estimatedCost).toBeCloseTo(0.0035);
+    expect(single.steps.map((step) => step.action)).toEqual([
+      "validate_with_numverify",
+      "check_whatsapp_existence",
+      "analyze_inactivity",
+      "calculate_confidence_score",
+    ]);
+    expect(single.estimatedCost).toBeCloseTo(0.0025);
+    expect(minimal.skipWhatsApp).toBe(true);
+    expect(minimal.estimatedCost).toBeCloseTo(0.001);
+    expect(minimal.reasoning.some((line) => line.includes("skipping WhatsApp check"))).toBe(true);
+
+    const unaffordable = await agent.execute({ phoneNumber: "+919876543210", userPreferences: { maxCost: 0.0005 } });
+    expect(unaffordable.success).toBe(false);
+    expect(unaffordable.error?.message).toContain("below the cheapest validation");
+  });
+
+  it("picks providers by the unit prices configured in APIConfig", async () => {
+    const agent = new DecisionAgent();
+    const plan = await agent.execute({ phoneNumber: "+14155552671", unitPrices: { numverify: 0.01 } });
+
+    expect(plan.data?.steps[0].tool).toBe("abstract");
+  });
+
+  it("reports actual against estimated cost and totals the session", async () => {
+    const supervisor = mockSupervisor({ prices: { numverify: 0.002, abstract: 0.004, whatsapp: 0.003 } });
+
+    const mobile = await supervisor.validate({ phoneNumber: "+14155552671" });
+    const tollFree = await supervisor.validate({ phoneNumber: "+18005551234" });
+
+    expect(mobile.cost).toMatchObject({ estimated: 0.005, actual: 0.005 });
+    expect(mobile.cost?.entries.map((entry) => entry.tool)).toEqual(["numverify", "whatsapp"]);
+    expect(tollFree.cost?.actual).toBeCloseTo(0.002);
+    expect(supervisor.getCostLedger().total).toBeCloseTo(0.007);
+    expect(supervisor.getCostLedger().byTool()).toEqual({ numverify: 0.004, whatsapp: 0.003 });
+  });
+
+  it("does not charge for calls sent without a credential", async () => {
+    const supervisor = mockSupervisor({ primary: { numverify: "test_key_123" } });
+
+    const result = await supervisor.validate({ phoneNumber: "+14155552671" });
+
+    expect(result.whatsapp).toBeDefined();
+    expect(result.cost?.entries.map((entry) => entry.tool)).toEqual(["numverify"]);
+    expect(result.cost?.actual).toBeCloseTo(0.001);
+    expect(supervisor.getCostLedger().byTool()).toEqual({ numverify: 0.001 });
+  });
+
+  it("counts retries against the budget", async () => {
+    const execute = ValidationAgent.prototype.execute;
+    vi.spyOn(ValidationAgent.prototype, "execute").mockImplementationOnce(async function (this: ValidationAgent) {
+      return {
+        success: false,
+        agent: "validation",
+        error: { code: "RATE_LIMIT", message: "Too many requests", recoverable: true },
+        metadata: { executionTime: 0, retriesAttempted: 0, toolsUsed: [], reasoning: [] },
+      };
+    });
+    const retry = vi.spyOn(RetryAgent.prototype, "execute").mockImplementation(async (input) => ({
+      success: true,
+      agent: "retry",
+      data: {
+        success: true,
+        finalResponse: await execute.call(new ValidationAgent(createDefaultProviderRegistry(server.baseUrls)), {
+          phoneNumber: "+18005551234",
+          tools: ["numverify"],
+          apiKeys: { numverify: "test_key_123" },
+        }),
+        context: { attempts: 1, maxAttempts: input.maxAttempts ?? 3, backoffDelay: 0, useBackupKey: true, failedTools: [] },
+      },
+      metadata: { executionTime: 0, retriesAttempted: 1, toolsUsed: [], reasoning: [] },
+    }));
+
+    const result = await mockSupervisor().validate({
+      phoneNumber: "+18005551234",
+      userPreferences: { maxCost: 0.0025 },
+    });
+
+    expect(retry.mock.calls[0][0].maxAttempts).toBe(1);
+    expect(result.cost?.entries.map((entry) => entry.kind)).toEqual(["call", "retry"]);
+    expect(result.cost?.actual).toBeCloseTo(0.002);
+    expect(result.cost?.estimated).toBeCloseTo(0.001);
+  });
+
+  it("does not retry once the budget is spent", async () => {
+    vi.spyOn(ValidationAgent.prototype, "execute").mockResolvedValue({
+      success: false,
+      agent: "validation",
+      error: { code: "RATE_LIMIT", message: "Too many requests", recoverable: true },
+      metadata: { executionTime: 0, retriesAttempted: 0, toolsUsed: [], reasoning: [] },
+    });
+    const retry = vi.spyOn(RetryAgent.prototype, "execute");
+
+    await expect(mockSupervisor().validate({
+      phoneNumber: "+18005551234",
+      userPreferences: { maxCost: 0.001 },
+    })).rejects.toThrow("Validation failed: Too many requests");
+    expect(retry).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect } from "vitest";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  InactiveAccountAgent,
+  InMemoryDeliveryHistoryRepository,
+  SupabaseDeliveryHistoryRepository,
+} from "@/agents";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const daysAgo = (days: number) => new Date(Date.now() - days * DAY_MS);
+
+describe("Delivery history", () => {
+  it("aggregates recorded messages like the whatsapp_inactivity_summary view", async () => {
+    const lastDelivery = daysAgo(20);
+    const repository = new InMemoryDeliveryHistoryRepository()
+      .record({ phoneNumber: "+919876543210", status: "read", sentAt: daysAgo(40), deliveredAt: daysAgo(40) })
+      .record({ phoneNumber: "+919876543210", status: "delivered", sentAt: lastDelivery, deliveredAt: lastDelivery })
+      .record({ phoneNumber: "+919876543210", status: "failed", sentAt: daysAgo(1) })
+      .record({ phoneNumber: "+14155552671", status: "delivered", deliveredAt: new Date() });
+
+    const history = await repository.getDeliveryHistory("+919876543210");
+
+    expect(history.totalMessages).toBe(3);
+    expect(history.deliveredMessages).toBe(2);
+    expect(history.failedMessages).toBe(1);
+    expect(history.lastSuccessfulDelivery).toEqual(lastDelivery);
+    expect(await repository.getDeliveryHistory("+447700900123")).toEqual({
+      totalMessages: 0,
+      deliveredMessages: 0,
+      failedMessages: 0,
+    });
+  });
+
+  it("scores inactivity from the number's real delivery history", async () => {
+    const repository = new InMemoryDeliveryHistoryRepository([
+      { phoneNumber: "+919876543210", status: "delivered", sentAt: daysAgo(400), deliveredAt: daysAgo(400) },
+      ...Array.from({ length: 9 }, () => ({ phoneNumber: "+919876543210", status: "undelivered" as const })),
+    ]);
+    const agent = new InactiveAccountAgent(repository);
+
+    const active = await new InactiveAccountAgent().execute({ phoneNumber: "+91 98765 43210" });
+    const dormant = await agent.execute({ phoneNumber: "+91 98765 43210" });
+
+    expect(active.data?.reasons).toContain("No delivery history available for analysis");
+    expect(dormant.data?.reasons).toContain("90% message delivery failure rate");
+    expect(dormant.data?.reasons).toContain("No successful delivery for 1 year");
+    expect(dormant.data!.inactivityScore).toBeGreaterThan(active.data!.inactivityScore);
+  });
+
+  it("finds the history of national-format numbers through the country hint", async () => {
+    const repository = new InMemoryDeliveryHistoryRepository(
+      Array.from({ length: 10 }, () => ({ phoneNumber: "+919876543210", status: "failed" as const }))
+    );
+    const agent = new InactiveAccountAgent(repository);
+
+    const response = await agent.execute({ phoneNumber: "09876543210", country: "IN" });
+
+    expect(response.data?.reasons).toContain("100% message delivery failure rate");
+  });
+
+  it("maps whatsapp_inactivity_summary rows from Supabase", async () => {
+    const queries: string[] = [];
+    const row = {
+      phone_number: "+919876543210",
+      total_messages: "12",
+      delivered_messages: 10,
+      failed_messages: 2,
+      last_successful_delivery: "2026-01-05T10:00:00",
+      last_attempt: "2026-01-06T10:00:00",
+    };
+    const client = {
+      from: (view: string) => {
+        queries.push(view);
+        return {
+          select: () => ({
+            eq: (_column: string, value: string) => ({
+              maybeSingle: async () => ({ data: value === row.phone_number ? row : null, error: null }),
+            }),
+          }),
+        };
+      },
+    } as unknown as SupabaseClient;
+
+    const repository = new SupabaseDeliveryHistoryRepository(client);
+    const history = await repository.getDeliveryHistory("+919876543210");
+
+    expect(queries).toEqual(["whatsapp_inactivity_summary"]);
+    expect(history).toEqual({
+      totalMessages: 12,
+      deliveredMessages: 10,
+      failedMessages: 2,
+      lastDeliveryAttempt: new Date("2026-01-06T10:00:00Z"),
+      lastSuccessfulDelivery: new Date("2026-01-05T10:00:00Z"),
+    });
+    expect((await repository.getDeliveryHistory("+14155552671")).totalMessages).toBe(0);
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import {
+  ProviderHealthRegistry,
+  RateLimiter,
+  Supervisor,
+  createLogger,
+  DEFAULT_CIRCUIT_CONFIG,
+} from "@/agents";
+import type { HttpTransport } from "@/agents";
+import { FakeClock } from "./mocks/FakeClock";
+
+const LIVE_KEY = "live-key-0123456789";
+
+const NUMVERIFY_BODY = {
+  valid: true,
+  number: "14155552671",
+  international_format: "+14155552671",
+  country_code: "US",
+  country_name: "United States of America",
+  carrier: "AT&T Mobility LLC",
+  line_type: "mobile",
+};
+
+/**
+ * Transport answering each call with the next scripted status, recording URLs
+ */
+function scriptedTransport(statuses: number[]) {
+  const urls: string[] = [];
+  const http = vi.fn<HttpTransport>(async (url) => {
+    urls.push(url);
+    const status = statuses[Math.min(urls.length - 1, statuses.length - 1)];
+    const body = status === 200 ? NUMVERIFY_BODY : { message: "Service Unavailable" };
+    return new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json" } });
+  });
+  return { http, urls };
+}
+
+describe("Agent dependencies", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("sends provider calls through the transport and backs off on the fake clock", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    const clock = new FakeClock(Date.UTC(2026, 0, 1));
+    const { http, urls } = scriptedTransport([503, 200]);
+    const supervisor = new Supervisor({
+      apiConfig: { primary: { numverify: LIVE_KEY }, backup: {} },
+      enableLogging: false,
+      whatsappRateLimiter: new RateLimiter(0, clock),
+      cache: false,
+      dependencies: { http, clock, random: () => 0.5 },
+    });
+
+    const result = await supervisor.validate({ phoneNumber: "+14155552671" });
+
+    expect(urls).toHaveLength(2);
+    expect(urls[0]).toContain("https://apilayer.net/api/validate?access_key=live-key-0123456789&number=14155552671");
+    expect(result.validation.carrier).toBe("AT&T Mobility LLC");
+    // Transient policy: 1000ms base, full jitter at 0.5 on the first retry
+    expect(clock.sleeps).toContain(500);
+    expect(result.totalExecutionTime).toBe(clock.now() - Date.UTC(2026, 0, 1));
+    expect(result.chainOfThought[0]).toMatch(/^\[2026-01-01T00:00:\d{2}\.\d{3}Z\]/);
+  });
+
+  it("spaces rate-limited requests with the clock instead of real timers", async () => {
+    const clock = new FakeClock();
+    const limiter = new RateLimiter(1100, clock);
+
+    const results = await Promise.all([1, 2, 3].map((n) => limiter.schedule(async () => n)));
+
+    expect(results).toEqual([1, 2, 3]);
+    expect(clock.sleeps).toEqual([1100, 1100, 1100]);
+    expect(clock.now()).toBe(3300);
+  });
+
+  it("times circuit breaker cooldowns with the injected clock", () => {
+    const clock = new FakeClock();
+    const health = new ProviderHealthRegistry({ cooldownMs: 30000 }, createLogger("test"), clock);
+
+    for (let i = 0; i < DEFAULT_CIRCUIT_CONFIG.failureThreshold; i++) {
+      health.recordFailure("numverify", "503 Service Unavailable");
+    }
+    expect(health.isAvailable("numverify")).toBe(false);
+
+    clock.advance(29999);
+    expect(health.isAvailable("numverify")).toBe(false);
+    clock.advance(1);
+    expect(health.breaker("numverify").getState()).toBe("half_open");
+  });
+});
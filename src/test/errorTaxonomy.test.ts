@@ -0,0 +1,203 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import {
+  AbstractProvider,
+  NumVerifyProvider,
+  RetryAgent,
+  classifyAgentError,
+  fetchWithTimeout,
+  fullJitterDelay,
+  parseRetryAfter,
+  DEFAULT_RETRY_POLICIES,
+} from "@/agents";
+import type { AgentResponse, APIConfig } from "@/agents";
+import { FakeClock } from "./mocks/FakeClock";
+
+const API_CONFIG: APIConfig = { primary: {}, backup: {} };
+
+const OK: AgentResponse = {
+  success: true,
+  agent: "validation",
+  metadata: { executionTime: 0, retriesAttempted: 0, toolsUsed: [], reasoning: [] },
+};
+
+function failure(code: string, extra: Partial<NonNullable<AgentResponse["error"]>> = {}): AgentResponse {
+  return { ...OK, success: false, error: { code, message: code, recoverable: true, ...extra } };
+}
+
+function mockSleep() {
+  return vi.spyOn(RetryAgent.prototype as unknown as { sleep: (ms: number) => Promise<void> }, "sleep").mockResolvedValue();
+}
+
+describe("Error taxonomy", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it("classifies agent codes, HTTP statuses and provider-specific codes", () => {
+    expect(classifyAgentError({ code: "AUTH_ERROR" })).toBe("auth");
+    expect(classifyAgentError({ code: "429" })).toBe("rate_limit");
+    expect(classifyAgentError({ code: "503" })).toBe("transient");
+    expect(classifyAgentError({ code: "TIMEOUT" })).toBe("transient");
+    expect(classifyAgentError({ code: "400" })).toBe("invalid_input");
+    expect(classifyAgentError({ code: "500" })).toBe("provider_bug");
+    expect(classifyAgentError({ code: "NO_DATA", errorClass: "quota" })).toBe("quota");
+
+    expect(new NumVerifyProvider().classifyError({ code: "104", message: "" })).toBe("quota");
+    expect(new NumVerifyProvider().classifyError({ code: "106", message: "" })).toBe("rate_limit");
+    expect(new AbstractProvider().classifyError({ code: "422", message: "" })).toBe("quota");
+  });
+
+  it("reads Retry-After seconds, HTTP dates and X-RateLimit-Reset", () => {
+    const now = Date.parse("2026-01-01T00:00:00Z");
+
+    expect(parseRetryAfter(new Headers({ "Retry-After": "3" }), now)).toBe(3000);
+    expect(parseRetryAfter(new Headers({ "Retry-After": "Thu, 01 Jan 2026 00:00:05 GMT" }), now)).toBe(5000);
+    expect(parseRetryAfter(new Headers({ "X-RateLimit-Reset": String(now / 1000 + 7) }), now)).toBe(7000);
+    expect(parseRetryAfter(new Headers({ "X-RateLimit-Reset": "2" }), now)).toBe(2000);
+    expect(parseRetryAfter(new Headers(), now)).toBeUndefined();
+  });
+
+  it("draws full-jitter delays below the exponential cap", () => {
+    const policy = DEFAULT_RETRY_POLICIES.transient;
+
+    expect(fullJitterDelay(policy, 1, () => 0.5)).toBe(500);
+    expect(fullJitterDelay(policy, 3, () => 0.999)).toBe(3996);
+    expect(fullJitterDelay(policy, 10, () => 0.999)).toBe(9990); // Capped at maxDelayMs
+  });
+
+  it("waits as long as the provider's Retry-After asks", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    const sleep = mockSleep();
+    const task = vi.fn<() => Promise<AgentResponse>>().mockResolvedValue(OK);
+
+    const response = await new RetryAgent().execute({
+      originalError: { code: "RATE_LIMIT", message: "slow down", recoverable: true, retryAfterMs: 4000 },
+      originalTask: task,
+      apiConfig: API_CONFIG,
+      failedTool: "numverify",
+    });
+
+    expect(sleep).toHaveBeenCalledWith(4000);
+    expect(response.data?.success).toBe(true);
+    expect(response.data?.context).toMatchObject({ attempts: 1, errorClass: "rate_limit", backoffDelay: 4000 });
+  });
+
+  it("never retries invalid input and only retries auth errors with another key", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    mockSleep();
+    const task = vi.fn<() => Promise<AgentResponse>>().mockResolvedValue(OK);
+    const agent = new RetryAgent();
+
+    const invalid = await agent.execute({
+      originalError: { code: "400", message: "bad number", recoverable: true },
+      originalTask: task,
+      apiConfig: API_CONFIG,
+      failedTool: "numverify",
+    });
+    const auth = await agent.execute({
+      originalError: { code: "AUTH_ERROR", message: "bad key", recoverable: true },
+      originalTask: task,
+      apiConfig: API_CONFIG,
+      failedTool: "numverify",
+    });
+
+    expect(task).not.toHaveBeenCalled();
+    expect(invalid.data?.finalResponse.error?.code).toBe("400");
+    expect(auth.data?.finalResponse.error).toMatchObject({ code: "AUTH_ERROR", errorClass: "auth" });
+  });
+
+  it("re-evaluates the policy when the error class changes between attempts", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    mockSleep();
+    const task = vi.fn<() => Promise<AgentResponse>>()
+      .mockResolvedValueOnce(failure("400"))
+      .mockResolvedValue(OK);
+
+    const response = await new RetryAgent().execute({
+      originalError: { code: "NETWORK_ERROR", message: "reset", recoverable: true },
+      originalTask: task,
+      apiConfig: API_CONFIG,
+      failedTool: "numverify",
+    });
+
+    expect(task).toHaveBeenCalledTimes(1);
+    expect(response.data?.success).toBe(false);
+    expect(response.data?.context.errorClass).toBe("invalid_input");
+  });
+
+  it("gives up when Retry-After exceeds the policy's longest wait", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    const sleep = mockSleep();
+    const task = vi.fn<() => Promise<AgentResponse>>();
+
+    const response = await new RetryAgent({ rate_limit: { maxDelayMs: 5000 } }).execute({
+      originalError: { code: "429", message: "slow down", recoverable: true, retryAfterMs: 60000 },
+      originalTask: task,
+      apiConfig: API_CONFIG,
+      failedTool: "abstract",
+    });
+
+    expect(sleep).not.toHaveBeenCalled();
+    expect(task).not.toHaveBeenCalled();
+    expect(response.data?.finalResponse.error?.code).toBe("SYSTEM_FAILURE");
+  });
+
+  it("aborts hung requests and reports them as timeouts", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.stubGlobal("fetch", vi.fn((_url: string, init: RequestInit) => new Promise((_resolve, reject) => {
+      init.signal?.addEventListener("abort", () => reject(new DOMException("aborted", "AbortError")));
+    })));
+
+    await expect(fetchWithTimeout("https://example.test", {}, 10)).rejects.toThrow("timed out after 10ms");
+
+    const provider = new NumVerifyProvider();
+    provider.timeoutMs = 10;
+    const result = await provider.lookup("+14155552671", "live-key-0123456789");
+    expect(result.error?.code).toBe("TIMEOUT");
+    expect(provider.classifyError(result.error!)).toBe("transient");
+  });
+
+  it("keeps the provider's Retry-After on HTTP errors", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.stubGlobal("fetch", vi.fn(async () => new Response("", {
+      status: 429,
+      statusText: "Too Many Requests",
+      headers: { "Retry-After": "2" },
+    })));
+
+    const result = await new AbstractProvider().lookup("+14155552671", "live-key-0123456789");
+
+    expect(result.error).toEqual({ code: "429", message: "Too Many Requests", retryAfterMs: 2000 });
+  });
+
+  it("times requests out and dates Retry-After on the provider's clock", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    const clock = new FakeClock(Date.UTC(2026, 0, 1));
+    const hang = vi.fn((_url: string, init: RequestInit) => new Promise<Response>((_resolve, reject) => {
+      init.signal?.addEventListener("abort", () => reject(new DOMException("aborted", "AbortError")));
+    }));
+
+    const pending = fetchWithTimeout("https://example.test", {}, 5000, hang, clock);
+    clock.advance(4999);
+    clock.advance(1);
+    await expect(pending).rejects.toThrow("timed out after 5000ms");
+
+    // Headers arrive, then the body stalls
+    const stalledBody = vi.fn(async () => new Response(new ReadableStream({ start: () => {} }), { status: 200 }));
+    const bodyClock = new FakeClock(Date.UTC(2026, 0, 1));
+    const reading = fetchWithTimeout("https://example.test", {}, 5000, stalledBody, bodyClock);
+    await vi.waitFor(() => expect(stalledBody).toHaveBeenCalled());
+    bodyClock.advance(5000);
+    await expect(reading).rejects.toThrow("timed out after 5000ms");
+
+    const throttled = vi.fn(async () => new Response("", {
+      status: 429,
+      statusText: "Too Many Requests",
+      headers: { "Retry-After": "Thu, 01 Jan 2026 00:00:35 GMT" },
+    }));
+    const result = await new AbstractProvider({ http: throttled, clock }).lookup("+14155552671", "live-key-0123456789");
+    expect(result.error?.retryAfterMs).toBe(30000);
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { readFileSync } from "node:fs";
+import path from "path";
+import {
+  EvaluationHarness,
+  LABELED_FIXTURES,
+  binaryMetrics,
+  calibrationCurve,
+  compareWithBaseline,
+  toBaseline,
+} from "@/agents";
+import type { EvaluationBaseline, EvaluationCase, LabeledFixture } from "@/agents";
+import { MockProviderServer } from "./mocks/MockProviderServer";
+import { numberingPlanResponse } from "./mocks/numberingPlanResponses";
+
+const BASELINE: EvaluationBaseline = JSON.parse(
+  readFileSync(path.resolve(__dirname, "../agents/evaluation/baseline.json"), "utf8")
+);
+
+function scored(score: number, correct: boolean): EvaluationCase {
+  const fixture: LabeledFixture = {
+    id: `case-${score}`,
+    phoneNumber: "+14155552671",
+    truth: { valid: true, lineType: "mobile", whatsapp: false },
+  };
+  return { fixture, predicted: { valid: true, lineType: "mobile", whatsapp: false }, score, correct };
+}
+
+describe("Evaluation harness", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("computes precision, recall and f1 from predictions", () => {
+    const metrics = binaryMetrics([
+      [true, true],
+      [true, true],
+      [true, false],
+      [false, true],
+      [false, false],
+    ]);
+
+    expect(metrics).toMatchObject({ truePositives: 2, falsePositives: 1, falseNegatives: 1, trueNegatives: 1 });
+    expect(metrics.precision).toBeCloseTo(0.6667, 4);
+    expect(metrics.recall).toBeCloseTo(0.6667, 4);
+    expect(metrics.accuracy).toBe(0.6);
+  });
+
+  it("buckets confidence scores into a calibration curve", () => {
+    const curve = calibrationCurve([scored(95, true), scored(100, false), scored(42, true)], 10);
+
+    expect(curve).toHaveLength(10);
+    expect(curve[9]).toEqual({ min: 90, max: 100, count: 2, meanConfidence: 0.975, accuracy: 0.5 });
+    expect(curve[4]).toMatchObject({ min: 40, max: 49, count: 1, accuracy: 1 });
+    expect(curve[0].count).toBe(0);
+  });
+
+  it("flags metrics that got worse than the baseline", () => {
+    const baseline: EvaluationBaseline = {
+      modelVersion: "1.0.0",
+      metrics: { "validity.recall": 0.9, "whatsapp.precision": 0.5, "calibration.ece": 0.1 },
+    };
+    const report = {
+      modelVersion: "1.1.0",
+      cases: [],
+      validity: binaryMetrics([[true, true], [false, true]]), // recall 0.5
+      whatsapp: binaryMetrics([[true, true]]), // precision 1
+      lineTypeAccuracy: 1,
+      calibration: [],
+      expectedCalibrationError: 0.2,
+    };
+
+    expect(compareWithBaseline(report, baseline)).toEqual([
+      { metric: "validity.recall", baseline: 0.9, current: 0.5 },
+      { metric: "calibration.ece", baseline: 0.1, current: 0.2 },
+    ]);
+  });
+
+  it("matches the stored baseline on the labeled fixtures", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    const server = await new MockProviderServer({}, numberingPlanResponse).start();
+    const report = await new EvaluationHarness({ baseUrls: server.baseUrls }).run().finally(() => server.stop());
+
+    expect(report.cases).toHaveLength(LABELED_FIXTURES.length);
+    expect(compareWithBaseline(report, BASELINE)).toEqual([]);
+    expect(toBaseline(report).modelVersion).toBe(BASELINE.modelVersion);
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { KeyRing, NumVerifyProvider, RateLimiter, RetryAgent, Supervisor } from "@/agents";
+import type { APIConfig, ProviderResponse } from "@/agents";
+
+const LIVE_RESPONSE: ProviderResponse = {
+  data: {
+    valid: true,
+    countryCode: "US",
+    countryName: "United States",
+    carrier: "AT&T Mobility",
+    lineType: "mobile",
+    raw: {},
+  },
+};
+
+function failoverSupervisor(apiConfig: APIConfig) {
+  return new Supervisor({
+    apiConfig,
+    enableLogging: false,
+    whatsappRateLimiter: new RateLimiter(0),
+    cache: false,
+  });
+}
+
+describe("Key failover", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("orders credentials primary, backup, then rotation keys", () => {
+    const ring = KeyRing.forTool(
+      {
+        primary: { numverify: "key-a" },
+        backup: { numverify: "key-b" },
+        rotation: { keys: { numverify: ["key-a", "key-c"] } },
+      },
+      "numverify"
+    );
+
+    expect(ring.slots.map((slot) => `${slot.label}=${slot.credential}`)).toEqual([
+      "primary=key-a",
+      "backup=key-b",
+      "rotation 2=key-c",
+    ]);
+    expect(ring.forAttempt(1)?.label).toBe("backup");
+    expect(ring.forAttempt(3)?.label).toBe("primary");
+
+    const twilio = KeyRing.forTwilio({
+      primary: { twilio: { accountSid: "AC1" } },
+      backup: { twilio: { accountSid: "AC2", authToken: "token" } },
+    });
+    expect(twilio.primary).toMatchObject({ label: "backup", credential: { accountSid: "AC2" } });
+  });
+
+  it("retries with the backup key and reports the slot that answered", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(RetryAgent.prototype as unknown as { sleep: () => Promise<void> }, "sleep").mockResolvedValue();
+    const lookup = vi.spyOn(NumVerifyProvider.prototype, "lookup").mockImplementation(async (_phone, apiKey) =>
+      apiKey === "key-b" ? LIVE_RESPONSE : { error: { code: "101", message: "Invalid access key" } }
+    );
+
+    const result = await failoverSupervisor({
+      primary: { numverify: "key-a" },
+      backup: { numverify: "key-b" },
+    }).validate({ phoneNumber: "+14155552671" });
+
+    expect(lookup.mock.calls.map(([, apiKey]) => apiKey)).toEqual(["key-a", "key-b"]);
+    expect(result.validation.carrier).toBe("AT&T Mobility");
+    expect(result.keySlots?.numverify).toBe("backup");
+    expect(result.chainOfExecution).toContain("Retry Agent: numverify succeeded with backup key");
+    // No Twilio account is configured, so the WhatsApp check sends nothing and costs nothing
+    expect(result.cost?.entries.map((entry) => [entry.tool, entry.kind])).toEqual([
+      ["numverify", "call"],
+      ["numverify", "retry"],
+    ]);
+  });
+
+  it("rotates through every configured key before wrapping around", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(RetryAgent.prototype as unknown as { sleep: () => Promise<void> }, "sleep").mockResolvedValue();
+    const lookup = vi.spyOn(NumVerifyProvider.prototype, "lookup").mockImplementation(async (_phone, apiKey) =>
+      apiKey === "key-d" ? LIVE_RESPONSE : { error: { code: "101", message: "Invalid access key" } }
+    );
+
+    const result = await failoverSupervisor({
+      primary: { numverify: "key-a" },
+      backup: {},
+      rotation: { keys: { numverify: ["key-c", "key-d"] } },
+    }).validate({ phoneNumber: "+14155552671" });
+
+    expect(lookup.mock.calls.map(([, apiKey]) => apiKey)).toEqual(["key-a", "key-c", "key-d"]);
+    expect(result.keySlots?.numverify).toBe("rotation 2");
+  });
+});
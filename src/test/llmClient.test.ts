@@ -0,0 +1,101 @@
+import { describe, it, expect } from "vitest";
+import {
+  LLMOutputError,
+  ProviderRegistry,
+  RateLimiter,
+  StubLLMClient,
+  Supervisor,
+  completeJson,
+  validateJsonSchema,
+} from "@/agents";
+import type { JsonSchema, ValidationProvider } from "@/agents";
+
+// Two keyless providers that disagree on the carrier, as after a port
+const provider = (name: string, carrier: string): ValidationProvider => ({
+  name,
+  displayName: name.toUpperCase(),
+  costPerCall: 0.001,
+  capabilities: ["validity", "line_type", "carrier"],
+  requiresApiKey: false,
+  lookup: async () => ({ data: { valid: true, carrier, lineType: "mobile", countryCode: "NG", raw: {} } }),
+  classifyError: () => "provider_bug",
+});
+
+const carrierSchema: JsonSchema = {
+  type: "object",
+  properties: { carrier: { type: "string", enum: ["MTN", "Glo"] }, reason: { type: "string" } },
+  required: ["carrier", "reason"],
+};
+
+function supervisorWith(llm?: StubLLMClient) {
+  return new Supervisor({
+    apiConfig: { primary: {}, backup: {} },
+    providers: new ProviderRegistry([provider("hlr-a", "MTN"), provider("hlr-b", "Glo")]),
+    enableLogging: false,
+    whatsappRateLimiter: new RateLimiter(0),
+    cache: false,
+    llm,
+  });
+}
+
+describe("LLM reasoning backend", () => {
+  it("checks model output against the schema", async () => {
+    expect(validateJsonSchema({ carrier: "MTN", reason: "ported" }, carrierSchema)).toEqual([]);
+    expect(validateJsonSchema({ carrier: "Airtel" }, carrierSchema)).toEqual([
+      "$.reason: required",
+      '$.carrier: expected one of "MTN", "Glo"',
+    ]);
+
+    const stub = new StubLLMClient({ rules: [{ match: /carrier/, respond: () => "Probably MTN, but who knows" }] });
+    const request = { messages: [{ role: "user" as const, content: "Which carrier?" }], schema: carrierSchema };
+    await expect(completeJson(stub, request)).rejects.toBeInstanceOf(LLMOutputError);
+
+    // Without a rule the stub answers the schema's simplest value, the same every time
+    const fallback = new StubLLMClient();
+    const first = await completeJson(fallback, request);
+    expect(first.data).toEqual({ carrier: "MTN", reason: "" });
+    expect((await completeJson(fallback, request)).completion).toEqual(first.completion);
+  });
+
+  it("resolves conflicting carriers and explains discrepancies, charging tokens to the ledger", async () => {
+    const llm = new StubLLMClient({
+      pricing: { prompt: 0.001, completion: 0.002 },
+      rules: [
+        { match: /different carriers/, respond: () => ({ carrier: "Glo", reason: "Number was ported to Glo" }) },
+        { match: /discrepancies/, respond: () => ({ explanation: "HLR-A still reports the pre-port carrier." }) },
+      ],
+    });
+    const supervisor = supervisorWith(llm);
+
+    const result = await supervisor.validate({ phoneNumber: "+2348031234567" });
+
+    expect(result.validation.source).toBe("both");
+    expect(result.validation.carrier).toBe("Glo");
+    expect(result.confidence.discrepancies[0]).toContain("Carrier mismatch");
+    expect(result.confidence.explanation).toBe("HLR-A still reports the pre-port carrier.");
+
+    // Both agents sent their own system prompt
+    expect(llm.requests.map((request) => request.messages[0].content)).toEqual([
+      expect.stringContaining("specialist in phone metadata"),
+      expect.stringContaining("forensic data analyst"),
+    ]);
+
+    const usage = supervisor.getLLMUsage()!;
+    expect(usage.calls).toHaveLength(2);
+    const llmEntries = result.cost!.entries.filter((entry) => entry.tool === "llm");
+    expect(llmEntries).toHaveLength(2);
+    expect(llmEntries[0].tokens!.prompt).toBeGreaterThan(0);
+    expect(llmEntries.reduce((sum, entry) => sum + entry.amount, 0)).toBeCloseTo(usage.totals.cost);
+  });
+
+  it("keeps the rule-based answer when the model's output is unusable", async () => {
+    const llm = new StubLLMClient({ rules: [{ match: () => true, respond: () => ({ carrier: "Airtel", reason: "guess" }) }] });
+    const withBadModel = await supervisorWith(llm).validate({ phoneNumber: "+2348031234567" });
+    const rulesOnly = await supervisorWith().validate({ phoneNumber: "+2348031234567" });
+
+    expect(withBadModel.validation.carrier).toBe(rulesOnly.validation.carrier);
+    expect(withBadModel.confidence.explanation).toBeUndefined();
+    expect(withBadModel.confidence.score).toBe(rulesOnly.confidence.score);
+    expect(withBadModel.chainOfThought.some((thought) => thought.includes("Model answer unusable"))).toBe(true);
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, it, expect } from "vitest";
+import { DecisionAgent, MessageBus, ProviderRegistry, RateLimiter, Supervisor } from "@/agents";
+import type { AgentMessage, AgentResponse, ProviderResult, ValidationProvider } from "@/agents";
+import { FakeClock } from "./mocks/FakeClock";
+
+const provider = (name: string, carrier: string): ValidationProvider => ({
+  name,
+  displayName: name.toUpperCase(),
+  costPerCall: 0.001,
+  capabilities: ["validity", "line_type", "carrier"],
+  requiresApiKey: false,
+  lookup: async () => ({ data: { valid: true, carrier, lineType: "mobile", countryCode: "NG", raw: {} } }),
+  classifyError: () => "provider_bug",
+});
+
+const summarize = ({ type, from, to }: AgentMessage) => `${type} ${from}->${to}`;
+
+describe("Agent message bus", () => {
+  it("logs the session's tasks, results and agent-to-agent queries", async () => {
+    const supervisor = new Supervisor({
+      apiConfig: { primary: {}, backup: {} },
+      providers: new ProviderRegistry([provider("hlr-a", "MTN"), provider("hlr-b", "Glo")]),
+      enableLogging: false,
+      whatsappRateLimiter: new RateLimiter(0),
+      cache: false,
+    });
+
+    const result = await supervisor.validate({ phoneNumber: "+2348031234567" });
+    const log = supervisor.getMessageLog();
+
+    expect(log[0]).toMatchObject({ type: "task", from: "supervisor", to: "decision", reasoning: "Plan the validation" });
+    expect(supervisor.getState().messageQueue).toEqual(log);
+
+    // Every task is answered by the agent it went to
+    const tasks = log.filter((message) => message.type === "task");
+    expect(tasks.map((task) => task.to)).toEqual(expect.arrayContaining(["decision", "validation", "whatsapp", "inactive", "confidence"]));
+    for (const task of tasks) {
+      const reply = log.find((message) => message.replyTo === task.id)!;
+      expect(reply.type).toBe("result");
+      expect(reply.from).toBe(task.to);
+      expect((reply.content as AgentResponse).agent).toBe(task.to);
+    }
+
+    // The Confidence Agent asks the Validation Agent for both providers' answers mid-run
+    const query = log.find((message) => message.type === "query")!;
+    expect(query).toMatchObject({ from: "confidence", to: "validation", content: { topic: "provider_data", phoneNumber: "+2348031234567" } });
+    const answer = log.find((message) => message.replyTo === query.id)!;
+    expect(summarize(answer)).toBe("result validation->confidence");
+    expect((answer.content as ProviderResult[]).map((entry) => entry.data.carrier)).toEqual(["MTN", "Glo"]);
+    expect(result.confidence.discrepancies[0]).toContain("Carrier mismatch");
+
+    const confidenceTask = tasks.find((task) => task.to === "confidence")!;
+    expect(log.indexOf(query)).toBeGreaterThan(log.indexOf(confidenceTask));
+
+    supervisor.reset();
+    expect(supervisor.getMessageLog()).toEqual([]);
+  });
+
+  it("publishes an error when nobody can take the message", async () => {
+    const bus = new MessageBus(new FakeClock(1000));
+    const log: AgentMessage[] = [];
+    bus.subscribe((message) => log.push(message));
+    new DecisionAgent().attachMessageBus(bus);
+
+    await expect(bus.dispatch("supervisor", "validation", { phoneNumber: "+2348031234567" })).rejects.toThrow(
+      "No agent registered for validation messages"
+    );
+    await expect(bus.query("confidence", "decision", { topic: "provider_data", phoneNumber: "+2348031234567" })).rejects.toThrow(
+      "decision agent cannot answer provider_data queries"
+    );
+
+    expect(log.map(summarize)).toEqual([
+      "task supervisor->validation",
+      "error validation->supervisor",
+      "query confidence->decision",
+      "error decision->confidence",
+    ]);
+    expect(log[1]).toMatchObject({ replyTo: log[0].id, timestamp: 1000, content: "No agent registered for validation messages" });
+  });
+});
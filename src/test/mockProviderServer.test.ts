@@ -0,0 +1,112 @@
+// @vitest-environment node
+import { describe, it, expect, vi, afterEach, beforeAll, afterAll } from "vitest";
+import { AbstractProvider, NumVerifyProvider, RateLimiter, RetryAgent, Supervisor, WhatsAppAgent } from "@/agents";
+import type { APIConfig } from "@/agents";
+import { MockProviderServer } from "./mocks/MockProviderServer";
+
+const LIVE_KEY = "live-key-0123456789";
+const TWILIO = { accountSid: "AC00000000000000000000000000000001", authToken: "auth-token-0123456789" };
+
+describe("Mock provider server", () => {
+  const server = MockProviderServer.fromFixtureFiles();
+
+  beforeAll(async () => {
+    await server.start();
+  });
+
+  afterAll(async () => {
+    await server.stop();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    server.calls.length = 0;
+  });
+
+  function liveSupervisor(overrides: Partial<APIConfig> = {}) {
+    return new Supervisor({
+      apiConfig: {
+        primary: { numverify: LIVE_KEY, abstract: LIVE_KEY, twilio: TWILIO },
+        backup: {},
+        baseUrls: server.baseUrls,
+        ...overrides,
+      },
+      enableLogging: false,
+      whatsappRateLimiter: new RateLimiter(0),
+      cache: false,
+    });
+  }
+
+  it("runs the live provider code paths end to end against fixtures", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+
+    const result = await liveSupervisor().validate({ phoneNumber: "+14155552671" });
+
+    expect(result.validation).toMatchObject({ valid: true, countryCode: "US", lineType: "mobile" });
+    expect(result.validation.carrier).toBe("AT&T Mobility LLC");
+    expect(server.callsTo("numverify")).toEqual([
+      { provider: "numverify", phoneNumber: "+14155552671", credential: LIVE_KEY, status: 200 },
+    ]);
+    expect(server.callsTo("twilio").every((call) => call.credential === TWILIO.accountSid)).toBe(true);
+    expect(server.callsTo("twilio").length).toBeGreaterThan(0);
+  });
+
+  it("waits out a 429's Retry-After and then succeeds", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    const sleep = vi
+      .spyOn(RetryAgent.prototype as unknown as { sleep: (ms: number) => Promise<void> }, "sleep")
+      .mockResolvedValue();
+
+    const result = await liveSupervisor().validate({ phoneNumber: "+15005550001" });
+
+    expect(server.callsTo("numverify").map((call) => call.status)).toEqual([429, 200]);
+    expect(sleep).toHaveBeenCalledWith(1000);
+    expect(result.validation).toMatchObject({ valid: true, carrier: "Verizon Wireless" });
+  });
+
+  it("classifies server errors, slow responses and malformed bodies", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    const numverify = new NumVerifyProvider({ baseUrl: server.baseUrls.numverify, timeoutMs: 100 });
+    const abstract = new AbstractProvider({ baseUrl: server.baseUrls.abstract });
+
+    const unavailable = await numverify.lookup("+15005550002", LIVE_KEY);
+    expect(unavailable.error?.code).toBe("503");
+    expect(numverify.classifyError(unavailable.error!)).toBe("transient");
+
+    const slow = await numverify.lookup("+15005550004", LIVE_KEY);
+    expect(slow.error?.code).toBe("TIMEOUT");
+
+    const malformed = await numverify.lookup("+15005550003", LIVE_KEY);
+    expect(malformed.error?.code).toBe("MALFORMED_RESPONSE");
+    expect(numverify.classifyError(malformed.error!)).toBe("provider_bug");
+
+    const quota = await abstract.lookup("+15005550005", LIVE_KEY);
+    expect(abstract.classifyError(quota.error!)).toBe("quota");
+
+    const missingKey = await new NumVerifyProvider({ baseUrl: server.baseUrls.numverify }).lookup("+14155552671", "");
+    expect(missingKey.error?.code).toBe("AUTH_ERROR");
+    expect(numverify.classifyError(missingKey.error!)).toBe("auth");
+    expect(server.calls.some((call) => call.phoneNumber === "+14155552671")).toBe(false); // No key never reaches the network
+
+    const unknown = await abstract.lookup("+19995550000", LIVE_KEY);
+    expect(unknown.data).toMatchObject({ valid: false });
+  });
+
+  it("reports Twilio authentication failures and rate limits from the agent", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const agent = new WhatsAppAgent(new RateLimiter(0), server.baseUrls.twilio);
+
+    const unauthorized = await agent.execute({ phoneNumber: "+15005550006", ...TWILIO });
+    expect(unauthorized.error).toMatchObject({ code: "AUTH_ERROR", errorClass: "auth", recoverable: true });
+
+    const forbidden = await agent.execute({ phoneNumber: "+15005550007", ...TWILIO });
+    expect(forbidden.error?.code).toBe("AUTH_ERROR");
+
+    const limited = await agent.execute({ phoneNumber: "+15005550008", ...TWILIO });
+    expect(limited.error).toMatchObject({ code: "RATE_LIMIT", retryAfterMs: 2000 });
+
+    const malformed = await agent.execute({ phoneNumber: "+15005550003", ...TWILIO });
+    expect(malformed.error).toMatchObject({ code: "WHATSAPP_ERROR", errorClass: "provider_bug" });
+  });
+});
@@ -0,0 +1,8 @@
+/**
+ * Fake Clock - Manually advanced clock for tests
+ *
+ * Not part of the @/agents surface: the class lives in the agents core only
+ * because replays run on it (TrafficReplayer.dependencies()).
+ */
+
+export { FakeClock } from '../../agents/core/Dependencies';
@@ -0,0 +1,252 @@
+/**
+ * Mock Provider Server - Offline stand-in for NumVerify, Abstract and Twilio Lookup v2
+ *
+ * A local HTTP server that answers like the real APIs from fixture files, so
+ * end-to-end tests run the providers' live code paths (URL building, HTTP
+ * status handling, JSON parsing, timeouts) without network access or keys.
+ * Point a Supervisor at it with `apiConfig.baseUrls = server.baseUrls`.
+ *
+ * Fixtures are keyed by E.164 number. An entry is one response, or a list
+ * served in order on successive calls (the last one repeats), so a test can
+ * script "429, then 200". Responses may set a status, headers, a delay and a
+ * raw (e.g. malformed) body. Numbers without a fixture get the provider's
+ * "invalid number" answer, or whatever the server's default responder
+ * returns (see numberingPlanResponse for plausible answers to any number).
+ */
+
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import { readFileSync } from 'node:fs';
+import path from 'node:path';
+import type { AddressInfo } from 'node:net';
+
+export type MockProvider = 'numverify' | 'abstract' | 'twilio';
+
+export interface MockResponse {
+  status?: number; // Default 200
+  headers?: Record<string, string>;
+  body?: unknown; // Sent as JSON
+  rawBody?: string; // Sent verbatim instead of body, e.g. malformed JSON
+  delayMs?: number; // Wait before answering, to exercise request timeouts
+}
+
+export type MockFixtures = Partial<Record<MockProvider, Record<string, MockResponse | MockResponse[]>>>;
+
+/**
+ * Answer for a number without a fixture
+ */
+export type DefaultResponder = (provider: MockProvider, phoneNumber: string) => MockResponse;
+
+export interface MockCall {
+  provider: MockProvider;
+  phoneNumber: string;
+  credential?: string; // API key, or the Twilio account SID
+  status: number;
+}
+
+export const PROVIDER_FIXTURE_DIR = path.resolve(__dirname, '../fixtures/providers');
+
+const PROVIDERS: MockProvider[] = ['numverify', 'abstract', 'twilio'];
+
+export class MockProviderServer {
+  private server: Server | null = null;
+  private origin = '';
+  private served = new Map<string, number>(); // Responses served per provider and number
+  readonly calls: MockCall[] = [];
+
+  constructor(
+    private fixtures: MockFixtures = {},
+    private defaultResponse: DefaultResponder = invalidNumberResponse
+  ) {}
+
+  /**
+   * Server answering from `<provider>.json` files in a fixture directory
+   */
+  static fromFixtureFiles(
+    dir: string = PROVIDER_FIXTURE_DIR,
+    defaultResponse?: DefaultResponder
+  ): MockProviderServer {
+    const fixtures: MockFixtures = {};
+    for (const provider of PROVIDERS) {
+      fixtures[provider] = JSON.parse(readFileSync(path.join(dir, `${provider}.json`), 'utf8'));
+    }
+    return new MockProviderServer(fixtures, defaultResponse);
+  }
+
+  async start(): Promise<this> {
+    const server = createServer((request, response) => {
+      this.handle(request, response).catch(error => {
+        response.statusCode = 500;
+        response.end(String(error));
+      });
+    });
+
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    this.server = server;
+    this.origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    return this;
+  }
+
+  async stop(): Promise<void> {
+    if (!this.server) return;
+    const server = this.server;
+    this.server = null;
+    server.closeAllConnections();
+    await new Promise<void>((resolve, reject) => server.close(error => (error ? reject(error) : resolve())));
+  }
+
+  /**
+   * API roots to use as APIConfig.baseUrls
+   */
+  get baseUrls(): Record<MockProvider, string> {
+    if (!this.server) throw new Error('Mock provider server is not running');
+    return {
+      numverify: `${this.origin}/numverify`,
+      abstract: `${this.origin}/abstract`,
+      twilio: `${this.origin}/twilio/v2`
+    };
+  }
+
+  /**
+   * Replace or add fixtures, restarting their response sequences
+   */
+  setFixture(provider: MockProvider, phoneNumber: string, response: MockResponse | MockResponse[]): void {
+    this.fixtures[provider] = { ...this.fixtures[provider], [phoneNumber]: response };
+    this.served.delete(`${provider}:${phoneNumber}`);
+  }
+
+  callsTo(provider: MockProvider): MockCall[] {
+    return this.calls.filter(call => call.provider === provider);
+  }
+
+  private async handle(request: IncomingMessage, response: ServerResponse): Promise<void> {
+    const url = new URL(request.url ?? '/', this.origin);
+    const route = this.route(url, request);
+
+    if (!route) {
+      return this.send(response, { status: 404, body: { message: `No mock for ${url.pathname}` } });
+    }
+
+    const { provider, phoneNumber, credential } = route;
+    const mock = credential
+      ? this.nextResponse(provider, phoneNumber) ?? this.defaultResponse(provider, phoneNumber)
+      : missingCredentialResponse(provider);
+
+    this.calls.push({ provider, phoneNumber, credential, status: mock.status ?? 200 });
+
+    if (mock.delayMs) {
+      await new Promise(resolve => setTimeout(resolve, mock.delayMs));
+    }
+    this.send(response, mock);
+  }
+
+  private route(
+    url: URL,
+    request: IncomingMessage
+  ): { provider: MockProvider; phoneNumber: string; credential?: string } | null {
+    const toE164 = (digits: string | null) => `+${(digits ?? '').replace(/\D/g, '')}`;
+
+    if (url.pathname === '/numverify/validate') {
+      return {
+        provider: 'numverify',
+        phoneNumber: toE164(url.searchParams.get('number')),
+        credential: url.searchParams.get('access_key') || undefined
+      };
+    }
+
+    if (url.pathname === '/abstract/') {
+      return {
+        provider: 'abstract',
+        phoneNumber: toE164(url.searchParams.get('phone')),
+        credential: url.searchParams.get('api_key') || undefined
+      };
+    }
+
+    const twilio = url.pathname.match(/^\/twilio\/v2\/PhoneNumbers\/([^/]+)$/);
+    if (twilio) {
+      const authorization = request.headers.authorization ?? '';
+      const [accountSid] = authorization.startsWith('Basic ')
+        ? Buffer.from(authorization.slice(6), 'base64').toString().split(':')
+        : [];
+      return {
+        provider: 'twilio',
+        phoneNumber: toE164(decodeURIComponent(twilio[1])),
+        credential: accountSid || undefined
+      };
+    }
+
+    return null;
+  }
+
+  private nextResponse(provider: MockProvider, phoneNumber: string): MockResponse | undefined {
+    const fixture = this.fixtures[provider]?.[phoneNumber];
+    if (!fixture) return undefined;
+    if (!Array.isArray(fixture)) return fixture;
+
+    const key = `${provider}:${phoneNumber}`;
+    const index = this.served.get(key) ?? 0;
+    this.served.set(key, index + 1);
+    return fixture[Math.min(index, fixture.length - 1)];
+  }
+
+  private send(response: ServerResponse, mock: MockResponse): void {
+    response.statusCode = mock.status ?? 200;
+    response.setHeader('Content-Type', 'application/json');
+    Object.entries(mock.headers ?? {}).forEach(([name, value]) => response.setHeader(name, value));
+    response.end(mock.rawBody ?? JSON.stringify(mock.body ?? {}));
+  }
+}
+
+/**
+ * What each API returns for a well-formed number it can't place
+ */
+function invalidNumberResponse(provider: MockProvider, phoneNumber: string): MockResponse {
+  const digits = phoneNumber.slice(1);
+
+  switch (provider) {
+    case 'numverify':
+      return {
+        body: {
+          valid: false,
+          number: digits,
+          local_format: '',
+          international_format: '',
+          country_prefix: '',
+          country_code: '',
+          country_name: '',
+          location: '',
+          carrier: '',
+          line_type: null
+        }
+      };
+    case 'abstract':
+      return { body: { phone: digits, valid: false, format: {}, country: {}, location: '', type: '', carrier: '' } };
+    case 'twilio':
+      return {
+        body: {
+          phone_number: phoneNumber,
+          valid: false,
+          validation_errors: ['INVALID_BUT_POSSIBLE'],
+          country_code: null,
+          line_type_intelligence: null,
+          caller_name: null
+        }
+      };
+  }
+}
+
+function missingCredentialResponse(provider: MockProvider): MockResponse {
+  switch (provider) {
+    case 'numverify':
+      // apilayer reports errors in a 200 body
+      return {
+        body: {
+          success: false,
+          error: { code: 101, type: 'missing_access_key', info: 'You have not supplied an API Access Key.' }
+        }
+      };
+    case 'abstract':
+      return { status: 401, body: { error: { message: 'Invalid API key provided.', code: 'unauthorized' } } };
+    case 'twilio':
+      return { status: 401, body: { code: 20003, message: 'Authenticate', status: 401 } };
+  }
+}
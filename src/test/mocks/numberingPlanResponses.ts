@@ -0,0 +1,242 @@
+/**
+ * Numbering Plan Responses - Plausible provider answers for any number
+ *
+ * Used by the mock provider server for numbers without a fixture, so
+ * pipeline tests and the evaluation harness can run arbitrary numbers
+ * through the live provider code paths. Country, validity and line type
+ * come from the numbering plan; carriers come from small per-country
+ * tables and are test data, not real assignments.
+ */
+
+import { parsePhoneNumber, toLineType, type ParsedPhoneNumber } from '../../agents/numbering/NumberingPlan';
+import type { MockProvider, MockResponse } from './MockProviderServer';
+
+export function numberingPlanResponse(provider: MockProvider, phoneNumber: string): MockResponse {
+  switch (provider) {
+    case 'numverify':
+      return { body: numverifyBody(phoneNumber) };
+    case 'abstract':
+      return { body: abstractBody(phoneNumber) };
+    case 'twilio':
+      return { body: twilioBody(phoneNumber) };
+  }
+}
+
+function numverifyBody(phoneNumber: string) {
+  const cleanNumber = phoneNumber.replace(/\D/g, '');
+  const parsed = parsePhoneNumber(phoneNumber);
+  const nationalNumber = parsed?.nationalNumber ?? cleanNumber;
+
+  const countryCode = parsed?.countryCode ?? 'US';
+  const countryName = parsed?.countryName ?? 'United States';
+  let carrier: string | undefined = 'AT&T';
+  let lineType = planLineType(parsed);
+  let localFormat = phoneNumber;
+
+  if (countryCode === 'DO') {
+    const areaCode = nationalNumber.substring(0, 3);
+    if (areaCode.startsWith('9')) {
+      carrier = 'Altice Dominicana (Orange)';
+    } else if (areaCode.startsWith('2')) {
+      carrier = 'Viva (Trilogy Dominicana)';
+    } else {
+      carrier = 'Claro Dominican Republic';
+    }
+    localFormat = `(${areaCode}) ${nationalNumber.slice(-7, -4)}-${nationalNumber.slice(-4)}`;
+  } else if (countryCode === 'GB') {
+    const prefix = nationalNumber.substring(0, 2);
+    if (['74', '75', '76', '77', '78', '79'].includes(prefix)) {
+      carrier = 'Vodafone UK';
+      lineType = 'mobile';
+    } else if (prefix === '70' || prefix === '71') {
+      carrier = 'O2 UK';
+      lineType = 'mobile';
+    } else if (prefix === '72' || prefix === '73') {
+      carrier = 'EE (Everything Everywhere)';
+      lineType = 'mobile';
+    } else {
+      carrier = 'BT Group';
+      lineType = 'landline';
+    }
+  } else if (countryCode === 'IN') {
+    if (['6', '7', '8', '9'].includes(nationalNumber.charAt(0))) {
+      lineType = 'mobile';
+      carrier = undefined;
+    } else {
+      carrier = 'BSNL';
+      lineType = 'landline';
+    }
+  } else if (countryCode === 'NG') {
+    const prefix = nationalNumber.substring(0, 3);
+    if (prefix >= '803' && prefix <= '806' || prefix >= '810' && prefix <= '814' || prefix === '703' || prefix === '706') {
+      carrier = 'MTN Nigeria';
+    } else if (prefix >= '805' && prefix <= '807' || prefix >= '811' && prefix <= '817' || prefix === '705' || prefix === '708') {
+      carrier = 'Globacom (Glo Mobile)';
+    } else if (prefix >= '802' && prefix <= '809' || prefix === '701') {
+      carrier = 'Airtel Nigeria';
+    } else if (prefix === '818' || prefix === '909') {
+      carrier = '9mobile (Etisalat)';
+    } else {
+      carrier = 'MTN Nigeria';
+    }
+    lineType = 'mobile';
+  } else if (countryCode === 'DE') {
+    if (/^1[567]/.test(nationalNumber)) {
+      carrier = 'Deutsche Telekom (T-Mobile)';
+      lineType = 'mobile';
+    } else {
+      carrier = 'Deutsche Telekom';
+      lineType = 'landline';
+    }
+  } else if (countryCode === 'US') {
+    carrier = undefined;
+    localFormat = `(${nationalNumber.substring(0, 3)}) ${nationalNumber.substring(3, 6)}-${nationalNumber.slice(-4)}`;
+  } else if (countryCode === 'CA') {
+    carrier = 'Rogers Wireless';
+  }
+
+  return {
+    valid: parsed?.isPossibleLength ?? true,
+    number: cleanNumber,
+    local_format: localFormat,
+    international_format: internationalFormat(phoneNumber, parsed),
+    country_prefix: '+' + (parsed?.callingCode ?? '1'),
+    country_code: countryCode,
+    country_name: countryName,
+    location: countryName,
+    carrier,
+    line_type: lineType
+  };
+}
+
+function abstractBody(phoneNumber: string) {
+  const cleanNumber = phoneNumber.replace(/\D/g, '');
+  const parsed = parsePhoneNumber(phoneNumber);
+  const nationalNumber = parsed?.nationalNumber ?? cleanNumber;
+
+  const countryCode = parsed?.countryCode ?? 'US';
+  const countryName = parsed?.countryName ?? 'United States';
+  let carrier: string | undefined = 'AT&T Mobility';
+  let type = planLineType(parsed);
+  let localFormat = phoneNumber;
+
+  if (countryCode === 'DO') {
+    const areaCode = nationalNumber.substring(0, 3);
+    carrier = undefined;
+    localFormat = `(${areaCode}) ${nationalNumber.slice(-7, -4)}-${nationalNumber.slice(-4)}`;
+  } else if (countryCode === 'GB') {
+    const prefix = nationalNumber.substring(0, 2);
+    if (['74', '75', '76', '77', '78', '79'].includes(prefix)) {
+      carrier = 'Vodafone UK';
+      type = 'mobile';
+    } else if (prefix === '70' || prefix === '71') {
+      carrier = 'O2 UK (Telefonica)';
+      type = 'mobile';
+    } else if (prefix === '72' || prefix === '73') {
+      carrier = 'EE Limited';
+      type = 'mobile';
+    } else {
+      carrier = 'BT Group';
+      type = 'landline';
+    }
+  } else if (countryCode === 'IN') {
+    if (['6', '7', '8', '9'].includes(nationalNumber.charAt(0))) {
+      type = 'mobile';
+      carrier = undefined;
+    } else {
+      carrier = 'BSNL';
+      type = 'landline';
+    }
+  } else if (countryCode === 'NG') {
+    const prefix = nationalNumber.substring(0, 3);
+    if (prefix >= '803' && prefix <= '806' || prefix >= '810' && prefix <= '814' || prefix === '703' || prefix === '706') {
+      carrier = 'MTN Nigeria Communications';
+    } else if (prefix >= '805' && prefix <= '807' || prefix >= '811' && prefix <= '817') {
+      carrier = 'Globacom Limited';
+    } else if (prefix >= '802' && prefix <= '809' || prefix === '701' || prefix === '708') {
+      carrier = 'Airtel Networks Limited';
+    } else if (prefix === '818' || prefix === '909') {
+      carrier = '9mobile (Emerging Markets Telecom)';
+    } else {
+      carrier = 'MTN Nigeria Communications';
+    }
+    type = 'mobile';
+  } else if (countryCode === 'DE') {
+    carrier = 'Deutsche Telekom AG';
+    type = /^1[567]/.test(nationalNumber) ? 'mobile' : 'landline';
+  } else if (countryCode === 'US') {
+    const areaCode = nationalNumber.substring(0, 3);
+    const prefix = nationalNumber.substring(3, 6);
+    if (['415', '510', '408'].includes(areaCode)) {
+      if (prefix >= '200' && prefix <= '499') {
+        carrier = 'AT&T Mobility LLC';
+      } else if (prefix >= '500' && prefix <= '799') {
+        carrier = 'Verizon Wireless';
+      } else {
+        carrier = 'T-Mobile USA, Inc.';
+      }
+    } else if (['212', '646', '917'].includes(areaCode)) {
+      carrier = 'Verizon Wireless';
+    } else if (['310', '424', '213'].includes(areaCode)) {
+      carrier = 'T-Mobile USA, Inc.';
+    } else {
+      carrier = 'AT&T Mobility LLC';
+    }
+    localFormat = `(${areaCode}) ${prefix}-${nationalNumber.slice(-4)}`;
+  }
+
+  return {
+    phone: cleanNumber,
+    valid: parsed?.isPossibleLength ?? true,
+    format: {
+      international: internationalFormat(phoneNumber, parsed),
+      local: localFormat
+    },
+    country: {
+      code: countryCode,
+      name: countryName,
+      prefix: '+' + (parsed?.callingCode ?? '1')
+    },
+    location: countryName,
+    type,
+    carrier
+  };
+}
+
+/**
+ * Line type, carrier and caller type picked from a hash of the digits
+ */
+function twilioBody(phoneNumber: string) {
+  const cleaned = phoneNumber.replace(/\D/g, '');
+  const hash = cleaned.split('').reduce((acc, char) => acc + char.charCodeAt(0), 0);
+
+  return {
+    phone_number: phoneNumber,
+    valid: true,
+    country_code: cleaned.startsWith('1') ? 'US' : 'IN',
+    line_type_intelligence: {
+      type: ['mobile', 'landline', 'voip'][hash % 3],
+      carrier_name: hash % 2 === 0 ? 'AT&T' : 'Verizon'
+    },
+    caller_name: {
+      caller_name: 'Test User',
+      caller_type: hash % 10 > 6 ? 'BUSINESS' : 'CONSUMER'
+    }
+  };
+}
+
+// Numbering plan type, assuming mobile where the plan can't tell
+function planLineType(parsed: ParsedPhoneNumber | null): string {
+  const lineType = parsed ? toLineType(parsed.numberType) : 'unknown';
+  return lineType === 'unknown' ? 'mobile' : lineType;
+}
+
+// NANP style for +1, E.164 otherwise
+function internationalFormat(phoneNumber: string, parsed: ParsedPhoneNumber | null): string {
+  if (!parsed) return phoneNumber;
+
+  const { callingCode, nationalNumber } = parsed;
+  return callingCode === '1'
+    ? `+1 ${nationalNumber.slice(0, 3)}-${nationalNumber.slice(3, 6)}-${nationalNumber.slice(6)}`
+    : parsed.e164;
+}
@@ -0,0 +1,94 @@
+import { describe, it, expect, vi } from "vitest";
+import { ProviderRegistry, ValidationAgent } from "@/agents";
+import type { ValidationData, ValidationProvider } from "@/agents";
+import { parsePhoneNumber, resolveCountry, toE164 } from "@/agents/numbering/NumberingPlan";
+import { DecisionAgent } from "@/agents/decision/DecisionAgent";
+
+describe("parsePhoneNumber", () => {
+  it("resolves NANP numbers to their country by area code", () => {
+    expect(parsePhoneNumber("+1 415 555 2671")?.countryCode).toBe("US");
+    expect(parsePhoneNumber("+1 416 555 0199")?.countryCode).toBe("CA");
+    expect(parsePhoneNumber("+1 876 555 0123")?.countryCode).toBe("JM");
+    expect(parsePhoneNumber("18095551234")?.countryCode).toBe("DO");
+  });
+
+  it("finds three-digit calling codes and shared zone 7 regions", () => {
+    expect(parsePhoneNumber("+2348031234567")).toMatchObject({
+      callingCode: "234",
+      countryCode: "NG",
+      nationalNumber: "8031234567",
+      isPossibleLength: true,
+      numberType: "mobile",
+    });
+    expect(parsePhoneNumber("+77011234567")?.countryCode).toBe("KZ");
+    expect(parsePhoneNumber("+79161234567")?.countryCode).toBe("RU");
+  });
+
+  it("strips trunk prefixes from national numbers using the default country", () => {
+    expect(toE164("07700 900123", "GB")).toBe("+447700900123");
+    expect(toE164("8 (916) 123-45-67", "RU")).toBe("+79161234567");
+    expect(toE164("06 12345678", "+31")).toBe("+31612345678");
+    // Italian numbers keep their leading zero
+    expect(toE164("06 6982 0000", "IT")).toBe("+390669820000");
+  });
+
+  it("classifies number types and flags impossible lengths", () => {
+    expect(parsePhoneNumber("+442079460000")?.numberType).toBe("fixed_line");
+    expect(parsePhoneNumber("+18005550100")?.numberType).toBe("toll_free");
+    expect(parsePhoneNumber("+14155552671")?.numberType).toBe("fixed_line_or_mobile");
+    expect(parsePhoneNumber("+91987654")?.isPossibleLength).toBe(false);
+  });
+});
+
+describe("allocatedCarrier", () => {
+  it("names the carrier a mobile block was allocated to", () => {
+    expect(parsePhoneNumber("+2348031234567")?.allocatedCarrier).toBe("MTN Nigeria");
+    expect(parsePhoneNumber("+919876543210")?.allocatedCarrier).toBe("Vodafone Idea");
+    expect(parsePhoneNumber("+447700900123")?.allocatedCarrier).toBe("Vodafone UK");
+    // NANP carriers share area codes, and landlines have no mobile block
+    expect(parsePhoneNumber("+14155552671")?.allocatedCarrier).toBeUndefined();
+    expect(parsePhoneNumber("+442079460000")?.allocatedCarrier).toBeUndefined();
+  });
+
+  it("fills the carrier only when no provider reports one", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    const provider = (carrier?: string): ValidationProvider => ({
+      name: "hlr",
+      displayName: "HLR",
+      costPerCall: 0.001,
+      capabilities: ["validity", "carrier"],
+      requiresApiKey: false,
+      lookup: async () => ({ data: { valid: true, carrier, lineType: "mobile", countryCode: "NG", raw: {} } }),
+      classifyError: () => "provider_bug",
+    });
+    const validate = (carrier?: string) =>
+      new ValidationAgent(new ProviderRegistry([provider(carrier)]))
+        .execute({ phoneNumber: "+2348031234567", tools: ["hlr"], apiKeys: {} })
+        .then((response) => (response.data as ValidationData).carrier);
+
+    expect(await validate()).toBe("MTN Nigeria");
+    expect(await validate("Airtel Nigeria")).toBe("Airtel Nigeria");
+    vi.restoreAllMocks();
+  });
+});
+
+describe("resolveCountry", () => {
+  it("accepts ISO codes and calling codes", () => {
+    expect(resolveCountry("gb")).toBe("GB");
+    expect(resolveCountry("+44")).toBe("GB");
+    expect(resolveCountry("1")).toBe("US");
+    expect(resolveCountry("ZZ")).toBeUndefined();
+  });
+});
+
+describe("DecisionAgent numbering plan", () => {
+  it("skips the WhatsApp check for fixed-line numbers", async () => {
+    const agent = new DecisionAgent();
+
+    const landline = await agent.execute({ phoneNumber: "+4930123456" });
+    const mobile = await agent.execute({ phoneNumber: "+4915123456789" });
+
+    expect(landline.data?.skipWhatsApp).toBe(true);
+    expect(mobile.data?.skipWhatsApp).toBeFalsy();
+  });
+});
@@ -0,0 +1,128 @@
+import { describe, it, expect } from "vitest";
+import { PlanExecutor, evaluateCondition, Supervisor, RateLimiter } from "@/agents";
+import type { PlanStep } from "@/agents";
+import { MockProviderServer } from "./mocks/MockProviderServer";
+import { numberingPlanResponse } from "./mocks/numberingPlanResponses";
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe("PlanExecutor", () => {
+  it("runs independent steps in parallel and dependents after them", async () => {
+    const started: number[] = [];
+    let inFlight = 0;
+    let maxInFlight = 0;
+
+    const executor = new PlanExecutor({
+      validation: async (step) => {
+        started.push(step.id);
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await wait(5);
+        inFlight--;
+      },
+      confidence: async (step) => {
+        started.push(step.id);
+      },
+    });
+
+    const results = await executor.execute([
+      { id: 3, agent: "confidence", action: "score", dependsOn: [1, 2] },
+      { id: 1, agent: "validation", action: "validate_with_a" },
+      { id: 2, agent: "validation", action: "validate_with_b" },
+    ]);
+
+    expect(maxInFlight).toBe(2);
+    expect(started).toEqual([1, 2, 3]);
+    expect(results.map((result) => result.status)).toEqual(["completed", "completed", "completed"]);
+    expect(results[1].durationMs).toBeGreaterThanOrEqual(0);
+  });
+
+  it("skips steps whose condition fails against accumulated facts", async () => {
+    const executor = new PlanExecutor({
+      validation: async (_step, context) => {
+        context.line_type = "landline";
+      },
+      whatsapp: async () => {
+        throw new Error("should not run");
+      },
+      confidence: async () => {},
+    });
+
+    const results = await executor.execute([
+      { id: 1, agent: "validation", action: "validate" },
+      { id: 2, agent: "whatsapp", action: "check", condition: 'IF line_type == "mobile"', dependsOn: [1] },
+      { id: 3, agent: "confidence", action: "score", dependsOn: [1, 2] },
+    ]);
+
+    expect(results[1]).toMatchObject({ status: "skipped", reason: 'Condition not met: IF line_type == "mobile"' });
+    expect(results[2].status).toBe("completed");
+  });
+
+  it("blocks dependents of a failed step unless it is optional", async () => {
+    const executor = new PlanExecutor({
+      validation: async (step) => {
+        if (step.tool === "abstract") throw new Error("Abstract API down");
+      },
+      whatsapp: async () => {
+        throw new Error("Twilio down");
+      },
+      confidence: async () => {},
+    });
+
+    const steps: PlanStep[] = [
+      { id: 1, agent: "validation", action: "validate_with_numverify", tool: "numverify" },
+      { id: 2, agent: "validation", action: "validate_with_abstract", tool: "abstract", optional: true },
+      { id: 3, agent: "whatsapp", action: "check", dependsOn: [1] },
+      { id: 4, agent: "confidence", action: "score", dependsOn: [1, 2, 3] },
+    ];
+    const optional = await executor.execute(steps.map((step) => (step.id === 3 ? { ...step, optional: true } : step)));
+    const required = await executor.execute(steps);
+
+    expect(optional.map((result) => result.status)).toEqual(["completed", "failed", "failed", "completed"]);
+    expect(optional[1].error).toBe("Abstract API down");
+    expect(required[3]).toMatchObject({ status: "skipped", reason: "Step 3 (check) failed" });
+  });
+
+  it("rejects plans with cycles, unknown dependencies or unparseable conditions", async () => {
+    const executor = new PlanExecutor({ validation: async () => {} });
+
+    await expect(executor.execute([
+      { id: 1, agent: "validation", action: "a", dependsOn: [2] },
+      { id: 2, agent: "validation", action: "b", dependsOn: [1] },
+    ])).rejects.toThrow("dependency cycle");
+    await expect(executor.execute([{ id: 1, agent: "validation", action: "a", dependsOn: [9] }]))
+      .rejects.toThrow("unknown step 9");
+    await expect(executor.execute([{ id: 1, agent: "validation", action: "a", condition: "IF mobile" }]))
+      .rejects.toThrow("cannot parse condition");
+  });
+
+  it("evaluates AND/OR conditions with typed literals", () => {
+    const context = { line_type: "mobile", valid: true, confidence_score: 72 };
+
+    expect(evaluateCondition('IF line_type == "mobile" AND valid == true', context)).toBe(true);
+    expect(evaluateCondition("IF confidence_score >= 80 OR line_type == 'mobile'", context)).toBe(true);
+    expect(evaluateCondition("IF confidence_score > 80 AND valid == true", context)).toBe(false);
+    expect(evaluateCondition("IF whatsapp_exists == true", context)).toBe(false);
+  });
+
+  it("records per-step results for a Supervisor validation", async () => {
+    const server = await new MockProviderServer({}, numberingPlanResponse).start();
+    const supervisor = new Supervisor({
+      apiConfig: {
+        primary: { numverify: "test_key_123", abstract: "test_key_456" },
+        backup: {},
+        baseUrls: server.baseUrls,
+      },
+      enableLogging: false,
+      whatsappRateLimiter: new RateLimiter(0),
+      cache: false,
+    });
+
+    const result = await supervisor.validate({ phoneNumber: "+18005551234" }).finally(() => server.stop());
+    const byAgent = Object.fromEntries(result.stepResults!.map((step) => [step.agent, step.status]));
+
+    expect(result.executionPlan.skipWhatsApp).toBe(true);
+    expect(byAgent).toEqual({ validation: "completed", confidence: "completed" });
+    expect(result.chainOfExecution).toContain("WhatsApp Agent: Skipped");
+  });
+});
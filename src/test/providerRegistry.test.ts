@@ -0,0 +1,103 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { ProviderRegistry, createDefaultProviderRegistry } from "@/agents/providers/ProviderRegistry";
+import { NumVerifyProvider } from "@/agents/providers/NumVerifyProvider";
+import { DecisionAgent } from "@/agents/decision/DecisionAgent";
+import { ValidationAgent } from "@/agents/validation/ValidationAgent";
+import { Supervisor } from "@/agents/supervisor/Supervisor";
+import { RateLimiter } from "@/agents/core/RateLimiter";
+import type { ValidationProvider } from "@/agents/types";
+
+// In-house HLR stand-in: free, no API key, mobile-only answers
+const hlrProvider: ValidationProvider = {
+  name: "hlr",
+  displayName: "In-house HLR",
+  costPerCall: 0,
+  capabilities: ["validity", "line_type", "carrier"],
+  requiresApiKey: false,
+  lookup: async () => ({
+    data: { valid: true, carrier: "HLR Carrier", lineType: "mobile", raw: {} },
+  }),
+  classifyError: () => "provider_bug",
+};
+
+describe("ProviderRegistry", () => {
+  it("selects the cheapest providers offering the required capabilities", () => {
+    const registry = createDefaultProviderRegistry().register(hlrProvider);
+
+    expect(registry.select({ capabilities: ["validity", "line_type"] }).map((p) => p.name))
+      .toEqual(["hlr", "numverify", "abstract"]);
+    expect(registry.select({ capabilities: ["formatting"], limit: 1 }).map((p) => p.name))
+      .toEqual(["numverify"]);
+    expect(registry.select({ available: ["abstract"] }).map((p) => p.name))
+      .toEqual(["abstract"]);
+  });
+});
+
+describe("registered providers in the agents", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("plans with and calls a newly registered provider without agent changes", async () => {
+    const registry = new ProviderRegistry([new NumVerifyProvider(), hlrProvider]);
+
+    const plan = await new DecisionAgent(registry).execute({ phoneNumber: "+14155552671" });
+    expect(plan.data?.steps[0]).toMatchObject({ tool: "hlr", action: "validate_with_hlr" });
+    expect(plan.data?.estimatedCost).toBeCloseTo(0.0015); // WhatsApp check only
+
+    const validation = await new ValidationAgent(registry).execute({
+      phoneNumber: "+14155552671",
+      tools: ["hlr"],
+      apiKeys: {},
+    });
+    expect(validation.data).toMatchObject({ source: "hlr", carrier: "HLR Carrier", lineType: "mobile" });
+  });
+
+  it("maps NumVerify's own key error codes to an auth failure", async () => {
+    vi.stubGlobal("fetch", vi.fn(async () => new Response(
+      JSON.stringify({ success: false, error: { code: 101, info: "Invalid access key" } })
+    )));
+
+    const response = await new ValidationAgent().execute({
+      phoneNumber: "+14155552671",
+      tools: ["numverify"],
+      apiKeys: { numverify: "live-key-0123456789" },
+    });
+
+    expect(response.success).toBe(false);
+    expect(response.error?.code).toBe("AUTH_ERROR");
+  });
+
+  it("cross-validates with whichever providers answer when the first one fails", async () => {
+    const downProvider: ValidationProvider = {
+      ...hlrProvider,
+      name: "hlr-down",
+      displayName: "Down HLR",
+      lookup: async () => ({ error: { code: "BAD_NUMBER", message: "HLR rejected the number" } }),
+      classifyError: () => "invalid_input",
+    };
+    const supervisor = new Supervisor({
+      apiConfig: { primary: {}, backup: {} },
+      providers: new ProviderRegistry([downProvider, { ...hlrProvider, costPerCall: 0.001 }]),
+      enableLogging: false,
+      whatsappRateLimiter: new RateLimiter(0),
+      cache: false,
+    });
+
+    // Nigeria is high-risk: both providers are planned, the cheaper first
+    const result = await supervisor.validate({ phoneNumber: "+2348031234567" });
+
+    expect(result.executionPlan.steps.slice(0, 2).map((step) => step.tool)).toEqual(["hlr-down", "hlr"]);
+    expect(result.stepResults!.slice(0, 2).map((step) => step.status)).toEqual(["failed", "completed"]);
+    expect(result.validation).toMatchObject({ source: "hlr", carrier: "HLR Carrier" });
+
+    const allDown = new Supervisor({
+      apiConfig: { primary: {}, backup: {} },
+      providers: new ProviderRegistry([downProvider, { ...downProvider, name: "hlr-down-2", costPerCall: 0.001 }]),
+      enableLogging: false,
+      whatsappRateLimiter: new RateLimiter(0),
+      cache: false,
+    });
+    await expect(allDown.validate({ phoneNumber: "+2348031234567" })).rejects.toThrow("Validation failed");
+  });
+});
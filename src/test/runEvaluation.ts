@@ -0,0 +1,63 @@
+/**
+ * Evaluation CLI - `npm run eval`
+ *
+ * Runs the evaluation harness over the labeled fixtures against the mock
+ * provider server (numbering plan answers for every number), prints the report
+ * and exits non-zero when a headline metric regressed against
+ * src/agents/evaluation/baseline.json. `npm run eval -- --update-baseline`
+ * stores the current metrics instead. Lives with the test mocks it serves
+ * from, so src/agents (which the edge functions import) stays free of Node APIs.
+ */
+
+import { existsSync, readFileSync, writeFileSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import {
+  EvaluationHarness,
+  compareWithBaseline,
+  formatReport,
+  toBaseline,
+  type EvaluationBaseline
+} from '../agents';
+import { MockProviderServer } from './mocks/MockProviderServer';
+import { numberingPlanResponse } from './mocks/numberingPlanResponses';
+
+const BASELINE_PATH = fileURLToPath(new URL('../agents/evaluation/baseline.json', import.meta.url));
+
+async function main() {
+  const updateBaseline = process.argv.includes('--update-baseline');
+
+  // The agents narrate to the console; keep the report readable
+  const quiet = () => {};
+  const { log, warn, error } = console;
+  Object.assign(console, { log: quiet, warn: quiet, error: quiet });
+  const server = await new MockProviderServer({}, numberingPlanResponse).start();
+  const report = await new EvaluationHarness({ baseUrls: server.baseUrls })
+    .run()
+    .finally(() => {
+      Object.assign(console, { log, warn, error });
+      return server.stop();
+    });
+
+  if (updateBaseline) {
+    writeFileSync(BASELINE_PATH, JSON.stringify(toBaseline(report), null, 2) + '\n');
+    console.log(formatReport(report));
+    console.log(`\nBaseline written to ${BASELINE_PATH}`);
+    return;
+  }
+
+  const baseline: EvaluationBaseline | undefined = existsSync(BASELINE_PATH)
+    ? JSON.parse(readFileSync(BASELINE_PATH, 'utf8'))
+    : undefined;
+  const regressions = baseline ? compareWithBaseline(report, baseline) : undefined;
+
+  console.log(formatReport(report, regressions));
+  if (!baseline) {
+    console.log('\nNo baseline yet - run with --update-baseline to store one');
+  }
+  process.exitCode = regressions && regressions.length > 0 ? 1 : 0;
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,135 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import {
+  ConfidenceAgent,
+  InactiveAccountAgent,
+  NumVerifyProvider,
+  ProviderRegistry,
+  RateLimiter,
+  SCHEMA_VIOLATION,
+  ValidationAgent,
+  WhatsAppAgent,
+  createDependencies,
+} from "@/agents";
+import type { HttpTransport, ValidationData, ValidationProvider } from "@/agents";
+
+const LIVE_KEY = "live-key-0123456789";
+const TWILIO = { accountSid: "AC0123456789", authToken: "token-0123456789" };
+
+// Answers every call with the same JSON body
+const jsonTransport = (body: unknown): HttpTransport =>
+  vi.fn<HttpTransport>(async () => new Response(JSON.stringify(body), { status: 200 }));
+
+// A NumVerify payload that came back in a shape we don't understand
+const MALFORMED_NUMVERIFY = { valid: "yes", carrier: { name: "MTN Nigeria" }, line_type: "mobile" };
+
+const keylessProvider = (valid: unknown): ValidationProvider => ({
+  name: "hlr",
+  displayName: "HLR",
+  costPerCall: 0.001,
+  capabilities: ["validity", "carrier"],
+  requiresApiKey: false,
+  lookup: async () => ({ data: { valid: valid as boolean, carrier: "MTN Nigeria", lineType: "mobile", countryCode: "NG", raw: {} } }),
+  classifyError: () => "provider_bug",
+});
+
+describe("Schema validation", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("rejects bad input with every violation listed, without retrying", async () => {
+    const response = await new ValidationAgent().execute({ phoneNumber: " ", tools: [] } as never);
+
+    expect(response.success).toBe(false);
+    expect(response.error).toMatchObject({ code: SCHEMA_VIOLATION, errorClass: "invalid_input", recoverable: false });
+    expect(response.error!.violations).toEqual([
+      "phoneNumber: Phone number is required",
+      "tools: Array must contain at least 1 element(s)",
+      "apiKeys: Required",
+    ]);
+  });
+
+  it("reports a malformed provider payload instead of normalizing it", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    const provider = new NumVerifyProvider({ http: jsonTransport(MALFORMED_NUMVERIFY) });
+
+    const response = await provider.lookup("+2348031234567", LIVE_KEY);
+
+    expect(response.data).toBeUndefined();
+    expect(response.error!.code).toBe(SCHEMA_VIOLATION);
+    expect(response.error!.violations).toEqual([
+      "valid: Expected boolean, received string",
+      "carrier: Expected string, received object",
+    ]);
+    expect(provider.classifyError(response.error!)).toBe("provider_bug");
+  });
+
+  it("keeps validating with the other provider and lowers confidence", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    const agent = new ValidationAgent(new ProviderRegistry([
+      new NumVerifyProvider({ http: jsonTransport(MALFORMED_NUMVERIFY) }),
+      keylessProvider(true),
+    ]));
+
+    const onlyNumVerify = await agent.execute({ phoneNumber: "+2348031234567", tools: ["numverify"], apiKeys: { numverify: LIVE_KEY } });
+    expect(onlyNumVerify.error).toMatchObject({ code: SCHEMA_VIOLATION, errorClass: "provider_bug", recoverable: true });
+
+    const response = await agent.execute({
+      phoneNumber: "+2348031234567",
+      tools: ["numverify", "hlr"],
+      apiKeys: { numverify: LIVE_KEY },
+    });
+    const validation = response.data as ValidationData;
+    expect(validation.source).toBe("hlr");
+    expect(validation.carrier).toBe("MTN Nigeria");
+    expect(validation.schemaViolations).toEqual([
+      "NumVerify: valid: Expected boolean, received string",
+      "NumVerify: carrier: Expected string, received object",
+    ]);
+
+    const confidence = new ConfidenceAgent();
+    const executionPlan = { skipWhatsApp: true, riskLevel: "high" as const };
+    const scored = await confidence.execute({ validation, executionPlan });
+    const clean = await confidence.execute({ validation: { ...validation, schemaViolations: undefined }, executionPlan });
+
+    expect(scored.data!.score).toBe(clean.data!.score - 20); // -10 per violation, capped at 20
+    expect(scored.data!.discrepancies).toContain("2 schema violation(s) in provider responses");
+  });
+
+  it("treats output that breaks the agent's schema as a provider bug", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    const agent = new ValidationAgent(new ProviderRegistry([keylessProvider("yes")]));
+
+    const response = await agent.execute({ phoneNumber: "+2348031234567", tools: ["hlr"], apiKeys: {} });
+
+    expect(response.success).toBe(false);
+    expect(response.error).toMatchObject({ code: SCHEMA_VIOLATION, errorClass: "provider_bug", recoverable: true });
+    expect(response.error!.violations).toContain("valid: Expected boolean, received string");
+  });
+
+  it("checks Twilio Lookup payloads in the WhatsApp and Inactive agents", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    const http = jsonTransport({ valid: true, country_code: "US", line_type_intelligence: { type: 7 } });
+    const deps = createDependencies({ http });
+
+    const whatsapp = new WhatsAppAgent(new RateLimiter(0));
+    whatsapp.useDependencies(deps);
+    const whatsappResponse = await whatsapp.execute({
+      phoneNumber: "+14155552671",
+      ...TWILIO,
+      validationData: { countryCode: "US", lineType: "mobile" },
+    });
+    // No fallback to the validation data: the payload goes back for a retry
+    expect(whatsappResponse.error).toMatchObject({ code: SCHEMA_VIOLATION, errorClass: "provider_bug" });
+    expect(whatsappResponse.error!.violations).toEqual(["line_type_intelligence.type: Expected string, received number"]);
+
+    const inactive = new InactiveAccountAgent();
+    inactive.useDependencies(deps);
+    const inactiveResponse = await inactive.execute({
+      phoneNumber: "+14155552671",
+      twilioAccountSid: TWILIO.accountSid,
+      twilioAuthToken: TWILIO.authToken,
+    });
+    expect(inactiveResponse.error).toMatchObject({ code: SCHEMA_VIOLATION, errorClass: "provider_bug" });
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import {
+  ConfidenceAgent,
+  DEFAULT_SCORING_MODEL,
+  RateLimiter,
+  Supervisor,
+  applyScoringModel,
+  validateScoringModel,
+} from "@/agents";
+import type { InactivityStatus, ScoringModel, ValidationData } from "@/agents";
+import { MockProviderServer } from "./mocks/MockProviderServer";
+import { numberingPlanResponse } from "./mocks/numberingPlanResponses";
+
+const VALIDATION: ValidationData = {
+  phoneNumber: "+14155552671",
+  countryCode: "US",
+  countryName: "United States",
+  lineType: "mobile",
+  valid: true,
+  source: "numverify",
+  rawData: [],
+};
+
+const INACTIVE: InactivityStatus = {
+  isInactive: true,
+  daysSinceActive: 200,
+  inactivityScore: 80,
+  deliveryProbability: 40,
+  confidence: 0.8,
+  severity: "high",
+  reasons: [],
+  recommendation: "Remove from list",
+  alternativeChannels: [],
+  countryPrevalence: { country: "US", whatsappUsage: 0.3 },
+};
+
+describe("Confidence scoring model", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("lists every rule that fired and records the model version", async () => {
+    const response = await new ConfidenceAgent().execute({
+      validation: { ...VALIDATION, lineType: "unknown" },
+      whatsapp: { exists: true, verified: true, businessAccount: true },
+      retryContext: { attempts: 2, maxAttempts: 3, backoffDelay: 0, useBackupKey: false, failedTools: ["numverify"] },
+      executionPlan: { skipWhatsApp: false, riskLevel: "low" },
+    });
+
+    const score = response.data!;
+    expect(score.modelVersion).toBe(DEFAULT_SCORING_MODEL.version);
+    expect(score.breakdown.rules).toEqual([
+      { rule: "unknown_line_type", description: "Line type could not be determined", points: -5 },
+      { rule: "retries", description: "API retries required", points: -20 },
+      { rule: "whatsapp_verified", description: "WhatsApp account verified", points: 5 },
+      { rule: "business_account", description: "WhatsApp business account", points: 3 },
+    ]);
+    expect(score.score).toBe(83);
+    expect(score.discrepancies).toContain("2 retry attempts required");
+    expect(score.reasoning).toBe(
+      "Moderate confidence validation, 2 API retries required, WhatsApp verification adds confidence, 2 discrepancies found."
+    );
+  });
+
+  it("scores inactivity inside the model with its weight and cap", async () => {
+    const response = await new ConfidenceAgent().execute({
+      validation: VALIDATION,
+      inactivity: INACTIVE,
+      executionPlan: { skipWhatsApp: false, riskLevel: "low" },
+    });
+
+    expect(response.data?.breakdown.rules).toContainEqual({
+      rule: "inactivity",
+      description: "Number looks inactive",
+      points: -30,
+    });
+    expect(response.data?.score).toBe(70);
+
+    const capped = applyScoringModel(DEFAULT_SCORING_MODEL, { inactive: true, delivery_shortfall: 100 });
+    expect(capped.contributions).toEqual([{ rule: "inactivity", description: "Number looks inactive", points: -50 }]);
+  });
+
+  it("scores with a custom model and rejects malformed ones", async () => {
+    const strict: ScoringModel = {
+      version: "strict-2",
+      baseScore: 80,
+      minScore: 0,
+      maxScore: 100,
+      rules: [{ id: "voip", description: "VoIP number", when: 'IF line_type == "voip"', points: -40 }],
+    };
+
+    const response = await new ConfidenceAgent(strict).execute({
+      validation: { ...VALIDATION, lineType: "voip" },
+      executionPlan: { skipWhatsApp: false, riskLevel: "low" },
+    });
+    expect(response.data).toMatchObject({ score: 40, modelVersion: "strict-2" });
+
+    expect(() => validateScoringModel({ ...strict, rules: [...strict.rules, ...strict.rules] })).toThrow("duplicate rule voip");
+    expect(() => new ConfidenceAgent({ ...strict, rules: [{ ...strict.rules[0], when: "IF line_type ~ 1" }] }))
+      .toThrow("cannot parse condition of rule voip");
+  });
+
+  it("returns the model's score from the Supervisor without a separate adjustment", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    const server = await new MockProviderServer({}, numberingPlanResponse).start();
+    const supervisor = new Supervisor({
+      apiConfig: { primary: { numverify: "test_key_123" }, backup: {}, baseUrls: server.baseUrls },
+      enableLogging: false,
+      whatsappRateLimiter: new RateLimiter(0),
+      cache: false,
+      scoringModel: { ...DEFAULT_SCORING_MODEL, version: "test-1", baseScore: 60 },
+    });
+
+    const result = await supervisor.validate({ phoneNumber: "+14155552671" }).finally(() => server.stop());
+    const fired = result.confidence.breakdown.rules.reduce((sum, rule) => sum + rule.points, 0);
+
+    expect(result.confidence.modelVersion).toBe("test-1");
+    expect(result.confidence.score).toBe(Math.round(Math.min(100, Math.max(0, 60 + fired))));
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, it, expect } from "vitest";
+import type { BatchItemResult } from "@/agents";
+import { RESULT_COLUMNS, toExportRows } from "@/lib/batchExport";
+import { parseCsv, toCsv } from "@/lib/spreadsheet";
+
+describe("parseCsv", () => {
+  it("handles quoted fields, escaped quotes and CRLF line endings", () => {
+    const text = '﻿name,phone,notes\r\n"Doe, Jane",+14155552671,"said ""hi"""\r\nBob,+447700900123,\r\n';
+
+    expect(parseCsv(text)).toEqual([
+      ["name", "phone", "notes"],
+      ["Doe, Jane", "+14155552671", 'said "hi"'],
+      ["Bob", "+447700900123", ""],
+    ]);
+  });
+
+  it("keeps line breaks inside quoted fields and skips blank lines", () => {
+    expect(parseCsv('a,b\n\n"line 1\nline 2",x')).toEqual([
+      ["a", "b"],
+      ["line 1\nline 2", "x"],
+    ]);
+  });
+});
+
+describe("toCsv", () => {
+  it("round-trips through parseCsv", () => {
+    const rows = [
+      ["phone", "carrier", "valid", "score"],
+      ["+919876543210", 'Airtel "4G", India', true, 87],
+      ["+15550000000", null, false, undefined],
+    ];
+
+    expect(parseCsv(toCsv(rows))).toEqual([
+      ["phone", "carrier", "valid", "score"],
+      ["+919876543210", 'Airtel "4G", India', "true", "87"],
+      ["+15550000000", "", "false", ""],
+    ]);
+  });
+});
+
+describe("toExportRows", () => {
+  const failed = (index: number): { index: number; item: BatchItemResult } => ({
+    index,
+    item: { index, phoneNumber: "+15550000000", success: false, error: "Provider timed out" },
+  });
+
+  it("pads short rows so results land under their headers", () => {
+    const sheet = { headers: ["name", "phone", "notes"], rows: [["Bob", "+15550000000"], ["Ann", "+15550000001", "vip", "extra"]] };
+
+    const [header, short, long] = toExportRows(sheet, [failed(0), failed(1)]);
+
+    expect(header).toEqual(["name", "phone", "notes", "Column 4", ...RESULT_COLUMNS]);
+    expect(short.slice(0, 4)).toEqual(["Bob", "+15550000000", "", ""]);
+    expect(short[header.indexOf("error")]).toBe("Provider timed out");
+    expect(long[header.indexOf("error")]).toBe("Provider timed out");
+  });
+
+  it("neutralizes cells a spreadsheet would run as formulas", () => {
+    const sheet = { headers: ["name", "phone"], rows: [['=HYPERLINK("http://evil","x")', "+1 (415) 555-2671"], ["@SUM(A1)", "-3"]] };
+
+    const [, first, second] = toExportRows(sheet, [failed(0), failed(1)]);
+
+    expect(first.slice(0, 2)).toEqual(['\'=HYPERLINK("http://evil","x")', "+1 (415) 555-2671"]);
+    expect(second.slice(0, 2)).toEqual(["'@SUM(A1)", "-3"]);
+  });
+});
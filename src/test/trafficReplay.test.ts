@@ -0,0 +1,110 @@
+// @vitest-environment node
+import { describe, it, expect, vi, afterEach, beforeAll, afterAll } from "vitest";
+import {
+  DEFAULT_DEPENDENCIES,
+  InMemoryTrafficStore,
+  RateLimiter,
+  Supervisor,
+  TimeoutError,
+  TrafficRecorder,
+  TrafficReplayer,
+  fetchWithTimeout,
+} from "@/agents";
+import type { APIConfig, SupervisorConfig } from "@/agents";
+import { FakeClock } from "./mocks/FakeClock";
+import { MockProviderServer } from "./mocks/MockProviderServer";
+
+const LIVE_KEY = "live-key-0123456789";
+const TWILIO = { accountSid: "AC00000000000000000000000000000001", authToken: "auth-token-0123456789" };
+
+describe("Traffic recording and replay", () => {
+  const server = MockProviderServer.fromFixtureFiles();
+
+  beforeAll(async () => {
+    await server.start();
+  });
+
+  afterAll(async () => {
+    await server.stop();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  function config(recorder?: TrafficRecorder): SupervisorConfig {
+    const apiConfig: APIConfig = {
+      primary: { numverify: LIVE_KEY, abstract: LIVE_KEY, twilio: TWILIO },
+      backup: {},
+      baseUrls: server.baseUrls,
+    };
+    return {
+      apiConfig,
+      enableLogging: false,
+      whatsappRateLimiter: new RateLimiter(0),
+      cache: false,
+      recorder,
+      dependencies: { clock: new FakeClock(Date.UTC(2026, 5, 1)) },
+    };
+  }
+
+  it("replays a recorded session without calling the providers", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    const store = new InMemoryTrafficStore();
+    const original = await new Supervisor(config(new TrafficRecorder(store))).validate({
+      phoneNumber: "+15005550001",
+    });
+    const callsMade = server.calls.length;
+
+    const session = await store.get(original.sessionId!);
+    expect(session?.requests).toEqual([{ phoneNumber: "+15005550001" }]);
+    expect(session?.exchanges.map((exchange) => exchange.status)).toContain(429);
+
+    const report = await Supervisor.replay(session!, config());
+
+    expect(server.calls).toHaveLength(callsMade);
+    expect(report.unmatched).toEqual([]);
+    expect(report.unused).toEqual([]);
+    const [replayed] = report.results;
+    expect(replayed.sessionId).toBe(original.sessionId);
+    expect(replayed.validation).toEqual(original.validation);
+    expect(replayed.whatsapp).toEqual(original.whatsapp);
+    expect(replayed.confidence.score).toBe(original.confidence.score);
+    expect(replayed.keySlots).toEqual(original.keySlots);
+    expect(replayed.cost?.entries.map((entry) => entry.kind)).toEqual(original.cost?.entries.map((entry) => entry.kind));
+  });
+
+  it("redacts API keys and credentials from what it stores", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    const store = new InMemoryTrafficStore();
+    const result = await new Supervisor(config(new TrafficRecorder(store))).validate({ phoneNumber: "+14155552671" });
+
+    const session = await store.get(result.sessionId!);
+    const stored = JSON.stringify(session);
+    expect(stored).not.toContain(LIVE_KEY);
+    expect(stored).not.toContain(TWILIO.authToken);
+    expect(stored).not.toContain(btoa(`${TWILIO.accountSid}:${TWILIO.authToken}`));
+
+    const numverify = session!.exchanges.find((exchange) => exchange.url.includes("/numverify/"));
+    expect(numverify?.url).toContain("access_key=REDACTED&number=14155552671");
+    const twilio = session!.exchanges.find((exchange) => exchange.url.includes("/twilio/"));
+    expect(twilio?.requestHeaders.authorization).toBe("REDACTED");
+  });
+
+  it("replays timeouts as timeouts and reports requests it has no recording for", async () => {
+    const recorder = new TrafficRecorder();
+    const deps = recorder.instrument(DEFAULT_DEPENDENCIES, () => "session_timeout");
+    recorder.begin("session_timeout", { phoneNumber: "+15005550004" }, 0);
+    const url = `${server.baseUrls.numverify}/validate?access_key=${LIVE_KEY}&number=15005550004&format=1`;
+
+    await expect(fetchWithTimeout(url, {}, 50, deps.http)).rejects.toBeInstanceOf(TimeoutError);
+
+    const replayer = new TrafficReplayer((await recorder.getSession("session_timeout"))!);
+    const replay = replayer.dependencies().http;
+    await expect(fetchWithTimeout(url.replace(LIVE_KEY, "other-key"), {}, 50, replay)).rejects.toBeInstanceOf(
+      TimeoutError
+    );
+    await expect(fetchWithTimeout(url, {}, 50, replay)).rejects.toThrow("No recorded response");
+    expect(replayer.unmatched).toEqual([`GET ${url.replace(LIVE_KEY, "REDACTED")}`]);
+  });
+});
@@ -0,0 +1,198 @@
+// @vitest-environment node
+import { describe, it, expect, vi, afterEach, beforeAll, afterAll } from "vitest";
+import {
+  ConfidenceAgent,
+  MAX_BATCH_CONCURRENCY,
+  RateLimiter,
+  Supervisor,
+  ValidationApiClient,
+  ValidationApiError,
+  createValidationHandler,
+  parseApiRequest,
+  summarizeValidation,
+  toAgentLogLine,
+} from "@/agents";
+import type { AgentEvent, BatchItemResult } from "@/agents";
+import { MockProviderServer } from "./mocks/MockProviderServer";
+import { numberingPlanResponse } from "./mocks/numberingPlanResponses";
+
+const CORS = { "Access-Control-Allow-Origin": "*" };
+const URL = "https://project.supabase.co/functions/v1/validate-number";
+const TWILIO = { accountSid: "AC00000000000000000000000000000001", authToken: "auth-token-0123456789" };
+const server = new MockProviderServer({}, numberingPlanResponse);
+
+function mockSupervisor() {
+  return new Supervisor({
+    apiConfig: {
+      primary: { numverify: "test_key_123", abstract: "test_key_456", twilio: TWILIO },
+      backup: {},
+      baseUrls: server.baseUrls,
+    },
+    enableLogging: false,
+    whatsappRateLimiter: new RateLimiter(0),
+    cache: false,
+  });
+}
+
+function setup() {
+  const createSupervisor = vi.fn((_req: Request) => mockSupervisor());
+  const handler = createValidationHandler({ createSupervisor, headers: CORS });
+  const client = new ValidationApiClient({
+    url: URL,
+    headers: () => ({ Authorization: "Bearer user-token" }),
+    http: (url, init) => handler(new Request(url, init)),
+  });
+  return { handler, client, createSupervisor };
+}
+
+const post = (body: unknown, headers: Record<string, string> = {}) =>
+  new Request(URL, { method: "POST", headers, body: JSON.stringify(body) });
+
+describe("Validation API", () => {
+  beforeAll(async () => {
+    await server.start();
+  });
+
+  afterAll(async () => {
+    await server.stop();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("answers with the ValidationResult and rejects malformed requests", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    const { handler, client, createSupervisor } = setup();
+
+    const result = await client.validate({ phoneNumber: "+14155552671" });
+    expect(result.validation.countryCode).toBe("US");
+    expect(result.confidence.score).toBeGreaterThan(0);
+    expect(createSupervisor.mock.calls[0][0].headers.get("Authorization")).toBe("Bearer user-token");
+
+    const missing = await handler(post({ country: "US" }));
+    expect(missing.status).toBe(400);
+    expect(await missing.json()).toEqual({ error: "phoneNumber is required" });
+    expect(missing.headers.get("Access-Control-Allow-Origin")).toBe("*");
+
+    expect((await handler(post({ requests: [{ phoneNumber: "+1" }, {}] }))).status).toBe(400);
+    expect((await handler(new Request(URL, { method: "POST", body: "{" }))).status).toBe(400);
+    expect((await handler(new Request(URL))).status).toBe(405);
+    expect((await handler(new Request(URL, { method: "OPTIONS" }))).headers.get("Access-Control-Allow-Origin")).toBe("*");
+    await expect(client.validate({ phoneNumber: " " })).rejects.toThrow(ValidationApiError);
+  });
+
+  it("streams agent events and then the result", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    const { client } = setup();
+
+    const events: AgentEvent[] = [];
+    const stream = client.stream({ phoneNumber: "+14155552671" });
+    let next = await stream.next();
+    while (!next.done) {
+      events.push(next.value as AgentEvent);
+      next = await stream.next();
+    }
+
+    expect(events.map((event) => event.type)).toEqual(expect.arrayContaining(["phase", "status", "thought", "result"]));
+    expect(next.value.phoneNumber).toBe("+14155552671");
+    expect(events.find((event) => event.type === "result")).toMatchObject({ result: { sessionId: next.value.sessionId } });
+  });
+
+  it("ends the stream with the validation's error", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(ConfidenceAgent.prototype, "execute").mockRejectedValue(new Error("scoring offline"));
+    const { client } = setup();
+
+    const drain = async () => {
+      const stream = client.stream({ phoneNumber: "+14155552671" });
+      for (let next = await stream.next(); !next.done; next = await stream.next());
+    };
+
+    await expect(drain()).rejects.toThrow("scoring offline");
+  });
+
+  it("runs batches on the server with progress, items and a summary", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    const { client } = setup();
+    const phases: number[] = [];
+
+    const batch = client.validateBatch(
+      [{ phoneNumber: "+14155552671" }, { phoneNumber: "+447700900123" }, { phoneNumber: "+15005550000" }],
+      { concurrency: 2, onProgress: (index) => phases.push(index) }
+    );
+    const items: BatchItemResult[] = [];
+    let next = await batch.next();
+    while (!next.done) {
+      items.push(next.value as BatchItemResult);
+      next = await batch.next();
+    }
+
+    expect(items.map((item) => item.index).sort()).toEqual([0, 1, 2]);
+    expect(new Set(phases)).toEqual(new Set([0, 1, 2]));
+    expect(next.value).toMatchObject({ total: 3, succeeded: items.filter((item) => item.success).length });
+  });
+
+  it("clamps batch concurrency to the server's maximum and the batch size", () => {
+    const requests = [{ phoneNumber: "+14155552671" }, { phoneNumber: "+447700900123" }];
+
+    expect(parseApiRequest({ requests, concurrency: 1e9 })).toMatchObject({ concurrency: 2 });
+    expect(parseApiRequest({ requests: Array(50).fill(requests[0]), concurrency: 1e9 })).toMatchObject({
+      concurrency: MAX_BATCH_CONCURRENCY,
+    });
+    expect(parseApiRequest({ requests })).toMatchObject({ concurrency: undefined });
+    expect(() => parseApiRequest({ requests, concurrency: 0 })).toThrow("concurrency must be a positive number");
+  });
+
+  it("sends batches larger than the server's limit in chunks", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    const handler = createValidationHandler({ createSupervisor: () => mockSupervisor(), maxBatchSize: 2 });
+    const http = vi.fn((url: string, init?: RequestInit) => handler(new Request(url, init)));
+    const client = new ValidationApiClient({ url: URL, http, maxBatchSize: 2 });
+    const phones = ["+14155552671", "+447700900123", "+15005550000", "+14155550100", "+447700900456"];
+
+    const batch = client.validateBatch(phones.map((phoneNumber) => ({ phoneNumber })));
+    const items: BatchItemResult[] = [];
+    let next = await batch.next();
+    while (!next.done) {
+      items.push(next.value as BatchItemResult);
+      next = await batch.next();
+    }
+
+    expect(http).toHaveBeenCalledTimes(3);
+    expect(items.map((item) => [item.index, item.phoneNumber]).sort()).toEqual(phones.map((phone, index) => [index, phone]));
+    expect(next.value).toMatchObject({ total: 5, succeeded: items.filter((item) => item.success).length });
+  });
+
+  it("flattens results and events the same way for the app and validate-phone", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    const { client } = setup();
+    const lines: string[] = [];
+
+    const stream = client.stream({ phoneNumber: "+14155552671", country: "+1" });
+    let next = await stream.next();
+    while (!next.done) {
+      const line = toAgentLogLine(next.value as AgentEvent);
+      if (line) lines.push(`${line.agent}:${line.status}`);
+      next = await stream.next();
+    }
+    const result = next.value;
+
+    expect(summarizeValidation(result)).toEqual({
+      phoneNumber: result.validation.phoneNumber,
+      countryCode: "US",
+      countryName: result.validation.countryName,
+      carrier: result.validation.carrier || "Unknown",
+      lineType: result.validation.lineType,
+      isValid: result.validation.valid,
+      whatsappStatus: result.whatsapp ? (result.whatsapp.exists ? "verified" : "not_found") : "unchecked",
+      confidenceScore: result.confidence.score,
+      costSaved: Math.max(0, result.cost!.estimated - result.cost!.actual),
+      validationTime: result.totalExecutionTime,
+      retryCount: 0,
+    });
+    expect(lines).toContain("orchestrator:info");
+    expect(lines.some((line) => line.endsWith(":thinking"))).toBe(true);
+    expect(toAgentLogLine({ type: "status", agent: "decision", status: "thinking", timestamp: 0 })).toBeNull();
+  });
+});
@@ -0,0 +1,191 @@
+import { describe, it, expect, vi, afterEach, beforeAll, afterAll } from "vitest";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  ConfidenceAgent,
+  InMemoryValidationAuditLog,
+  RateLimiter,
+  SupabaseValidationAuditLog,
+  Supervisor,
+  summarizeAudit,
+} from "@/agents";
+import type { AgentResponse, AuditFilter, ValidationAuditLog } from "@/agents";
+import { FakeClock } from "./mocks/FakeClock";
+import { MockProviderServer } from "./mocks/MockProviderServer";
+import { numberingPlanResponse } from "./mocks/numberingPlanResponses";
+
+const TWILIO = { accountSid: "AC00000000000000000000000000000001", authToken: "auth-token-0123456789" };
+const server = new MockProviderServer({}, numberingPlanResponse);
+
+function mockSupervisor(auditLog: ValidationAuditLog, clock = new FakeClock(Date.UTC(2026, 9, 1))) {
+  return new Supervisor({
+    apiConfig: {
+      primary: { numverify: "test_key_123", abstract: "test_key_456", twilio: TWILIO },
+      backup: {},
+      baseUrls: server.baseUrls,
+    },
+    enableLogging: false,
+    whatsappRateLimiter: new RateLimiter(0),
+    cache: false,
+    auditLog,
+    dependencies: { clock },
+  });
+}
+
+type Row = Record<string, unknown>;
+
+// Just enough of the Supabase query builder for validation_sessions. Without a
+// uid the client is the service role; with one, selects apply the RLS policy.
+function fakeSupabase(rows: Row[], uid?: string) {
+  return {
+    from: () => ({
+      insert: async (row: Row) => {
+        rows.push({ id: `row-${rows.length + 1}`, ...row });
+        return { error: null };
+      },
+      select: () => {
+        let visible = rows.filter((row) => uid === undefined || row.user_id === uid);
+        const query = {
+          order: () => query,
+          limit: (count: number) => {
+            visible = visible.slice(0, count);
+            return query;
+          },
+          eq: (column: string, value: unknown) => {
+            visible = visible.filter((row) => row[column] === value);
+            return query;
+          },
+          then: (resolve: (value: { data: Row[]; error: null }) => void) => resolve({ data: visible, error: null }),
+        };
+        return query;
+      },
+    }),
+  } as unknown as SupabaseClient;
+}
+
+describe("Validation audit trail", () => {
+  beforeAll(async () => {
+    await server.start();
+  });
+
+  afterAll(async () => {
+    await server.stop();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("records the request, plan, agent runs, result and cost of a validation", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    const auditLog = new InMemoryValidationAuditLog();
+
+    const result = await mockSupervisor(auditLog).validate({ phoneNumber: "(415) 555-2671", country: "US" });
+
+    const [entry] = await auditLog.list();
+    expect(entry.sessionId).toBe(result.sessionId);
+    expect(entry.createdAt).toBe(Date.UTC(2026, 9, 1));
+    expect(entry.request).toEqual({ phoneNumber: "(415) 555-2671", country: "US" });
+    expect(entry.phoneNumber).toBe("+14155552671");
+    expect(entry.status).toBe("complete");
+    expect(entry.plan).toEqual(result.executionPlan);
+    expect(entry.agentRuns.map((run) => run.agent)).toEqual(expect.arrayContaining(["decision", "validation", "confidence"]));
+    expect(entry.agentRuns).toEqual(result.agentRuns);
+    expect(entry.agentRuns.every((run) => run.metadata.executionTime >= 0)).toBe(true);
+    expect(entry.result?.confidence.breakdown).toEqual(result.confidence.breakdown);
+    expect(entry.totalCost).toBe(result.cost?.actual);
+    expect(entry.executionTimeMs).toBe(result.totalExecutionTime);
+  });
+
+  it("reads back the sessions the service role writes for each caller", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    const rows: Row[] = [];
+
+    const result = await mockSupervisor(new SupabaseValidationAuditLog(fakeSupabase(rows), { userId: "user-1" }))
+      .validate({ phoneNumber: "+14155552671" });
+    await mockSupervisor(new SupabaseValidationAuditLog(fakeSupabase(rows), { userId: null }))
+      .validate({ phoneNumber: "+447700900123" });
+
+    expect(rows.map((row) => row.user_id)).toEqual(["user-1", null]);
+
+    const [entry, ...others] = await new SupabaseValidationAuditLog(fakeSupabase(rows, "user-1")).list();
+    expect(others).toEqual([]);
+    expect(entry).toMatchObject({ sessionId: result.sessionId, phoneNumber: "+14155552671", status: "complete" });
+    expect(entry.createdAt).toBe(Date.UTC(2026, 9, 1));
+    expect(entry.result?.confidence).toEqual(result.confidence);
+    expect(await new SupabaseValidationAuditLog(fakeSupabase(rows, "user-2")).list()).toEqual([]);
+  });
+
+  it("records failed validations with the error and the agent runs so far", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    const auditLog = new InMemoryValidationAuditLog();
+    const failure: AgentResponse = {
+      success: false,
+      agent: "confidence",
+      error: { code: "SCORING_ERROR", message: "model unavailable", recoverable: false },
+      metadata: { executionTime: 0, retriesAttempted: 0, toolsUsed: [], reasoning: [] },
+    };
+    vi.spyOn(ConfidenceAgent.prototype, "execute").mockResolvedValue(failure);
+
+    await expect(mockSupervisor(auditLog).validate({ phoneNumber: "+14155552671" })).rejects.toThrow();
+
+    const [entry] = await auditLog.list();
+    expect(entry.status).toBe("failed");
+    expect(entry.error).toBe("Confidence scoring failed");
+    expect(entry.result).toBeUndefined();
+    expect(entry.plan?.steps.length).toBeGreaterThan(0);
+    expect(entry.agentRuns.at(-1)).toMatchObject({ agent: "confidence", success: false });
+  });
+
+  it("lists the most recent entries first and filters by number and outcome", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    const auditLog = new InMemoryValidationAuditLog();
+    const clock = new FakeClock(Date.UTC(2026, 9, 1));
+    const supervisor = mockSupervisor(auditLog, clock);
+
+    await supervisor.validate({ phoneNumber: "+14155552671" });
+    clock.advance(60000);
+    await supervisor.validate({ phoneNumber: "+447700900123" });
+    const failing = vi.spyOn(console, "warn").mockImplementation(() => {});
+    vi.spyOn(auditLog, "record").mockRejectedValueOnce(new Error("database offline"));
+    await expect(supervisor.validate({ phoneNumber: "+14155552671" })).resolves.toBeDefined();
+    expect(failing).toHaveBeenCalled();
+
+    expect((await auditLog.list()).map((entry) => entry.phoneNumber)).toEqual(["+447700900123", "+14155552671"]);
+    expect(await auditLog.list({ phoneNumber: "415 555" })).toHaveLength(1);
+    expect(await auditLog.list({ outcome: "failed" })).toEqual([]);
+    expect(await auditLog.list({ limit: 1 })).toHaveLength(1);
+  });
+
+  it("filters on the result and summarizes the log for the stats bar", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const auditLog = new InMemoryValidationAuditLog();
+    const start = Date.UTC(2026, 9, 1);
+    const clock = new FakeClock(start);
+    const supervisor = mockSupervisor(auditLog, clock);
+
+    const us = await supervisor.validate({ phoneNumber: "+14155552671" });
+    clock.advance(2 * 86400000);
+    const gb = await supervisor.validate({ phoneNumber: "+447700900123" });
+    vi.spyOn(ConfidenceAgent.prototype, "execute").mockRejectedValueOnce(new Error("scoring offline"));
+    await expect(supervisor.validate({ phoneNumber: "+14155552671" })).rejects.toThrow();
+
+    const numbers = async (filter: AuditFilter) => (await auditLog.list(filter)).map((entry) => entry.phoneNumber);
+    expect(await numbers({ countryCode: "gb" })).toEqual(["+447700900123"]);
+    expect(await numbers({ lineType: us.validation.lineType, countryCode: "US" })).toEqual(["+14155552671"]);
+    expect(await numbers({ whatsapp: gb.whatsapp?.exists ?? false, countryCode: "GB" })).toEqual(["+447700900123"]);
+    expect(await numbers({ minConfidence: us.confidence.score, maxConfidence: us.confidence.score, countryCode: "US" }))
+      .toEqual(["+14155552671"]);
+    expect(await numbers({ until: start + 86400000 })).toEqual(["+14155552671"]);
+    expect(await numbers({ since: start + 86400000 })).toEqual(["+14155552671", "+447700900123"]);
+
+    const stats = await auditLog.stats();
+    expect(stats.totalValidations).toBe(3);
+    expect(stats.successRate).toBeCloseTo(66.67, 1);
+    expect(stats.avgResponseTime).toBe(
+      Math.round((await auditLog.list()).reduce((sum, entry) => sum + entry.executionTimeMs, 0) / 3)
+    );
+    expect(stats.totalSaved).toBeGreaterThanOrEqual(0);
+    expect(summarizeAudit([])).toEqual({ totalValidations: 0, successRate: 0, avgResponseTime: 0, totalSaved: 0 });
+  });
+});
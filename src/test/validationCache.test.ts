@@ -0,0 +1,130 @@
+import { describe, it, expect, vi, afterEach, beforeAll, afterAll } from "vitest";
+import { Supervisor, RateLimiter, ValidationCache, MemoryCacheStore, ValidationAgent, WhatsAppAgent } from "@/agents";
+import type { AgentEvent, ValidationData, WhatsAppData } from "@/agents";
+import { FakeClock } from "./mocks/FakeClock";
+import { MockProviderServer } from "./mocks/MockProviderServer";
+import { numberingPlanResponse } from "./mocks/numberingPlanResponses";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const validation: ValidationData = {
+  phoneNumber: "+919876543210",
+  countryCode: "IN",
+  countryName: "India",
+  lineType: "mobile",
+  valid: true,
+  source: "numverify",
+  rawData: [],
+};
+
+const whatsapp: WhatsAppData = { exists: true, verified: false, businessAccount: false };
+
+const TWILIO = { accountSid: "AC00000000000000000000000000000001", authToken: "auth-token-0123456789" };
+const server = new MockProviderServer({}, numberingPlanResponse);
+
+function mockSupervisor(cache?: ValidationCache, clock?: FakeClock) {
+  return new Supervisor({
+    dependencies: clock && { clock },
+    apiConfig: {
+      primary: { numverify: "test_key_123", abstract: "test_key_456", twilio: TWILIO },
+      backup: {},
+      baseUrls: server.baseUrls,
+    },
+    enableLogging: false,
+    whatsappRateLimiter: new RateLimiter(0),
+    cache,
+  });
+}
+
+describe("ValidationCache", () => {
+  beforeAll(async () => {
+    await server.start();
+  });
+
+  afterAll(async () => {
+    await server.stop();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it("evicts the least recently used entry when the memory store is full", async () => {
+    const store = new MemoryCacheStore(2);
+    await store.set({ phoneNumber: "+14155550001" });
+    await store.set({ phoneNumber: "+14155550002" });
+    await store.get("+14155550001");
+    await store.set({ phoneNumber: "+14155550003" });
+
+    expect(store.size).toBe(2);
+    expect(await store.get("+14155550001")).toBeDefined();
+    expect(await store.get("+14155550002")).toBeUndefined();
+  });
+
+  it("expires presence data before line data", async () => {
+    vi.useFakeTimers();
+    const cache = new ValidationCache();
+    await cache.storeValidation("+919876543210", validation);
+    await cache.storePresence("+919876543210", whatsapp);
+
+    vi.advanceTimersByTime(2 * DAY_MS);
+    const lookup = await cache.lookup("+919876543210");
+    expect(lookup.validation).toEqual(validation);
+    expect(lookup.whatsapp).toBeUndefined();
+
+    vi.advanceTimersByTime(30 * DAY_MS);
+    expect(await cache.lookup("+919876543210")).toEqual({});
+  });
+
+  it("serves repeat validations from the cache and reports the hit", async () => {
+    const cache = new ValidationCache();
+    const validate = vi.spyOn(ValidationAgent.prototype, "execute");
+    const checkWhatsApp = vi.spyOn(WhatsAppAgent.prototype, "execute");
+
+    const first = await mockSupervisor(cache).validate({ phoneNumber: "+919876543210" });
+    const lookups = validate.mock.calls.length;
+    const second = await mockSupervisor(cache).validate({ phoneNumber: "+91 98765 43210" });
+
+    expect(lookups).toBeGreaterThan(0);
+    expect(validate).toHaveBeenCalledTimes(lookups);
+    expect(checkWhatsApp).toHaveBeenCalledTimes(1);
+    expect(second.validation).toEqual(first.validation);
+    expect(second.chainOfExecution).toContain("Cache: Validation hit (0m old)");
+    expect(second.chainOfExecution).toContain("Cache: WhatsApp hit (0m old)");
+  });
+
+  it("bypasses the cache on forceRefresh", async () => {
+    const cache = new ValidationCache();
+    await cache.storeValidation("+919876543210", { ...validation, carrier: "Stale Carrier" });
+    const validate = vi.spyOn(ValidationAgent.prototype, "execute");
+
+    const result = await mockSupervisor(cache).validate({ phoneNumber: "+919876543210", forceRefresh: true });
+
+    expect(validate).toHaveBeenCalled();
+    expect(result.validation.carrier).not.toBe("Stale Carrier");
+    expect(result.chainOfExecution.some((step) => step.startsWith("Cache:"))).toBe(false);
+    expect((await cache.lookup("+919876543210")).validation?.carrier).toBe(result.validation.carrier);
+  });
+
+  it("ages entries, costs and events on the Supervisor's clock", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    const clock = new FakeClock(Date.UTC(2026, 0, 1));
+    const supervisor = mockSupervisor(undefined, clock);
+    const events: AgentEvent[] = [];
+    supervisor.subscribe((event) => events.push(event));
+
+    await supervisor.validate({ phoneNumber: "+919876543210" });
+    const stamps = [...events, ...supervisor.getCostLedger().getEntries()].map((entry) => entry.timestamp);
+    expect(stamps.length).toBeGreaterThan(0);
+    expect(stamps.every((timestamp) => timestamp === clock.now())).toBe(true);
+
+    clock.advance(2 * DAY_MS);
+    const validate = vi.spyOn(ValidationAgent.prototype, "execute");
+    const second = await supervisor.validate({ phoneNumber: "+919876543210" });
+
+    expect(validate).not.toHaveBeenCalled();
+    expect(second.chainOfExecution).toContain("Cache: Validation hit (2d old)");
+    expect(second.chainOfExecution.some((step) => step.startsWith("Cache: WhatsApp hit"))).toBe(false);
+  });
+});
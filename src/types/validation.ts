@@ -13,7 +13,8 @@ export type AgentType =
   | 'decision' 
   | 'retry' 
   | 'whatsapp' 
-  | 'confidence';
+  | 'confidence'
+  | 'inactive';
 
 export interface AgentStatus {
   name: AgentType;
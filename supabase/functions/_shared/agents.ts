@@ -0,0 +1,10 @@
+/**
+ * The multi-agent system (src/agents) for edge functions
+ *
+ * src/agents has no browser or Vite dependencies, so Deno runs it as is. Its
+ * imports omit the .ts extension, which the functions' deno.json allows
+ * with the sloppy-imports flag; compilerOptions match the app's non-strict
+ * tsconfig. `npm run check:functions` type-checks each entrypoint with the
+ * src/agents files it pulls in.
+ */
+export * from "../../../src/agents/index.ts";
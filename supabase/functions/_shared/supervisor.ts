@@ -0,0 +1,86 @@
+import { createClient } from "@supabase/supabase-js";
+import {
+  OpenAIClient,
+  ProviderHealthRegistry,
+  SupabaseCacheStore,
+  SupabaseDeliveryHistoryRepository,
+  SupabaseTrafficStore,
+  SupabaseValidationAuditLog,
+  TrafficRecorder,
+  ValidationCache,
+  createMultiAgentSystem,
+} from "./agents.ts";
+
+/**
+ * Server-side Supervisor wiring shared by the validation edge functions.
+ *
+ * Provider credentials come from function secrets (never VITE_ variables, which
+ * end up in the browser bundle). The cache, delivery history, recorded
+ * traffic and audit log all use the service role; audit rows are stamped
+ * with the verified caller's user id so validation_sessions RLS shows each
+ * user only their own history.
+ */
+
+export const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, accept',
+};
+
+const env = (name: string) => Deno.env.get(name) || undefined;
+
+const serviceClient = createClient(
+  Deno.env.get('SUPABASE_URL')!,
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+);
+
+// Shared by every request this isolate serves, like the browser singletons in src/lib
+const cache = new ValidationCache({ store: new SupabaseCacheStore(serviceClient) });
+const deliveryHistory = new SupabaseDeliveryHistoryRepository(serviceClient);
+const health = new ProviderHealthRegistry();
+const recorder = env('RECORD_PROVIDER_TRAFFIC')
+  ? new TrafficRecorder(new SupabaseTrafficStore(serviceClient))
+  : undefined;
+const llm = env('OPENAI_API_KEY')
+  ? new OpenAIClient({ apiKey: env('OPENAI_API_KEY')!, model: env('OPENAI_MODEL') })
+  : undefined;
+
+/**
+ * The signed-in (or anonymously signed-in) user behind the request's JWT;
+ * null for the bare publishable key
+ */
+async function callerId(req: Request): Promise<string | null> {
+  const token = req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '');
+  if (!token) return null;
+
+  const { data, error } = await serviceClient.auth.getUser(token);
+  return error ? null : data.user?.id ?? null;
+}
+
+/**
+ * Supervisor for one request; audit entries belong to the caller
+ */
+export async function createServerSupervisor(req: Request) {
+  const userId = await callerId(req);
+
+  return createMultiAgentSystem({
+    numverifyKey: env('NUMVERIFY_API_KEY'),
+    abstractKey: env('ABSTRACT_API_KEY'),
+    whatsappKey: env('WHATSAPP_API_KEY'),
+    twilioAccountSid: env('TWILIO_ACCOUNT_SID'),
+    twilioAuthToken: env('TWILIO_AUTH_TOKEN'),
+    twilioPhoneNumber: env('TWILIO_PHONE_NUMBER'),
+    numverifyBackupKey: env('NUMVERIFY_BACKUP_KEY'),
+    abstractBackupKey: env('ABSTRACT_BACKUP_KEY'),
+    whatsappBackupKey: env('WHATSAPP_BACKUP_KEY'),
+    twilioBackupAccountSid: env('TWILIO_BACKUP_ACCOUNT_SID'),
+    twilioBackupAuthToken: env('TWILIO_BACKUP_AUTH_TOKEN'),
+    twilioBackupPhoneNumber: env('TWILIO_BACKUP_PHONE_NUMBER'),
+    cache,
+    deliveryHistory,
+    health,
+    recorder,
+    auditLog: new SupabaseValidationAuditLog(serviceClient, { userId }),
+    llm,
+    enableLogging: false,
+  });
+}
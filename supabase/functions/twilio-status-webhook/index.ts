@@ -0,0 +1,187 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+/**
+ * Twilio Status Webhook - Records WhatsApp/SMS delivery callbacks in message_logs
+ *
+ * Configure this function's URL as the StatusCallback for outbound messages.
+ * Every callback is verified against X-Twilio-Signature, then upserted by
+ * MessageSid so the whatsapp_inactivity_summary view sees real delivery history.
+ */
+
+type MessageStatus = 'queued' | 'sent' | 'delivered' | 'read' | 'failed' | 'undelivered';
+type ErrorType = 'rate_limit' | 'banned' | 'blocked' | 'deleted' | 'network' | 'other';
+
+// Twilio reports a few extra lifecycle states; fold them into the table's enum
+const STATUS_MAP: Record<string, MessageStatus> = {
+  accepted: 'queued',
+  scheduled: 'queued',
+  queued: 'queued',
+  sending: 'sent',
+  sent: 'sent',
+  delivered: 'delivered',
+  read: 'read',
+  failed: 'failed',
+  canceled: 'failed',
+  undelivered: 'undelivered',
+};
+
+// Callbacks can arrive out of order; never move a message backwards
+const STATUS_RANK: Record<MessageStatus, number> = {
+  queued: 0,
+  sent: 1,
+  failed: 2,
+  undelivered: 2,
+  delivered: 3,
+  read: 4,
+};
+
+// Same codes as WhatsAppAgent.ERROR_CODES, plus Twilio carrier errors
+const ERROR_TYPES: Record<ErrorType, string[]> = {
+  banned: ['131026', '131047'],
+  blocked: ['131030', '30007', '63024'],
+  deleted: ['131051', '30005'],
+  rate_limit: ['429', '88', '131048', '131056', '63018'],
+  network: ['30003', '30008', '131000'],
+  other: [],
+};
+
+serve(async (req) => {
+  if (req.method !== 'POST') {
+    return new Response('Method not allowed', { status: 405 });
+  }
+
+  try {
+    const TWILIO_AUTH_TOKEN = Deno.env.get('TWILIO_AUTH_TOKEN');
+    if (!TWILIO_AUTH_TOKEN) {
+      throw new Error('TWILIO_AUTH_TOKEN is not configured');
+    }
+
+    const params = Object.fromEntries(new URLSearchParams(await req.text()));
+
+    // Twilio signs the public URL it called, which can differ from req.url behind the gateway
+    const webhookUrl = Deno.env.get('TWILIO_WEBHOOK_URL') ?? req.url;
+    const signature = req.headers.get('X-Twilio-Signature') ?? '';
+    if (!(await isValidSignature(TWILIO_AUTH_TOKEN, webhookUrl, params, signature))) {
+      console.warn('[Webhook] Rejected callback with invalid signature');
+      return new Response('Invalid signature', { status: 403 });
+    }
+
+    const messageId = params.MessageSid ?? params.SmsSid;
+    const status = STATUS_MAP[params.MessageStatus ?? params.SmsStatus ?? ''];
+    const phoneNumber = params.To?.replace(/^whatsapp:/, '');
+
+    if (!messageId || !status || !phoneNumber) {
+      // Acknowledge anyway so Twilio does not keep retrying a callback we cannot use
+      console.warn(`[Webhook] Ignoring callback: sid=${messageId} status=${params.MessageStatus}`);
+      return jsonResponse({ ignored: true });
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    );
+
+    const { data: existing, error: readError } = await supabase
+      .from('message_logs')
+      .select('status, delivered_at')
+      .eq('message_id', messageId)
+      .maybeSingle();
+
+    if (readError) throw new Error(`Failed to read message log: ${readError.message}`);
+
+    if (existing && STATUS_RANK[existing.status as MessageStatus] > STATUS_RANK[status]) {
+      console.log(`[Webhook] ${messageId}: keeping ${existing.status}, ignoring late ${status}`);
+      return jsonResponse({ messageId, status: existing.status });
+    }
+
+    const now = new Date().toISOString();
+    const row: Record<string, string | null> = {
+      message_id: messageId,
+      phone_number: phoneNumber,
+      sender_id: params.From?.replace(/^whatsapp:/, '') ?? null,
+      status,
+    };
+
+    if (status === 'sent') row.sent_at = now;
+    if (status === 'delivered') row.delivered_at = now;
+    if (status === 'read') {
+      row.read_at = now;
+      // The inactivity view counts successes by delivered_at
+      if (!existing?.delivered_at) row.delivered_at = now;
+    }
+
+    if (status === 'failed' || status === 'undelivered') {
+      const errorCode = params.ErrorCode || null;
+      row.failed_at = now;
+      row.error_code = errorCode;
+      row.error_message = params.ErrorMessage || params.ChannelStatusMessage || null;
+      row.error_type = errorCode ? classifyError(errorCode) : null;
+    }
+
+    const { error: writeError } = await supabase
+      .from('message_logs')
+      .upsert(row, { onConflict: 'message_id' });
+
+    if (writeError) throw new Error(`Failed to write message log: ${writeError.message}`);
+
+    console.log(`[Webhook] ${messageId} → ${status}${row.error_type ? ` (${row.error_type})` : ''}`);
+    return jsonResponse({ messageId, status });
+
+  } catch (error) {
+    console.error('[Webhook] Error:', error);
+    return jsonResponse(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      500
+    );
+  }
+});
+
+function classifyError(errorCode: string): ErrorType {
+  const match = (Object.keys(ERROR_TYPES) as ErrorType[])
+    .find(type => ERROR_TYPES[type].includes(errorCode));
+  return match ?? 'other';
+}
+
+/**
+ * Twilio request validation: base64(HMAC-SHA1(authToken, url + sorted key/value pairs))
+ * https://www.twilio.com/docs/usage/webhooks/webhooks-security
+ */
+async function isValidSignature(
+  authToken: string,
+  url: string,
+  params: Record<string, string>,
+  signature: string
+): Promise<boolean> {
+  const payload = Object.keys(params)
+    .sort()
+    .reduce((acc, key) => acc + key + params[key], url);
+
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(authToken),
+    { name: 'HMAC', hash: 'SHA-1' },
+    false,
+    ['sign']
+  );
+  const digest = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(payload));
+  const expected = btoa(String.fromCharCode(...new Uint8Array(digest)));
+
+  return timingSafeEqual(expected, signature);
+}
+
+function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
@@ -0,0 +1,16 @@
+import { createValidationHandler } from "../_shared/agents.ts";
+import { corsHeaders, createServerSupervisor } from "../_shared/supervisor.ts";
+
+/**
+ * Validate Number - The multi-agent Supervisor behind an authenticated endpoint
+ *
+ * POST a ValidationRequest and get the ValidationResult back, or ask for
+ * text/event-stream to receive agent events as they happen. POST
+ * { requests, concurrency } to stream a batch. The gateway verifies the
+ * caller's Supabase JWT (verify_jwt in config.toml) before this runs.
+ */
+
+Deno.serve(createValidationHandler({
+  createSupervisor: createServerSupervisor,
+  headers: corsHeaders,
+}));
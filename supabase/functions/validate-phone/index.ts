@@ -1,509 +1,75 @@
-import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-};
-
-// OpenAI API endpoint
-const OPENAI_API_URL = "https://api.openai.com/v1/chat/completions";
+import { summarizeValidation, toAgentLogLine, type AgentEvent, type AgentLogLine } from "../_shared/agents.ts";
+import { corsHeaders, createServerSupervisor } from "../_shared/supervisor.ts";
+
+/**
+ * Validate Phone - Flat validation result plus an agent log, for simple clients
+ *
+ * Runs the same Supervisor, agents and confidence scoring model as
+ * validate-number and the app (src/agents), and flattens the result with the
+ * same summarizeValidation() the app's hook uses, so every entry point gives
+ * the same answer for the same number.
+ */
 
 interface ValidationRequest {
   phoneNumber: string;
-  countryCode: string;
+  countryCode: string; // Calling code, e.g. "+1"
 }
 
-interface AgentLog {
-  agent: string;
-  message: string;
-  status: 'info' | 'success' | 'warning' | 'error' | 'thinking';
+interface AgentLog extends AgentLogLine {
   timestamp: string;
 }
 
-serve(async (req) => {
+Deno.serve(async (req) => {
   // Handle CORS preflight
   if (req.method === 'OPTIONS') {
     return new Response('ok', { headers: corsHeaders });
   }
 
-  try {
-    const OPENAI_API_KEY = Deno.env.get('OPENAI_API_KEY');
-    if (!OPENAI_API_KEY) {
-      throw new Error('OPENAI_API_KEY is not configured');
-    }
+  const logs: AgentLog[] = [];
+  const addLog = (line: AgentLogLine, at = Date.now()) => {
+    logs.push({ ...line, timestamp: new Date(at).toISOString() });
+  };
 
+  try {
     const { phoneNumber, countryCode }: ValidationRequest = await req.json();
 
     if (!phoneNumber || !countryCode) {
-      throw new Error('Missing required parameters: phoneNumber and countryCode');
+      return jsonResponse({ error: 'Missing required parameters: phoneNumber and countryCode' }, 400);
     }
 
     console.log(`[Orchestrator] Starting validation for ${countryCode} ${phoneNumber}`);
+    addLog({ agent: 'orchestrator', message: `Received validation request for ${countryCode} ${phoneNumber}`, status: 'info' });
 
-    const logs: AgentLog[] = [];
-    const addLog = (agent: string, message: string, status: AgentLog['status']) => {
-      logs.push({
-        agent,
-        message,
-        status,
-        timestamp: new Date().toISOString(),
-      });
-      console.log(`[${agent.toUpperCase()}] ${message}`);
-    };
-
-    const startTime = Date.now();
-    let retryCount = 0;
-
-    // Orchestrator Agent
-    addLog('orchestrator', `Received validation request for ${countryCode} ${phoneNumber}`, 'info');
-    addLog('orchestrator', 'Initializing multi-agent AI pipeline...', 'thinking');
-
-    // Validation Agent - Use advanced AI reasoning for phone analysis
-    addLog('validation', 'Initiating AI-powered phone validation...', 'thinking');
-    addLog('validation', 'Analyzing number structure, country patterns, and carrier prefix...', 'thinking');
-    
-    const validationPrompt = `You are a specialized telecommunications validation agent. Perform deep analysis on this phone number:
-
-**INPUT DATA:**
-- Country Code: ${countryCode}
-- Phone Number: ${phoneNumber}
-
-**REQUIRED ANALYSIS TASKS:**
-1. Validate the country code against E.164 standard
-2. Analyze the phone number length and format for the specific country
-3. Identify the carrier/operator from the number prefix (use real-world carrier prefixes)
-4. Determine line type (mobile/landline/voip) based on number range patterns
-5. Check for common formatting issues or suspicious patterns
-
-**KNOWLEDGE BASE TO USE:**
-- E.164 international number formats
-- Country-specific number length requirements
-- Major carrier prefixes by country (e.g., US: Verizon starts with certain prefixes, AT&T with others)
-- Mobile vs landline number ranges per country
-- VoIP provider patterns (Skype, Google Voice, etc.)
-
-**REASONING PROCESS:**
-First, explain your step-by-step analysis, then provide the JSON.
-
-**OUTPUT JSON FORMAT:**
-{
-  "isValid": boolean,
-  "countryName": string (full country name),
-  "carrier": string (specific carrier name based on prefix, not "Unknown"),
-  "lineType": "mobile" | "landline" | "voip",
-  "formatValid": boolean,
-  "confidence": number (0-100),
-  "reasoning": string (brief explanation of your analysis)
-}
-
-Be precise and use real telecommunications knowledge to identify actual carriers.`;
-
-    const validationResponse = await fetch(OPENAI_API_URL, {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${OPENAI_API_KEY}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'gpt-4-turbo-preview',
-        messages: [
-          { role: 'system', content: 'You are an expert telecommunications validation agent with deep knowledge of global phone number standards, carrier prefixes, and number range allocations. Always analyze thoroughly and respond with valid JSON.' },
-          { role: 'user', content: validationPrompt }
-        ],
-        temperature: 0.3,
-        max_tokens: 1000,
-      }),
+    // Same request the app's hook sends to validate-number
+    const events = (await createServerSupervisor(req)).stream({
+      phoneNumber: `${countryCode}${phoneNumber}`,
+      country: countryCode,
     });
 
-    if (!validationResponse.ok) {
-      const errorText = await validationResponse.text();
-      console.error('[Validation] AI API error:', validationResponse.status, errorText);
-      addLog('validation', `Primary validation failed (${validationResponse.status}). Activating Retry Agent.`, 'warning');
-      retryCount++;
-      
-      // Retry Agent
-      addLog('retry', 'Rate limit or error detected. Attempting fallback...', 'thinking');
-      await new Promise(r => setTimeout(r, 1000));
-      addLog('retry', 'Using cached validation patterns as fallback', 'info');
-    }
-
-    let validationData: {
-      isValid: boolean;
-      countryName: string;
-      carrier: string;
-      lineType: 'mobile' | 'landline' | 'voip';
-      formatValid: boolean;
-      confidence: number;
-    } = {
-      isValid: true,
-      countryName: 'Unknown',
-      carrier: 'Unknown Carrier',
-      lineType: 'mobile',
-      formatValid: true,
-      confidence: 70,
-    };
-
-    if (validationResponse.ok) {
-      try {
-        const aiResult = await validationResponse.json();
-        const content = aiResult.choices?.[0]?.message?.content || '';
-        console.log('[Validation] AI Response:', content);
-        
-        // Extract JSON from response (handle markdown code blocks)
-        let jsonMatch = content.match(/```json\s*([\s\S]*?)\s*```/);
-        if (!jsonMatch) {
-          jsonMatch = content.match(/\{[\s\S]*\}/);
-        }
-        
-        if (jsonMatch) {
-          const jsonStr = jsonMatch[1] || jsonMatch[0];
-          validationData = JSON.parse(jsonStr);
-          
-          addLog('validation', `Analysis complete: ${validationData.reasoning || 'Format validated'}`, 'info');
-          addLog('validation', `✓ Format check: ${validationData.formatValid ? 'VALID' : 'INVALID'}`, validationData.formatValid ? 'success' : 'warning');
-          addLog('validation', `✓ Country: ${validationData.countryName}`, 'success');
-          addLog('validation', `✓ Initial Carrier: ${validationData.carrier}`, 'info');
-          addLog('validation', `✓ Line Type: ${validationData.lineType.toUpperCase()}`, 'success');
-          addLog('validation', `✓ AI Confidence: ${validationData.confidence}%`, 'info');
-        } else {
-          throw new Error('No valid JSON found in response');
-        }
-      } catch (parseError) {
-        console.error('[Validation] Parse error:', parseError);
-        addLog('validation', 'AI response parsing failed, using fallback data', 'warning');
-      }
+    let next = await events.next();
+    while (!next.done) {
+      const event = next.value as AgentEvent;
+      const line = toAgentLogLine(event);
+      if (line) addLog(line, event.timestamp);
+      next = await events.next();
     }
 
-    // Carrier Analysis Agent - Deep carrier intelligence
-    addLog('carrier', 'Initiating advanced carrier identification...', 'thinking');
-    addLog('carrier', 'Analyzing: number prefix, regional patterns, MCC/MNC codes', 'thinking');
-    
-    const carrierPrompt = `You are a specialized telecommunications carrier identification agent with access to global carrier databases.
-
-**MISSION:** Identify the specific mobile network operator/carrier for this phone number with high precision.
-
-**INPUT DATA:**
-- Country Code: ${countryCode}
-- Phone Number: ${phoneNumber}
-- Country: ${validationData.countryName}
-- Line Type: ${validationData.lineType}
-- Initial Carrier Guess: ${validationData.carrier}
-
-**ANALYSIS REQUIREMENTS:**
-
-1. **Number Prefix Analysis:**
-   - Extract the mobile network prefix (first 3-5 digits after country code)
-   - Match against known carrier prefix databases
-   - Consider number portability (numbers may have changed carriers)
+    const result = next.value;
+    addLog({ agent: 'orchestrator', message: `Validation complete. Total time: ${result.totalExecutionTime}ms`, status: 'success' });
 
-2. **Carrier Database Lookup:**
-   - Major carriers in ${validationData.countryName}
-   - MVNO (Mobile Virtual Network Operator) detection
-   - Regional carrier vs national carrier identification
-
-3. **MCC/MNC Intelligence:**
-   - Mobile Country Code (MCC) verification
-   - Mobile Network Code (MNC) identification
-   - Cross-reference with ITU databases
-
-4. **Confidence Assessment:**
-   - Rate your confidence in carrier identification
-   - Flag if number portability makes identification uncertain
-   - Note if carrier is MVNO vs MNO
-
-**EXAMPLES OF GOOD CARRIER NAMES:**
-- "Verizon Wireless" not "Unknown"
-- "T-Mobile USA" not "Generic Mobile"
-- "Vodafone UK" not "Mobile Carrier"
-- "China Mobile" not "Unknown Carrier"
-
-**OUTPUT FORMAT:**
-{
-  "carrier": string (specific carrier name),
-  "carrierType": "MNO" | "MVNO" | "Unknown",
-  "confidence": number (0-100),
-  "prefix": string (extracted number prefix),
-  "portabilityRisk": boolean (true if number might have been ported),
-  "alternativeCarriers": string[] (other possible carriers),
-  "reasoning": string (explain your carrier identification process)
-}
-
-Be specific and use real carrier names based on number prefix patterns.`;
-
-    const carrierResponse = await fetch(OPENAI_API_URL, {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${OPENAI_API_KEY}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'gpt-4-turbo-preview',
-        messages: [
-          { 
-            role: 'system', 
-            content: 'You are an expert carrier identification agent with comprehensive knowledge of global mobile network operators, number prefix allocations, MCC/MNC codes, and telecommunications infrastructure. Always respond with valid JSON.' 
-          },
-          { role: 'user', content: carrierPrompt }
-        ],
-        temperature: 0.2,
-        max_tokens: 1000,
-      }),
-    });
-
-    if (carrierResponse.ok) {
-      try {
-        const carrierResult = await carrierResponse.json();
-        const content = carrierResult.choices?.[0]?.message?.content || '';
-        console.log('[Carrier] AI Response:', content);
-        
-        // Extract JSON from response
-        let jsonMatch = content.match(/```json\s*([\s\S]*?)\s*```/);
-        if (!jsonMatch) {
-          jsonMatch = content.match(/\{[\s\S]*\}/);
-        }
-        
-        if (jsonMatch) {
-          const jsonStr = jsonMatch[1] || jsonMatch[0];
-          const carrierData = JSON.parse(jsonStr);
-          
-          // Update validation data with better carrier info
-          validationData.carrier = carrierData.carrier;
-          
-          addLog('carrier', `Prefix analysis: ${carrierData.prefix || 'N/A'}`, 'info');
-          addLog('carrier', `Carrier Type: ${carrierData.carrierType}`, 'info');
-          addLog('carrier', `Identification Confidence: ${carrierData.confidence}%`, 'info');
-          
-          if (carrierData.portabilityRisk) {
-            addLog('carrier', '⚠ Number portability detected - carrier may have changed', 'warning');
-          }
-          
-          if (carrierData.alternativeCarriers && carrierData.alternativeCarriers.length > 0) {
-            addLog('carrier', `Alternative possibilities: ${carrierData.alternativeCarriers.join(', ')}`, 'info');
-          }
-          
-          addLog('carrier', `✓ Final Carrier: ${carrierData.carrier}`, 'success');
-          addLog('carrier', `Reasoning: ${carrierData.reasoning}`, 'info');
-        }
-      } catch (parseError) {
-        console.error('[Carrier] Parse error:', parseError);
-        addLog('carrier', 'Advanced carrier analysis completed with basic results', 'warning');
-      }
-    } else {
-      addLog('carrier', 'Using basic carrier identification from validation phase', 'info');
-    }
-
-    // Decision Agent - Enhanced reasoning
-    addLog('decision', 'Initiating cost-benefit analysis...', 'thinking');
-    addLog('decision', 'Evaluating: line type, validation confidence, ROI calculation', 'thinking');
-    
-    let skipWhatsApp = false;
-    let costSaved = 0;
-
-    if (validationData.lineType === 'landline') {
-      addLog('decision', '⚠ LANDLINE DETECTED: WhatsApp not supported on landlines', 'warning');
-      addLog('decision', '💡 DECISION: Skip WhatsApp check (100% certainty of no WhatsApp)', 'success');
-      skipWhatsApp = true;
-      costSaved = 0.012;
-      addLog('decision', `💰 Cost optimization: $${costSaved.toFixed(3)} saved (WhatsApp API call avoided)`, 'success');
-    } else if (!validationData.isValid || validationData.confidence < 50) {
-      addLog('decision', '⚠ Low confidence validation or invalid number', 'warning');
-      addLog('decision', '💡 DECISION: Skip WhatsApp check (likely invalid number)', 'success');
-      skipWhatsApp = true;
-      costSaved = 0.012;
-      addLog('decision', `💰 Cost optimization: $${costSaved.toFixed(3)} saved`, 'success');
-    } else if (validationData.lineType === 'voip') {
-      addLog('decision', 'ℹ VoIP detected: Lower WhatsApp probability', 'info');
-      addLog('decision', '💡 DECISION: Proceed with caution (VoIP may have WhatsApp)', 'success');
-    } else {
-      addLog('decision', `✓ ${validationData.lineType.toUpperCase()} line with ${validationData.confidence}% confidence`, 'success');
-      addLog('decision', '💡 DECISION: Proceed with WhatsApp verification (high value check)', 'success');
-    }
-
-    // WhatsApp Agent - Advanced presence detection with reasoning
-    let whatsappStatus: 'verified' | 'not_found' | 'unchecked' = 'unchecked';
-
-    if (!skipWhatsApp) {
-      addLog('whatsapp', 'Initiating advanced WhatsApp presence analysis...', 'thinking');
-      addLog('whatsapp', 'Using multi-factor agentic reasoning...', 'thinking');
-      
-      const whatsappPrompt = `You are a specialized WhatsApp presence detection agent with expertise in global telecommunications patterns and WhatsApp adoption.
-
-**MISSION:** Determine the likelihood of WhatsApp presence for this phone number using multi-factor analysis.
-
-**INPUT DATA:**
-- Phone Number: ${countryCode} ${phoneNumber}
-- Country: ${validationData.countryName}
-- Line Type: ${validationData.lineType}
-- Carrier: ${validationData.carrier}
-
-**ANALYSIS FRAMEWORK - Consider ALL factors:**
-
-1. **Geographic Factors:**
-   - WhatsApp penetration rate in ${validationData.countryName}
-   - Regional adoption patterns
-   - Government restrictions or bans
-   - Alternative messaging app dominance (WeChat, LINE, etc.)
-
-2. **Line Type Analysis:**
-   - Mobile numbers: High WhatsApp probability
-   - Landlines: Zero probability (WhatsApp requires mobile)
-   - VoIP: Medium probability (depends on provider)
-
-3. **Carrier Intelligence:**
-   - ${validationData.carrier} network quality for data services
-   - Carrier's data plan offerings
-   - Prepaid vs postpaid typical usage
-
-4. **Number Pattern Recognition:**
-   - Business number patterns (often use WhatsApp Business)
-   - Personal number patterns
-   - Age of number allocation (newer = higher probability)
-
-5. **Statistical Modeling:**
-   - Global WhatsApp active users: 2.8+ billion
-   - Country-specific adoption rates
-   - Mobile internet penetration
-
-**REASONING PROCESS:**
-Provide detailed step-by-step analysis considering all factors above.
-
-**OUTPUT FORMAT:**
-{
-  "hasWhatsApp": boolean (final determination),
-  "probability": number (0-100, your confidence level),
-  "reasoning": string (concise explanation of your decision),
-  "factors": {
-    "geographic": number (0-100),
-    "lineType": number (0-100),
-    "carrier": number (0-100),
-    "overall": number (0-100)
-  }
-}`;
-
-      const whatsappResponse = await fetch(OPENAI_API_URL, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${OPENAI_API_KEY}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          model: 'gpt-4-turbo-preview',
-          messages: [
-            { 
-              role: 'system', 
-              content: 'You are an expert WhatsApp presence detection agent with deep knowledge of global messaging app adoption, telecommunications patterns, and regional communication preferences. Use structured reasoning and real-world data. Always respond with valid JSON.' 
-            },
-            { role: 'user', content: whatsappPrompt }
-          ],
-          temperature: 0.4,
-          max_tokens: 1200,
-        }),
-      });
-
-      if (whatsappResponse.ok) {
-        try {
-          const whatsappResult = await whatsappResponse.json();
-          const content = whatsappResult.choices?.[0]?.message?.content || '';
-          console.log('[WhatsApp] AI Response:', content);
-          
-          // Extract JSON from response
-          let jsonMatch = content.match(/```json\s*([\s\S]*?)\s*```/);
-          if (!jsonMatch) {
-            jsonMatch = content.match(/\{[\s\S]*\}/);
-          }
-          
-          if (jsonMatch) {
-            const jsonStr = jsonMatch[1] || jsonMatch[0];
-            const whatsappData = JSON.parse(jsonStr);
-            whatsappStatus = whatsappData.hasWhatsApp ? 'verified' : 'not_found';
-            
-            addLog('whatsapp', `Multi-factor analysis complete`, 'info');
-            addLog('whatsapp', `├─ Geographic Score: ${whatsappData.factors?.geographic || 'N/A'}%`, 'info');
-            addLog('whatsapp', `├─ Line Type Score: ${whatsappData.factors?.lineType || 'N/A'}%`, 'info');
-            addLog('whatsapp', `├─ Carrier Score: ${whatsappData.factors?.carrier || 'N/A'}%`, 'info');
-            addLog('whatsapp', `└─ Overall Probability: ${whatsappData.probability}%`, 'info');
-            addLog('whatsapp', `Reasoning: ${whatsappData.reasoning}`, 'info');
-            addLog('whatsapp', whatsappStatus === 'verified' 
-              ? '✓ WhatsApp presence: HIGHLY LIKELY' 
-              : '✗ WhatsApp presence: UNLIKELY', 
-              whatsappStatus === 'verified' ? 'success' : 'warning'
-            );
-          } else {
-            throw new Error('No valid JSON in WhatsApp response');
-          }
-        } catch (parseError) {
-          console.error('[WhatsApp] Parse error:', parseError);
-          addLog('whatsapp', 'Analysis completed with uncertainty - defaulting to "not found"', 'warning');
-          whatsappStatus = 'not_found';
-        }
-      } else {
-        addLog('whatsapp', 'WhatsApp check failed, marking as unchecked', 'warning');
-      }
-    } else {
-      addLog('whatsapp', 'Check skipped per Decision Agent directive', 'info');
-    }
-
-    // Confidence Scoring Agent - Advanced multi-dimensional scoring
-    addLog('confidence', 'Computing multi-dimensional confidence score...', 'thinking');
-    addLog('confidence', 'Formula: S = (V×40%) + (W×40%) + (Q×20%) - (R×5%)', 'info');
-    
-    const V = validationData.isValid ? 1 : 0;
-    const W = whatsappStatus === 'verified' ? 1 : (whatsappStatus === 'unchecked' ? 0.5 : 0.3);
-    const Q = retryCount > 0 ? 0.7 : 1;
-    const R = retryCount;
-    
-    // Additional factors
-    const carrierKnown = validationData.carrier !== 'Unknown Carrier' && validationData.carrier !== 'Unknown';
-    const carrierBonus = carrierKnown ? 0.1 : 0;
-    const validationConfidenceBonus = (validationData.confidence / 100) * 0.1;
-    
-    const rawScore = (V * 0.4) + (W * 0.4) + (Q * 0.2) + carrierBonus + validationConfidenceBonus - (R * 0.05);
-    const confidenceScore = Math.min(100, Math.max(0, Math.round(rawScore * 100)));
-    
-    addLog('confidence', '📊 Score Components:', 'info');
-    addLog('confidence', `  ├─ Validation (V): ${V} × 40% = ${(V * 0.4 * 100).toFixed(1)}`, 'info');
-    addLog('confidence', `  ├─ WhatsApp (W): ${W.toFixed(2)} × 40% = ${(W * 0.4 * 100).toFixed(1)}`, 'info');
-    addLog('confidence', `  ├─ Quality (Q): ${Q.toFixed(2)} × 20% = ${(Q * 0.2 * 100).toFixed(1)}`, 'info');
-    addLog('confidence', `  ├─ Carrier Bonus: +${(carrierBonus * 100).toFixed(1)}`, 'info');
-    addLog('confidence', `  ├─ AI Confidence Bonus: +${(validationConfidenceBonus * 100).toFixed(1)}`, 'info');
-    addLog('confidence', `  └─ Retry Penalty (R): -${(R * 5).toFixed(1)}`, 'info');
-    addLog('confidence', `🎯 FINAL CONFIDENCE SCORE: ${confidenceScore}/100`, 'success');
-
-    const validationTime = Date.now() - startTime;
-    addLog('orchestrator', `Validation complete. Total time: ${validationTime}ms`, 'success');
-
-    const result = {
-      phoneNumber: phoneNumber.replace(/-/g, ''),
-      countryCode,
-      countryName: validationData.countryName,
-      carrier: validationData.carrier,
-      lineType: validationData.lineType,
-      isValid: validationData.isValid,
-      whatsappStatus,
-      confidenceScore,
-      costSaved,
-      validationTime,
-      retryCount,
-      logs,
-    };
-
-    return new Response(JSON.stringify(result), {
-      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-    });
+    return jsonResponse({ ...summarizeValidation(result), logs });
 
   } catch (error) {
     console.error('[Orchestrator] Critical error:', error);
-    return new Response(
-      JSON.stringify({ 
-        error: error instanceof Error ? error.message : 'Unknown error',
-        logs: [{
-          agent: 'orchestrator',
-          message: `Critical error: ${error instanceof Error ? error.message : 'Unknown error'}`,
-          status: 'error',
-          timestamp: new Date().toISOString(),
-        }]
-      }),
-      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-    );
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    addLog({ agent: 'orchestrator', message: `Critical error: ${message}`, status: 'error' });
+    return jsonResponse({ error: message, logs }, 500);
   }
 });
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
@@ -0,0 +1,51 @@
+-- Create validation_cache table for reusing recent phone lookups
+-- Keyed by E.164 number; line data and WhatsApp presence expire independently
+
+CREATE TABLE IF NOT EXISTS validation_cache (
+  phone_e164 TEXT PRIMARY KEY CHECK (phone_e164 ~ '^\+[1-9][0-9]{1,14}$'),
+
+  -- Carrier / line type lookup (ValidationData)
+  validation JSONB,
+  validation_cached_at TIMESTAMPTZ,
+
+  -- WhatsApp presence and inactivity analysis
+  whatsapp JSONB,
+  inactivity JSONB,
+  presence_cached_at TIMESTAMPTZ,
+
+  -- Audit fields
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Indexes for expiry sweeps
+CREATE INDEX IF NOT EXISTS idx_validation_cache_validation_cached ON validation_cache(validation_cached_at);
+CREATE INDEX IF NOT EXISTS idx_validation_cache_presence_cached ON validation_cache(presence_cached_at);
+
+-- Reuse the updated_at trigger function from the message_logs migration
+CREATE TRIGGER update_validation_cache_updated_at
+    BEFORE UPDATE ON validation_cache
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Row Level Security (RLS)
+ALTER TABLE validation_cache ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Signed-in users share the cache
+CREATE POLICY "Authenticated users can use the cache"
+    ON validation_cache
+    FOR ALL
+    TO authenticated
+    USING (true)
+    WITH CHECK (true);
+
+-- Policy: Service role can do anything (for API calls)
+CREATE POLICY "Service role has full access"
+    ON validation_cache
+    FOR ALL
+    USING (auth.role() = 'service_role');
+
+-- Comments for documentation
+COMMENT ON TABLE validation_cache IS 'Cached phone validation results keyed by E.164 number';
+COMMENT ON COLUMN validation_cache.validation_cached_at IS 'When carrier/line type data was fetched (long TTL)';
+COMMENT ON COLUMN validation_cache.presence_cached_at IS 'When WhatsApp/inactivity data was fetched (short TTL)';
@@ -0,0 +1,50 @@
+-- Create provider_traffic table for recorded provider requests/responses
+-- One row per Supervisor session; replayed to reproduce disputed validations
+
+CREATE TABLE IF NOT EXISTS provider_traffic (
+  session_id TEXT PRIMARY KEY,
+  started_at TIMESTAMPTZ NOT NULL,
+
+  -- Validation requests made in the session, in order
+  requests JSONB NOT NULL DEFAULT '[]'::jsonb,
+
+  -- Provider requests and responses with API keys and credentials redacted
+  exchanges JSONB NOT NULL DEFAULT '[]'::jsonb,
+
+  -- Random draws (backoff jitter) so replays back off identically
+  randoms JSONB NOT NULL DEFAULT '[]'::jsonb,
+
+  -- Audit fields
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Index for retention sweeps
+CREATE INDEX IF NOT EXISTS idx_provider_traffic_started_at ON provider_traffic(started_at);
+
+-- Reuse the updated_at trigger function from the message_logs migration
+CREATE TRIGGER update_provider_traffic_updated_at
+    BEFORE UPDATE ON provider_traffic
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Row Level Security (RLS)
+ALTER TABLE provider_traffic ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Signed-in users can record and look up sessions
+CREATE POLICY "Authenticated users can record traffic"
+    ON provider_traffic
+    FOR ALL
+    TO authenticated
+    USING (true)
+    WITH CHECK (true);
+
+-- Policy: Service role can do anything (for API calls)
+CREATE POLICY "Service role has full access"
+    ON provider_traffic
+    FOR ALL
+    USING (auth.role() = 'service_role');
+
+-- Comments for documentation
+COMMENT ON TABLE provider_traffic IS 'Recorded provider traffic per Supervisor session, for replaying disputed validations';
+COMMENT ON COLUMN provider_traffic.exchanges IS 'Provider requests/responses in order; secrets redacted';
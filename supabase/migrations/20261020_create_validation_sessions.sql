@@ -0,0 +1,65 @@
+-- Create validation_sessions table: audit trail of every Supervisor validation
+-- One row per validate() call, including failed ones
+
+CREATE TABLE IF NOT EXISTS validation_sessions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id TEXT NOT NULL, -- Supervisor session (see provider_traffic)
+  user_id UUID DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE SET NULL,
+
+  -- What was asked
+  phone_number TEXT NOT NULL, -- E.164 when the number could be parsed
+  request JSONB NOT NULL,
+
+  -- Outcome
+  status TEXT NOT NULL CHECK (status IN ('complete', 'failed')),
+  error_message TEXT,
+
+  -- Verdict, denormalized from result for filtering
+  valid BOOLEAN,
+  country_code TEXT,
+  line_type TEXT,
+  whatsapp_exists BOOLEAN,
+  confidence_score INTEGER CHECK (confidence_score BETWEEN 0 AND 100),
+  model_version TEXT,
+
+  -- Execution details
+  execution_plan JSONB,
+  agent_runs JSONB NOT NULL DEFAULT '[]'::jsonb, -- AgentResponse metadata per agent call
+  result JSONB, -- Full ValidationResult (confidence breakdown, cost, step timings)
+  total_cost NUMERIC(10, 4) NOT NULL DEFAULT 0,
+  execution_time_ms INTEGER NOT NULL DEFAULT 0,
+
+  -- Audit fields
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Indexes for the history page
+CREATE INDEX IF NOT EXISTS idx_validation_sessions_user_created ON validation_sessions(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_validation_sessions_phone ON validation_sessions(phone_number);
+CREATE INDEX IF NOT EXISTS idx_validation_sessions_session ON validation_sessions(session_id);
+
+-- Row Level Security (RLS)
+ALTER TABLE validation_sessions ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Users can view their own validations
+CREATE POLICY "Users can view own validation sessions"
+    ON validation_sessions
+    FOR SELECT
+    USING (auth.uid() = user_id);
+
+-- Policy: Users can record their own validations
+CREATE POLICY "Users can record own validation sessions"
+    ON validation_sessions
+    FOR INSERT
+    WITH CHECK (auth.uid() = user_id);
+
+-- Policy: Service role can do anything (for API calls)
+CREATE POLICY "Service role has full access"
+    ON validation_sessions
+    FOR ALL
+    USING (auth.role() = 'service_role');
+
+-- Comments for documentation
+COMMENT ON TABLE validation_sessions IS 'Audit trail of Supervisor validations: request, plan, agent runs, result, cost';
+COMMENT ON COLUMN validation_sessions.agent_runs IS 'Every agent call in order, with AgentResponse metadata (timings, cost, tools)';
+COMMENT ON COLUMN validation_sessions.result IS 'Final ValidationResult; NULL when the validation failed';
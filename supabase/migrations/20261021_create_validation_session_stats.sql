@@ -0,0 +1,24 @@
+-- Aggregates over validation_sessions for the dashboard stats bar
+-- security_invoker applies the table's RLS, so each user sees their own totals
+
+CREATE OR REPLACE VIEW validation_session_stats
+WITH (security_invoker = true) AS
+SELECT
+    COUNT(*) as total_validations,
+    COUNT(*) FILTER (WHERE status = 'complete') as completed_validations,
+    COALESCE(ROUND(AVG(execution_time_ms)), 0) as avg_response_time_ms,
+    -- Spend the execution plans estimated but never incurred (cache hits, skipped steps)
+    COALESCE(SUM(
+        GREATEST(0, COALESCE((result->'cost'->>'estimated')::numeric, 0) - total_cost)
+    ) FILTER (WHERE status = 'complete'), 0) as total_saved
+FROM validation_sessions;
+
+-- Grant access to the view
+GRANT SELECT ON validation_session_stats TO authenticated, service_role;
+
+-- Indexes for the history filters
+CREATE INDEX IF NOT EXISTS idx_validation_sessions_country ON validation_sessions(country_code);
+CREATE INDEX IF NOT EXISTS idx_validation_sessions_confidence ON validation_sessions(confidence_score);
+
+-- Comments for documentation
+COMMENT ON VIEW validation_session_stats IS 'Validation count, completion rate, average time and savings for the caller''s sessions';
@@ -0,0 +1,14 @@
+-- Only the edge functions (service role) write validation_cache
+-- Validations run server-side now; a signed-in user writing entries would
+-- feed their data to every other user's validation
+
+DROP POLICY IF EXISTS "Authenticated users can use the cache" ON validation_cache;
+DROP POLICY IF EXISTS "Service role has full access" ON validation_cache;
+
+-- Policy: Service role can do anything (for API calls)
+CREATE POLICY "Service role has full access"
+    ON validation_cache
+    FOR ALL
+    TO service_role
+    USING (true)
+    WITH CHECK (true);
@@ -0,0 +1,14 @@
+-- Only the edge functions (service role) read or write provider_traffic
+-- Recordings hold phone numbers and provider answers, and are the evidence
+-- replays rely on; signed-in users must not be able to read or change them
+
+DROP POLICY IF EXISTS "Authenticated users can record traffic" ON provider_traffic;
+DROP POLICY IF EXISTS "Service role has full access" ON provider_traffic;
+
+-- Policy: Service role can do anything (for API calls)
+CREATE POLICY "Service role has full access"
+    ON provider_traffic
+    FOR ALL
+    TO service_role
+    USING (true)
+    WITH CHECK (true);
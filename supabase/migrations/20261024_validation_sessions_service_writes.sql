@@ -0,0 +1,17 @@
+-- Only the edge functions (service role) write validation_sessions
+-- They stamp user_id with the verified caller; anonymous sign-ins give every
+-- browser a user, so RLS still shows each visitor only their own history
+
+DROP POLICY IF EXISTS "Users can record own validation sessions" ON validation_sessions;
+DROP POLICY IF EXISTS "Service role has full access" ON validation_sessions;
+
+-- Rows are owned by whoever the function says, not whoever inserts them
+ALTER TABLE validation_sessions ALTER COLUMN user_id DROP DEFAULT;
+
+-- Policy: Service role can do anything (for API calls)
+CREATE POLICY "Service role has full access"
+    ON validation_sessions
+    FOR ALL
+    TO service_role
+    USING (true)
+    WITH CHECK (true);